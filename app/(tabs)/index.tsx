@@ -7,27 +7,70 @@
  * @module app/(tabs)/index
  */
 
-import { router } from 'expo-router';
-import React, { useCallback } from 'react';
+import { router, useFocusEffect } from 'expo-router';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import { Alert, Platform, ScrollView, StyleSheet, TouchableOpacity, View } from 'react-native';
 import { AuthorizationStatus } from 'react-native-device-activity';
 
+import { OpenLimitCard } from '@/components/open-limit-card';
+import { PauseControl } from '@/components/pause-control';
+import { QuickSessionControl } from '@/components/quick-session-control';
+import { ScheduleCountdown } from '@/components/schedule-countdown';
 import { SelectedAppsIcons } from '@/components/selected-apps-icons';
 import { ThemedText } from '@/components/themed-text';
 import { ThemedView } from '@/components/themed-view';
 import { TimeDial } from '@/components/time-dial';
 import { TopBar } from '@/components/top-bar';
+import { UnlockChallengeModal } from '@/components/unlock-challenge-modal';
+import { UsageLimitCard } from '@/components/usage-limit-card';
 import { IconSymbol } from '@/components/ui/icon-symbol';
 import { Colors } from '@/constants/theme';
 import { useBlocker } from '@/contexts/blocker-context';
 import { usePremium } from '@/hooks/use-premium';
+import { useSettings } from '@/hooks/use-settings';
 import deviceActivityService from '@/services/device-activity.service';
-import { BlockerSchedule, DAY_NAMES } from '@/types/blocker';
+import { strictModeService, StrictModeError } from '@/services/strict-mode.service';
+import { BlockerSchedule, UnlockOutcome } from '@/types/blocker';
+import { getOpenResultMessage } from '@/utils/openLimits';
+import { computeStreaks } from '@/utils/sessionHistory';
+import { formatDayAndTime, formatScheduleDays, formatScheduleTimes } from '@/utils/timeFormatter';
+import { getUnlockChallenge } from '@/utils/unlockChallenge';
+
+type UnlockAction = 'stop' | 'delete';
+
+/** Break lengths offered when pausing (minutes) */
+const PAUSE_DURATIONS = [1, 5, 10, 15];
+
+/** How often the daily goal progress is recomputed */
+const STREAK_REFRESH_INTERVAL_MS = 60 * 1000;
+
+/** Stop or delete waiting on the unlock challenge */
+interface PendingUnlock {
+  schedule: BlockerSchedule;
+  action: UnlockAction;
+}
+
+/**
+ * Explain a refused action, or report an unexpected failure
+ */
+function showActionError(error: unknown, fallbackTitle: string): void {
+  if (error instanceof StrictModeError) {
+    Alert.alert('Strict Mode', error.message, [{ text: 'OK' }]);
+    return;
+  }
+
+  console.error('[HomeScreen] Error:', error);
+  Alert.alert(fallbackTitle, 'Please try again.', [{ text: 'OK' }]);
+}
 
 export default function HomeScreen() {
   const {
     state,
     schedules,
+    sessions,
+    blocklists,
+    usageLimits,
+    openLimits,
     scheduleUpdatedAt,
     startSchedule,
     stopSchedule,
@@ -36,9 +79,38 @@ export default function HomeScreen() {
     isScheduleWaiting,
     authorizationStatus,
     requestAuthorization,
+    recordUnlockAttempt,
+    pauseBlocking,
+    resumeBlocking,
+    startQuickSession,
+    stopQuickSession,
+    openLimitedApps,
   } = useBlocker();
 
+  const [pendingUnlock, setPendingUnlock] = useState<PendingUnlock | null>(null);
+
   const { hasPremium } = usePremium();
+  const { settings, reload: reloadSettings } = useSettings();
+
+  // Goal may have changed on the Settings tab
+  useFocusEffect(
+    useCallback(() => {
+      reloadSettings();
+    }, [reloadSettings])
+  );
+
+  const [now, setNow] = useState(() => Date.now());
+
+  // Keep today's progress following the running session and the calendar day
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), STREAK_REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  const streak = useMemo(
+    () => computeStreaks(sessions, settings.dailyGoalMinutes, now),
+    [sessions, settings.dailyGoalMinutes, now]
+  );
 
   // --------------------------------------------------------------------------
   // Event Handlers
@@ -51,39 +123,144 @@ export default function HomeScreen() {
     });
   }, []);
 
+  /**
+   * Finish an unlock attempt on an active schedule
+   * Completed attempts go on to stop or delete the schedule.
+   */
+  const finishUnlock = useCallback(
+    async (schedule: BlockerSchedule, action: UnlockAction, outcome: UnlockOutcome) => {
+      const challenge = getUnlockChallenge(schedule.unlockChallenge);
+
+      try {
+        await recordUnlockAttempt(schedule.id, challenge.type, outcome);
+        if (outcome !== 'completed') return;
+
+        if (action === 'delete') {
+          await deleteSchedule(schedule.id);
+        } else {
+          await stopSchedule(schedule.id);
+        }
+      } catch (error) {
+        showActionError(error, 'Failed');
+      }
+    },
+    [recordUnlockAttempt, stopSchedule, deleteSchedule]
+  );
+
   const handleStopSchedule = useCallback((schedule: BlockerSchedule) => {
     const isActive = isScheduleActive(schedule.id);
     const isWaiting = isScheduleWaiting(schedule.id);
+
+    // Explain up front instead of asking for a confirmation that will be refused
+    try {
+      strictModeService.assertAllowed('stop', [schedule.id]);
+    } catch (error) {
+      showActionError(error, 'Failed');
+      return;
+    }
+
+    if (isActive && getUnlockChallenge(schedule.unlockChallenge).type !== 'none') {
+      setPendingUnlock({ schedule, action: 'stop' });
+      return;
+    }
     
     const title = isActive ? 'Stop Blocking' : 'Cancel Schedule';
     const message = isActive 
       ? 'Do you want to stop blocking apps for this schedule?' 
       : 'Do you want to cancel this waiting schedule?';
 
+    // No challenge was shown, so this is not an unlock attempt
     Alert.alert(title, message, [
       { text: 'Cancel', style: 'cancel' },
       {
         text: isActive ? 'Stop' : 'Cancel Schedule',
         style: 'destructive',
-        onPress: () => stopSchedule(schedule.id),
+        onPress: () => stopSchedule(schedule.id).catch((error) => showActionError(error, 'Failed')),
       },
     ]);
   }, [isScheduleActive, isScheduleWaiting, stopSchedule]);
 
   const handleDeleteSchedule = useCallback(
     (schedule: BlockerSchedule) => {
+      // Deleting an active schedule stops it, so it goes through the same challenge
+      if (isScheduleActive(schedule.id) && getUnlockChallenge(schedule.unlockChallenge).type !== 'none') {
+        try {
+          strictModeService.assertAllowed('delete', [schedule.id]);
+          setPendingUnlock({ schedule, action: 'delete' });
+        } catch (error) {
+          showActionError(error, 'Failed');
+        }
+        return;
+      }
+
       Alert.alert('Delete Schedule', 'Are you sure you want to delete this schedule?', [
         { text: 'Cancel', style: 'cancel' },
         {
           text: 'Delete',
           style: 'destructive',
-          onPress: () => deleteSchedule(schedule.id),
+          onPress: () => deleteSchedule(schedule.id).catch((error) => showActionError(error, 'Failed')),
         },
       ]);
     },
-    [deleteSchedule]
+    [isScheduleActive, deleteSchedule]
+  );
+
+  const handleUnlockComplete = useCallback(() => {
+    if (!pendingUnlock) return;
+    setPendingUnlock(null);
+    finishUnlock(pendingUnlock.schedule, pendingUnlock.action, 'completed');
+  }, [pendingUnlock, finishUnlock]);
+
+  const handleUnlockGiveUp = useCallback(() => {
+    if (!pendingUnlock) return;
+    setPendingUnlock(null);
+    finishUnlock(pendingUnlock.schedule, pendingUnlock.action, 'gave_up');
+  }, [pendingUnlock, finishUnlock]);
+
+  const handlePause = useCallback(
+    (remainingSeconds: number) => {
+      const options = PAUSE_DURATIONS.filter((minutes) => minutes * 60 <= remainingSeconds);
+
+      Alert.alert('Take a Break', 'Blocking resumes automatically when the break ends.', [
+        ...options.map((minutes) => ({
+          text: `${minutes} min`,
+          onPress: async () => {
+            try {
+              const paused = await pauseBlocking(minutes);
+              if (!paused) {
+                Alert.alert('No Breaks Left', 'You have used today\'s break time.', [{ text: 'OK' }]);
+              }
+            } catch (error) {
+              showActionError(error, 'Failed');
+            }
+          },
+        })),
+        { text: 'Cancel', style: 'cancel' as const },
+      ]);
+    },
+    [pauseBlocking]
   );
 
+  /**
+   * Ask for Screen Time authorization if needed
+   *
+   * @returns false if blocking cannot start without it
+   */
+  const ensureAuthorized = useCallback(async (): Promise<boolean> => {
+    if (Platform.OS !== 'ios' || !deviceActivityService.isAvailable()) return true;
+    if (authorizationStatus === AuthorizationStatus.approved) return true;
+
+    await requestAuthorization();
+    const newStatus = deviceActivityService.getAuthorizationStatus();
+    if (newStatus !== AuthorizationStatus.approved) {
+      Alert.alert('Authorization Required', 'Screen Time authorization is required.', [
+        { text: 'OK' },
+      ]);
+      return false;
+    }
+    return true;
+  }, [authorizationStatus, requestAuthorization]);
+
   const handleStartSchedule = useCallback(
     async (schedule: BlockerSchedule) => {
       if (!schedule.familyActivitySelectionId) {
@@ -92,19 +269,18 @@ export default function HomeScreen() {
       }
 
       try {
-        if (Platform.OS === 'ios' && deviceActivityService.isAvailable()) {
-          if (authorizationStatus !== AuthorizationStatus.approved) {
-            await requestAuthorization();
-            const newStatus = deviceActivityService.getAuthorizationStatus();
-            if (newStatus !== AuthorizationStatus.approved) {
-              Alert.alert('Authorization Required', 'Screen Time authorization is required.', [
-                { text: 'OK' },
-              ]);
-              return;
-            }
-          }
+        if (!(await ensureAuthorized())) return;
+
+        const result = await startSchedule(schedule.id);
+        if (result && (result.status === 'ended' || result.status === 'wrong_day')) {
+          Alert.alert(
+            'Not Scheduled Now',
+            result.nextOccurrence
+              ? `This schedule's window has passed. It next runs ${formatDayAndTime(result.nextOccurrence.start)}.`
+              : 'This schedule has no upcoming window.',
+            [{ text: 'OK' }]
+          );
         }
-        await startSchedule(schedule.id);
       } catch (error) {
         console.error('[HomeScreen] Error starting schedule:', error);
         if (__DEV__) {
@@ -114,7 +290,48 @@ export default function HomeScreen() {
         }
       }
     },
-    [authorizationStatus, requestAuthorization, startSchedule]
+    [ensureAuthorized, startSchedule]
+  );
+
+  const handleStartQuickSession = useCallback(
+    async (minutes: number) => {
+      try {
+        if (!(await ensureAuthorized())) return;
+
+        const started = await startQuickSession(minutes);
+        if (!started) {
+          Alert.alert('Already Focusing', 'A focus session is already running.', [{ text: 'OK' }]);
+        }
+      } catch (error) {
+        showActionError(error, 'Unable to start focus session.');
+      }
+    },
+    [ensureAuthorized, startQuickSession]
+  );
+
+  const handleStopQuickSession = useCallback(() => {
+    Alert.alert('End Focus Session', 'Stop blocking these apps now?', [
+      { text: 'Keep Focusing', style: 'cancel' },
+      {
+        text: 'Stop',
+        style: 'destructive',
+        onPress: () => stopQuickSession().catch((error) => showActionError(error, 'Failed')),
+      },
+    ]);
+  }, [stopQuickSession]);
+
+  const handleOpenLimitedApps = useCallback(
+    async (limitId: string) => {
+      try {
+        const message = getOpenResultMessage(await openLimitedApps(limitId));
+        if (message) {
+          Alert.alert('Still Blocked', message, [{ text: 'OK' }]);
+        }
+      } catch (error) {
+        showActionError(error, 'Failed to Open');
+      }
+    },
+    [openLimitedApps]
   );
 
   // --------------------------------------------------------------------------
@@ -127,18 +344,38 @@ export default function HomeScreen() {
 
       <ScrollView style={styles.scrollView} contentContainerStyle={styles.content}>
         {/* Timer Display */}
-        <TimeDial savedTime={state.savedTime} />
+        <TimeDial savedTime={state.savedTime} streak={streak} />
+
+        <QuickSessionControl
+          quickSession={state.quickSession}
+          onStart={handleStartQuickSession}
+          onStop={handleStopQuickSession}
+        />
+
+        <PauseControl
+          state={state}
+          budgetMinutes={settings.dailyPauseBudgetMinutes}
+          onPause={handlePause}
+          onResume={resumeBlocking}
+        />
 
         {/* Schedule Section */}
         <View style={styles.section}>
           <View style={styles.sectionHeader}>
             <ThemedText type="subtitle">Blocking Schedules</ThemedText>
-            <TouchableOpacity
-              style={styles.addButton}
-              onPress={() => router.push('/modal?type=schedule')}
-            >
-              <IconSymbol name="plus.circle.fill" size={24} color={Colors.dark.primary} />
-            </TouchableOpacity>
+            <View style={styles.sectionActions}>
+              {schedules.length > 0 && (
+                <TouchableOpacity style={styles.addButton} onPress={() => router.push('/timeline')}>
+                  <IconSymbol name="calendar" size={24} color={Colors.dark.primary} />
+                </TouchableOpacity>
+              )}
+              <TouchableOpacity
+                style={styles.addButton}
+                onPress={() => router.push('/modal?type=schedule')}
+              >
+                <IconSymbol name="plus.circle.fill" size={24} color={Colors.dark.primary} />
+              </TouchableOpacity>
+            </View>
           </View>
 
           <ThemedText style={styles.sectionDescription}>
@@ -163,10 +400,11 @@ export default function HomeScreen() {
                     onPress={() => router.push(`/modal?type=schedule&scheduleId=${schedule.id}`)}
                   >
                     <View style={styles.scheduleItemContent}>
+                      {schedule.name.length > 0 && (
+                        <ThemedText style={styles.scheduleName}>{schedule.name}</ThemedText>
+                      )}
                       <View style={styles.scheduleHeader}>
-                        <ThemedText style={styles.scheduleTime}>
-                          {schedule.startTime} - {schedule.endTime}
-                        </ThemedText>
+                        <ThemedText style={styles.scheduleTime}>{formatScheduleTimes(schedule)}</ThemedText>
                         {isActive && (
                           <View style={styles.statusBadge}>
                             <ThemedText style={styles.statusBadgeText}>BLOCKING</ThemedText>
@@ -177,16 +415,28 @@ export default function HomeScreen() {
                             <ThemedText style={styles.statusBadgeTextWaiting}>WAITING</ThemedText>
                           </View>
                         )}
+                        {schedule.blockMode === 'allow' && (
+                          <View style={[styles.statusBadge, styles.statusBadgeStrict]}>
+                            <ThemedText style={styles.statusBadgeTextStrict}>ALLOW ONLY</ThemedText>
+                          </View>
+                        )}
+                        {schedule.strict && (
+                          <View style={[styles.statusBadge, styles.statusBadgeStrict]}>
+                            <IconSymbol name="lock.fill" size={10} color={Colors.dark.text} />
+                            <ThemedText style={styles.statusBadgeTextStrict}>STRICT</ThemedText>
+                          </View>
+                        )}
                       </View>
-                      {schedule.daysOfWeek.length > 0 && (
-                        <ThemedText style={styles.scheduleDays}>
-                          {schedule.daysOfWeek.map((d) => DAY_NAMES[d]).join(', ')}
-                        </ThemedText>
+                      {formatScheduleDays(schedule).length > 0 && (
+                        <ThemedText style={styles.scheduleDays}>{formatScheduleDays(schedule)}</ThemedText>
                       )}
+                      <ScheduleCountdown schedule={schedule} />
                       {hasApps ? (
                         <SelectedAppsIcons
                           key={`icons-${schedule.id}-${scheduleUpdatedAt}`}
                           familyActivitySelectionId={schedule.familyActivitySelectionId}
+                          blocklistName={blocklists.find((b) => b.id === schedule.blocklistId)?.name}
+                          webDomainCount={schedule.webDomains?.length}
                           iconSize={36}
                           maxIcons={5}
                           height={44}
@@ -238,7 +488,51 @@ export default function HomeScreen() {
             </ThemedText>
           )}
         </View>
+
+        {/* Usage Limits Section */}
+        <View style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <ThemedText type="subtitle">Usage Limits</ThemedText>
+            <TouchableOpacity style={styles.addButton} onPress={() => router.push('/usage-limits')}>
+              <IconSymbol name="plus.circle.fill" size={24} color={Colors.dark.primary} />
+            </TouchableOpacity>
+          </View>
+
+          <ThemedText style={styles.sectionDescription}>
+            Minutes or opens per day before apps are blocked until midnight.
+          </ThemedText>
+
+          {usageLimits.map((limit) => (
+            <UsageLimitCard
+              key={limit.id}
+              limit={limit}
+              updatedAt={scheduleUpdatedAt}
+              onPress={() => router.push('/usage-limits')}
+            />
+          ))}
+          {openLimits.map((limit) => (
+            <OpenLimitCard
+              key={limit.id}
+              limit={limit}
+              blocklist={blocklists.find((b) => b.id === limit.blocklistId)}
+              updatedAt={scheduleUpdatedAt}
+              onOpen={() => handleOpenLimitedApps(limit.id)}
+            />
+          ))}
+          {usageLimits.length === 0 && openLimits.length === 0 && (
+            <ThemedText style={styles.emptyState}>
+              No limit yet. Tap + to add one.
+            </ThemedText>
+          )}
+        </View>
       </ScrollView>
+
+      <UnlockChallengeModal
+        visible={pendingUnlock !== null}
+        challenge={getUnlockChallenge(pendingUnlock?.schedule.unlockChallenge)}
+        onComplete={handleUnlockComplete}
+        onGiveUp={handleUnlockGiveUp}
+      />
     </ThemedView>
   );
 }
@@ -272,6 +566,10 @@ const styles = StyleSheet.create({
     fontSize: 14,
     opacity: 0.7,
   },
+  sectionActions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
   addButton: {
     padding: 4,
   },
@@ -302,10 +600,15 @@ const styles = StyleSheet.create({
   },
   scheduleHeader: {
     flexDirection: 'row',
+    flexWrap: 'wrap',
     alignItems: 'center',
     gap: 8,
     marginBottom: 4,
   },
+  scheduleName: {
+    fontSize: 14,
+    opacity: 0.7,
+  },
   scheduleTime: {
     fontSize: 18,
     fontWeight: '600',
@@ -319,6 +622,14 @@ const styles = StyleSheet.create({
   statusBadgeWaiting: {
     backgroundColor: '#FFB800',
   },
+  statusBadgeStrict: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 3,
+    backgroundColor: 'transparent',
+    borderWidth: 1,
+    borderColor: '#666',
+  },
   statusBadgeText: {
     fontSize: 10,
     fontWeight: '700',
@@ -329,6 +640,11 @@ const styles = StyleSheet.create({
     fontWeight: '700',
     color: '#000',
   },
+  statusBadgeTextStrict: {
+    fontSize: 10,
+    fontWeight: '700',
+    color: Colors.dark.text,
+  },
   scheduleDays: {
     fontSize: 12,
     opacity: 0.6,
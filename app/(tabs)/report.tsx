@@ -1,21 +1,54 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
 import { StyleSheet, ScrollView, View, TouchableOpacity, AppState } from 'react-native';
+import { BarChart } from '@/components/bar-chart';
 import { ThemedText } from '@/components/themed-text';
 import { ThemedView } from '@/components/themed-view';
 import { Colors } from '@/constants/theme';
 import { formatTimeShort } from '@/utils/timeFormatter';
 import { useBlocker } from '@/contexts/blocker-context';
-import { useRouter } from 'expo-router';
+import { useFocusEffect, useRouter } from 'expo-router';
+import { useSettings } from '@/hooks/use-settings';
 import adaptyService from '@/services/adapty-service';
 import { ADAPTY_CONFIG } from '@/config/adapty';
+import {
+  computeStreaks,
+  countUrgesResisted,
+  getDailyTotals,
+  getMonthlyTotals,
+  getSessionsBetween,
+  getWeeklyTotals,
+} from '@/utils/sessionHistory';
 
 type TimePeriod = 'Day' | 'Week' | 'Month';
 
+/** How often totals are recomputed */
+const REFRESH_INTERVAL_MS = 60 * 1000;
+
+const PERIOD_SUBTITLES: Record<TimePeriod, string> = {
+  Day: 'Time saved today by blocking distracting apps',
+  Week: 'Time saved this week by blocking distracting apps',
+  Month: 'Time saved this month by blocking distracting apps',
+};
+
 export default function ReportScreen() {
-  const { state } = useBlocker();
+  const { state, sessions } = useBlocker();
   const router = useRouter();
   const [selectedPeriod, setSelectedPeriod] = useState<TimePeriod>('Day');
   const [hasPremium, setHasPremium] = useState(false);
+  const { settings, reload: reloadSettings } = useSettings();
+  const [now, setNow] = useState(() => Date.now());
+
+  // Keep the running session's time and the current period up to date
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      reloadSettings();
+    }, [reloadSettings])
+  );
 
   useEffect(() => {
     checkPremiumStatus();
@@ -59,7 +92,26 @@ export default function ReportScreen() {
     return { hours, minutes };
   };
 
-  const timeSaved = formatTimeLarge(state.savedTime);
+  const periodTotals = useMemo(() => {
+    switch (selectedPeriod) {
+      case 'Week':
+        return getWeeklyTotals(sessions, 8, now);
+      case 'Month':
+        return getMonthlyTotals(sessions, 6, now);
+      default:
+        return getDailyTotals(sessions, 7, now);
+    }
+  }, [sessions, selectedPeriod, now]);
+
+  const streak = useMemo(
+    () => computeStreaks(sessions, settings.dailyGoalMinutes, now),
+    [sessions, settings.dailyGoalMinutes, now]
+  );
+
+  const currentPeriod = periodTotals[periodTotals.length - 1];
+  const periodSessionCount = getSessionsBetween(sessions, currentPeriod.start, currentPeriod.end, now).length;
+  const periodUrgesResisted = countUrgesResisted(sessions, currentPeriod.start, currentPeriod.end);
+  const timeSaved = formatTimeLarge(currentPeriod.seconds);
 
   return (
     <ThemedView style={styles.container}>
@@ -108,7 +160,7 @@ export default function ReportScreen() {
         <View style={styles.heroCard}>
           <ThemedText style={styles.heroTitle}>TIME SAVED</ThemedText>
           <ThemedText style={styles.heroSubtitle}>
-            Total time saved by blocking distracting apps
+            {PERIOD_SUBTITLES[selectedPeriod]}
           </ThemedText>
           
           <View style={styles.timeDisplay}>
@@ -133,6 +185,14 @@ export default function ReportScreen() {
           </View>
         </View>
 
+        {/* Period Chart */}
+        <View style={styles.chartCard}>
+          <BarChart
+            data={periodTotals.map((period) => ({ label: period.label, value: period.seconds }))}
+            formatValue={formatTimeShort}
+          />
+        </View>
+
         {/* Stats Cards */}
         <View style={styles.statsRow}>
           <View style={styles.statCard}>
@@ -140,10 +200,33 @@ export default function ReportScreen() {
             <ThemedText style={styles.statLabel}>Total Saved</ThemedText>
           </View>
           <View style={styles.statCard}>
-            <ThemedText style={styles.statValue}>
-              {state.isBlocking ? '🟢' : '⚪'}
+            <ThemedText style={styles.statValue}>{periodSessionCount}</ThemedText>
+            <ThemedText style={styles.statLabel}>Sessions</ThemedText>
+          </View>
+          <View style={styles.statCard}>
+            <ThemedText style={styles.statValue}>{periodUrgesResisted}</ThemedText>
+            <ThemedText style={styles.statLabel}>Urges Resisted</ThemedText>
+          </View>
+        </View>
+
+        {/* Streak Cards */}
+        <ThemedText style={styles.sectionLabel}>
+          Goal: {formatTimeShort(streak.goalSeconds)} per day
+        </ThemedText>
+        <View style={styles.statsRow}>
+          <View style={styles.statCard}>
+            <ThemedText style={[styles.statValue, streak.isTodayGoalMet && styles.statValueHighlight]}>
+              {streak.currentStreak}
             </ThemedText>
-            <ThemedText style={styles.statLabel}>Status</ThemedText>
+            <ThemedText style={styles.statLabel}>Streak</ThemedText>
+          </View>
+          <View style={styles.statCard}>
+            <ThemedText style={styles.statValue}>{streak.longestStreak}</ThemedText>
+            <ThemedText style={styles.statLabel}>Longest</ThemedText>
+          </View>
+          <View style={styles.statCard}>
+            <ThemedText style={styles.statValue}>{streak.goalMetDays}</ThemedText>
+            <ThemedText style={styles.statLabel}>Goal Days</ThemedText>
           </View>
         </View>
 
@@ -282,6 +365,14 @@ const styles = StyleSheet.create({
     fontSize: 14,
     fontWeight: '500',
   },
+  chartCard: {
+    backgroundColor: '#1a1a1a',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+    borderWidth: 1,
+    borderColor: '#333333',
+  },
   statsRow: {
     flexDirection: 'row',
     gap: 12,
@@ -301,6 +392,15 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     marginBottom: 4,
   },
+  statValueHighlight: {
+    color: Colors.dark.primary,
+  },
+  sectionLabel: {
+    fontSize: 12,
+    opacity: 0.6,
+    textTransform: 'uppercase',
+    marginBottom: 8,
+  },
   statLabel: {
     fontSize: 12,
     opacity: 0.6,
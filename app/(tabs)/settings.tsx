@@ -3,11 +3,15 @@ import { ThemedView } from '@/components/themed-view';
 import { IconSymbol } from '@/components/ui/icon-symbol';
 import { Colors } from '@/constants/theme';
 import { usePermissions } from '@/hooks/use-permissions';
-import { useSettings } from '@/hooks/use-settings';
+import { DAILY_GOAL_OPTIONS, PAUSE_BUDGET_OPTIONS, useSettings } from '@/hooks/use-settings';
+import { isSimulatorMode, simulator } from '@/modules/simulator';
+import { strictModeService, StrictModeError } from '@/services/strict-mode.service';
+import { formatTimeShort } from '@/utils/timeFormatter';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { useRouter } from 'expo-router';
 import React from 'react';
 import { Alert, Linking, ScrollView, Share, StyleSheet, TouchableOpacity, View } from 'react-native';
+import { AuthorizationStatus } from 'react-native-device-activity';
 
 // Function to get store review module safely
 function getStoreReviewModule() {
@@ -96,9 +100,14 @@ export default function SettingsScreen() {
           style: 'destructive',
           onPress: async () => {
             try {
+              strictModeService.assertAllowed('reset');
               await AsyncStorage.clear();
               Alert.alert('Success', 'All data has been reset. Please restart the app.');
             } catch (error) {
+              if (error instanceof StrictModeError) {
+                Alert.alert('Strict Mode', error.message);
+                return;
+              }
               console.error('Error resetting data:', error);
               Alert.alert('Error', 'Failed to reset data');
             }
@@ -108,6 +117,54 @@ export default function SettingsScreen() {
     );
   };
 
+  const handleDailyGoal = () => {
+    Alert.alert(
+      'Daily Focus Goal',
+      'How many minutes of blocking per day count toward your streak?',
+      [
+        ...DAILY_GOAL_OPTIONS.map((minutes) => ({
+          text: formatTimeShort(minutes * 60),
+          onPress: () => updateSetting('dailyGoalMinutes', minutes),
+        })),
+        { text: 'Cancel', style: 'cancel' as const },
+      ]
+    );
+  };
+
+  const handleSimulator = () => {
+    Alert.alert(
+      'Simulator',
+      'Change what the fake native modules report.',
+      [
+        {
+          text: 'Approve Screen Time',
+          onPress: () => simulator.deviceActivity.setAuthorizationStatus(AuthorizationStatus.approved),
+        },
+        {
+          text: 'Deny Screen Time',
+          onPress: () => simulator.deviceActivity.setAuthorizationStatus(AuthorizationStatus.denied),
+        },
+        { text: 'Grant Premium', onPress: () => simulator.adapty.setPremium(true) },
+        { text: 'Remove Premium', onPress: () => simulator.adapty.setPremium(false) },
+        { text: 'Cancel', style: 'cancel' as const },
+      ]
+    );
+  };
+
+  const handlePauseBudget = () => {
+    Alert.alert(
+      'Daily Break Budget',
+      'How much pause time is allowed per day while blocking?',
+      [
+        ...PAUSE_BUDGET_OPTIONS.map((minutes) => ({
+          text: minutes === 0 ? 'No breaks' : formatTimeShort(minutes * 60),
+          onPress: () => updateSetting('dailyPauseBudgetMinutes', minutes),
+        })),
+        { text: 'Cancel', style: 'cancel' as const },
+      ]
+    );
+  };
+
   return (
     <ThemedView style={styles.container}>
       <ScrollView style={styles.scrollView} contentContainerStyle={styles.content}>
@@ -139,6 +196,78 @@ export default function SettingsScreen() {
           </TouchableOpacity>
         </View>
 
+        {/* Focus */}
+        <View style={styles.section}>
+          <ThemedText type="subtitle" style={styles.sectionTitle}>Focus</ThemedText>
+
+          <TouchableOpacity style={styles.settingRow} onPress={handleDailyGoal}>
+            <View style={styles.settingLeft}>
+              <IconSymbol name="flame.fill" size={24} color={Colors.dark.primary} />
+              <View style={styles.settingInfo}>
+                <ThemedText style={styles.settingLabel}>Daily Focus Goal</ThemedText>
+                <ThemedText style={styles.settingDescription}>
+                  {formatTimeShort(settings.dailyGoalMinutes * 60)} of blocking per day
+                </ThemedText>
+              </View>
+            </View>
+            <IconSymbol name="chevron.right" size={20} color={Colors.dark.icon} />
+          </TouchableOpacity>
+
+          <TouchableOpacity style={styles.settingRow} onPress={() => router.push('/blocklists')}>
+            <View style={styles.settingLeft}>
+              <IconSymbol name="app.badge.fill" size={24} color={Colors.dark.primary} />
+              <View style={styles.settingInfo}>
+                <ThemedText style={styles.settingLabel}>Blocklists</ThemedText>
+                <ThemedText style={styles.settingDescription}>
+                  Named app lists shared by your schedules
+                </ThemedText>
+              </View>
+            </View>
+            <IconSymbol name="chevron.right" size={20} color={Colors.dark.icon} />
+          </TouchableOpacity>
+
+          <TouchableOpacity style={styles.settingRow} onPress={() => router.push('/shield')}>
+            <View style={styles.settingLeft}>
+              <IconSymbol name="lock.fill" size={24} color={Colors.dark.primary} />
+              <View style={styles.settingInfo}>
+                <ThemedText style={styles.settingLabel}>Shield Screen</ThemedText>
+                <ThemedText style={styles.settingDescription}>
+                  Texts, quotes and colors shown over blocked apps
+                </ThemedText>
+              </View>
+            </View>
+            <IconSymbol name="chevron.right" size={20} color={Colors.dark.icon} />
+          </TouchableOpacity>
+
+          <TouchableOpacity style={styles.settingRow} onPress={() => router.push('/usage-limits')}>
+            <View style={styles.settingLeft}>
+              <IconSymbol name="hourglass" size={24} color={Colors.dark.primary} />
+              <View style={styles.settingInfo}>
+                <ThemedText style={styles.settingLabel}>Usage Limits</ThemedText>
+                <ThemedText style={styles.settingDescription}>
+                  Daily minutes or opens before apps are blocked
+                </ThemedText>
+              </View>
+            </View>
+            <IconSymbol name="chevron.right" size={20} color={Colors.dark.icon} />
+          </TouchableOpacity>
+
+          <TouchableOpacity style={styles.settingRow} onPress={handlePauseBudget}>
+            <View style={styles.settingLeft}>
+              <IconSymbol name="pause.fill" size={24} color={Colors.dark.primary} />
+              <View style={styles.settingInfo}>
+                <ThemedText style={styles.settingLabel}>Daily Break Budget</ThemedText>
+                <ThemedText style={styles.settingDescription}>
+                  {settings.dailyPauseBudgetMinutes === 0
+                    ? 'Pausing is turned off'
+                    : `${formatTimeShort(settings.dailyPauseBudgetMinutes * 60)} of pauses per day`}
+                </ThemedText>
+              </View>
+            </View>
+            <IconSymbol name="chevron.right" size={20} color={Colors.dark.icon} />
+          </TouchableOpacity>
+        </View>
+
         {/* Support */}
         <View style={styles.section}>
           <ThemedText type="subtitle" style={styles.sectionTitle}>Support</ThemedText>
@@ -275,6 +404,26 @@ export default function SettingsScreen() {
             <IconSymbol name="chevron.right" size={20} color={Colors.dark.icon} />
           </TouchableOpacity>
         </View>
+
+        {/* Simulator (development builds with fake native modules) */}
+        {isSimulatorMode && (
+          <View style={styles.section}>
+            <ThemedText type="subtitle" style={styles.sectionTitle}>Simulator</ThemedText>
+
+            <TouchableOpacity style={styles.settingRow} onPress={handleSimulator}>
+              <View style={styles.settingLeft}>
+                <IconSymbol name="chevron.left.forwardslash.chevron.right" size={24} color={Colors.dark.primary} />
+                <View style={styles.settingInfo}>
+                  <ThemedText style={styles.settingLabel}>Simulate SDK Changes</ThemedText>
+                  <ThemedText style={styles.settingDescription}>
+                    Screen Time authorization and premium status
+                  </ThemedText>
+                </View>
+              </View>
+              <IconSymbol name="chevron.right" size={20} color={Colors.dark.icon} />
+            </TouchableOpacity>
+          </View>
+        )}
       </ScrollView>
     </ThemedView>
   );
@@ -159,6 +159,38 @@ function RootLayoutNav() {
       <Stack.Screen name="onboarding" options={{ headerShown: false, presentation: 'fullScreenModal' }} />
       <Stack.Screen name="paywall" options={{ headerShown: false, presentation: 'fullScreenModal' }} />
       <Stack.Screen name="modal" options={{ presentation: 'modal', title: 'Modal' }} />
+      <Stack.Screen
+        name="blocklists"
+        options={{
+          title: 'Blocklists',
+          headerStyle: { backgroundColor: '#000000' },
+          headerTintColor: '#ECEDEE',
+        }}
+      />
+      <Stack.Screen
+        name="timeline"
+        options={{
+          title: 'Week',
+          headerStyle: { backgroundColor: '#000000' },
+          headerTintColor: '#ECEDEE',
+        }}
+      />
+      <Stack.Screen
+        name="shield"
+        options={{
+          title: 'Shield Screen',
+          headerStyle: { backgroundColor: '#000000' },
+          headerTintColor: '#ECEDEE',
+        }}
+      />
+      <Stack.Screen
+        name="usage-limits"
+        options={{
+          title: 'Usage Limits',
+          headerStyle: { backgroundColor: '#000000' },
+          headerTintColor: '#ECEDEE',
+        }}
+      />
     </Stack>
   );
 }
@@ -0,0 +1,277 @@
+import React, { useState } from 'react';
+import { Alert, ScrollView, StyleSheet, TextInput, TouchableOpacity, View } from 'react-native';
+
+import { IOSActivityPicker } from '@/components/ios-activity-picker';
+import { SelectedAppsIcons } from '@/components/selected-apps-icons';
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { Colors } from '@/constants/theme';
+import { useBlocker } from '@/contexts/blocker-context';
+import { deviceActivityService } from '@/services/device-activity.service';
+import { strictModeService, StrictModeError } from '@/services/strict-mode.service';
+import { Blocklist } from '@/types/blocker';
+
+export default function BlocklistsScreen() {
+  const {
+    blocklists,
+    schedules,
+    scheduleUpdatedAt,
+    isScheduleActive,
+    addBlocklist,
+    updateBlocklist,
+    deleteBlocklist,
+  } = useBlocker();
+  const [newName, setNewName] = useState('');
+  const [pickerBlocklist, setPickerBlocklist] = useState<Blocklist | null>(null);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameText, setRenameText] = useState('');
+
+  const getUsers = (blocklist: Blocklist) => schedules.filter((s) => s.blocklistId === blocklist.id);
+
+  const hasApps = (blocklist: Blocklist) => {
+    const metadata = deviceActivityService.getSelectionMetadata(blocklist.familyActivitySelectionId);
+    return Boolean(metadata && (metadata.applicationCount > 0 || metadata.categoryCount > 0));
+  };
+
+  const handleCreate = async () => {
+    const name = newName.trim();
+    if (!name) {
+      Alert.alert('Name Required', 'Give the blocklist a name, e.g. "Social media".');
+      return;
+    }
+
+    const id = `blocklist_${Date.now()}`;
+    const blocklist: Blocklist = { id, name, familyActivitySelectionId: id, createdAt: Date.now() };
+
+    await addBlocklist(blocklist);
+    setNewName('');
+    setPickerBlocklist(blocklist);
+  };
+
+  const handleEditApps = (blocklist: Blocklist) => {
+    const activeUserIds = getUsers(blocklist)
+      .filter((s) => isScheduleActive(s.id))
+      .map((s) => s.id);
+
+    try {
+      strictModeService.assertAllowed('edit', activeUserIds);
+    } catch (error) {
+      if (error instanceof StrictModeError) {
+        Alert.alert('Strict Mode', error.message, [{ text: 'OK' }]);
+        return;
+      }
+      throw error;
+    }
+
+    setPickerBlocklist(blocklist);
+  };
+
+  const handlePickerClose = () => {
+    if (pickerBlocklist) {
+      updateBlocklist(pickerBlocklist.id);
+    }
+    setPickerBlocklist(null);
+  };
+
+  const startRename = (blocklist: Blocklist) => {
+    setRenamingId(blocklist.id);
+    setRenameText(blocklist.name);
+  };
+
+  const handleRename = async () => {
+    const name = renameText.trim();
+    if (renamingId && name) {
+      await updateBlocklist(renamingId, { name });
+    }
+    setRenamingId(null);
+  };
+
+  const handleDelete = (blocklist: Blocklist) => {
+    Alert.alert('Delete Blocklist', `Delete "${blocklist.name}"?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          const deleted = await deleteBlocklist(blocklist.id);
+          if (!deleted) {
+            const count = getUsers(blocklist).length;
+            Alert.alert(
+              'Blocklist In Use',
+              count === 0
+                ? 'An open limit uses this blocklist. Delete the limit first.'
+                : `${count === 1 ? '1 schedule uses' : `${count} schedules use`} this blocklist. ` +
+                    'Switch them to other apps first.'
+            );
+          }
+        },
+      },
+    ]);
+  };
+
+  return (
+    <ThemedView style={styles.container}>
+      <ScrollView contentContainerStyle={styles.content}>
+        <ThemedText style={styles.description}>
+          Pick apps once and use them in any schedule. Changes apply to every schedule using the list.
+        </ThemedText>
+
+        <View style={styles.createRow}>
+          <TextInput
+            style={styles.input}
+            value={newName}
+            onChangeText={setNewName}
+            placeholder="New blocklist name"
+            placeholderTextColor={Colors.dark.icon}
+            maxLength={40}
+            onSubmitEditing={handleCreate}
+          />
+          <TouchableOpacity style={styles.createButton} onPress={handleCreate}>
+            <IconSymbol name="plus.circle.fill" size={20} color="#000" />
+            <ThemedText style={styles.createButtonText}>Create</ThemedText>
+          </TouchableOpacity>
+        </View>
+
+        {blocklists.map((blocklist) => {
+          const users = getUsers(blocklist);
+
+          return (
+            <View key={blocklist.id} style={styles.card}>
+              {renamingId === blocklist.id ? (
+                <TextInput
+                  style={styles.input}
+                  value={renameText}
+                  onChangeText={setRenameText}
+                  onSubmitEditing={handleRename}
+                  onBlur={handleRename}
+                  maxLength={40}
+                  autoFocus
+                />
+              ) : (
+                <TouchableOpacity onPress={() => startRename(blocklist)}>
+                  <ThemedText style={styles.name}>{blocklist.name}</ThemedText>
+                </TouchableOpacity>
+              )}
+              <ThemedText style={styles.usage}>
+                {users.length === 0
+                  ? 'Not used by any schedule'
+                  : `Used by ${users.length === 1 ? '1 schedule' : `${users.length} schedules`}`}
+              </ThemedText>
+
+              {hasApps(blocklist) ? (
+                <SelectedAppsIcons
+                  key={`icons-${blocklist.id}-${scheduleUpdatedAt}`}
+                  familyActivitySelectionId={blocklist.familyActivitySelectionId}
+                  iconSize={36}
+                  maxIcons={6}
+                  height={44}
+                />
+              ) : (
+                <ThemedText style={styles.warning}>No apps selected</ThemedText>
+              )}
+
+              <View style={styles.actions}>
+                <TouchableOpacity style={styles.actionButton} onPress={() => handleEditApps(blocklist)}>
+                  <ThemedText style={styles.actionText}>Edit Apps</ThemedText>
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.actionButton} onPress={() => handleDelete(blocklist)}>
+                  <IconSymbol name="trash.fill" size={16} color="#FF3B30" />
+                </TouchableOpacity>
+              </View>
+            </View>
+          );
+        })}
+      </ScrollView>
+
+      {pickerBlocklist && (
+        <IOSActivityPicker
+          visible
+          onClose={handlePickerClose}
+          familyActivitySelectionId={pickerBlocklist.familyActivitySelectionId}
+        />
+      )}
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 20,
+    gap: 12,
+  },
+  description: {
+    fontSize: 14,
+    opacity: 0.7,
+  },
+  createRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  input: {
+    flex: 1,
+    fontSize: 16,
+    color: Colors.dark.text,
+    padding: 12,
+    backgroundColor: '#1a1a1a',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#333333',
+  },
+  createButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingVertical: 12,
+    paddingHorizontal: 14,
+    borderRadius: 12,
+    backgroundColor: Colors.dark.primary,
+  },
+  createButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#000',
+  },
+  card: {
+    padding: 16,
+    backgroundColor: '#1a1a1a',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#333333',
+  },
+  name: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  usage: {
+    fontSize: 13,
+    opacity: 0.6,
+  },
+  warning: {
+    fontSize: 14,
+    color: '#FF3B30',
+    marginTop: 8,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  actionButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#333333',
+  },
+  actionText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.dark.primary,
+  },
+});
@@ -1,23 +1,37 @@
 import { useLocalSearchParams, useRouter } from 'expo-router';
-import { StyleSheet } from 'react-native';
+import { Alert, StyleSheet } from 'react-native';
 
 import { ScheduleForm } from '@/components/schedule-form';
 import { ThemedView } from '@/components/themed-view';
 import { useBlocker } from '@/contexts/blocker-context';
+import { ScheduleValidationError } from '@/services/schedule-validation';
+import { StrictModeError } from '@/services/strict-mode.service';
 import { BlockerSchedule } from '@/types/blocker';
 
 export default function ModalScreen() {
   const { type, scheduleId } = useLocalSearchParams<{ type: string; scheduleId?: string }>();
   const router = useRouter();
-  const { addSchedule, updateSchedule, schedules } = useBlocker();
+  const { addSchedule, updateSchedule, schedules, blocklists } = useBlocker();
 
   const handleSaveSchedule = async (schedule: BlockerSchedule) => {
-    if (scheduleId && schedules.find((s) => s.id === scheduleId)) {
-      await updateSchedule(scheduleId, schedule);
-    } else {
-      await addSchedule(schedule);
+    try {
+      if (scheduleId && schedules.find((s) => s.id === scheduleId)) {
+        await updateSchedule(scheduleId, schedule);
+      } else {
+        await addSchedule(schedule);
+      }
+      router.back();
+    } catch (error) {
+      if (error instanceof StrictModeError) {
+        Alert.alert('Strict Mode', error.message, [{ text: 'OK' }]);
+        return;
+      }
+      if (error instanceof ScheduleValidationError) {
+        Alert.alert('Invalid Schedule', error.message, [{ text: 'OK' }]);
+        return;
+      }
+      throw error;
     }
-    router.back();
   };
 
   if (type === 'schedule') {
@@ -26,6 +40,8 @@ export default function ModalScreen() {
       <ThemedView style={styles.container}>
         <ScheduleForm 
           schedule={existingSchedule} 
+          otherSchedules={schedules.filter((s) => s.id !== scheduleId)}
+          blocklists={blocklists}
           onSave={handleSaveSchedule} 
           onCancel={() => router.back()} 
         />
@@ -0,0 +1,211 @@
+import React, { useState } from 'react';
+import { Alert, ScrollView, StyleSheet, Switch, TouchableOpacity, View } from 'react-native';
+
+import { ShieldAppearanceEditor } from '@/components/shield-appearance-editor';
+import { ShieldPreview } from '@/components/shield-preview';
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { Colors } from '@/constants/theme';
+import { useBlocker } from '@/contexts/blocker-context';
+import { useShieldAppearance } from '@/hooks/use-shield-appearance';
+import { ScheduleValidationError } from '@/services/schedule-validation';
+import { StrictModeError } from '@/services/strict-mode.service';
+import { BlockerSchedule, ShieldAppearance } from '@/types/blocker';
+import { formatScheduleTimes } from '@/utils/timeFormatter';
+
+export default function ShieldScreen() {
+  const { schedules, updateSchedule } = useBlocker();
+  const { appearance: globalAppearance, isLoading, saveAppearance } = useShieldAppearance();
+  // 'global' or the ID of the schedule whose own look is edited
+  const [scope, setScope] = useState('global');
+  // null while the selected schedule uses the global look
+  const [draft, setDraft] = useState<ShieldAppearance | null>(null);
+  const [isDirty, setIsDirty] = useState(false);
+  const [rotation, setRotation] = useState(0);
+
+  const schedule = schedules.find((s) => s.id === scope);
+  const savedAppearance = scope === 'global' ? globalAppearance : (schedule?.shieldAppearance ?? null);
+  const appearance = isDirty ? draft : savedAppearance;
+
+  const selectScope = (newScope: string) => {
+    setScope(newScope);
+    setDraft(null);
+    setIsDirty(false);
+  };
+
+  const handleChange = (newAppearance: ShieldAppearance | null) => {
+    setDraft(newAppearance);
+    setIsDirty(true);
+  };
+
+  const handleSave = async () => {
+    const cleaned = appearance && {
+      ...appearance,
+      quotes: appearance.quotes.map((quote) => quote.trim()).filter(Boolean),
+    };
+
+    if (cleaned && !cleaned.primaryButtonLabel.trim()) {
+      Alert.alert('Button Label Required', 'The close button needs a label.');
+      return;
+    }
+
+    try {
+      if (scope === 'global') {
+        if (cleaned) await saveAppearance(cleaned);
+      } else {
+        await updateSchedule(scope, { shieldAppearance: cleaned ?? undefined });
+      }
+      setIsDirty(false);
+    } catch (error) {
+      if (error instanceof StrictModeError) {
+        Alert.alert('Strict Mode', error.message, [{ text: 'OK' }]);
+        return;
+      }
+      if (error instanceof ScheduleValidationError) {
+        Alert.alert('Invalid Schedule', error.message, [{ text: 'OK' }]);
+        return;
+      }
+      console.error('Error saving shield look:', error);
+      Alert.alert('Error', 'Failed to save the shield look');
+    }
+  };
+
+  const getScheduleLabel = (s: BlockerSchedule) => s.name || formatScheduleTimes(s);
+
+  return (
+    <ThemedView style={styles.container}>
+      <ScrollView contentContainerStyle={styles.content}>
+        <ThemedText style={styles.description}>
+          This is what you see when you open a blocked app. Changes show the next time blocking starts.
+        </ThemedText>
+
+        <View style={styles.scopes}>
+          {[null, ...schedules].map((option) => {
+            const optionScope = option?.id ?? 'global';
+            const isSelected = optionScope === scope;
+            return (
+              <TouchableOpacity
+                key={optionScope}
+                style={[styles.scopeButton, isSelected && styles.scopeButtonSelected]}
+                onPress={() => selectScope(optionScope)}
+              >
+                <ThemedText style={[styles.scopeText, isSelected && styles.scopeTextSelected]}>
+                  {option ? getScheduleLabel(option) : 'All Schedules'}
+                </ThemedText>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        {schedule && (
+          <View style={styles.toggleRow}>
+            <View style={styles.toggleInfo}>
+              <ThemedText style={styles.label}>Own Look</ThemedText>
+              <ThemedText style={styles.toggleDescription}>
+                Show a different shield over this schedule&apos;s apps.
+              </ThemedText>
+            </View>
+            <Switch
+              value={appearance !== null}
+              onValueChange={(value) => handleChange(value ? globalAppearance : null)}
+              trackColor={{ false: '#333333', true: Colors.dark.primary }}
+            />
+          </View>
+        )}
+
+        {!isLoading && (
+          <TouchableOpacity activeOpacity={0.8} onPress={() => setRotation(rotation + 1)}>
+            <ShieldPreview appearance={appearance ?? globalAppearance} rotation={rotation} />
+            <ThemedText style={styles.previewHint}>Tap the preview to see the next quote</ThemedText>
+          </TouchableOpacity>
+        )}
+
+        {appearance && <ShieldAppearanceEditor appearance={appearance} onChange={handleChange} />}
+
+        <TouchableOpacity
+          style={[styles.saveButton, !isDirty && styles.saveButtonDisabled]}
+          onPress={handleSave}
+          disabled={!isDirty}
+        >
+          <ThemedText style={styles.saveButtonText}>Save</ThemedText>
+        </TouchableOpacity>
+      </ScrollView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 20,
+    gap: 16,
+    paddingBottom: 40,
+  },
+  description: {
+    fontSize: 14,
+    opacity: 0.7,
+  },
+  scopes: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  scopeButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#333333',
+    backgroundColor: '#1a1a1a',
+  },
+  scopeButtonSelected: {
+    backgroundColor: Colors.dark.primary,
+    borderColor: Colors.dark.primary,
+  },
+  scopeText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  scopeTextSelected: {
+    color: '#000',
+  },
+  toggleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 12,
+  },
+  toggleInfo: {
+    flex: 1,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  toggleDescription: {
+    fontSize: 13,
+    opacity: 0.6,
+  },
+  previewHint: {
+    fontSize: 13,
+    opacity: 0.6,
+    textAlign: 'center',
+    marginTop: 8,
+  },
+  saveButton: {
+    alignItems: 'center',
+    paddingVertical: 16,
+    borderRadius: 12,
+    backgroundColor: Colors.dark.primary,
+  },
+  saveButtonDisabled: {
+    opacity: 0.5,
+  },
+  saveButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000',
+  },
+});
@@ -0,0 +1,71 @@
+import { useRouter } from 'expo-router';
+import React, { useEffect, useState } from 'react';
+import { ScrollView, StyleSheet } from 'react-native';
+
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { GridScheduleStatus, WeekScheduleGrid } from '@/components/week-schedule-grid';
+import { useBlocker } from '@/contexts/blocker-context';
+
+export default function TimelineScreen() {
+  const router = useRouter();
+  const { schedules, isScheduleActive, isScheduleWaiting } = useBlocker();
+  const [now, setNow] = useState(() => new Date());
+
+  // Keep the "now" line and the first day current
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), 60000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const getStatus = (scheduleId: string): GridScheduleStatus => {
+    if (isScheduleActive(scheduleId)) return 'active';
+    if (isScheduleWaiting(scheduleId)) return 'waiting';
+    return 'idle';
+  };
+
+  const disabledCount = schedules.filter((schedule) => !schedule.isActive).length;
+
+  return (
+    <ThemedView style={styles.container}>
+      <ScrollView contentContainerStyle={styles.content}>
+        {schedules.length === 0 ? (
+          <ThemedText style={styles.emptyText}>No schedules yet. Add one on the Home tab.</ThemedText>
+        ) : (
+          <>
+            <WeekScheduleGrid
+              schedules={schedules}
+              getStatus={getStatus}
+              onSelectSchedule={(schedule) => router.push(`/modal?type=schedule&scheduleId=${schedule.id}`)}
+              now={now}
+            />
+            {disabledCount > 0 && (
+              <ThemedText style={styles.note}>
+                {disabledCount === 1 ? '1 disabled schedule is' : `${disabledCount} disabled schedules are`} not shown.
+              </ThemedText>
+            )}
+          </>
+        )}
+      </ScrollView>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 16,
+  },
+  emptyText: {
+    textAlign: 'center',
+    opacity: 0.6,
+    marginTop: 40,
+  },
+  note: {
+    fontSize: 13,
+    opacity: 0.6,
+    marginTop: 12,
+  },
+});
@@ -0,0 +1,453 @@
+import React, { useState } from 'react';
+import { Alert, ScrollView, StyleSheet, Switch, TextInput, TouchableOpacity, View } from 'react-native';
+
+import { IOSActivityPicker } from '@/components/ios-activity-picker';
+import { OpenLimitCard } from '@/components/open-limit-card';
+import { ThemedText } from '@/components/themed-text';
+import { ThemedView } from '@/components/themed-view';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { UsageLimitCard } from '@/components/usage-limit-card';
+import { Colors } from '@/constants/theme';
+import { useBlocker } from '@/contexts/blocker-context';
+import { deviceActivityService } from '@/services/device-activity.service';
+import {
+  LimitEvent,
+  OPEN_LIMIT_OPTIONS,
+  OPEN_LIMIT_WINDOW_MINUTES,
+  OpenLimit,
+  USAGE_LIMIT_MINUTES_OPTIONS,
+  UsageLimit,
+} from '@/types/blocker';
+import { getOpenResultMessage } from '@/utils/openLimits';
+import { formatDayAndTime } from '@/utils/timeFormatter';
+
+/** Limit events shown in the history list */
+const HISTORY_LENGTH = 10;
+
+export default function UsageLimitsScreen() {
+  const {
+    usageLimits,
+    openLimits,
+    blocklists,
+    limitEvents,
+    scheduleUpdatedAt,
+    addUsageLimit,
+    updateUsageLimit,
+    deleteUsageLimit,
+    addOpenLimit,
+    updateOpenLimit,
+    deleteOpenLimit,
+    openLimitedApps,
+  } = useBlocker();
+  const [newName, setNewName] = useState('');
+  const [newMinutes, setNewMinutes] = useState<number>(USAGE_LIMIT_MINUTES_OPTIONS[1]);
+  const [pickerLimit, setPickerLimit] = useState<UsageLimit | null>(null);
+  const [newBlocklistId, setNewBlocklistId] = useState<string | null>(null);
+  const [newMaxOpens, setNewMaxOpens] = useState<number>(OPEN_LIMIT_OPTIONS[1]);
+
+  // One open limit per blocklist
+  const freeBlocklists = blocklists.filter((b) => !openLimits.some((l) => l.blocklistId === b.id));
+
+  const hasApps = (limit: UsageLimit) => {
+    const metadata = deviceActivityService.getSelectionMetadata(limit.familyActivitySelectionId);
+    return Boolean(metadata && (metadata.applicationCount > 0 || metadata.categoryCount > 0));
+  };
+
+  const handleCreate = async () => {
+    const name = newName.trim();
+    if (!name) {
+      Alert.alert('Name Required', 'Give the limit a name, e.g. "Instagram + TikTok".');
+      return;
+    }
+
+    const id = `limit_${Date.now()}`;
+    const limit: UsageLimit = {
+      id,
+      name,
+      familyActivitySelectionId: id,
+      dailyMinutes: newMinutes,
+      isActive: true,
+      createdAt: Date.now(),
+    };
+
+    await addUsageLimit(limit);
+    setNewName('');
+    setPickerLimit(limit);
+  };
+
+  const handlePickerClose = () => {
+    if (pickerLimit) {
+      updateUsageLimit(pickerLimit.id);
+    }
+    setPickerLimit(null);
+  };
+
+  const handleDelete = (limit: UsageLimit) => {
+    Alert.alert('Delete Usage Limit', `Delete "${limit.name}"? Its apps are unblocked if the limit was reached.`, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Delete', style: 'destructive', onPress: () => deleteUsageLimit(limit.id) },
+    ]);
+  };
+
+  const handleCreateOpenLimit = async () => {
+    if (!newBlocklistId) {
+      Alert.alert('Blocklist Required', 'Choose the blocklist whose apps to limit.');
+      return;
+    }
+
+    const limit: OpenLimit = {
+      id: `open_limit_${Date.now()}`,
+      blocklistId: newBlocklistId,
+      maxOpens: newMaxOpens,
+      isActive: true,
+      createdAt: Date.now(),
+    };
+
+    await addOpenLimit(limit);
+    setNewBlocklistId(null);
+  };
+
+  const handleOpen = async (limit: OpenLimit) => {
+    const message = getOpenResultMessage(await openLimitedApps(limit.id));
+    if (message) {
+      Alert.alert('Still Blocked', message);
+    }
+  };
+
+  const handleDeleteOpenLimit = (limit: OpenLimit) => {
+    const name = blocklists.find((b) => b.id === limit.blocklistId)?.name ?? 'this blocklist';
+    Alert.alert('Delete Open Limit', `Stop limiting opens of "${name}"? Its apps are unblocked.`, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Delete', style: 'destructive', onPress: () => deleteOpenLimit(limit.id) },
+    ]);
+  };
+
+  const getEventText = (event: LimitEvent) => {
+    if (event.type === 'open_limit_reached') {
+      const limit = openLimits.find((l) => l.id === event.limitId);
+      const name = blocklists.find((b) => b.id === limit?.blocklistId)?.name ?? 'Deleted limit';
+      return { name, text: `Last open used ${formatDayAndTime(new Date(event.at))}` };
+    }
+
+    const name = usageLimits.find((l) => l.id === event.limitId)?.name ?? 'Deleted limit';
+    return { name, text: `Limit reached ${formatDayAndTime(new Date(event.at))}` };
+  };
+
+  const history = [...limitEvents].reverse().slice(0, HISTORY_LENGTH);
+
+  const renderOptions = (
+    options: readonly number[],
+    unit: string,
+    selected: number,
+    onSelect: (value: number) => void
+  ) => (
+    <View style={styles.options}>
+      {options.map((value) => {
+        const isSelected = value === selected;
+        return (
+          <TouchableOpacity
+            key={value}
+            style={[styles.optionButton, isSelected && styles.optionButtonSelected]}
+            onPress={() => onSelect(value)}
+          >
+            <ThemedText style={[styles.optionText, isSelected && styles.optionTextSelected]}>
+              {value}
+              {unit}
+            </ThemedText>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+
+  return (
+    <ThemedView style={styles.container}>
+      <ScrollView contentContainerStyle={styles.content}>
+        <ThemedText style={styles.description}>
+          Use the chosen apps for a number of minutes each day. When the time runs out, they stay blocked
+          until midnight.
+        </ThemedText>
+
+        <View style={styles.createRow}>
+          <TextInput
+            style={styles.input}
+            value={newName}
+            onChangeText={setNewName}
+            placeholder="New limit name"
+            placeholderTextColor={Colors.dark.icon}
+            maxLength={40}
+            onSubmitEditing={handleCreate}
+          />
+          <TouchableOpacity style={styles.createButton} onPress={handleCreate}>
+            <IconSymbol name="plus.circle.fill" size={20} color="#000" />
+            <ThemedText style={styles.createButtonText}>Create</ThemedText>
+          </TouchableOpacity>
+        </View>
+        {renderOptions(USAGE_LIMIT_MINUTES_OPTIONS, 'm', newMinutes, setNewMinutes)}
+
+        {usageLimits.map((limit) => (
+          <View key={limit.id} style={styles.limit}>
+            <UsageLimitCard limit={limit} updatedAt={scheduleUpdatedAt} />
+
+            {!hasApps(limit) && <ThemedText style={styles.warning}>No apps selected</ThemedText>}
+
+            {renderOptions(USAGE_LIMIT_MINUTES_OPTIONS, 'm', limit.dailyMinutes, (minutes) =>
+              updateUsageLimit(limit.id, { dailyMinutes: minutes })
+            )}
+
+            <View style={styles.actions}>
+              <View style={styles.toggle}>
+                <Switch
+                  value={limit.isActive}
+                  onValueChange={(value) => updateUsageLimit(limit.id, { isActive: value })}
+                  trackColor={{ false: '#333333', true: Colors.dark.primary }}
+                />
+                <ThemedText style={styles.toggleText}>{limit.isActive ? 'On' : 'Off'}</ThemedText>
+              </View>
+              <View style={styles.toggle}>
+                <TouchableOpacity style={styles.actionButton} onPress={() => setPickerLimit(limit)}>
+                  <ThemedText style={styles.actionText}>Edit Apps</ThemedText>
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.actionButton} onPress={() => handleDelete(limit)}>
+                  <IconSymbol name="trash.fill" size={16} color="#FF3B30" />
+                </TouchableOpacity>
+              </View>
+            </View>
+          </View>
+        ))}
+
+        <View style={styles.section}>
+          <ThemedText type="subtitle">Open Limits</ThemedText>
+          <ThemedText style={styles.description}>
+            Each launch of a blocklist&apos;s apps asks first and counts as an open of{' '}
+            {OPEN_LIMIT_WINDOW_MINUTES} minutes. After the last open of the day the apps stay
+            blocked. Counts start again at midnight.
+          </ThemedText>
+        </View>
+
+        {freeBlocklists.length > 0 ? (
+          <>
+            <View style={styles.options}>
+              {freeBlocklists.map((blocklist) => {
+                const isSelected = blocklist.id === newBlocklistId;
+                return (
+                  <TouchableOpacity
+                    key={blocklist.id}
+                    style={[styles.optionButton, isSelected && styles.optionButtonSelected]}
+                    onPress={() => setNewBlocklistId(blocklist.id)}
+                  >
+                    <ThemedText style={[styles.optionText, isSelected && styles.optionTextSelected]}>
+                      {blocklist.name}
+                    </ThemedText>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+            <View style={styles.createRow}>
+              <View style={styles.flex}>
+                {renderOptions(OPEN_LIMIT_OPTIONS, 'x', newMaxOpens, setNewMaxOpens)}
+              </View>
+              <TouchableOpacity style={styles.createButton} onPress={handleCreateOpenLimit}>
+                <IconSymbol name="plus.circle.fill" size={20} color="#000" />
+                <ThemedText style={styles.createButtonText}>Create</ThemedText>
+              </TouchableOpacity>
+            </View>
+          </>
+        ) : (
+          <ThemedText style={styles.hint}>
+            {blocklists.length === 0
+              ? 'Create a blocklist in Settings first.'
+              : 'Every blocklist already has an open limit.'}
+          </ThemedText>
+        )}
+
+        {openLimits.map((limit) => (
+          <View key={limit.id} style={styles.limit}>
+            <OpenLimitCard
+              limit={limit}
+              blocklist={blocklists.find((b) => b.id === limit.blocklistId)}
+              updatedAt={scheduleUpdatedAt}
+              onOpen={() => handleOpen(limit)}
+            />
+
+            {renderOptions(OPEN_LIMIT_OPTIONS, 'x', limit.maxOpens, (maxOpens) =>
+              updateOpenLimit(limit.id, { maxOpens })
+            )}
+
+            <View style={styles.actions}>
+              <View style={styles.toggle}>
+                <Switch
+                  value={limit.isActive}
+                  onValueChange={(value) => updateOpenLimit(limit.id, { isActive: value })}
+                  trackColor={{ false: '#333333', true: Colors.dark.primary }}
+                />
+                <ThemedText style={styles.toggleText}>{limit.isActive ? 'On' : 'Off'}</ThemedText>
+              </View>
+              <TouchableOpacity style={styles.actionButton} onPress={() => handleDeleteOpenLimit(limit)}>
+                <IconSymbol name="trash.fill" size={16} color="#FF3B30" />
+              </TouchableOpacity>
+            </View>
+          </View>
+        ))}
+
+        {history.length > 0 && (
+          <View style={styles.history}>
+            <ThemedText type="subtitle">History</ThemedText>
+            {history.map((event) => {
+              const { name, text } = getEventText(event);
+              return (
+                <View key={event.id} style={styles.historyRow}>
+                  <ThemedText style={styles.historyName}>{name}</ThemedText>
+                  <ThemedText style={styles.historyTime}>{text}</ThemedText>
+                </View>
+              );
+            })}
+          </View>
+        )}
+      </ScrollView>
+
+      {pickerLimit && (
+        <IOSActivityPicker
+          visible
+          onClose={handlePickerClose}
+          familyActivitySelectionId={pickerLimit.familyActivitySelectionId}
+        />
+      )}
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 20,
+    gap: 12,
+    paddingBottom: 40,
+  },
+  description: {
+    fontSize: 14,
+    opacity: 0.7,
+  },
+  flex: {
+    flex: 1,
+  },
+  section: {
+    marginTop: 12,
+    gap: 4,
+  },
+  hint: {
+    fontSize: 14,
+    opacity: 0.6,
+    fontStyle: 'italic',
+  },
+  createRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  input: {
+    flex: 1,
+    fontSize: 16,
+    color: Colors.dark.text,
+    padding: 12,
+    backgroundColor: '#1a1a1a',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#333333',
+  },
+  createButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingVertical: 12,
+    paddingHorizontal: 14,
+    borderRadius: 12,
+    backgroundColor: Colors.dark.primary,
+  },
+  createButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#000',
+  },
+  options: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  optionButton: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#333333',
+    backgroundColor: '#1a1a1a',
+  },
+  optionButtonSelected: {
+    backgroundColor: Colors.dark.primary,
+    borderColor: Colors.dark.primary,
+  },
+  optionText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  optionTextSelected: {
+    color: '#000',
+  },
+  limit: {
+    gap: 8,
+    paddingBottom: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#333333',
+  },
+  warning: {
+    fontSize: 14,
+    color: '#FF3B30',
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  toggle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  toggleText: {
+    fontSize: 14,
+    opacity: 0.7,
+  },
+  actionButton: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#333333',
+  },
+  actionText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.dark.primary,
+  },
+  history: {
+    marginTop: 12,
+    gap: 8,
+  },
+  historyRow: {
+    padding: 12,
+    backgroundColor: '#1a1a1a',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#333333',
+  },
+  historyName: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  historyTime: {
+    fontSize: 13,
+    opacity: 0.6,
+  },
+});
@@ -0,0 +1,71 @@
+import { act, fireEvent, render, screen } from '@testing-library/react-native';
+
+import { UnlockChallengeModal } from '@/components/unlock-challenge-modal';
+import type { UnlockChallenge } from '@/types/blocker';
+
+function renderChallenge(challenge: UnlockChallenge) {
+  const onComplete = jest.fn();
+  const onGiveUp = jest.fn();
+  render(<UnlockChallengeModal visible challenge={challenge} onComplete={onComplete} onGiveUp={onGiveUp} />);
+  return { onComplete, onGiveUp };
+}
+
+describe('UnlockChallengeModal', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('keeps the stop button disabled until the cooldown runs out', () => {
+    jest.useFakeTimers();
+    const { onComplete } = renderChallenge({ type: 'cooldown', difficulty: 30 });
+
+    fireEvent.press(screen.getByText('Stop in 30s'));
+    act(() => jest.advanceTimersByTime(29 * 1000));
+    fireEvent.press(screen.getByText('Stop in 1s'));
+    expect(onComplete).not.toHaveBeenCalled();
+
+    act(() => jest.advanceTimersByTime(1000));
+    fireEvent.press(screen.getByText('Stop Blocking'));
+    expect(onComplete).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops only once the passage is typed exactly', () => {
+    const random = jest.spyOn(Math, 'random').mockReturnValue(0);
+    const { onComplete } = renderChallenge({ type: 'typing', difficulty: 3 });
+    random.mockRestore();
+    const input = screen.getByPlaceholderText('Type the passage above');
+
+    expect(screen.getByText('focus focus focus')).toBeTruthy();
+    for (const attempt of ['focus focus', 'Focus focus focus', 'focus focus focus ']) {
+      fireEvent.changeText(input, attempt);
+      fireEvent.press(screen.getByText('Stop Blocking'));
+    }
+    expect(onComplete).not.toHaveBeenCalled();
+
+    fireEvent.changeText(input, 'focus focus focus');
+    fireEvent.press(screen.getByText('Stop Blocking'));
+    expect(onComplete).toHaveBeenCalledTimes(1);
+  });
+
+  it('asks for every confirmation before stopping', () => {
+    const { onComplete } = renderChallenge({ type: 'confirmations', difficulty: 3 });
+
+    fireEvent.press(screen.getByText('Stop (1/3)'));
+    fireEvent.press(screen.getByText('Stop (2/3)'));
+    expect(onComplete).not.toHaveBeenCalled();
+    expect(screen.getByText('Think about why you started this schedule. Stop anyway?')).toBeTruthy();
+
+    fireEvent.press(screen.getByText('Stop (3/3)'));
+    expect(onComplete).toHaveBeenCalledTimes(1);
+  });
+
+  it('gives up without stopping', () => {
+    const { onComplete, onGiveUp } = renderChallenge({ type: 'confirmations', difficulty: 2 });
+
+    fireEvent.press(screen.getByText('Stop (1/2)'));
+    fireEvent.press(screen.getByText('Keep Blocking'));
+
+    expect(onGiveUp).toHaveBeenCalledTimes(1);
+    expect(onComplete).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * Bar Chart Component
+ *
+ * Minimal vertical bar chart for period totals.
+ * The last bar (current period) is highlighted.
+ *
+ * @module components/bar-chart
+ */
+
+import React from 'react';
+import { StyleSheet, View } from 'react-native';
+
+import { ThemedText } from './themed-text';
+import { Colors } from '@/constants/theme';
+
+export interface BarChartItem {
+  /** Label under the bar */
+  label: string;
+  /** Bar value */
+  value: number;
+}
+
+interface BarChartProps {
+  /** Bars, oldest first */
+  data: BarChartItem[];
+  /** Format value shown above the highlighted bar */
+  formatValue?: (value: number) => string;
+  /** Height of the bar area (default: 120) */
+  height?: number;
+}
+
+export function BarChart({ data, formatValue, height = 120 }: BarChartProps) {
+  const maxValue = Math.max(...data.map((item) => item.value), 1);
+
+  return (
+    <View style={styles.container}>
+      <View style={[styles.bars, { height }]}>
+        {data.map((item, index) => {
+          const isCurrent = index === data.length - 1;
+          const barHeight = item.value > 0 ? Math.max((item.value / maxValue) * height, 4) : 2;
+
+          return (
+            <View key={`${item.label}-${index}`} style={styles.barColumn}>
+              {isCurrent && formatValue && item.value > 0 && (
+                <ThemedText style={styles.valueLabel}>{formatValue(item.value)}</ThemedText>
+              )}
+              <View
+                style={[
+                  styles.bar,
+                  { height: barHeight },
+                  isCurrent ? styles.barCurrent : styles.barPast,
+                ]}
+              />
+            </View>
+          );
+        })}
+      </View>
+      <View style={styles.labels}>
+        {data.map((item, index) => (
+          <ThemedText key={`${item.label}-${index}`} style={styles.label}>
+            {item.label}
+          </ThemedText>
+        ))}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    width: '100%',
+  },
+  bars: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    gap: 6,
+  },
+  barColumn: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'flex-end',
+  },
+  bar: {
+    width: '100%',
+    borderRadius: 4,
+  },
+  barCurrent: {
+    backgroundColor: Colors.dark.primary,
+  },
+  barPast: {
+    backgroundColor: 'rgba(0, 235, 63, 0.35)',
+  },
+  valueLabel: {
+    fontSize: 10,
+    fontWeight: '600',
+    color: Colors.dark.primary,
+    marginBottom: 4,
+  },
+  labels: {
+    flexDirection: 'row',
+    gap: 6,
+    marginTop: 6,
+  },
+  label: {
+    flex: 1,
+    fontSize: 10,
+    opacity: 0.6,
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,125 @@
+/**
+ * Open Limit Card Component
+ *
+ * Card with an open limit's apps, the opens left today and a button
+ * that lifts the shield for one open.
+ *
+ * @module components/open-limit-card
+ */
+
+import React from 'react';
+import { StyleSheet, TouchableOpacity, View } from 'react-native';
+
+import { SelectedAppsIcons } from './selected-apps-icons';
+import { ThemedText } from './themed-text';
+import { IconSymbol } from './ui/icon-symbol';
+import { Colors } from '@/constants/theme';
+import { Blocklist, OPEN_LIMIT_WINDOW_MINUTES, OpenLimit } from '@/types/blocker';
+import { getOpensLeft, isOpenNow } from '@/utils/openLimits';
+import { formatTimeString } from '@/utils/timeFormatter';
+
+interface OpenLimitCardProps {
+  limit: OpenLimit;
+  /** Blocklist whose apps are limited */
+  blocklist?: Blocklist;
+  /** Changes when the blocklist's apps were edited, to refresh the icons */
+  updatedAt?: number;
+  /** Called when the user spends an open */
+  onOpen: () => void;
+}
+
+export function OpenLimitCard({ limit, blocklist, updatedAt, onOpen }: OpenLimitCardProps) {
+  const opensLeft = getOpensLeft(limit);
+  const isOpen = isOpenNow(limit);
+  const isReached = opensLeft === 0 && !isOpen;
+  const openUntil = limit.usage?.openUntil ? new Date(limit.usage.openUntil) : null;
+
+  const getStatusText = () => {
+    if (!limit.isActive) return 'Off';
+    if (isOpen && openUntil) {
+      return `Open until ${formatTimeString(openUntil.getHours(), openUntil.getMinutes())}`;
+    }
+    if (isReached) return 'No opens left - blocked until midnight';
+    return `${opensLeft} of ${limit.maxOpens} opens left today`;
+  };
+
+  return (
+    <View style={[styles.card, isReached && limit.isActive && styles.cardReached]}>
+      <View style={styles.header}>
+        <ThemedText style={styles.name}>{blocklist?.name ?? 'Deleted blocklist'}</ThemedText>
+        <ThemedText style={styles.budget}>{limit.maxOpens} opens/day</ThemedText>
+      </View>
+
+      {blocklist && (
+        <SelectedAppsIcons
+          key={`icons-${limit.id}-${updatedAt}`}
+          familyActivitySelectionId={blocklist.familyActivitySelectionId}
+          iconSize={28}
+          maxIcons={6}
+          height={36}
+        />
+      )}
+
+      <ThemedText style={[styles.status, isReached && limit.isActive && styles.statusReached]}>
+        {getStatusText()}
+      </ThemedText>
+
+      {limit.isActive && !isOpen && !isReached && (
+        <TouchableOpacity style={styles.openButton} onPress={onOpen}>
+          <IconSymbol name="lock.open.fill" size={16} color="#000" />
+          <ThemedText style={styles.openButtonText}>Open for {OPEN_LIMIT_WINDOW_MINUTES} min</ThemedText>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: '#1a1a1a',
+    borderRadius: 12,
+    marginTop: 12,
+    padding: 16,
+    gap: 8,
+    borderWidth: 1,
+    borderColor: '#333333',
+  },
+  cardReached: {
+    borderColor: '#FF3B30',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  name: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  budget: {
+    fontSize: 13,
+    opacity: 0.6,
+  },
+  status: {
+    fontSize: 13,
+    opacity: 0.7,
+  },
+  statusReached: {
+    color: '#FF3B30',
+    opacity: 1,
+  },
+  openButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    paddingVertical: 10,
+    borderRadius: 8,
+    backgroundColor: Colors.dark.primary,
+  },
+  openButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#000',
+  },
+});
@@ -0,0 +1,149 @@
+/**
+ * Pause Control Component
+ *
+ * Break button for an active blocking session. Shows the time left
+ * in the current pause and the pause budget remaining today.
+ *
+ * @module components/pause-control
+ */
+
+import React, { useEffect, useState } from 'react';
+import { StyleSheet, TouchableOpacity, View } from 'react-native';
+
+import { ThemedText } from './themed-text';
+import { IconSymbol } from './ui/icon-symbol';
+import { Colors } from '@/constants/theme';
+import { BlockerState } from '@/types/blocker';
+import { getPauseUsedSeconds } from '@/utils/sessionHistory';
+import { formatCountdown, formatTimeShort } from '@/utils/timeFormatter';
+
+interface PauseControlProps {
+  /** Current blocker state */
+  state: BlockerState;
+  /** Daily pause budget in minutes */
+  budgetMinutes: number;
+  /** Called with the remaining budget in seconds when the user asks for a break */
+  onPause: (remainingSeconds: number) => void;
+  /** Called when the user ends the break early */
+  onResume: () => void;
+}
+
+export function PauseControl({ state, budgetMinutes, onPause, onResume }: PauseControlProps) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!state.isPaused) return;
+
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [state.isPaused]);
+
+  if (!state.isBlocking) {
+    return null;
+  }
+
+  const currentTime = state.isPaused ? now : Date.now();
+  const remainingSeconds = Math.max(0, budgetMinutes * 60 - getPauseUsedSeconds(state, currentTime));
+
+  if (state.isPaused && state.pauseEndsAt) {
+    const secondsLeft = Math.max(0, Math.ceil((state.pauseEndsAt - currentTime) / 1000));
+
+    return (
+      <View style={[styles.container, styles.containerPaused]}>
+        <View style={styles.info}>
+          <ThemedText style={styles.titlePaused}>On a break</ThemedText>
+          <ThemedText style={styles.subtitle}>
+            Blocking resumes in {secondsLeft < 60 ? `${secondsLeft}s` : formatCountdown(secondsLeft)}
+          </ThemedText>
+        </View>
+        <TouchableOpacity style={styles.button} onPress={onResume}>
+          <IconSymbol name="play.fill" size={16} color="#000" />
+          <ThemedText style={styles.buttonText}>Resume</ThemedText>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  const hasBudget = remainingSeconds >= 60;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.info}>
+        <ThemedText style={styles.title}>Need a break?</ThemedText>
+        <ThemedText style={styles.subtitle}>
+          {hasBudget
+            ? `${formatTimeShort(remainingSeconds)} of breaks left today`
+            : 'No breaks left today'}
+        </ThemedText>
+      </View>
+      <TouchableOpacity
+        style={[styles.button, styles.buttonSecondary, !hasBudget && styles.buttonDisabled]}
+        onPress={() => onPause(remainingSeconds)}
+        disabled={!hasBudget}
+      >
+        <IconSymbol name="pause.fill" size={16} color={Colors.dark.primary} />
+        <ThemedText style={styles.buttonTextSecondary}>Pause</ThemedText>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    padding: 16,
+    marginBottom: 16,
+    backgroundColor: '#1a1a1a',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#333333',
+  },
+  containerPaused: {
+    borderColor: '#FFB800',
+  },
+  info: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  titlePaused: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFB800',
+  },
+  subtitle: {
+    fontSize: 13,
+    opacity: 0.6,
+  },
+  button: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 8,
+    backgroundColor: Colors.dark.primary,
+  },
+  buttonSecondary: {
+    backgroundColor: 'transparent',
+    borderWidth: 1,
+    borderColor: Colors.dark.primary,
+  },
+  buttonDisabled: {
+    opacity: 0.4,
+  },
+  buttonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#000',
+  },
+  buttonTextSecondary: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.dark.primary,
+  },
+});
@@ -0,0 +1,359 @@
+/**
+ * Quick Session Control Component
+ *
+ * "Focus now" button that blocks a selection for a few minutes
+ * without creating a schedule, and the countdown while it runs.
+ *
+ * @module components/quick-session-control
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Alert, Modal, SafeAreaView, StyleSheet, TextInput, TouchableOpacity, View } from 'react-native';
+
+import { IOSActivityPicker } from './ios-activity-picker';
+import { SelectedAppsIcons } from './selected-apps-icons';
+import { ThemedText } from './themed-text';
+import { IconSymbol } from './ui/icon-symbol';
+import { Colors } from '@/constants/theme';
+import { deviceActivityService } from '@/services/device-activity.service';
+import {
+  DEFAULT_QUICK_SESSION_MINUTES,
+  QUICK_SESSION_DURATIONS,
+  QUICK_SESSION_SELECTION_ID,
+  QuickSession,
+} from '@/types/blocker';
+import { formatCountdown } from '@/utils/timeFormatter';
+
+/** Longest custom quick session (minutes) */
+const MAX_CUSTOM_MINUTES = 12 * 60;
+
+interface QuickSessionControlProps {
+  /** Running quick session, if any */
+  quickSession?: QuickSession;
+  /** Called with the chosen length when the user starts a session */
+  onStart: (minutes: number) => void;
+  /** Called when the user ends the session early */
+  onStop: () => void;
+}
+
+export function QuickSessionControl({ quickSession, onStart, onStop }: QuickSessionControlProps) {
+  const [showSheet, setShowSheet] = useState(false);
+  const [showPicker, setShowPicker] = useState(false);
+  const [minutes, setMinutes] = useState(DEFAULT_QUICK_SESSION_MINUTES);
+  const [isCustom, setIsCustom] = useState(false);
+  const [customText, setCustomText] = useState('');
+  const [hasApps, setHasApps] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!quickSession) return;
+
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [quickSession]);
+
+  // The quick selection is reused, so apps picked last time are still there
+  useEffect(() => {
+    if (!showSheet) return;
+
+    const metadata = deviceActivityService.getSelectionMetadata(QUICK_SESSION_SELECTION_ID);
+    setHasApps(Boolean(metadata && (metadata.applicationCount > 0 || metadata.categoryCount > 0)));
+  }, [showSheet]);
+
+  const handleSelectionChange = (metadata: { applicationCount: number; categoryCount: number }) => {
+    setHasApps(metadata.applicationCount > 0 || metadata.categoryCount > 0);
+  };
+
+  const selectPreset = (value: number) => {
+    setIsCustom(false);
+    setMinutes(value);
+  };
+
+  const handleStart = () => {
+    const duration = isCustom ? parseInt(customText, 10) : minutes;
+
+    if (!hasApps) {
+      Alert.alert('No Apps Selected', 'Please select apps to block first.', [{ text: 'OK' }]);
+      return;
+    }
+    if (!Number.isFinite(duration) || duration < 1 || duration > MAX_CUSTOM_MINUTES) {
+      Alert.alert('Invalid Duration', `Enter between 1 and ${MAX_CUSTOM_MINUTES} minutes.`, [{ text: 'OK' }]);
+      return;
+    }
+
+    setShowSheet(false);
+    onStart(duration);
+  };
+
+  if (quickSession) {
+    const secondsLeft = Math.max(0, Math.ceil((quickSession.endsAt - now) / 1000));
+
+    return (
+      <View style={[styles.container, styles.containerActive]}>
+        <View style={styles.info}>
+          <ThemedText style={styles.titleActive}>Focus session</ThemedText>
+          <ThemedText style={styles.subtitle}>
+            Ends in {secondsLeft < 60 ? `${secondsLeft}s` : formatCountdown(secondsLeft)}
+          </ThemedText>
+        </View>
+        <TouchableOpacity style={[styles.button, styles.buttonStop]} onPress={onStop}>
+          <IconSymbol name="stop.fill" size={16} color="#FF3B30" />
+          <ThemedText style={styles.buttonTextStop}>Stop</ThemedText>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  return (
+    <>
+      <View style={styles.container}>
+        <View style={styles.info}>
+          <ThemedText style={styles.title}>Focus now</ThemedText>
+          <ThemedText style={styles.subtitle}>Block apps for a while, no schedule needed</ThemedText>
+        </View>
+        <TouchableOpacity style={styles.button} onPress={() => setShowSheet(true)}>
+          <IconSymbol name="play.fill" size={16} color="#000" />
+          <ThemedText style={styles.buttonText}>Start</ThemedText>
+        </TouchableOpacity>
+      </View>
+
+      <Modal
+        visible={showSheet}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={() => setShowSheet(false)}
+      >
+        <SafeAreaView style={styles.sheet}>
+          <View style={styles.sheetHeader}>
+            <TouchableOpacity onPress={() => setShowSheet(false)}>
+              <ThemedText style={styles.cancelText}>Cancel</ThemedText>
+            </TouchableOpacity>
+            <ThemedText type="subtitle">Focus Now</ThemedText>
+            <View style={styles.headerSpacer} />
+          </View>
+
+          <View style={styles.sheetContent}>
+            <ThemedText style={styles.label}>Duration</ThemedText>
+            <View style={styles.chips}>
+              {QUICK_SESSION_DURATIONS.map((value) => (
+                <TouchableOpacity
+                  key={value}
+                  style={[styles.chip, !isCustom && minutes === value && styles.chipSelected]}
+                  onPress={() => selectPreset(value)}
+                >
+                  <ThemedText style={[styles.chipText, !isCustom && minutes === value && styles.chipTextSelected]}>
+                    {value} min
+                  </ThemedText>
+                </TouchableOpacity>
+              ))}
+              <TouchableOpacity
+                style={[styles.chip, isCustom && styles.chipSelected]}
+                onPress={() => setIsCustom(true)}
+              >
+                <ThemedText style={[styles.chipText, isCustom && styles.chipTextSelected]}>Custom</ThemedText>
+              </TouchableOpacity>
+            </View>
+
+            {isCustom && (
+              <TextInput
+                style={styles.input}
+                value={customText}
+                onChangeText={(text) => setCustomText(text.replace(/[^0-9]/g, ''))}
+                placeholder="Minutes"
+                placeholderTextColor={Colors.dark.icon}
+                keyboardType="number-pad"
+                maxLength={3}
+                autoFocus
+              />
+            )}
+
+            <ThemedText style={styles.label}>Apps to Block</ThemedText>
+            <TouchableOpacity style={styles.appsButton} onPress={() => setShowPicker(true)}>
+              {hasApps ? (
+                <SelectedAppsIcons
+                  familyActivitySelectionId={QUICK_SESSION_SELECTION_ID}
+                  iconSize={32}
+                  maxIcons={6}
+                  height={40}
+                />
+              ) : (
+                <ThemedText style={styles.emptyText}>Tap to select apps</ThemedText>
+              )}
+              <IconSymbol name="chevron.right" size={16} color={Colors.dark.icon} />
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.sheetActions}>
+            <TouchableOpacity
+              style={[styles.startButton, !hasApps && styles.buttonDisabled]}
+              onPress={handleStart}
+            >
+              <ThemedText style={styles.startButtonText}>Start Focus</ThemedText>
+            </TouchableOpacity>
+          </View>
+        </SafeAreaView>
+
+        <IOSActivityPicker
+          visible={showPicker}
+          onClose={() => setShowPicker(false)}
+          onSelectionChange={handleSelectionChange}
+          familyActivitySelectionId={QUICK_SESSION_SELECTION_ID}
+        />
+      </Modal>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    padding: 16,
+    marginBottom: 16,
+    backgroundColor: '#1a1a1a',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#333333',
+  },
+  containerActive: {
+    borderColor: Colors.dark.primary,
+  },
+  info: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  titleActive: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.dark.primary,
+  },
+  subtitle: {
+    fontSize: 13,
+    opacity: 0.6,
+  },
+  button: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 8,
+    backgroundColor: Colors.dark.primary,
+  },
+  buttonStop: {
+    backgroundColor: 'transparent',
+    borderWidth: 1,
+    borderColor: '#FF3B30',
+  },
+  buttonDisabled: {
+    opacity: 0.4,
+  },
+  buttonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#000',
+  },
+  buttonTextStop: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#FF3B30',
+  },
+  sheet: {
+    flex: 1,
+    backgroundColor: Colors.dark.background,
+  },
+  sheetHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#333333',
+  },
+  cancelText: {
+    fontSize: 16,
+    color: Colors.dark.primary,
+  },
+  headerSpacer: {
+    width: 50,
+  },
+  sheetContent: {
+    flex: 1,
+    padding: 20,
+    gap: 12,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    opacity: 0.7,
+    marginTop: 8,
+  },
+  chips: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  chip: {
+    flex: 1,
+    paddingVertical: 12,
+    borderRadius: 8,
+    alignItems: 'center',
+    backgroundColor: '#1a1a1a',
+    borderWidth: 1,
+    borderColor: '#333333',
+  },
+  chipSelected: {
+    backgroundColor: Colors.dark.primary,
+    borderColor: Colors.dark.primary,
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  chipTextSelected: {
+    color: '#000',
+  },
+  input: {
+    fontSize: 16,
+    color: Colors.dark.text,
+    padding: 16,
+    backgroundColor: '#1a1a1a',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#333333',
+  },
+  appsButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 12,
+    padding: 16,
+    minHeight: 72,
+    backgroundColor: '#1a1a1a',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#333333',
+  },
+  emptyText: {
+    flex: 1,
+    fontSize: 15,
+    opacity: 0.5,
+  },
+  sheetActions: {
+    padding: 20,
+  },
+  startButton: {
+    paddingVertical: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+    backgroundColor: Colors.dark.primary,
+  },
+  startButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000',
+  },
+});
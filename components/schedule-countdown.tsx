@@ -0,0 +1,63 @@
+/**
+ * Schedule Countdown Component
+ *
+ * Live "starts in" / "ends in" label for a schedule card.
+ * Re-computes the next occurrence on a short interval.
+ *
+ * @module components/schedule-countdown
+ */
+
+import React, { useEffect, useState } from 'react';
+import { StyleSheet } from 'react-native';
+
+import { ThemedText } from './themed-text';
+import { Colors } from '@/constants/theme';
+import { getNextOccurrence, scheduleEngine } from '@/services/schedule-engine';
+import { BlockerSchedule } from '@/types/blocker';
+import { formatCountdown } from '@/utils/timeFormatter';
+
+interface ScheduleCountdownProps {
+  /** Schedule to count down to */
+  schedule: BlockerSchedule;
+  /** Refresh interval in milliseconds (default: 15000) */
+  refreshInterval?: number;
+}
+
+export function ScheduleCountdown({ schedule, refreshInterval = 15000 }: ScheduleCountdownProps) {
+  const [now, setNow] = useState(() => scheduleEngine.now());
+
+  useEffect(() => {
+    const interval = setInterval(() => {
+      setNow(scheduleEngine.now());
+    }, refreshInterval);
+
+    return () => clearInterval(interval);
+  }, [refreshInterval]);
+
+  const occurrence = getNextOccurrence(schedule, now);
+  if (!occurrence) {
+    return null;
+  }
+
+  const isInWindow = occurrence.start.getTime() <= now.getTime();
+  const target = isInWindow ? occurrence.end : occurrence.start;
+  const secondsLeft = Math.max(0, Math.floor((target.getTime() - now.getTime()) / 1000));
+
+  return (
+    <ThemedText style={[styles.countdown, isInWindow && styles.countdownActive]}>
+      {isInWindow ? 'ends in' : 'starts in'} {formatCountdown(secondsLeft)}
+    </ThemedText>
+  );
+}
+
+const styles = StyleSheet.create({
+  countdown: {
+    fontSize: 12,
+    opacity: 0.7,
+    marginTop: 2,
+  },
+  countdownActive: {
+    color: Colors.dark.primary,
+    opacity: 1,
+  },
+});
@@ -14,25 +14,78 @@ import {
   Platform,
   ScrollView,
   StyleSheet,
+  Switch,
+  TextInput,
   TouchableOpacity,
   View,
 } from 'react-native';
 import DateTimePicker from '@react-native-community/datetimepicker';
 
 import { Colors } from '@/constants/theme';
-import { BlockerSchedule, DAY_NAMES_FULL } from '@/types/blocker';
+import { useScheduleTemplates } from '@/hooks/use-schedule-templates';
+import { buildWeekTimeline, findScheduleOverlaps, getScheduleProblems } from '@/services/schedule-validation';
+import {
+  BlockerSchedule,
+  BlockMode,
+  Blocklist,
+  DAY_NAMES_FULL,
+  ScheduleTemplate,
+  ScheduleWindow,
+  UnlockChallengeType,
+} from '@/types/blocker';
+import { getScheduleWindows } from '@/utils/scheduleWindows';
+import { getDayKey, parseDayKey } from '@/utils/sessionHistory';
+import { formatDayAndTime, formatScheduleTimes, formatShortDate } from '@/utils/timeFormatter';
+import {
+  UNLOCK_CHALLENGE_LABELS,
+  UNLOCK_CHALLENGE_TYPES,
+  UNLOCK_DIFFICULTY_OPTIONS,
+  describeChallenge,
+  formatDifficulty,
+  getUnlockChallenge,
+} from '@/utils/unlockChallenge';
+import { MAX_WEB_DOMAINS, addWebDomains } from '@/utils/webDomains';
 import { IOSActivityPicker } from './ios-activity-picker';
 import { SelectedAppsIcons } from './selected-apps-icons';
 import { ThemedText } from './themed-text';
 import { ThemedView } from './themed-view';
 import { IconSymbol } from './ui/icon-symbol';
+import { WeekTimelinePreview } from './week-timeline-preview';
 
 interface ScheduleFormProps {
   schedule?: BlockerSchedule;
+  /** Saved schedules to check for overlaps (without the one being edited) */
+  otherSchedules?: BlockerSchedule[];
+  /** Blocklists the schedule can block instead of its own apps */
+  blocklists?: Blocklist[];
   onSave: (schedule: BlockerSchedule) => void;
   onCancel: () => void;
 }
 
+/** Weekly schedules repeat on days of week, dated ones run on a single date */
+type RepeatMode = 'weekly' | 'date';
+
+/** Window time the time picker is editing */
+interface TimePickerTarget {
+  index: number;
+  field: 'startTime' | 'endTime';
+}
+
+/** Date field the date picker is editing */
+type DatePickerTarget = 'date' | 'rangeStart' | 'rangeEnd' | 'exception';
+
+const DATE_PICKER_TITLES: Record<DatePickerTarget, string> = {
+  date: 'Date',
+  rangeStart: 'First Date',
+  rangeEnd: 'Last Date',
+  exception: 'Skip Date',
+};
+
+function addDays(key: string, days: number): string {
+  const date = parseDayKey(key);
+  return getDayKey(new Date(date.getFullYear(), date.getMonth(), date.getDate() + days));
+}
+
 function timeStringToDate(timeString: string): Date {
   const [hours, minutes] = timeString.split(':').map(Number);
   const date = new Date();
@@ -46,15 +99,41 @@ function dateToTimeString(date: Date): string {
   return `${hours}:${minutes}`;
 }
 
-export function ScheduleForm({ schedule, onSave, onCancel }: ScheduleFormProps) {
-  const [startTime, setStartTime] = useState(schedule?.startTime || '09:00');
-  const [endTime, setEndTime] = useState(schedule?.endTime || '17:00');
-  const [selectedDays, setSelectedDays] = useState<number[]>(schedule?.daysOfWeek || []);
+export function ScheduleForm({
+  schedule,
+  otherSchedules = [],
+  blocklists = [],
+  onSave,
+  onCancel,
+}: ScheduleFormProps) {
+  const { presets, templates, saveAsTemplate, deleteTemplate } = useScheduleTemplates();
+  const [name, setName] = useState(schedule?.name ?? '');
+  const [templateId, setTemplateId] = useState<string | null>(null);
+  const [windows, setWindows] = useState<ScheduleWindow[]>(() =>
+    schedule ? getScheduleWindows(schedule) : [{ startTime: '09:00', endTime: '17:00', daysOfWeek: [] }]
+  );
+  const [repeatMode, setRepeatMode] = useState<RepeatMode>(schedule?.date ? 'date' : 'weekly');
+  const [date, setDate] = useState(() => schedule?.date ?? getDayKey(new Date()));
+  const [useDateRange, setUseDateRange] = useState(Boolean(schedule?.dateRange));
+  const [rangeStart, setRangeStart] = useState(() => schedule?.dateRange?.start ?? getDayKey(new Date()));
+  const [rangeEnd, setRangeEnd] = useState(() => schedule?.dateRange?.end ?? addDays(getDayKey(new Date()), 13));
+  const [exceptionDates, setExceptionDates] = useState<string[]>(schedule?.exceptionDates || []);
+  const [datePickerTarget, setDatePickerTarget] = useState<DatePickerTarget | null>(null);
+  const [tempDate, setTempDate] = useState(() => new Date());
   const [isActive] = useState(schedule?.isActive ?? true);
+  const [strict, setStrict] = useState(schedule?.strict ?? false);
+  const [challengeType, setChallengeType] = useState(getUnlockChallenge(schedule?.unlockChallenge).type);
+  const [difficulty, setDifficulty] = useState(getUnlockChallenge(schedule?.unlockChallenge).difficulty);
   const [showPicker, setShowPicker] = useState(false);
+  const [showProblems, setShowProblems] = useState(false);
+  const [blocklistId, setBlocklistId] = useState(schedule?.blocklistId ?? null);
+  const [blockMode, setBlockMode] = useState<BlockMode>(schedule?.blockMode ?? 'block');
+  const [webDomains, setWebDomains] = useState<string[]>(schedule?.webDomains || []);
+  const [domainInput, setDomainInput] = useState('');
+  const blocklist = blocklists.find((b) => b.id === blocklistId);
   
-  // If editing, mark as having apps selected (since we can't query the native selection)
-  const isEditing = Boolean(schedule?.familyActivitySelectionId);
+  // If editing a schedule with its own apps, mark them as selected (since we can't query the native selection)
+  const isEditing = Boolean(schedule?.familyActivitySelectionId) && !schedule?.blocklistId;
   const [selectionInfo, setSelectionInfo] = useState({
     applicationCount: isEditing ? 1 : 0, // Assume apps are selected if editing
     categoryCount: 0,
@@ -63,52 +142,152 @@ export function ScheduleForm({ schedule, onSave, onCancel }: ScheduleFormProps)
   
   const [scheduleId] = useState(() => schedule?.id || `schedule_${Date.now()}`);
   
-  const [showStartTimePicker, setShowStartTimePicker] = useState(false);
-  const [showEndTimePicker, setShowEndTimePicker] = useState(false);
-  const [tempStartTime, setTempStartTime] = useState(timeStringToDate(startTime));
-  const [tempEndTime, setTempEndTime] = useState(timeStringToDate(endTime));
+  const [timePickerTarget, setTimePickerTarget] = useState<TimePickerTarget | null>(null);
+  const [tempTime, setTempTime] = useState(() => new Date());
+
+  const updateWindow = (index: number, updates: Partial<ScheduleWindow>) => {
+    setWindows((prev) => prev.map((window, i) => (i === index ? { ...window, ...updates } : window)));
+  };
+
+  const addWindow = () => {
+    const last = windows[windows.length - 1];
+    setWindows([...windows, { startTime: '14:00', endTime: '18:00', daysOfWeek: [...last.daysOfWeek] }]);
+  };
+
+  const removeWindow = (index: number) => {
+    setWindows(windows.filter((_, i) => i !== index));
+  };
+
+  const openTimePicker = (index: number, field: TimePickerTarget['field']) => {
+    setTempTime(timeStringToDate(windows[index][field]));
+    setTimePickerTarget({ index, field });
+  };
 
-  const handleStartTimeChange = (_event: any, selectedDate?: Date) => {
+  const handleTimeChange = (_event: any, selectedDate?: Date) => {
     if (Platform.OS === 'android') {
-      setShowStartTimePicker(false);
-      if (selectedDate) {
-        setStartTime(dateToTimeString(selectedDate));
+      const target = timePickerTarget;
+      setTimePickerTarget(null);
+      if (selectedDate && target) {
+        updateWindow(target.index, { [target.field]: dateToTimeString(selectedDate) });
       }
     } else {
       if (selectedDate) {
-        setTempStartTime(selectedDate);
+        setTempTime(selectedDate);
       }
     }
   };
 
-  const handleEndTimeChange = (_event: any, selectedDate?: Date) => {
+  const confirmTime = () => {
+    if (timePickerTarget) {
+      updateWindow(timePickerTarget.index, { [timePickerTarget.field]: dateToTimeString(tempTime) });
+    }
+    setTimePickerTarget(null);
+  };
+
+  const toggleDay = (index: number, dayIndex: number) => {
+    const days = windows[index].daysOfWeek;
+    updateWindow(index, {
+      daysOfWeek: days.includes(dayIndex) ? days.filter((d) => d !== dayIndex) : [...days, dayIndex],
+    });
+  };
+
+  const openDatePicker = (target: DatePickerTarget, value: string) => {
+    setTempDate(parseDayKey(value));
+    setDatePickerTarget(target);
+  };
+
+  const applyDate = (target: DatePickerTarget, value: Date) => {
+    const key = getDayKey(value);
+
+    switch (target) {
+      case 'date':
+        setDate(key);
+        break;
+      case 'rangeStart':
+        setRangeStart(key);
+        break;
+      case 'rangeEnd':
+        setRangeEnd(key);
+        break;
+      case 'exception':
+        setExceptionDates((prev) => (prev.includes(key) ? prev : [...prev, key].sort()));
+        break;
+    }
+  };
+
+  const handleDateChange = (_event: any, selectedDate?: Date) => {
     if (Platform.OS === 'android') {
-      setShowEndTimePicker(false);
-      if (selectedDate) {
-        setEndTime(dateToTimeString(selectedDate));
+      const target = datePickerTarget;
+      setDatePickerTarget(null);
+      if (selectedDate && target) {
+        applyDate(target, selectedDate);
       }
     } else {
       if (selectedDate) {
-        setTempEndTime(selectedDate);
+        setTempDate(selectedDate);
       }
     }
   };
 
-  const confirmStartTime = () => {
-    setStartTime(dateToTimeString(tempStartTime));
-    setShowStartTimePicker(false);
+  const confirmDate = () => {
+    if (datePickerTarget) {
+      applyDate(datePickerTarget, tempDate);
+    }
+    setDatePickerTarget(null);
   };
 
-  const confirmEndTime = () => {
-    setEndTime(dateToTimeString(tempEndTime));
-    setShowEndTimePicker(false);
+  const removeExceptionDate = (key: string) => {
+    setExceptionDates(exceptionDates.filter((d) => d !== key));
   };
 
-  const toggleDay = (dayIndex: number) => {
-    if (selectedDays.includes(dayIndex)) {
-      setSelectedDays(selectedDays.filter((d) => d !== dayIndex));
-    } else {
-      setSelectedDays([...selectedDays, dayIndex]);
+  const handleAddDomains = () => {
+    const result = addWebDomains(webDomains, domainInput);
+
+    setWebDomains(result.domains);
+    setDomainInput(result.invalid.join(' '));
+    if (result.invalid.length > 0) {
+      Alert.alert('Invalid Website', `Not a valid domain: ${result.invalid.join(', ')}`);
+    }
+  };
+
+  const removeWebDomain = (domain: string) => {
+    setWebDomains(webDomains.filter((d) => d !== domain));
+  };
+
+  const applyTemplate = (template: ScheduleTemplate) => {
+    setTemplateId(template.id);
+    setName(template.name);
+    setRepeatMode('weekly');
+    setWindows(template.windows.map((window) => ({ ...window, daysOfWeek: [...window.daysOfWeek] })));
+
+    // Presets only suggest times; personal templates bring their settings along
+    if (!template.isPreset) {
+      const challenge = getUnlockChallenge(template.unlockChallenge);
+      setStrict(template.strict ?? false);
+      setChallengeType(challenge.type);
+      setDifficulty(challenge.difficulty);
+    }
+  };
+
+  const handleDeleteTemplate = (template: ScheduleTemplate) => {
+    Alert.alert('Delete Template', `Delete "${template.name}"?`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: () => {
+          if (templateId === template.id) setTemplateId(null);
+          deleteTemplate(template.id);
+        },
+      },
+    ]);
+  };
+
+  const selectChallengeType = (type: UnlockChallengeType) => {
+    setChallengeType(type);
+    const options = UNLOCK_DIFFICULTY_OPTIONS[type];
+    if (!options.includes(difficulty)) {
+      setDifficulty(options[Math.floor(options.length / 2)]);
     }
   };
 
@@ -121,32 +300,85 @@ export function ScheduleForm({ schedule, onSave, onCancel }: ScheduleFormProps)
     setHasModifiedSelection(true);
   };
 
-  // For editing: if selection wasn't modified, trust that apps exist; otherwise check new selection
-  const hasAppsSelected = isEditing && !hasModifiedSelection 
+  // Blocklists are picked on their own screen; for editing: if selection wasn't modified,
+  // trust that apps exist; otherwise check new selection
+  const hasAppsSelected = blocklist || (isEditing && !hasModifiedSelection)
     ? true 
     : selectionInfo.applicationCount > 0 || selectionInfo.categoryCount > 0;
 
+  const isDated = repeatMode === 'date';
+
+  // Dated schedules keep their weekday for older readers of daysOfWeek
+  const savedWindows = isDated
+    ? windows.map((window) => ({ ...window, daysOfWeek: [parseDayKey(date).getDay()] }))
+    : windows;
+
+  const draft: BlockerSchedule = {
+    id: scheduleId,
+    name: name.trim(),
+    startTime: savedWindows[0].startTime,
+    endTime: savedWindows[0].endTime,
+    daysOfWeek: savedWindows[0].daysOfWeek,
+    windows: savedWindows.length > 1 ? savedWindows : undefined,
+    date: isDated ? date : undefined,
+    dateRange: !isDated && useDateRange ? { start: rangeStart, end: rangeEnd } : undefined,
+    exceptionDates: !isDated && exceptionDates.length > 0 ? exceptionDates : undefined,
+    isActive,
+    familyActivitySelectionId: blocklist?.familyActivitySelectionId ?? scheduleId,
+    blocklistId: blocklist?.id,
+    blockMode: blockMode === 'allow' ? 'allow' : undefined,
+    webDomains: webDomains.length > 0 ? webDomains : undefined,
+    strict,
+    unlockChallenge: challengeType === 'none' ? undefined : { type: challengeType, difficulty },
+  };
+
+  const problems = getScheduleProblems(draft);
+  const overlaps = problems.length === 0 ? findScheduleOverlaps(draft, otherSchedules) : [];
+  const timeline = problems.length === 0 ? buildWeekTimeline(draft, otherSchedules) : [];
+
   const handleSave = () => {
     if (!hasAppsSelected) {
       Alert.alert('Error', 'Please select at least one app to block');
       return;
     }
-    if (selectedDays.length === 0) {
-      Alert.alert('Error', 'Please select at least one day');
+    if (problems.length > 0) {
+      setShowProblems(true);
+      Alert.alert('Invalid Schedule', problems.join('\n'));
+      return;
+    }
+    if (overlaps.length > 0) {
+      const details = overlaps
+        .map((overlap) => `${formatScheduleTimes(overlap.schedule)} from ${formatDayAndTime(overlap.start)}`)
+        .join('\n');
+
+      Alert.alert(
+        'Overlapping Schedules',
+        `This schedule overlaps with:\n${details}\n\nOverlapping schedules block as one. Save anyway?`,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Save Anyway', onPress: () => onSave(draft) },
+        ]
+      );
       return;
     }
 
-    const newSchedule: BlockerSchedule = {
-      id: scheduleId,
-      name: '', // Not displayed, kept for compatibility
-      startTime,
-      endTime,
-      daysOfWeek: selectedDays,
-      isActive,
-      familyActivitySelectionId: scheduleId,
-    };
-
-    onSave(newSchedule);
+    onSave(draft);
+  };
+
+  const handleSaveAsTemplate = async () => {
+    if (problems.length > 0) {
+      setShowProblems(true);
+      Alert.alert('Invalid Schedule', problems.join('\n'));
+      return;
+    }
+
+    const templateName = draft.name || formatScheduleTimes(draft);
+    try {
+      await saveAsTemplate(draft, templateName);
+      Alert.alert('Template Saved', `"${templateName}" is now available when creating a schedule.`);
+    } catch {
+      Alert.alert('Error', 'Could not save the template');
+    }
   };
 
   return (
@@ -156,77 +388,291 @@ export function ScheduleForm({ schedule, onSave, onCancel }: ScheduleFormProps)
           <ThemedText type="title">{schedule ? 'Edit Schedule' : 'New Schedule'}</ThemedText>
         </View>
 
-        <View style={styles.section}>
-          <ThemedText style={styles.label}>Start Time</ThemedText>
-          <TouchableOpacity
-            style={styles.timeInput}
-            onPress={() => {
-              setTempStartTime(timeStringToDate(startTime));
-              setShowStartTimePicker(true);
-            }}
-            activeOpacity={0.7}
-          >
-            <ThemedText style={styles.timeInputText}>{startTime}</ThemedText>
-            <IconSymbol name="clock.fill" size={20} color={Colors.dark.icon} />
-          </TouchableOpacity>
-        </View>
+        {!schedule && (
+          <View style={styles.section}>
+            <ThemedText style={styles.label}>Start From</ThemedText>
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.templates}>
+              {[...templates, ...presets].map((template) => (
+                <TouchableOpacity
+                  key={template.id}
+                  style={[styles.templateCard, templateId === template.id && styles.dayButtonSelected]}
+                  onPress={() => applyTemplate(template)}
+                  onLongPress={template.isPreset ? undefined : () => handleDeleteTemplate(template)}
+                  activeOpacity={0.7}
+                >
+                  <ThemedText
+                    style={[styles.dayText, templateId === template.id && styles.dayTextSelected]}
+                    numberOfLines={1}
+                  >
+                    {template.name}
+                  </ThemedText>
+                  <ThemedText
+                    style={[styles.templateDescription, templateId === template.id && styles.dayTextSelected]}
+                    numberOfLines={1}
+                  >
+                    {template.description ??
+                      template.windows.map((window) => `${window.startTime} - ${window.endTime}`).join(', ')}
+                  </ThemedText>
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+            {templates.length > 0 && (
+              <ThemedText style={[styles.toggleDescription, styles.challengeSpacing]}>
+                Long-press your own template to delete it.
+              </ThemedText>
+            )}
+          </View>
+        )}
 
         <View style={styles.section}>
-          <ThemedText style={styles.label}>End Time</ThemedText>
-          <TouchableOpacity
-            style={styles.timeInput}
-            onPress={() => {
-              setTempEndTime(timeStringToDate(endTime));
-              setShowEndTimePicker(true);
-            }}
-            activeOpacity={0.7}
-          >
-            <ThemedText style={styles.timeInputText}>{endTime}</ThemedText>
-            <IconSymbol name="clock.fill" size={20} color={Colors.dark.icon} />
-          </TouchableOpacity>
+          <ThemedText style={styles.label}>Name</ThemedText>
+          <TextInput
+            style={[styles.timeInput, styles.timeInputText]}
+            value={name}
+            onChangeText={setName}
+            placeholder="e.g. Work hours (optional)"
+            placeholderTextColor={Colors.dark.icon}
+            maxLength={40}
+          />
         </View>
 
         <View style={styles.section}>
-          <ThemedText style={styles.label}>Days of Week</ThemedText>
+          <ThemedText style={styles.label}>Repeat</ThemedText>
           <View style={styles.daysContainer}>
-            {DAY_NAMES_FULL.map((day, index) => (
+            {(['weekly', 'date'] as const).map((mode) => (
               <TouchableOpacity
-                key={index}
-                style={[
-                  styles.dayButton,
-                  selectedDays.includes(index) && styles.dayButtonSelected,
-                ]}
-                onPress={() => toggleDay(index)}
+                key={mode}
+                style={[styles.dayButton, repeatMode === mode && styles.dayButtonSelected]}
+                onPress={() => setRepeatMode(mode)}
               >
-                <ThemedText
-                  style={[
-                    styles.dayText,
-                    selectedDays.includes(index) && styles.dayTextSelected,
-                  ]}
-                >
-                  {day.substring(0, 3)}
+                <ThemedText style={[styles.dayText, repeatMode === mode && styles.dayTextSelected]}>
+                  {mode === 'weekly' ? 'Weekly' : 'One Date'}
                 </ThemedText>
               </TouchableOpacity>
             ))}
           </View>
         </View>
 
-        <View style={styles.section}>
-          <View style={styles.sectionHeader}>
-            <ThemedText style={styles.label}>Apps to Block</ThemedText>
+        {isDated && (
+          <View style={styles.section}>
+            <ThemedText style={styles.label}>Date</ThemedText>
             <TouchableOpacity
-              style={styles.selectButton}
-              onPress={handleSelectApps}
+              style={styles.timeInput}
+              onPress={() => openDatePicker('date', date)}
               activeOpacity={0.7}
             >
+              <ThemedText style={styles.timeInputText}>{formatShortDate(parseDayKey(date))}</ThemedText>
+              <IconSymbol name="calendar" size={20} color={Colors.dark.icon} />
+            </TouchableOpacity>
+          </View>
+        )}
+
+        <View style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <ThemedText style={styles.label}>Time Windows</ThemedText>
+            <TouchableOpacity style={styles.selectButton} onPress={addWindow} activeOpacity={0.7}>
               <IconSymbol name="plus.circle.fill" size={20} color={Colors.dark.primary} />
-              <ThemedText style={styles.selectButtonText}>
-                {hasAppsSelected ? 'Change Selection' : 'Select Apps'}
-              </ThemedText>
+              <ThemedText style={styles.selectButtonText}>Add Window</ThemedText>
             </TouchableOpacity>
           </View>
+
+          {windows.map((window, windowIndex) => (
+            <View key={windowIndex} style={styles.windowCard}>
+              <View style={styles.windowTimes}>
+                <TouchableOpacity
+                  style={[styles.timeInput, styles.windowTimeInput]}
+                  onPress={() => openTimePicker(windowIndex, 'startTime')}
+                  activeOpacity={0.7}
+                >
+                  <ThemedText style={styles.timeInputText}>{window.startTime}</ThemedText>
+                  <IconSymbol name="clock.fill" size={20} color={Colors.dark.icon} />
+                </TouchableOpacity>
+                <ThemedText style={styles.windowSeparator}>-</ThemedText>
+                <TouchableOpacity
+                  style={[styles.timeInput, styles.windowTimeInput]}
+                  onPress={() => openTimePicker(windowIndex, 'endTime')}
+                  activeOpacity={0.7}
+                >
+                  <ThemedText style={styles.timeInputText}>{window.endTime}</ThemedText>
+                  <IconSymbol name="clock.fill" size={20} color={Colors.dark.icon} />
+                </TouchableOpacity>
+                {windows.length > 1 && (
+                  <TouchableOpacity onPress={() => removeWindow(windowIndex)}>
+                    <IconSymbol name="xmark.circle.fill" size={22} color={Colors.dark.icon} />
+                  </TouchableOpacity>
+                )}
+              </View>
+
+              {!isDated && (
+                <View style={[styles.daysContainer, styles.challengeSpacing]}>
+                  {DAY_NAMES_FULL.map((day, index) => (
+                    <TouchableOpacity
+                      key={index}
+                      style={[
+                        styles.dayButton,
+                        window.daysOfWeek.includes(index) && styles.dayButtonSelected,
+                      ]}
+                      onPress={() => toggleDay(windowIndex, index)}
+                    >
+                      <ThemedText
+                        style={[
+                          styles.dayText,
+                          window.daysOfWeek.includes(index) && styles.dayTextSelected,
+                        ]}
+                      >
+                        {day.substring(0, 3)}
+                      </ThemedText>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              )}
+            </View>
+          ))}
+
+          {windows.length > 1 && (
+            <ThemedText style={styles.toggleDescription}>
+              Windows that touch or overlap block as one.
+            </ThemedText>
+          )}
+        </View>
+
+        {!isDated && (
+          <>
+            <View style={styles.section}>
+              <View style={styles.toggleRow}>
+                <View style={styles.toggleInfo}>
+                  <ThemedText style={styles.label}>Only Between Dates</ThemedText>
+                  <ThemedText style={styles.toggleDescription}>
+                    Repeat only during a period, such as exam weeks.
+                  </ThemedText>
+                </View>
+                <Switch
+                  value={useDateRange}
+                  onValueChange={setUseDateRange}
+                  trackColor={{ false: '#333333', true: Colors.dark.primary }}
+                />
+              </View>
+              {useDateRange && (
+                <View style={[styles.dateRangeRow, styles.challengeSpacing]}>
+                  <TouchableOpacity
+                    style={[styles.timeInput, styles.dateRangeInput]}
+                    onPress={() => openDatePicker('rangeStart', rangeStart)}
+                    activeOpacity={0.7}
+                  >
+                    <ThemedText style={styles.timeInputText}>{formatShortDate(parseDayKey(rangeStart))}</ThemedText>
+                    <IconSymbol name="calendar" size={20} color={Colors.dark.icon} />
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={[styles.timeInput, styles.dateRangeInput]}
+                    onPress={() => openDatePicker('rangeEnd', rangeEnd)}
+                    activeOpacity={0.7}
+                  >
+                    <ThemedText style={styles.timeInputText}>{formatShortDate(parseDayKey(rangeEnd))}</ThemedText>
+                    <IconSymbol name="calendar" size={20} color={Colors.dark.icon} />
+                  </TouchableOpacity>
+                </View>
+              )}
+            </View>
+
+            <View style={styles.section}>
+              <ThemedText style={styles.label}>Skip Dates</ThemedText>
+              <View style={styles.daysContainer}>
+                {exceptionDates.map((key) => (
+                  <TouchableOpacity
+                    key={key}
+                    style={[styles.dayButton, styles.exceptionButton]}
+                    onPress={() => removeExceptionDate(key)}
+                  >
+                    <ThemedText style={styles.dayText}>{formatShortDate(parseDayKey(key))}</ThemedText>
+                    <IconSymbol name="xmark.circle.fill" size={16} color={Colors.dark.icon} />
+                  </TouchableOpacity>
+                ))}
+                <TouchableOpacity
+                  style={styles.dayButton}
+                  onPress={() => openDatePicker('exception', getDayKey(new Date()))}
+                >
+                  <IconSymbol name="plus.circle.fill" size={18} color={Colors.dark.primary} />
+                </TouchableOpacity>
+              </View>
+              <ThemedText style={[styles.toggleDescription, styles.challengeSpacing]}>
+                Windows starting on these dates are skipped, holidays for example.
+              </ThemedText>
+            </View>
+          </>
+        )}
+
+        <View style={styles.section}>
+          <ThemedText style={styles.label}>Mode</ThemedText>
+          <View style={styles.daysContainer}>
+            {(['block', 'allow'] as const).map((mode) => (
+              <TouchableOpacity
+                key={mode}
+                style={[styles.dayButton, blockMode === mode && styles.dayButtonSelected]}
+                onPress={() => setBlockMode(mode)}
+              >
+                <ThemedText style={[styles.dayText, blockMode === mode && styles.dayTextSelected]}>
+                  {mode === 'block' ? 'Block Selected' : 'Allow Only Selected'}
+                </ThemedText>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <ThemedText style={[styles.toggleDescription, styles.challengeSpacing]}>
+            {blockMode === 'block'
+              ? 'Only the apps you pick are blocked.'
+              : 'Every app is blocked except the ones you pick, e.g. Phone and Maps.'}
+          </ThemedText>
+        </View>
+
+        <View style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <ThemedText style={styles.label}>{blockMode === 'allow' ? 'Apps to Allow' : 'Apps to Block'}</ThemedText>
+            {!blocklist && (
+              <TouchableOpacity
+                style={styles.selectButton}
+                onPress={handleSelectApps}
+                activeOpacity={0.7}
+              >
+                <IconSymbol name="plus.circle.fill" size={20} color={Colors.dark.primary} />
+                <ThemedText style={styles.selectButtonText}>
+                  {hasAppsSelected ? 'Change Selection' : 'Select Apps'}
+                </ThemedText>
+              </TouchableOpacity>
+            )}
+          </View>
+
+          {blocklists.length > 0 && (
+            <View style={[styles.daysContainer, styles.blocklistOptions]}>
+              {[null, ...blocklists].map((option) => {
+                const isSelected = (option?.id ?? null) === (blocklist?.id ?? null);
+                return (
+                  <TouchableOpacity
+                    key={option?.id ?? 'own'}
+                    style={[styles.dayButton, isSelected && styles.dayButtonSelected]}
+                    onPress={() => setBlocklistId(option?.id ?? null)}
+                  >
+                    <ThemedText style={[styles.dayText, isSelected && styles.dayTextSelected]}>
+                      {option?.name ?? 'Own Apps'}
+                    </ThemedText>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          )}
           
-          {hasAppsSelected ? (
+          {blocklist ? (
+            <View style={styles.selectedInfo}>
+              <SelectedAppsIcons
+                familyActivitySelectionId={blocklist.familyActivitySelectionId}
+                blocklistName={blocklist.name}
+                iconSize={40}
+                maxIcons={8}
+                height={48}
+              />
+              <ThemedText style={[styles.toggleDescription, styles.challengeSpacing]}>
+                Edit this blocklist in Settings to change the apps of every schedule using it.
+              </ThemedText>
+            </View>
+          ) : hasAppsSelected ? (
             <View style={styles.selectedInfo}>
               <SelectedAppsIcons
                 familyActivitySelectionId={scheduleId}
@@ -237,11 +683,133 @@ export function ScheduleForm({ schedule, onSave, onCancel }: ScheduleFormProps)
             </View>
           ) : (
             <ThemedText style={styles.emptyText}>
-              No apps selected. Tap "Select Apps" to choose apps to block.
+              No apps selected. Tap "Select Apps" to choose apps to {blockMode === 'allow' ? 'allow' : 'block'}.
             </ThemedText>
           )}
         </View>
 
+        <View style={styles.section}>
+          <ThemedText style={styles.label}>Websites to Block</ThemedText>
+          <View style={styles.domainRow}>
+            <TextInput
+              style={[styles.timeInput, styles.timeInputText, styles.domainInput]}
+              value={domainInput}
+              onChangeText={setDomainInput}
+              onSubmitEditing={handleAddDomains}
+              placeholder="e.g. youtube.com"
+              placeholderTextColor={Colors.dark.icon}
+              autoCapitalize="none"
+              autoCorrect={false}
+              keyboardType="url"
+            />
+            <TouchableOpacity
+              style={styles.dayButton}
+              onPress={handleAddDomains}
+              disabled={webDomains.length >= MAX_WEB_DOMAINS}
+            >
+              <IconSymbol name="plus.circle.fill" size={18} color={Colors.dark.primary} />
+            </TouchableOpacity>
+          </View>
+          {webDomains.length > 0 && (
+            <View style={[styles.daysContainer, styles.challengeSpacing]}>
+              {webDomains.map((domain) => (
+                <TouchableOpacity
+                  key={domain}
+                  style={[styles.dayButton, styles.exceptionButton]}
+                  onPress={() => removeWebDomain(domain)}
+                >
+                  <ThemedText style={styles.dayText}>{domain}</ThemedText>
+                  <IconSymbol name="xmark.circle.fill" size={16} color={Colors.dark.icon} />
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+          <ThemedText style={[styles.toggleDescription, styles.challengeSpacing]}>
+            Blocked in Safari and other browsers, subdomains included, in both modes.
+          </ThemedText>
+        </View>
+
+        <View style={styles.section}>
+          <ThemedText style={styles.label}>Unlock Challenge</ThemedText>
+          <View style={styles.daysContainer}>
+            {UNLOCK_CHALLENGE_TYPES.map((type) => (
+              <TouchableOpacity
+                key={type}
+                style={[styles.dayButton, challengeType === type && styles.dayButtonSelected]}
+                onPress={() => selectChallengeType(type)}
+              >
+                <ThemedText style={[styles.dayText, challengeType === type && styles.dayTextSelected]}>
+                  {UNLOCK_CHALLENGE_LABELS[type]}
+                </ThemedText>
+              </TouchableOpacity>
+            ))}
+          </View>
+          {challengeType !== 'none' && (
+            <View style={[styles.daysContainer, styles.challengeSpacing]}>
+              {UNLOCK_DIFFICULTY_OPTIONS[challengeType].map((option) => (
+                <TouchableOpacity
+                  key={option}
+                  style={[styles.dayButton, difficulty === option && styles.dayButtonSelected]}
+                  onPress={() => setDifficulty(option)}
+                >
+                  <ThemedText style={[styles.dayText, difficulty === option && styles.dayTextSelected]}>
+                    {formatDifficulty(challengeType, option)}
+                  </ThemedText>
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+          <ThemedText style={[styles.toggleDescription, styles.challengeSpacing]}>
+            {describeChallenge({ type: challengeType, difficulty })} before blocking can be stopped.
+          </ThemedText>
+        </View>
+
+        <View style={styles.section}>
+          <View style={styles.toggleRow}>
+            <View style={styles.toggleInfo}>
+              <ThemedText style={styles.label}>Strict Mode</ThemedText>
+              <ThemedText style={styles.toggleDescription}>
+                While blocking, this schedule cannot be stopped, edited or deleted, and app data cannot be reset.
+              </ThemedText>
+            </View>
+            <Switch
+              value={strict}
+              onValueChange={setStrict}
+              trackColor={{ false: '#333333', true: Colors.dark.primary }}
+            />
+          </View>
+        </View>
+
+        {showProblems && problems.length > 0 && (
+          <View style={[styles.section, styles.problems]}>
+            {problems.map((problem) => (
+              <ThemedText key={problem} style={styles.problemText}>{problem}</ThemedText>
+            ))}
+          </View>
+        )}
+
+        {timeline.length > 0 && (
+          <View style={styles.section}>
+            <ThemedText style={styles.label}>This Week</ThemedText>
+            <WeekTimelinePreview days={timeline} />
+            {overlaps.length > 0 && (
+              <ThemedText style={[styles.overlapText, styles.challengeSpacing]}>
+                Overlaps with {overlaps.length === 1 ? 'another schedule' : `${overlaps.length} schedules`}.
+                Overlapping schedules block as one.
+              </ThemedText>
+            )}
+          </View>
+        )}
+
+        <TouchableOpacity
+          style={[styles.selectButton, styles.saveTemplateButton]}
+          onPress={handleSaveAsTemplate}
+          activeOpacity={0.7}
+        >
+          <IconSymbol name="plus.circle.fill" size={20} color={Colors.dark.primary} />
+          <ThemedText style={styles.selectButtonText}>Save as Template</ThemedText>
+        </TouchableOpacity>
+
         <View style={styles.actions}>
           <TouchableOpacity style={[styles.button, styles.cancelButton]} onPress={onCancel}>
             <ThemedText style={styles.cancelButtonText}>Cancel</ThemedText>
@@ -250,10 +818,10 @@ export function ScheduleForm({ schedule, onSave, onCancel }: ScheduleFormProps)
             style={[
               styles.button, 
               styles.saveButton, 
-              (!hasAppsSelected || selectedDays.length === 0) && styles.saveButtonDisabled
+              !hasAppsSelected && styles.saveButtonDisabled
             ]}
             onPress={handleSave}
-            disabled={!hasAppsSelected || selectedDays.length === 0}
+            disabled={!hasAppsSelected}
           >
             <ThemedText style={styles.saveButtonText}>Save</ThemedText>
           </TouchableOpacity>
@@ -267,26 +835,28 @@ export function ScheduleForm({ schedule, onSave, onCancel }: ScheduleFormProps)
         familyActivitySelectionId={scheduleId}
       />
 
-      {/* Start Time Picker Modal */}
+      {/* Time Picker Modal */}
       {Platform.OS === 'ios' ? (
-        <Modal visible={showStartTimePicker} transparent animationType="slide">
+        <Modal visible={timePickerTarget !== null} transparent animationType="slide">
           <View style={styles.modalOverlay}>
             <View style={styles.pickerContainer}>
               <View style={styles.pickerHeader}>
-                <TouchableOpacity onPress={() => setShowStartTimePicker(false)}>
+                <TouchableOpacity onPress={() => setTimePickerTarget(null)}>
                   <ThemedText style={styles.pickerCancelButton}>Cancel</ThemedText>
                 </TouchableOpacity>
-                <ThemedText style={styles.pickerTitle}>Start Time</ThemedText>
-                <TouchableOpacity onPress={confirmStartTime}>
+                <ThemedText style={styles.pickerTitle}>
+                  {timePickerTarget?.field === 'endTime' ? 'End Time' : 'Start Time'}
+                </ThemedText>
+                <TouchableOpacity onPress={confirmTime}>
                   <ThemedText style={styles.pickerDoneButton}>Done</ThemedText>
                 </TouchableOpacity>
               </View>
               <View style={styles.pickerWrapper}>
                 <DateTimePicker
-                  value={tempStartTime}
+                  value={tempTime}
                   mode="time"
                   display="spinner"
-                  onChange={handleStartTimeChange}
+                  onChange={handleTimeChange}
                   textColor={Colors.dark.text}
                   style={styles.picker}
                 />
@@ -295,36 +865,38 @@ export function ScheduleForm({ schedule, onSave, onCancel }: ScheduleFormProps)
           </View>
         </Modal>
       ) : (
-        showStartTimePicker && (
+        timePickerTarget !== null && (
           <DateTimePicker
-            value={timeStringToDate(startTime)}
+            value={tempTime}
             mode="time"
             is24Hour
-            onChange={handleStartTimeChange}
+            onChange={handleTimeChange}
           />
         )
       )}
 
-      {/* End Time Picker Modal */}
+      {/* Date Picker Modal */}
       {Platform.OS === 'ios' ? (
-        <Modal visible={showEndTimePicker} transparent animationType="slide">
+        <Modal visible={datePickerTarget !== null} transparent animationType="slide">
           <View style={styles.modalOverlay}>
             <View style={styles.pickerContainer}>
               <View style={styles.pickerHeader}>
-                <TouchableOpacity onPress={() => setShowEndTimePicker(false)}>
+                <TouchableOpacity onPress={() => setDatePickerTarget(null)}>
                   <ThemedText style={styles.pickerCancelButton}>Cancel</ThemedText>
                 </TouchableOpacity>
-                <ThemedText style={styles.pickerTitle}>End Time</ThemedText>
-                <TouchableOpacity onPress={confirmEndTime}>
+                <ThemedText style={styles.pickerTitle}>
+                  {datePickerTarget ? DATE_PICKER_TITLES[datePickerTarget] : ''}
+                </ThemedText>
+                <TouchableOpacity onPress={confirmDate}>
                   <ThemedText style={styles.pickerDoneButton}>Done</ThemedText>
                 </TouchableOpacity>
               </View>
               <View style={styles.pickerWrapper}>
                 <DateTimePicker
-                  value={tempEndTime}
-                  mode="time"
+                  value={tempDate}
+                  mode="date"
                   display="spinner"
-                  onChange={handleEndTimeChange}
+                  onChange={handleDateChange}
                   textColor={Colors.dark.text}
                   style={styles.picker}
                 />
@@ -333,12 +905,11 @@ export function ScheduleForm({ schedule, onSave, onCancel }: ScheduleFormProps)
           </View>
         </Modal>
       ) : (
-        showEndTimePicker && (
+        datePickerTarget !== null && (
           <DateTimePicker
-            value={timeStringToDate(endTime)}
-            mode="time"
-            is24Hour
-            onChange={handleEndTimeChange}
+            value={tempDate}
+            mode="date"
+            onChange={handleDateChange}
           />
         )
       )}
@@ -394,6 +965,102 @@ const styles = StyleSheet.create({
   dayTextSelected: {
     color: '#000',
   },
+  templates: {
+    gap: 8,
+  },
+  templateCard: {
+    width: 160,
+    padding: 12,
+    borderRadius: 8,
+    backgroundColor: '#1a1a1a',
+    borderWidth: 1,
+    borderColor: '#333333',
+  },
+  templateDescription: {
+    fontSize: 12,
+    opacity: 0.7,
+    marginTop: 2,
+  },
+  blocklistOptions: {
+    marginBottom: 12,
+  },
+  saveTemplateButton: {
+    alignSelf: 'flex-start',
+    marginBottom: 24,
+  },
+  challengeSpacing: {
+    marginTop: 8,
+  },
+  windowCard: {
+    padding: 12,
+    marginBottom: 8,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#333333',
+  },
+  windowTimes: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  windowTimeInput: {
+    flex: 1,
+  },
+  windowSeparator: {
+    fontSize: 16,
+    opacity: 0.6,
+  },
+  problems: {
+    gap: 4,
+    padding: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#FF3B30',
+  },
+  problemText: {
+    fontSize: 14,
+    color: '#FF3B30',
+  },
+  overlapText: {
+    fontSize: 13,
+    color: '#FFB800',
+  },
+  exceptionButton: {
+    flexDirection: 'row',
+    gap: 6,
+  },
+  domainRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  domainInput: {
+    flex: 1,
+  },
+  dateRangeRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  dateRangeInput: {
+    flex: 1,
+  },
+  toggleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    padding: 16,
+    backgroundColor: '#1a1a1a',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#333333',
+  },
+  toggleInfo: {
+    flex: 1,
+  },
+  toggleDescription: {
+    fontSize: 13,
+    opacity: 0.6,
+  },
   actions: {
     flexDirection: 'row',
     gap: 12,
@@ -3,6 +3,8 @@
  *
  * Displays icons of selected apps from FamilyActivitySelection.
  * Uses native SwiftUI Label(ApplicationToken) for rendering.
+ * Shows the blocklist name when the selection belongs to one
+ * and how many web domains are blocked with it.
  *
  * @module components/selected-apps-icons
  */
@@ -11,6 +13,7 @@ import React from 'react';
 import { Platform, StyleSheet, View } from 'react-native';
 
 import { ThemedText } from './themed-text';
+import { IconSymbol } from './ui/icon-symbol';
 import { Colors } from '@/constants/theme';
 
 // Import native view only on iOS
@@ -33,6 +36,10 @@ interface SelectedAppsIconsProps {
   maxIcons?: number;
   /** Height of the container */
   height?: number;
+  /** Name of the blocklist the selection belongs to */
+  blocklistName?: string;
+  /** Number of web domains blocked with the selection */
+  webDomainCount?: number;
 }
 
 export function SelectedAppsIcons({
@@ -40,21 +47,45 @@ export function SelectedAppsIcons({
   iconSize = 40,
   maxIcons = 6,
   height = 50,
+  blocklistName,
+  webDomainCount = 0,
 }: SelectedAppsIconsProps) {
-  // Only render on iOS with valid selection ID
+  const label = blocklistName || webDomainCount > 0 ? (
+    <View style={styles.labels}>
+      {blocklistName && (
+        <View style={styles.label}>
+          <IconSymbol name="app.badge.fill" size={12} color={Colors.dark.icon} />
+          <ThemedText style={styles.labelText} numberOfLines={1}>{blocklistName}</ThemedText>
+        </View>
+      )}
+      {webDomainCount > 0 && (
+        <View style={styles.label}>
+          <IconSymbol name="globe" size={12} color={Colors.dark.icon} />
+          <ThemedText style={styles.labelText}>
+            {webDomainCount === 1 ? '1 website' : `${webDomainCount} websites`}
+          </ThemedText>
+        </View>
+      )}
+    </View>
+  ) : null;
+
+  // Only render icons on iOS with valid selection ID
   if (Platform.OS !== 'ios' || !familyActivitySelectionId || !AppIconsView) {
-    return null;
+    return label;
   }
 
   return (
-    <View style={[styles.container, { height }]}>
-      <AppIconsView
-        style={styles.iconsView}
-        familyActivitySelectionId={familyActivitySelectionId}
-        iconSize={iconSize}
-        maxIcons={maxIcons}
-      />
-    </View>
+    <>
+      {label}
+      <View style={[styles.container, { height }]}>
+        <AppIconsView
+          style={styles.iconsView}
+          familyActivitySelectionId={familyActivitySelectionId}
+          iconSize={iconSize}
+          maxIcons={maxIcons}
+        />
+      </View>
+    </>
   );
 }
 
@@ -66,4 +97,20 @@ const styles = StyleSheet.create({
   iconsView: {
     flex: 1,
   },
+  labels: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginTop: 8,
+  },
+  label: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    flexShrink: 1,
+  },
+  labelText: {
+    fontSize: 13,
+    opacity: 0.7,
+  },
 });
@@ -0,0 +1,139 @@
+/**
+ * Shield Appearance Editor Component
+ *
+ * Fields for the texts, quotes and colors of a shield look.
+ *
+ * @module components/shield-appearance-editor
+ */
+
+import React from 'react';
+import { StyleSheet, TextInput, TouchableOpacity, View } from 'react-native';
+
+import { ThemedText } from './themed-text';
+import { SHIELD_COLOR_OPTIONS } from '@/constants/shield-appearance';
+import { Colors } from '@/constants/theme';
+import { ShieldAppearance } from '@/types/blocker';
+import { SHIELD_APP_NAME_PLACEHOLDER } from '@/utils/shieldAppearance';
+
+type ShieldTextKey = 'title' | 'subtitle' | 'primaryButtonLabel' | 'secondaryButtonLabel';
+type ShieldColorKey = 'backgroundColor' | 'textColor' | 'buttonColor' | 'buttonTextColor';
+
+const TEXT_FIELDS: { key: ShieldTextKey; label: string; placeholder: string }[] = [
+  { key: 'title', label: 'Title', placeholder: 'Time to focus' },
+  { key: 'subtitle', label: 'Subtitle', placeholder: `${SHIELD_APP_NAME_PLACEHOLDER} is blocked right now.` },
+  { key: 'primaryButtonLabel', label: 'Close Button', placeholder: 'Close' },
+  { key: 'secondaryButtonLabel', label: 'Open App Button', placeholder: 'Leave empty to hide' },
+];
+
+const COLOR_FIELDS: { key: ShieldColorKey; label: string }[] = [
+  { key: 'backgroundColor', label: 'Background' },
+  { key: 'textColor', label: 'Text' },
+  { key: 'buttonColor', label: 'Button' },
+  { key: 'buttonTextColor', label: 'Button Text' },
+];
+
+interface ShieldAppearanceEditorProps {
+  appearance: ShieldAppearance;
+  onChange: (appearance: ShieldAppearance) => void;
+}
+
+export function ShieldAppearanceEditor({ appearance, onChange }: ShieldAppearanceEditorProps) {
+  return (
+    <View style={styles.container}>
+      {TEXT_FIELDS.map(({ key, label, placeholder }) => (
+        <View key={key} style={styles.field}>
+          <ThemedText style={styles.label}>{label}</ThemedText>
+          <TextInput
+            style={styles.input}
+            value={appearance[key]}
+            onChangeText={(text) => onChange({ ...appearance, [key]: text })}
+            placeholder={placeholder}
+            placeholderTextColor={Colors.dark.icon}
+            maxLength={key === 'subtitle' ? 120 : 40}
+          />
+        </View>
+      ))}
+      <ThemedText style={styles.hint}>
+        {SHIELD_APP_NAME_PLACEHOLDER} in the title or subtitle shows the blocked app&apos;s name.
+      </ThemedText>
+
+      <View style={styles.field}>
+        <ThemedText style={styles.label}>Quotes</ThemedText>
+        <TextInput
+          style={[styles.input, styles.quotesInput]}
+          value={appearance.quotes.join('\n')}
+          onChangeText={(text) => onChange({ ...appearance, quotes: text.split('\n') })}
+          placeholder="One quote per line"
+          placeholderTextColor={Colors.dark.icon}
+          multiline
+        />
+        <ThemedText style={styles.hint}>A different quote is shown each time blocking starts.</ThemedText>
+      </View>
+
+      {COLOR_FIELDS.map(({ key, label }) => (
+        <View key={key} style={styles.field}>
+          <ThemedText style={styles.label}>{label}</ThemedText>
+          <View style={styles.swatches}>
+            {SHIELD_COLOR_OPTIONS.map((color) => (
+              <TouchableOpacity
+                key={color}
+                style={[
+                  styles.swatch,
+                  { backgroundColor: color },
+                  appearance[key] === color && styles.swatchSelected,
+                ]}
+                onPress={() => onChange({ ...appearance, [key]: color })}
+              />
+            ))}
+          </View>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 16,
+  },
+  field: {
+    gap: 8,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  input: {
+    fontSize: 16,
+    color: Colors.dark.text,
+    padding: 12,
+    backgroundColor: '#1a1a1a',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#333333',
+  },
+  quotesInput: {
+    minHeight: 110,
+    textAlignVertical: 'top',
+  },
+  hint: {
+    fontSize: 13,
+    opacity: 0.6,
+  },
+  swatches: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 10,
+  },
+  swatch: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#333333',
+  },
+  swatchSelected: {
+    borderWidth: 3,
+    borderColor: Colors.dark.primary,
+  },
+});
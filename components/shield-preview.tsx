@@ -0,0 +1,88 @@
+/**
+ * Shield Preview Component
+ *
+ * Renders a shield look the way the shield extension shows it over a blocked app.
+ *
+ * @module components/shield-preview
+ */
+
+import React from 'react';
+import { StyleSheet, View } from 'react-native';
+
+import { ThemedText } from './themed-text';
+import { IconSymbol } from './ui/icon-symbol';
+import { ShieldAppearance } from '@/types/blocker';
+import { fillShieldAppName, getShieldSubtitle } from '@/utils/shieldAppearance';
+
+interface ShieldPreviewProps {
+  appearance: ShieldAppearance;
+  /** Quote rotation step to show (default: first quote) */
+  rotation?: number;
+  /** Name shown in place of the blocked app (default: "Instagram") */
+  appName?: string;
+}
+
+export function ShieldPreview({ appearance, rotation = 0, appName = 'Instagram' }: ShieldPreviewProps) {
+  return (
+    <View style={[styles.container, { backgroundColor: appearance.backgroundColor }]}>
+      <IconSymbol name="lock.fill" size={40} color={appearance.textColor} />
+      <ThemedText style={[styles.title, { color: appearance.textColor }]}>
+        {fillShieldAppName(appearance.title, appName)}
+      </ThemedText>
+      <ThemedText style={[styles.subtitle, { color: appearance.textColor }]}>
+        {getShieldSubtitle(appearance, rotation, appName)}
+      </ThemedText>
+
+      <View style={[styles.primaryButton, { backgroundColor: appearance.buttonColor }]}>
+        <ThemedText style={[styles.primaryButtonText, { color: appearance.buttonTextColor }]}>
+          {appearance.primaryButtonLabel}
+        </ThemedText>
+      </View>
+      {appearance.secondaryButtonLabel.length > 0 && (
+        <ThemedText style={[styles.secondaryButtonText, { color: appearance.buttonColor }]}>
+          {appearance.secondaryButtonLabel}
+        </ThemedText>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    alignItems: 'center',
+    paddingVertical: 32,
+    paddingHorizontal: 24,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#333333',
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: '700',
+    lineHeight: 28,
+    textAlign: 'center',
+    marginTop: 16,
+  },
+  subtitle: {
+    fontSize: 15,
+    textAlign: 'center',
+    opacity: 0.8,
+    marginTop: 8,
+  },
+  primaryButton: {
+    alignSelf: 'stretch',
+    alignItems: 'center',
+    paddingVertical: 14,
+    borderRadius: 12,
+    marginTop: 24,
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  secondaryButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    marginTop: 14,
+  },
+});
@@ -12,17 +12,20 @@ import { View, StyleSheet, Dimensions } from 'react-native';
 
 import { ThemedText } from './themed-text';
 import { Colors } from '@/constants/theme';
-import { formatTimeInTimeStyle } from '@/utils/timeFormatter';
+import { StreakStats } from '@/utils/sessionHistory';
+import { formatTimeInTimeStyle, formatTimeShort } from '@/utils/timeFormatter';
 
 interface TimeDialProps {
   /** Saved time in seconds */
   savedTime: number;
+  /** Streak and daily goal progress shown under the time */
+  streak?: StreakStats;
 }
 
 const { width } = Dimensions.get('window');
 const FONT_SIZE = width > 400 ? 42 : width > 360 ? 36 : 32;
 
-export function TimeDial({ savedTime }: TimeDialProps) {
+export function TimeDial({ savedTime, streak }: TimeDialProps) {
   const time = formatTimeInTimeStyle(savedTime);
 
   return (
@@ -59,6 +62,18 @@ export function TimeDial({ savedTime }: TimeDialProps) {
           <ThemedText style={styles.timeLabel}>SEC</ThemedText>
         </View>
       </View>
+
+      {streak && (
+        <View style={styles.goalRow}>
+          <ThemedText style={styles.goalText}>
+            {streak.currentStreak} day streak
+          </ThemedText>
+          <ThemedText style={styles.goalDivider}>•</ThemedText>
+          <ThemedText style={[styles.goalText, streak.isTodayGoalMet && styles.goalTextMet]}>
+            Today {formatTimeShort(streak.todaySeconds)} / {formatTimeShort(streak.goalSeconds)}
+          </ThemedText>
+        </View>
+      )}
     </View>
   );
 }
@@ -108,6 +123,28 @@ const styles = StyleSheet.create({
     marginTop: 8,
     letterSpacing: 1,
   },
+  goalRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 20,
+    gap: 8,
+  },
+  goalText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: Colors.dark.text,
+    opacity: 0.7,
+    letterSpacing: 1,
+  },
+  goalTextMet: {
+    color: Colors.dark.primary,
+    opacity: 1,
+  },
+  goalDivider: {
+    fontSize: 12,
+    color: Colors.dark.text,
+    opacity: 0.4,
+  },
   separator: {
     fontSize: FONT_SIZE,
     fontWeight: '300',
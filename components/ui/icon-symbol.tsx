@@ -26,6 +26,7 @@ const MAPPING = {
   'text.bubble.fill': 'chat-bubble',
   'creditcard.fill': 'credit-card',
   'clock.fill': 'schedule',
+  'calendar': 'calendar-today',
   'trash.fill': 'delete',
   'square.and.arrow.up': 'share',
   'plus.circle.fill': 'add-circle',
@@ -36,6 +37,10 @@ const MAPPING = {
   'lock.open.fill': 'lock-open',
   'app.badge.fill': 'apps',
   'crown.fill': 'workspace-premium',
+  'flame.fill': 'local-fire-department',
+  'lock.fill': 'lock',
+  'globe': 'language',
+  'hourglass': 'hourglass-empty',
 } as IconMapping;
 
 /**
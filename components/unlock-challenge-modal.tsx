@@ -0,0 +1,220 @@
+/**
+ * Unlock Challenge Modal
+ *
+ * Friction shown before an active schedule is stopped:
+ * a cooldown, a typing passage or several confirmations.
+ *
+ * @module components/unlock-challenge-modal
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Modal, SafeAreaView, StyleSheet, TextInput, TouchableOpacity, View } from 'react-native';
+
+import { ThemedText } from './themed-text';
+import { Colors } from '@/constants/theme';
+import { UnlockChallenge } from '@/types/blocker';
+import { describeChallenge, formatDifficulty, generatePassage } from '@/utils/unlockChallenge';
+
+interface UnlockChallengeModalProps {
+  /** Whether the modal is visible */
+  visible: boolean;
+  /** Challenge to present */
+  challenge: UnlockChallenge;
+  /** Called when the challenge is finished and the schedule should stop */
+  onComplete: () => void;
+  /** Called when the user keeps blocking instead */
+  onGiveUp: () => void;
+}
+
+const CONFIRMATION_MESSAGES = [
+  'Are you sure you want to stop blocking?',
+  'The urge usually passes in a few minutes. Still want to stop?',
+  'Think about why you started this schedule. Stop anyway?',
+  'Last chance to stay focused. Really stop?',
+];
+
+export function UnlockChallengeModal({ visible, challenge, onComplete, onGiveUp }: UnlockChallengeModalProps) {
+  const [secondsLeft, setSecondsLeft] = useState(0);
+  const [passage, setPassage] = useState('');
+  const [typed, setTyped] = useState('');
+  const [step, setStep] = useState(0);
+
+  // Fresh challenge every time the modal opens
+  useEffect(() => {
+    if (!visible) return;
+
+    setSecondsLeft(challenge.type === 'cooldown' ? challenge.difficulty : 0);
+    setPassage(challenge.type === 'typing' ? generatePassage(challenge.difficulty) : '');
+    setTyped('');
+    setStep(0);
+  }, [visible, challenge.type, challenge.difficulty]);
+
+  // Cooldown timer
+  useEffect(() => {
+    if (!visible || challenge.type !== 'cooldown') return;
+
+    const interval = setInterval(() => {
+      setSecondsLeft((prev) => Math.max(prev - 1, 0));
+    }, 1000);
+
+    return () => clearInterval(interval);
+  }, [visible, challenge.type]);
+
+  const confirmationsNeeded = challenge.type === 'confirmations' ? challenge.difficulty : 1;
+
+  const canStop =
+    challenge.type === 'cooldown'
+      ? secondsLeft === 0
+      : challenge.type === 'typing'
+        ? passage.length > 0 && typed === passage
+        : true;
+
+  const handleStop = () => {
+    if (!canStop) return;
+
+    if (step + 1 < confirmationsNeeded) {
+      setStep(step + 1);
+      return;
+    }
+
+    onComplete();
+  };
+
+  const stopLabel =
+    challenge.type === 'cooldown' && secondsLeft > 0
+      ? `Stop in ${formatDifficulty('cooldown', secondsLeft)}`
+      : confirmationsNeeded > 1
+        ? `Stop (${step + 1}/${confirmationsNeeded})`
+        : 'Stop Blocking';
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onRequestClose={onGiveUp}>
+      <SafeAreaView style={styles.container}>
+        <View style={styles.content}>
+          <ThemedText type="title" style={styles.title}>Take a breath</ThemedText>
+          <ThemedText style={styles.description}>{describeChallenge(challenge)} to stop blocking.</ThemedText>
+
+          {challenge.type === 'typing' && (
+            <View style={styles.typingContainer}>
+              <ThemedText style={styles.passage}>{passage}</ThemedText>
+              <TextInput
+                style={[styles.input, typed.length > 0 && !passage.startsWith(typed) && styles.inputError]}
+                value={typed}
+                onChangeText={setTyped}
+                placeholder="Type the passage above"
+                placeholderTextColor={Colors.dark.icon}
+                autoCapitalize="none"
+                autoCorrect={false}
+                spellCheck={false}
+                contextMenuHidden
+                multiline
+              />
+            </View>
+          )}
+
+          {challenge.type === 'confirmations' && (
+            <ThemedText style={styles.confirmation}>
+              {CONFIRMATION_MESSAGES[Math.min(step, CONFIRMATION_MESSAGES.length - 1)]}
+            </ThemedText>
+          )}
+        </View>
+
+        <View style={styles.actions}>
+          <TouchableOpacity style={[styles.button, styles.keepButton]} onPress={onGiveUp}>
+            <ThemedText style={styles.keepButtonText}>Keep Blocking</ThemedText>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.button, styles.stopButton, !canStop && styles.stopButtonDisabled]}
+            onPress={handleStop}
+            disabled={!canStop}
+          >
+            <ThemedText style={styles.stopButtonText}>{stopLabel}</ThemedText>
+          </TouchableOpacity>
+        </View>
+      </SafeAreaView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.dark.background,
+  },
+  content: {
+    flex: 1,
+    padding: 20,
+    paddingTop: 40,
+  },
+  title: {
+    marginBottom: 8,
+  },
+  description: {
+    fontSize: 16,
+    opacity: 0.7,
+    marginBottom: 24,
+  },
+  typingContainer: {
+    gap: 12,
+  },
+  passage: {
+    fontSize: 16,
+    lineHeight: 24,
+    padding: 16,
+    backgroundColor: '#1a1a1a',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#333333',
+  },
+  input: {
+    minHeight: 100,
+    fontSize: 16,
+    color: Colors.dark.text,
+    padding: 16,
+    backgroundColor: '#1a1a1a',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#333333',
+    textAlignVertical: 'top',
+  },
+  inputError: {
+    borderColor: '#FF3B30',
+  },
+  confirmation: {
+    fontSize: 18,
+    fontWeight: '600',
+    lineHeight: 26,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 12,
+    padding: 20,
+  },
+  button: {
+    flex: 1,
+    paddingVertical: 16,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  keepButton: {
+    backgroundColor: Colors.dark.primary,
+  },
+  keepButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000',
+  },
+  stopButton: {
+    backgroundColor: '#1a1a1a',
+    borderWidth: 1,
+    borderColor: '#FF3B30',
+  },
+  stopButtonDisabled: {
+    opacity: 0.4,
+  },
+  stopButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FF3B30',
+  },
+});
@@ -0,0 +1,135 @@
+/**
+ * Usage Limit Card Component
+ *
+ * Home screen card with a usage limit's apps and how much of
+ * today's budget is left.
+ *
+ * @module components/usage-limit-card
+ */
+
+import React, { useEffect, useState } from 'react';
+import { StyleSheet, TouchableOpacity, View } from 'react-native';
+
+import { SelectedAppsIcons } from './selected-apps-icons';
+import { ThemedText } from './themed-text';
+import { Colors } from '@/constants/theme';
+import { deviceActivityService } from '@/services/device-activity.service';
+import { UsageLimit } from '@/types/blocker';
+
+/** How often progress is re-read from the monitor extension (ms) */
+const REFRESH_INTERVAL_MS = 60 * 1000;
+
+interface UsageLimitCardProps {
+  limit: UsageLimit;
+  /** Changes when the limit's apps were edited, to refresh the icons */
+  updatedAt?: number;
+  onPress?: () => void;
+}
+
+export function UsageLimitCard({ limit, updatedAt, onPress }: UsageLimitCardProps) {
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  const { usedMinutes, exceededAt } = deviceActivityService.getUsageLimitProgress(limit, now);
+  const isReached = exceededAt !== undefined;
+  const leftMinutes = Math.max(0, limit.dailyMinutes - usedMinutes);
+  const progress = isReached ? 1 : Math.min(1, usedMinutes / limit.dailyMinutes);
+
+  const getStatusText = () => {
+    if (!limit.isActive) return 'Off';
+    if (isReached) return 'Limit reached - blocked until midnight';
+    // Use is recorded in steps, so up to a few minutes may already be gone
+    return `Up to ${leftMinutes} of ${limit.dailyMinutes} min left today`;
+  };
+
+  return (
+    <TouchableOpacity
+      style={[styles.card, isReached && limit.isActive && styles.cardReached]}
+      onPress={onPress}
+      disabled={!onPress}
+    >
+      <View style={styles.header}>
+        <ThemedText style={styles.name}>{limit.name}</ThemedText>
+        <ThemedText style={styles.budget}>{limit.dailyMinutes} min/day</ThemedText>
+      </View>
+
+      <SelectedAppsIcons
+        key={`icons-${limit.id}-${updatedAt}`}
+        familyActivitySelectionId={limit.familyActivitySelectionId}
+        iconSize={28}
+        maxIcons={6}
+        height={36}
+      />
+
+      {limit.isActive && (
+        <View style={styles.track}>
+          <View
+            style={[
+              styles.fill,
+              { width: `${progress * 100}%` },
+              isReached && styles.fillReached,
+            ]}
+          />
+        </View>
+      )}
+
+      <ThemedText style={[styles.status, isReached && limit.isActive && styles.statusReached]}>
+        {getStatusText()}
+      </ThemedText>
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: '#1a1a1a',
+    borderRadius: 12,
+    marginTop: 12,
+    padding: 16,
+    gap: 8,
+    borderWidth: 1,
+    borderColor: '#333333',
+  },
+  cardReached: {
+    borderColor: '#FF3B30',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  name: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  budget: {
+    fontSize: 13,
+    opacity: 0.6,
+  },
+  track: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: '#333333',
+    overflow: 'hidden',
+  },
+  fill: {
+    height: '100%',
+    borderRadius: 3,
+    backgroundColor: Colors.dark.primary,
+  },
+  fillReached: {
+    backgroundColor: '#FF3B30',
+  },
+  status: {
+    fontSize: 13,
+    opacity: 0.7,
+  },
+  statusReached: {
+    color: '#FF3B30',
+    opacity: 1,
+  },
+});
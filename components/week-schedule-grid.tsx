@@ -0,0 +1,277 @@
+/**
+ * Week Schedule Grid Component
+ *
+ * Every schedule as blocks on a 7-day × 24-hour grid, starting today.
+ * Overnight windows continue at the top of the next day, running
+ * schedules are highlighted and schedules sharing a time sit side by side.
+ *
+ * @module components/week-schedule-grid
+ */
+
+import React from 'react';
+import { StyleSheet, TouchableOpacity, View } from 'react-native';
+
+import { ThemedText } from './themed-text';
+import { Colors } from '@/constants/theme';
+import { clipOccurrencesToDay, getOccurrencesBetween, minutesSinceMidnight } from '@/services/schedule-engine';
+import { BlockerSchedule, DAY_NAMES } from '@/types/blocker';
+import { formatTimeString } from '@/utils/timeFormatter';
+
+const DAYS = 7;
+const MINUTES_PER_DAY = 24 * 60;
+const HOUR_HEIGHT = 28;
+const HOUR_LABELS = [0, 3, 6, 9, 12, 15, 18, 21];
+
+/** Running state of a schedule, as shown on its blocks */
+export type GridScheduleStatus = 'active' | 'waiting' | 'idle';
+
+interface GridBlock {
+  schedule: BlockerSchedule;
+  startMinutes: number;
+  endMinutes: number;
+  /** Column inside the day when blocks share a time */
+  lane: number;
+}
+
+interface GridDay {
+  date: Date;
+  blocks: GridBlock[];
+  /** Number of side-by-side columns the day needs */
+  laneCount: number;
+}
+
+interface WeekScheduleGridProps {
+  schedules: BlockerSchedule[];
+  /** Running state of each schedule */
+  getStatus: (scheduleId: string) => GridScheduleStatus;
+  /** Called when a block is tapped */
+  onSelectSchedule: (schedule: BlockerSchedule) => void;
+  /** Current time, drives the first day and the "now" line */
+  now: Date;
+}
+
+/**
+ * Lay out the blocks of one day, giving overlapping blocks separate lanes
+ */
+function layoutDay(schedules: BlockerSchedule[], dayStart: Date, dayEnd: Date): Omit<GridDay, 'date'> {
+  const blocks: GridBlock[] = schedules
+    .flatMap((schedule) =>
+      clipOccurrencesToDay(getOccurrencesBetween(schedule, dayStart, dayEnd), dayStart, dayEnd).map(
+        ([startMinutes, endMinutes]) => ({ schedule, startMinutes, endMinutes, lane: 0 })
+      )
+    )
+    .sort((a, b) => a.startMinutes - b.startMinutes);
+
+  const laneEnds: number[] = [];
+  for (const block of blocks) {
+    const lane = laneEnds.findIndex((end) => end <= block.startMinutes);
+    block.lane = lane === -1 ? laneEnds.length : lane;
+    laneEnds[block.lane] = block.endMinutes;
+  }
+
+  return { blocks, laneCount: Math.max(1, laneEnds.length) };
+}
+
+function buildWeek(schedules: BlockerSchedule[], now: Date): GridDay[] {
+  const days: GridDay[] = [];
+
+  for (let offset = 0; offset < DAYS; offset++) {
+    const dayStart = new Date(now.getFullYear(), now.getMonth(), now.getDate() + offset);
+    const dayEnd = new Date(now.getFullYear(), now.getMonth(), now.getDate() + offset + 1);
+    days.push({ date: dayStart, ...layoutDay(schedules, dayStart, dayEnd) });
+  }
+
+  return days;
+}
+
+export function WeekScheduleGrid({ schedules, getStatus, onSelectSchedule, now }: WeekScheduleGridProps) {
+  const days = buildWeek(schedules, now);
+  const gridHeight = 24 * HOUR_HEIGHT;
+  const toOffset = (minutes: number) => (minutes / MINUTES_PER_DAY) * gridHeight;
+
+  return (
+    <View>
+      <View style={styles.headerRow}>
+        <View style={styles.hourColumn} />
+        {days.map((day, index) => (
+          <View key={day.date.getTime()} style={styles.dayHeader}>
+            <ThemedText style={[styles.dayName, index === 0 && styles.today]}>
+              {DAY_NAMES[day.date.getDay()]}
+            </ThemedText>
+            <ThemedText style={[styles.dayNumber, index === 0 && styles.today]}>{day.date.getDate()}</ThemedText>
+          </View>
+        ))}
+      </View>
+
+      <View style={[styles.grid, { height: gridHeight }]}>
+        <View style={styles.hourColumn}>
+          {HOUR_LABELS.map((hour) => (
+            <ThemedText key={hour} style={[styles.hourLabel, { top: hour * HOUR_HEIGHT }]}>
+              {hour.toString().padStart(2, '0')}
+            </ThemedText>
+          ))}
+        </View>
+
+        {days.map((day, index) => (
+          <View key={day.date.getTime()} style={styles.dayColumn}>
+            {HOUR_LABELS.map((hour) => (
+              <View key={hour} style={[styles.hourLine, { top: hour * HOUR_HEIGHT }]} />
+            ))}
+
+            {day.blocks.map((block) => {
+              const status = getStatus(block.schedule.id);
+              const width = 100 / day.laneCount;
+              const height = toOffset(block.endMinutes - block.startMinutes);
+
+              return (
+                <TouchableOpacity
+                  key={`${block.schedule.id}-${block.startMinutes}`}
+                  style={[
+                    styles.block,
+                    styles.blockIdle,
+                    status === 'active' && styles.blockActive,
+                    status === 'waiting' && styles.blockWaiting,
+                    {
+                      top: toOffset(block.startMinutes),
+                      height,
+                      left: `${block.lane * width}%`,
+                      width: `${width}%`,
+                    },
+                  ]}
+                  onPress={() => onSelectSchedule(block.schedule)}
+                >
+                  {height >= HOUR_HEIGHT && !(block.startMinutes === 0 && index > 0) && (
+                    <ThemedText
+                      style={[styles.blockText, status !== 'idle' && styles.blockTextRunning]}
+                      numberOfLines={1}
+                    >
+                      {formatTimeString(Math.floor(block.startMinutes / 60), block.startMinutes % 60)}
+                    </ThemedText>
+                  )}
+                </TouchableOpacity>
+              );
+            })}
+
+            {index === 0 && <View style={[styles.nowLine, { top: toOffset(minutesSinceMidnight(now)) }]} />}
+          </View>
+        ))}
+      </View>
+
+      <View style={styles.legend}>
+        <View style={styles.legendItem}>
+          <View style={[styles.legendSwatch, styles.blockActive]} />
+          <ThemedText style={styles.legendLabel}>Blocking</ThemedText>
+        </View>
+        <View style={styles.legendItem}>
+          <View style={[styles.legendSwatch, styles.blockWaiting]} />
+          <ThemedText style={styles.legendLabel}>Waiting</ThemedText>
+        </View>
+        <View style={styles.legendItem}>
+          <View style={[styles.legendSwatch, styles.blockIdle]} />
+          <ThemedText style={styles.legendLabel}>Scheduled</ThemedText>
+        </View>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  headerRow: {
+    flexDirection: 'row',
+    marginBottom: 8,
+  },
+  hourColumn: {
+    width: 28,
+  },
+  dayHeader: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  dayName: {
+    fontSize: 12,
+    opacity: 0.6,
+  },
+  dayNumber: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  today: {
+    color: Colors.dark.primary,
+    opacity: 1,
+  },
+  grid: {
+    flexDirection: 'row',
+  },
+  hourLabel: {
+    position: 'absolute',
+    fontSize: 10,
+    lineHeight: 12,
+    marginTop: -6,
+    opacity: 0.5,
+  },
+  dayColumn: {
+    flex: 1,
+    borderLeftWidth: 1,
+    borderLeftColor: '#333333',
+  },
+  hourLine: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    height: 1,
+    backgroundColor: '#2a2a2a',
+  },
+  block: {
+    position: 'absolute',
+    borderRadius: 4,
+    paddingHorizontal: 2,
+    borderWidth: 1,
+  },
+  blockIdle: {
+    backgroundColor: '#333333',
+    borderColor: '#555555',
+  },
+  blockActive: {
+    backgroundColor: Colors.dark.primary,
+    borderColor: Colors.dark.primary,
+  },
+  blockWaiting: {
+    backgroundColor: '#FFB800',
+    borderColor: '#FFB800',
+  },
+  blockText: {
+    fontSize: 9,
+    lineHeight: 12,
+  },
+  blockTextRunning: {
+    color: '#000',
+  },
+  nowLine: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    height: 2,
+    backgroundColor: '#FF3B30',
+  },
+  legend: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 12,
+    marginTop: 12,
+  },
+  legendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  legendSwatch: {
+    width: 10,
+    height: 10,
+    borderRadius: 2,
+    borderWidth: 1,
+  },
+  legendLabel: {
+    fontSize: 12,
+    opacity: 0.7,
+  },
+});
@@ -0,0 +1,139 @@
+/**
+ * Week Timeline Preview Component
+ *
+ * One bar per day for the coming week showing when blocking runs:
+ * other schedules, the schedule being edited, and where they overlap.
+ *
+ * @module components/week-timeline-preview
+ */
+
+import React from 'react';
+import { StyleSheet, View } from 'react-native';
+
+import { ThemedText } from './themed-text';
+import { Colors } from '@/constants/theme';
+import { TimelineDay, TimelineSegment } from '@/services/schedule-validation';
+import { DAY_NAMES } from '@/types/blocker';
+
+const MINUTES_PER_DAY = 24 * 60;
+
+const SEGMENT_COLORS: Record<TimelineSegment['kind'], string> = {
+  existing: '#555555',
+  new: Colors.dark.primary,
+  overlap: '#FFB800',
+};
+
+const LEGEND: { kind: TimelineSegment['kind']; label: string }[] = [
+  { kind: 'new', label: 'This schedule' },
+  { kind: 'existing', label: 'Other schedules' },
+  { kind: 'overlap', label: 'Overlap' },
+];
+
+interface WeekTimelinePreviewProps {
+  /** Days to show, first day first */
+  days: TimelineDay[];
+}
+
+export function WeekTimelinePreview({ days }: WeekTimelinePreviewProps) {
+  return (
+    <View style={styles.container}>
+      {days.map((day) => (
+        <View key={day.date.getTime()} style={styles.row}>
+          <ThemedText style={styles.dayLabel}>{DAY_NAMES[day.date.getDay()]}</ThemedText>
+          <View style={styles.track}>
+            {day.segments.map((segment) => (
+              <View
+                key={`${segment.kind}-${segment.startMinutes}`}
+                style={[
+                  styles.segment,
+                  {
+                    left: `${(segment.startMinutes / MINUTES_PER_DAY) * 100}%`,
+                    width: `${((segment.endMinutes - segment.startMinutes) / MINUTES_PER_DAY) * 100}%`,
+                    backgroundColor: SEGMENT_COLORS[segment.kind],
+                  },
+                ]}
+              />
+            ))}
+          </View>
+        </View>
+      ))}
+
+      <View style={styles.hours}>
+        {['00', '06', '12', '18', '24'].map((hour) => (
+          <ThemedText key={hour} style={styles.hourLabel}>{hour}</ThemedText>
+        ))}
+      </View>
+
+      <View style={styles.legend}>
+        {LEGEND.map((item) => (
+          <View key={item.kind} style={styles.legendItem}>
+            <View style={[styles.legendSwatch, { backgroundColor: SEGMENT_COLORS[item.kind] }]} />
+            <ThemedText style={styles.legendLabel}>{item.label}</ThemedText>
+          </View>
+        ))}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 6,
+    padding: 12,
+    backgroundColor: '#1a1a1a',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#333333',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  dayLabel: {
+    width: 32,
+    fontSize: 12,
+    opacity: 0.6,
+  },
+  track: {
+    flex: 1,
+    height: 12,
+    borderRadius: 3,
+    backgroundColor: '#2a2a2a',
+    overflow: 'hidden',
+  },
+  segment: {
+    position: 'absolute',
+    top: 0,
+    bottom: 0,
+  },
+  hours: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginLeft: 40,
+  },
+  hourLabel: {
+    fontSize: 10,
+    opacity: 0.5,
+  },
+  legend: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 12,
+    marginTop: 4,
+  },
+  legendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  legendSwatch: {
+    width: 10,
+    height: 10,
+    borderRadius: 2,
+  },
+  legendLabel: {
+    fontSize: 12,
+    opacity: 0.7,
+  },
+});
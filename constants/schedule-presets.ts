@@ -0,0 +1,50 @@
+/**
+ * Schedule Presets
+ *
+ * Built-in templates offered when creating a schedule.
+ *
+ * @module constants/schedule-presets
+ */
+
+import type { ScheduleTemplate } from '@/types/blocker';
+
+const WEEKDAYS = [1, 2, 3, 4, 5];
+const EVERY_DAY = [0, 1, 2, 3, 4, 5, 6];
+
+export const SCHEDULE_PRESETS: ScheduleTemplate[] = [
+  {
+    id: 'preset_work_hours',
+    name: 'Work hours',
+    description: 'Weekdays, 9:00 - 17:00',
+    windows: [{ startTime: '09:00', endTime: '17:00', daysOfWeek: WEEKDAYS }],
+    isPreset: true,
+  },
+  {
+    id: 'preset_deep_work_mornings',
+    name: 'Deep work mornings',
+    description: 'Weekdays, 8:00 - 11:00',
+    windows: [{ startTime: '08:00', endTime: '11:00', daysOfWeek: WEEKDAYS }],
+    isPreset: true,
+  },
+  {
+    id: 'preset_bedtime_wind_down',
+    name: 'Bedtime wind-down',
+    description: 'Every night, 22:00 - 07:00',
+    windows: [{ startTime: '22:00', endTime: '07:00', daysOfWeek: EVERY_DAY }],
+    isPreset: true,
+  },
+  {
+    id: 'preset_weekend_sabbath',
+    name: 'Weekend digital sabbath',
+    description: 'Saturday and Sunday, 10:00 - 20:00',
+    windows: [{ startTime: '10:00', endTime: '20:00', daysOfWeek: [0, 6] }],
+    isPreset: true,
+  },
+  {
+    id: 'preset_study_block',
+    name: 'Study block',
+    description: 'Weekdays, 16:00 - 19:00',
+    windows: [{ startTime: '16:00', endTime: '19:00', daysOfWeek: WEEKDAYS }],
+    isPreset: true,
+  },
+];
@@ -0,0 +1,42 @@
+/**
+ * Shield Appearance Defaults
+ *
+ * Default look, quotes and color choices for the screen shown over blocked apps.
+ *
+ * @module constants/shield-appearance
+ */
+
+import type { ShieldAppearance } from '@/types/blocker';
+
+export const DEFAULT_SHIELD_QUOTES = [
+  'You will never regret the scroll you skipped.',
+  'Attention is the rarest and purest form of generosity.',
+  'What you do every day matters more than what you do once in a while.',
+  'Boredom is the doorway to better ideas.',
+  'Be where your feet are.',
+];
+
+export const DEFAULT_SHIELD_APPEARANCE: ShieldAppearance = {
+  title: 'Time to focus',
+  subtitle: '{app} is blocked right now.',
+  quotes: DEFAULT_SHIELD_QUOTES,
+  primaryButtonLabel: 'Close',
+  secondaryButtonLabel: 'Open Dopamine Detox',
+  backgroundColor: '#000000',
+  textColor: '#ECEDEE',
+  buttonColor: '#00EB3F',
+  buttonTextColor: '#000000',
+};
+
+/** Colors offered for shield backgrounds, text and buttons */
+export const SHIELD_COLOR_OPTIONS = [
+  '#000000',
+  '#1a1a1a',
+  '#FFFFFF',
+  '#ECEDEE',
+  '#00EB3F',
+  '#FFB800',
+  '#FF3B30',
+  '#0A84FF',
+  '#BF5AF2',
+];
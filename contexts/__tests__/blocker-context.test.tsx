@@ -0,0 +1,500 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { act, renderHook, waitFor } from '@testing-library/react-native';
+import { AuthorizationStatus } from 'react-native-device-activity';
+
+import { BlockerProvider, useBlocker } from '@/contexts/blocker-context';
+import DeviceActivityModule from '@/modules/device-activity/DeviceActivityModule';
+import { simulator } from '@/modules/simulator';
+import { getScheduleActivityPrefix } from '@/services/device-activity.service';
+import { storageService } from '@/services/storage.service';
+import type {
+  Blocklist,
+  BlockerSchedule,
+  BlockerState,
+  OpenLimit,
+  OpenLimitResult,
+  UsageLimit,
+} from '@/types/blocker';
+
+// Monday 2026-10-19, 10:00
+const NOW = new Date(2026, 9, 19, 10, 0);
+
+const workHours: BlockerSchedule = {
+  id: 'work',
+  name: 'Work',
+  startTime: '09:00',
+  endTime: '17:00',
+  daysOfWeek: [1, 2, 3, 4, 5],
+  isActive: true,
+  familyActivitySelectionId: 'work-apps',
+};
+
+async function renderBlocker(schedules: BlockerSchedule[] = [workHours]) {
+  await storageService.saveSchedules(schedules);
+  const view = renderHook(() => useBlocker(), { wrapper: BlockerProvider });
+  await waitFor(() => expect(view.result.current.isLoading).toBe(false));
+  return view;
+}
+
+describe('BlockerProvider', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: NOW });
+    simulator.deviceActivity.setSelection('work-apps', ['mail', 'slack']);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('shields the selection and monitors the window when a schedule starts', async () => {
+    const { result } = await renderBlocker();
+
+    await act(() => result.current.startSchedule('work'));
+
+    expect(result.current.isScheduleActive('work')).toBe(true);
+    expect(simulator.getCalls('DeviceActivity', 'blockSelection').map((call) => call.args[0])).toEqual([
+      { activitySelectionId: 'work-apps' },
+    ]);
+    expect(simulator.getCalls('DeviceActivity', 'startMonitoring')[0].args[1]).toMatchObject({
+      intervalStart: { day: 19, hour: 9, minute: 0 },
+      intervalEnd: { day: 19, hour: 17, minute: 0 },
+    });
+    expect(simulator.deviceActivity.getShieldState().blockedApps).toEqual(['mail', 'slack']);
+  });
+
+  it('lifts the shield and stops monitoring when the schedule stops', async () => {
+    const { result } = await renderBlocker();
+    await act(() => result.current.startSchedule('work'));
+    simulator.clearCalls();
+
+    await act(() => result.current.stopSchedule('work'));
+
+    expect(result.current.isScheduleActive('work')).toBe(false);
+    expect(simulator.getCalls('DeviceActivity', 'stopMonitoring')).not.toHaveLength(0);
+    expect(simulator.deviceActivity.getShieldState().blockedApps).toEqual([]);
+    expect(simulator.deviceActivity.getActivities().size).toBe(0);
+  });
+
+  it('waits for a schedule that starts later today', async () => {
+    const { result } = await renderBlocker([{ ...workHours, startTime: '18:00', endTime: '20:00' }]);
+
+    await act(() => result.current.startSchedule('work'));
+
+    expect(result.current.isScheduleWaiting('work')).toBe(true);
+    expect(simulator.getCalls('DeviceActivity', 'blockSelection')).toHaveLength(0);
+    expect(simulator.deviceActivity.getActivities().size).toBeGreaterThan(0);
+  });
+
+  it('follows Screen Time authorization changes', async () => {
+    const { result } = await renderBlocker();
+
+    act(() => simulator.deviceActivity.setAuthorizationStatus(AuthorizationStatus.approved));
+    expect(result.current.authorizationStatus).toBe(AuthorizationStatus.approved);
+
+    act(() => simulator.deviceActivity.setAuthorizationStatus(AuthorizationStatus.denied));
+    expect(result.current.authorizationStatus).toBe(AuthorizationStatus.denied);
+  });
+});
+
+describe('BlockerProvider allow-list mode', () => {
+  const deepWork: BlockerSchedule = {
+    ...workHours,
+    id: 'deep-work',
+    name: 'Deep work',
+    blockMode: 'allow',
+    familyActivitySelectionId: 'deep-work-apps',
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: NOW });
+    simulator.deviceActivity.setSelection('work-apps', ['mail', 'slack']);
+    simulator.deviceActivity.setSelection('deep-work-apps', ['maps', 'phone', 'slack']);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('shields every app except the allow-list while an allow schedule runs', async () => {
+    const { result } = await renderBlocker([deepWork]);
+
+    await act(() => result.current.startSchedule('deep-work'));
+
+    expect(simulator.deviceActivity.getShieldState()).toEqual({
+      isBlockingAll: true,
+      blockedApps: [],
+      allowedApps: ['maps', 'phone', 'slack'],
+    });
+  });
+
+  it('keeps apps of a block schedule closed and shields them alone once the allow schedule stops', async () => {
+    const { result } = await renderBlocker([workHours, deepWork]);
+    await act(() => result.current.startSchedule('work'));
+    await act(() => result.current.startSchedule('deep-work'));
+
+    expect(simulator.deviceActivity.getShieldState().allowedApps).toEqual(['maps', 'phone']);
+
+    await act(() => result.current.stopSchedule('deep-work'));
+
+    expect(simulator.deviceActivity.getShieldState()).toEqual({
+      isBlockingAll: false,
+      blockedApps: ['mail', 'slack'],
+      allowedApps: [],
+    });
+  });
+});
+
+describe('BlockerProvider blocklists', () => {
+  const social: Blocklist = { id: 'social', name: 'Social', familyActivitySelectionId: 'social-apps', createdAt: 0 };
+  const usesSocial = (schedule: BlockerSchedule): BlockerSchedule => ({
+    ...schedule,
+    blocklistId: 'social',
+    familyActivitySelectionId: 'social-apps',
+  });
+
+  beforeEach(async () => {
+    jest.useFakeTimers({ now: NOW });
+    simulator.deviceActivity.setSelection('work-apps', ['mail', 'slack']);
+    simulator.deviceActivity.setSelection('social-apps', ['instagram', 'tiktok']);
+    await storageService.saveBlocklists([social]);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('shields the new apps of a blocklist an active schedule uses', async () => {
+    const { result } = await renderBlocker([usesSocial(workHours)]);
+    await act(() => result.current.startSchedule('work'));
+
+    simulator.deviceActivity.setSelection('social-apps', ['instagram', 'youtube']);
+    await act(() => result.current.updateBlocklist('social'));
+
+    expect(simulator.deviceActivity.getShieldState().blockedApps).toEqual(['instagram', 'youtube']);
+  });
+
+  it('keeps other active schedules shielded when a shared blocklist changes', async () => {
+    const evening: BlockerSchedule = usesSocial({ ...workHours, id: 'evening', name: 'Evening' });
+    const { result } = await renderBlocker([workHours, evening]);
+    await act(() => result.current.startSchedule('work'));
+    await act(() => result.current.startSchedule('evening'));
+
+    simulator.deviceActivity.setSelection('social-apps', ['mail', 'youtube']);
+    await act(() => result.current.updateBlocklist('social'));
+
+    expect(simulator.deviceActivity.getShieldState().blockedApps).toEqual(['mail', 'slack', 'youtube']);
+  });
+
+  it('leaves shields alone when no active schedule uses the blocklist', async () => {
+    const { result } = await renderBlocker([workHours, usesSocial({ ...workHours, id: 'evening', name: 'Evening' })]);
+    await act(() => result.current.startSchedule('work'));
+    simulator.clearCalls();
+
+    await act(() => result.current.updateBlocklist('social', { name: 'Feeds' }));
+
+    expect(simulator.getCalls('DeviceActivity', 'blockSelection')).toHaveLength(0);
+    expect(simulator.deviceActivity.getShieldState().blockedApps).toEqual(['mail', 'slack']);
+    expect(result.current.blocklists[0].name).toBe('Feeds');
+  });
+});
+
+describe('BlockerProvider usage limits', () => {
+  const social: UsageLimit = {
+    id: 'social',
+    name: 'Social',
+    familyActivitySelectionId: 'social-apps',
+    dailyMinutes: 30,
+    isActive: true,
+    createdAt: 0,
+  };
+
+  beforeEach(async () => {
+    jest.useFakeTimers({ now: NOW });
+    simulator.deviceActivity.setSelection('social-apps', ['instagram', 'tiktok']);
+    await storageService.saveUsageLimits([social]);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('records a used-up budget in history once a day', async () => {
+    const { result } = await renderBlocker([]);
+
+    simulator.deviceActivity.triggerMonitorEvent('usage_social', 'eventDidReachThreshold', '30');
+    await act(async () => {
+      jest.advanceTimersByTime(60 * 1000);
+    });
+    await act(async () => {
+      jest.advanceTimersByTime(60 * 1000);
+    });
+
+    expect(result.current.limitEvents).toEqual([
+      expect.objectContaining({ limitId: 'social', type: 'budget_exceeded', day: '2026-10-19' }),
+    ]);
+    expect(simulator.deviceActivity.getShieldState().blockedApps).toEqual(['instagram', 'tiktok']);
+  });
+});
+
+describe('BlockerProvider open limits', () => {
+  const social: Blocklist = { id: 'social', name: 'Social', familyActivitySelectionId: 'social-apps', createdAt: 0 };
+  const feeds: OpenLimit = { id: 'feeds', blocklistId: 'social', maxOpens: 2, isActive: true, createdAt: 0 };
+
+  beforeEach(async () => {
+    jest.useFakeTimers({ now: NOW });
+    simulator.deviceActivity.setSelection('social-apps', ['instagram', 'tiktok']);
+    await storageService.saveBlocklists([social]);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  async function renderWithLimit(limit: OpenLimit = feeds, schedules: BlockerSchedule[] = []) {
+    await storageService.saveOpenLimits([limit]);
+    return renderBlocker(schedules);
+  }
+
+  async function open(result: { current: ReturnType<typeof useBlocker> }): Promise<OpenLimitResult> {
+    let outcome: OpenLimitResult | undefined;
+    await act(async () => {
+      outcome = await result.current.openLimitedApps('feeds');
+    });
+    return outcome!;
+  }
+
+  it('opens the apps once and reports an open that is still running', async () => {
+    const { result } = await renderWithLimit();
+
+    expect(await open(result)).toBe('opened');
+    expect(simulator.deviceActivity.getShieldState().blockedApps).toEqual([]);
+
+    expect(await open(result)).toBe('already_open');
+  });
+
+  /** Let an open run out, so the foreground timer shields the apps again */
+  async function endOpen(): Promise<void> {
+    await act(async () => {
+      jest.advanceTimersByTime(15 * 60 * 1000 + 500);
+    });
+  }
+
+  it('counts each open and reports when the opens of the day are used up', async () => {
+    const { result } = await renderWithLimit();
+
+    expect(await open(result)).toBe('opened');
+    await endOpen();
+    expect(simulator.deviceActivity.getShieldState().blockedApps).toEqual(['instagram', 'tiktok']);
+
+    expect(await open(result)).toBe('opened');
+    expect(result.current.openLimits[0].usage).toMatchObject({ day: '2026-10-19', opens: 2 });
+    await endOpen();
+
+    expect(await open(result)).toBe('no_opens_left');
+    expect(simulator.deviceActivity.getShieldState().blockedApps).toEqual(['instagram', 'tiktok']);
+    expect(result.current.limitEvents).toEqual([
+      expect.objectContaining({ limitId: 'feeds', type: 'open_limit_reached', day: '2026-10-19' }),
+    ]);
+  });
+
+  it('starts counting opens again the next day', async () => {
+    const { result } = await renderWithLimit({ ...feeds, maxOpens: 1 });
+    expect(await open(result)).toBe('opened');
+    await endOpen();
+    expect(await open(result)).toBe('no_opens_left');
+
+    jest.setSystemTime(new Date(2026, 9, 20, 8, 0));
+
+    expect(await open(result)).toBe('opened');
+    expect(result.current.openLimits[0].usage).toMatchObject({ day: '2026-10-20', opens: 1 });
+  });
+
+  it('counts opens from the shield and reports when none are left', async () => {
+    const { result } = await renderWithLimit({ ...feeds, maxOpens: 1 });
+    simulator.deviceActivity.triggerMonitorEvent('opens_feeds_open_1', 'intervalDidStart');
+    jest.setSystemTime(new Date(2026, 9, 19, 10, 20));
+
+    expect(await open(result)).toBe('no_opens_left');
+  });
+
+  it('takes over opens counted by the shield while the app was closed', async () => {
+    simulator.deviceActivity.triggerMonitorEvent('opens_feeds_open_1', 'intervalDidStart');
+
+    const { result } = await renderWithLimit();
+
+    await waitFor(() => expect(result.current.openLimits[0].usage?.opens).toBe(1));
+    expect(simulator.deviceActivity.getShieldState().blockedApps).toEqual([]);
+  });
+
+  it('reports a running schedule that blocks the apps', async () => {
+    const { result } = await renderWithLimit(feeds, [
+      { ...workHours, blocklistId: 'social', familyActivitySelectionId: 'social-apps' },
+    ]);
+    await act(() => result.current.startSchedule('work'));
+
+    expect(await open(result)).toBe('blocked_by_schedule');
+    expect(simulator.deviceActivity.getShieldState().blockedApps).toEqual(['instagram', 'tiktok']);
+  });
+
+  it('reports a limit that is turned off', async () => {
+    const { result } = await renderWithLimit({ ...feeds, isActive: false });
+
+    expect(await open(result)).toBe('inactive');
+  });
+});
+
+describe('BlockerProvider pauses', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  async function pause(result: { current: ReturnType<typeof useBlocker> }, minutes: number): Promise<boolean> {
+    let paused = false;
+    await act(async () => {
+      paused = await result.current.pauseBlocking(minutes);
+    });
+    return paused;
+  }
+
+  it('refuses a pause once less than a minute of the budget is left', async () => {
+    jest.useFakeTimers({ now: NOW });
+    simulator.deviceActivity.setSelection('work-apps', ['mail', 'slack']);
+    const { result } = await renderBlocker();
+    await act(() => result.current.startSchedule('work'));
+    jest.setSystemTime(NOW);
+
+    expect(await pause(result, 15)).toBe(true);
+    expect(simulator.deviceActivity.getShieldState().blockedApps).toEqual([]);
+    jest.setSystemTime(new Date(2026, 9, 19, 10, 14, 30));
+    await act(() => result.current.resumeBlocking());
+
+    expect(result.current.state.pauseUsage).toEqual({ day: '2026-10-19', seconds: 14 * 60 + 30 });
+    expect(await pause(result, 5)).toBe(false);
+    expect(result.current.state.isPaused).toBe(false);
+    expect(simulator.deviceActivity.getShieldState().blockedApps).toEqual(['mail', 'slack']);
+  });
+
+  it('shortens a pause to the budget that is left', async () => {
+    jest.useFakeTimers({ now: NOW });
+    await AsyncStorage.setItem('@app_settings', JSON.stringify({ dailyPauseBudgetMinutes: 5 }));
+    const { result } = await renderBlocker();
+    await act(() => result.current.startSchedule('work'));
+    jest.setSystemTime(NOW);
+
+    expect(await pause(result, 15)).toBe(true);
+
+    expect(result.current.state.pauseEndsAt).toBe(NOW.getTime() + 5 * 60 * 1000);
+  });
+
+  it('charges a pause across midnight to the day it started and starts the next day over', async () => {
+    const lateNight = new Date(2026, 9, 19, 23, 50);
+    jest.useFakeTimers({ now: lateNight });
+    const { result } = await renderBlocker([
+      { ...workHours, startTime: '22:00', endTime: '02:00', daysOfWeek: [0, 1, 2, 3, 4, 5, 6] },
+    ]);
+    await act(() => result.current.startSchedule('work'));
+    jest.setSystemTime(lateNight);
+
+    expect(await pause(result, 15)).toBe(true);
+    jest.setSystemTime(new Date(2026, 9, 20, 0, 5));
+    await act(() => result.current.resumeBlocking());
+
+    expect(result.current.state.pauseUsage).toEqual({ day: '2026-10-19', seconds: 15 * 60 });
+    jest.setSystemTime(new Date(2026, 9, 20, 0, 5));
+    expect(await pause(result, 15)).toBe(true);
+    expect(result.current.state.pauseEndsAt).toBe(new Date(2026, 9, 20, 0, 20).getTime());
+  });
+});
+
+describe('BlockerProvider launch repair', () => {
+  const blockingWork: BlockerState = {
+    isBlocking: true,
+    isPaused: false,
+    savedTime: 0,
+    activeScheduleIds: ['work'],
+    waitingScheduleIds: [],
+    currentScheduleId: 'work',
+    startedAt: NOW.getTime(),
+    accumulatedTime: 0,
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: NOW });
+    simulator.deviceActivity.setSelection('work-apps', ['mail', 'slack']);
+    simulator.deviceActivity.setSelection('stale-apps', ['tiktok']);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('ends a schedule whose window ended while the app was closed', async () => {
+    const first = await renderBlocker();
+    await act(() => first.result.current.startSchedule('work'));
+    first.unmount();
+    const activityName = [...simulator.deviceActivity.getActivities().keys()].find((name) =>
+      name.startsWith(getScheduleActivityPrefix('work'))
+    );
+    jest.setSystemTime(new Date(2026, 9, 19, 17, 0));
+    simulator.deviceActivity.triggerMonitorEvent(activityName!, 'intervalDidEnd');
+
+    const { result } = await renderBlocker();
+
+    expect(result.current.isScheduleActive('work')).toBe(false);
+    expect(result.current.state.isBlocking).toBe(false);
+    expect(simulator.deviceActivity.getShieldState().blockedApps).toEqual([]);
+  });
+
+  it('drops IDs of deleted schedules from saved state', async () => {
+    await storageService.saveBlockerState({
+      ...blockingWork,
+      activeScheduleIds: ['deleted'],
+      currentScheduleId: 'deleted',
+    });
+
+    const { result } = await renderBlocker();
+
+    expect(result.current.state).toMatchObject({ isBlocking: false, activeScheduleIds: [] });
+    expect(console.log).toHaveBeenCalledWith('[BlockerContext] Repaired drift on launch:', [
+      'dropped stale schedule IDs: deleted',
+      'blocking flag was on with nothing active',
+    ]);
+  });
+
+  it('shields an active schedule again when its shield is missing', async () => {
+    await storageService.saveBlockerState(blockingWork);
+
+    const { result } = await renderBlocker();
+
+    expect(result.current.isScheduleActive('work')).toBe(true);
+    expect(simulator.deviceActivity.getShieldState().blockedApps).toEqual(['mail', 'slack']);
+    expect(console.log).toHaveBeenCalledWith('[BlockerContext] Repaired drift on launch:', [
+      'selection not shielded: work-apps',
+    ]);
+  });
+
+  it('lifts extra shields no active schedule accounts for', async () => {
+    await storageService.saveBlockerState(blockingWork);
+    DeviceActivityModule.blockSelection({ activitySelectionId: 'work-apps' });
+    DeviceActivityModule.blockSelection({ activitySelectionId: 'stale-apps' });
+
+    await renderBlocker();
+
+    expect(simulator.deviceActivity.getShieldState().blockedApps).toEqual(['mail', 'slack']);
+    expect(console.log).toHaveBeenCalledWith('[BlockerContext] Repaired drift on launch:', [
+      'apps shielded by no rule: 1',
+    ]);
+  });
+
+  it('lifts every shield when nothing is active', async () => {
+    DeviceActivityModule.blockSelection({ activitySelectionId: 'stale-apps' });
+
+    await renderBlocker();
+
+    expect(simulator.deviceActivity.getShieldState().blockedApps).toEqual([]);
+    expect(console.log).toHaveBeenCalledWith('[BlockerContext] Repaired drift on launch:', [
+      'shields active with nothing blocking',
+      'apps shielded by no rule: 1',
+    ]);
+  });
+});
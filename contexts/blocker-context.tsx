@@ -2,7 +2,9 @@
  * Blocker Context
  *
  * Global state management for app blocking functionality.
- * Schedules are checked while app is active (foreground mode).
+ * Running schedules are registered with the ActivityMonitor extension so
+ * blocking starts and ends on time while the app is closed.
+ * Schedule math lives in the schedule engine; this provider applies its transitions.
  * Supports multiple simultaneous schedules with waiting mode.
  *
  * @module contexts/blocker-context
@@ -20,22 +22,84 @@ import React, {
 import { AppState, AppStateStatus, Platform } from 'react-native';
 import { AuthorizationStatus, AuthorizationStatusType } from 'react-native-device-activity';
 
-import { BlockerState, BlockerSchedule } from '@/types/blocker';
-import deviceActivityService from '@/services/device-activity.service';
+import {
+  Blocklist,
+  BlockerState,
+  BlockerSchedule,
+  BlockingSession,
+  DEFAULT_QUICK_SESSION_MINUTES,
+  LimitEvent,
+  LimitEventType,
+  OpenLimit,
+  OpenLimitResult,
+  QUICK_SESSION_SELECTION_ID,
+  QuickSession,
+  SessionEndReason,
+  ShieldAppearance,
+  UnlockChallengeType,
+  UnlockOutcome,
+  UsageLimit,
+} from '@/types/blocker';
+import { DEFAULT_SHIELD_APPEARANCE } from '@/constants/shield-appearance';
+import deviceActivityService, {
+  BlockRule,
+  DEFAULT_SHIELD_ID,
+  getScheduleShieldId,
+  OpenLimitRule,
+} from '@/services/device-activity.service';
+import {
+  getOccurrencesBetween,
+  scheduleEngine,
+  ScheduleOccurrence,
+  ScheduleTimeStatus,
+} from '@/services/schedule-engine';
+import { assertValidSchedule, isValidationNeeded } from '@/services/schedule-validation';
 import storageService from '@/services/storage.service';
+import { StrictLock, strictModeService } from '@/services/strict-mode.service';
+import { getSettings } from '@/hooks/use-settings';
+import {
+  addUnlockAttempt,
+  applySessionTransition,
+  getDayKey,
+  getPauseUsedSeconds,
+} from '@/utils/sessionHistory';
+import {
+  addOpen,
+  getOpensLeft,
+  getOpensUsed,
+  isOpenNow,
+  resetOpenUsage,
+  withCountedOpens,
+} from '@/utils/openLimits';
 
 // ============================================================================
 // Types
 // ============================================================================
 
+/**
+ * Outcome of starting a schedule
+ * `nextOccurrence` tells when a schedule that is not running now will next start.
+ */
+export interface StartScheduleResult {
+  status: ScheduleTimeStatus;
+  nextOccurrence: ScheduleOccurrence | null;
+}
+
 interface BlockerContextType {
   state: BlockerState;
   schedules: BlockerSchedule[];
+  sessions: BlockingSession[];
+  blocklists: Blocklist[];
+  usageLimits: UsageLimit[];
+  openLimits: OpenLimit[];
+  limitEvents: LimitEvent[];
   isLoading: boolean;
   authorizationStatus: AuthorizationStatusType;
   scheduleUpdatedAt: number; // Timestamp for forcing UI updates
   requestAuthorization: () => Promise<void>;
-  startSchedule: (scheduleId: string) => Promise<void>;
+  startSchedule: (scheduleId: string) => Promise<StartScheduleResult | null>;
+  // Stop, stop all, update and delete reject with StrictModeError while a strict schedule is blocking;
+  // add and update reject with ScheduleValidationError when the schedule cannot run
   stopSchedule: (scheduleId: string) => Promise<void>;
   stopAllSchedules: () => Promise<void>;
   addSchedule: (schedule: BlockerSchedule) => Promise<void>;
@@ -43,6 +107,34 @@ interface BlockerContextType {
   deleteSchedule: (id: string) => Promise<void>;
   isScheduleActive: (scheduleId: string) => boolean;
   isScheduleWaiting: (scheduleId: string) => boolean;
+  // Pause returns false when blocking is off or today's budget is used up
+  pauseBlocking: (minutes: number) => Promise<boolean>;
+  resumeBlocking: () => Promise<void>;
+  recordUnlockAttempt: (
+    scheduleId: string,
+    challenge: UnlockChallengeType,
+    outcome: UnlockOutcome
+  ) => Promise<void>;
+  // Quick start returns false when a quick session is already running
+  startQuickSession: (minutes: number) => Promise<boolean>;
+  stopQuickSession: () => Promise<void>;
+  addBlocklist: (blocklist: Blocklist) => Promise<void>;
+  // Update also refreshes active schedules using the blocklist - call it after its apps change
+  updateBlocklist: (id: string, updates?: Partial<Pick<Blocklist, 'name'>>) => Promise<void>;
+  // Delete returns false while a schedule or an open limit uses the blocklist
+  deleteBlocklist: (id: string) => Promise<boolean>;
+  addUsageLimit: (limit: UsageLimit) => Promise<void>;
+  // Update also re-registers the limit with the monitor extension - call it after its apps change
+  updateUsageLimit: (
+    id: string,
+    updates?: Partial<Pick<UsageLimit, 'name' | 'dailyMinutes' | 'isActive'>>
+  ) => Promise<void>;
+  deleteUsageLimit: (id: string) => Promise<void>;
+  addOpenLimit: (limit: OpenLimit) => Promise<void>;
+  updateOpenLimit: (id: string, updates: Partial<Pick<OpenLimit, 'maxOpens' | 'isActive'>>) => Promise<void>;
+  deleteOpenLimit: (id: string) => Promise<void>;
+  // Open returns why the shield was not lifted, or 'opened'
+  openLimitedApps: (id: string) => Promise<OpenLimitResult>;
   // Legacy compatibility
   startBlocking: (scheduleId?: string) => Promise<void>;
   stopBlocking: () => Promise<void>;
@@ -52,9 +144,8 @@ interface BlockerContextType {
 // Helpers
 // ============================================================================
 
-function calculateElapsedTime(startedAt: number | undefined, accumulatedTime = 0): number {
+function calculateElapsedTime(startedAt: number | undefined, accumulatedTime = 0, now = Date.now()): number {
   if (!startedAt) return accumulatedTime;
-  const now = Date.now();
   const elapsed = Math.floor((now - startedAt) / 1000);
   return accumulatedTime + elapsed;
 }
@@ -70,75 +161,377 @@ function createDefaultState(): BlockerState {
 }
 
 /**
- * Parse time string "HH:mm" to minutes since midnight
+ * How a schedule's selection is enforced
+ *
+ * @returns Rule, or null if the schedule has no selection
  */
-function timeToMinutes(time: string): number {
-  const [hours, minutes] = time.split(':').map(Number);
-  return hours * 60 + minutes;
+function getScheduleRule(schedule: BlockerSchedule): BlockRule | null {
+  if (!schedule.familyActivitySelectionId) return null;
+
+  return {
+    familyActivitySelectionId: schedule.familyActivitySelectionId,
+    mode: schedule.blockMode ?? 'block',
+    webDomains: schedule.webDomains,
+    shieldId: schedule.shieldAppearance ? getScheduleShieldId(schedule.id) : undefined,
+  };
 }
 
 /**
- * Check schedule time status
- * Returns: 'active' if within time range, 'waiting' if before start, 'ended' if after end
+ * Shield looks to save: the global look plus each schedule's own look
  */
-function getScheduleTimeStatus(schedule: BlockerSchedule): 'active' | 'waiting' | 'ended' | 'wrong_day' {
-  if (!schedule.isActive || !schedule.familyActivitySelectionId) {
-    return 'ended';
+function getShieldAppearances(
+  globalAppearance: ShieldAppearance,
+  schedules: BlockerSchedule[]
+): Record<string, ShieldAppearance | null> {
+  const appearances: Record<string, ShieldAppearance | null> = { [DEFAULT_SHIELD_ID]: globalAppearance };
+
+  for (const schedule of schedules) {
+    appearances[getScheduleShieldId(schedule.id)] = schedule.shieldAppearance ?? null;
   }
 
-  const now = new Date();
-  const today = now.getDay();
-  const currentMinutes = now.getHours() * 60 + now.getMinutes();
-  const startMinutes = timeToMinutes(schedule.startTime);
-  const endMinutes = timeToMinutes(schedule.endTime);
+  return appearances;
+}
 
-  // Check if today is in the schedule's days
-  if (!schedule.daysOfWeek.includes(today)) {
-    return 'wrong_day';
+/**
+ * How active open limits are enforced on their blocklists' selections
+ */
+function getOpenLimitRules(limits: OpenLimit[], blocklists: Blocklist[]): OpenLimitRule[] {
+  const rules: OpenLimitRule[] = [];
+
+  for (const limit of limits) {
+    const blocklist = blocklists.find((b) => b.id === limit.blocklistId);
+    if (limit.isActive && blocklist) {
+      rules.push({
+        limitId: limit.id,
+        familyActivitySelectionId: blocklist.familyActivitySelectionId,
+        maxOpens: limit.maxOpens,
+        opensUsed: getOpensUsed(limit),
+        openUntil: limit.usage?.openUntil,
+      });
+    }
   }
 
-  // Handle overnight schedule (e.g., 22:00 - 06:00)
-  if (startMinutes > endMinutes) {
-    if (currentMinutes >= startMinutes || currentMinutes < endMinutes) {
-      return 'active';
-    }
-    if (currentMinutes < startMinutes && currentMinutes >= endMinutes) {
-      return 'waiting';
-    }
-  } else {
-    // Normal schedule (e.g., 09:00 - 17:00)
-    if (currentMinutes >= startMinutes && currentMinutes < endMinutes) {
-      return 'active';
+  return rules;
+}
+
+/**
+ * Rules that should be applied: active schedules plus a running quick session
+ * Schedules sharing a selection and mode become one rule with all their web domains.
+ */
+function getBlockRules(state: BlockerState, schedules: BlockerSchedule[]): BlockRule[] {
+  const rules: BlockRule[] = [];
+
+  const addRule = (rule: BlockRule) => {
+    const existing = rules.find(
+      (r) => r.familyActivitySelectionId === rule.familyActivitySelectionId && r.mode === rule.mode
+    );
+    if (!existing) {
+      rules.push(rule);
+    } else if (rule.webDomains) {
+      existing.webDomains = [...new Set([...(existing.webDomains ?? []), ...rule.webDomains])];
     }
-    if (currentMinutes < startMinutes) {
-      return 'waiting';
+  };
+
+  for (const id of state.activeScheduleIds || []) {
+    const schedule = schedules.find((s) => s.id === id);
+    const rule = schedule && getScheduleRule(schedule);
+    if (rule) {
+      addRule(rule);
     }
   }
 
-  return 'ended';
+  if (state.quickSession) {
+    addRule({ familyActivitySelectionId: state.quickSession.familyActivitySelectionId, mode: 'block' });
+  }
+
+  return rules;
+}
+
+/**
+ * Lift blocking for a while; paused time is not counted as saved
+ */
+function startPause(state: BlockerState, pauseEndsAt: number, now: number): BlockerState {
+  const savedTime = calculateElapsedTime(state.startedAt, state.accumulatedTime);
+
+  return {
+    ...state,
+    isPaused: true,
+    pausedAt: now,
+    pauseEndsAt,
+    startedAt: undefined,
+    accumulatedTime: savedTime,
+    savedTime,
+  };
+}
+
+/**
+ * End a pause at `at`, charging it to the daily budget
+ * Blocking time is counted again from `at`.
+ */
+function endPause(state: BlockerState, at: number): BlockerState {
+  if (!state.isPaused) return state;
+
+  const pausedAt = state.pausedAt ?? at;
+  const day = getDayKey(new Date(pausedAt));
+  const usedBefore = state.pauseUsage?.day === day ? state.pauseUsage.seconds : 0;
+
+  return {
+    ...state,
+    isPaused: false,
+    pausedAt: undefined,
+    pauseEndsAt: undefined,
+    pauseUsage: { day, seconds: usedBefore + Math.max(0, Math.floor((at - pausedAt) / 1000)) },
+    startedAt: state.isBlocking ? at : undefined,
+  };
+}
+
+/** How far ahead schedule windows are registered with the monitor extension */
+const MONITOR_HORIZON_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Register the current and upcoming windows of a schedule with the ActivityMonitor extension
+ * Covers the next day, so schedules with several windows a day run on time while the app is closed.
+ */
+function monitorSchedule(schedule: BlockerSchedule): void {
+  const rule = getScheduleRule(schedule);
+  if (Platform.OS !== 'ios' || !rule) return;
+
+  const now = scheduleEngine.now();
+  const occurrences = getOccurrencesBetween(schedule, now, new Date(now.getTime() + MONITOR_HORIZON_MS));
+  if (occurrences.length === 0) {
+    const next = scheduleEngine.getUpcomingOccurrence(schedule);
+    if (!next) return;
+    occurrences.push(next);
+  }
+
+  deviceActivityService
+    .monitorScheduleWindows(schedule.id, rule, occurrences)
+    .catch((error) => {
+      // Foreground checks still enforce the window (e.g., intervals under 15 minutes)
+      console.error('[BlockerContext] Error monitoring schedule:', schedule.id, error);
+    });
+}
+
+/**
+ * Lock a strict schedule until the end of its current window
+ */
+function lockIfStrict(schedule: BlockerSchedule | undefined): void {
+  if (!schedule?.strict) return;
+
+  const occurrence = scheduleEngine.getUpcomingOccurrence(schedule);
+  if (occurrence) {
+    strictModeService.lock(schedule, occurrence.end.getTime());
+  }
+}
+
+/**
+ * Bring back strict schedules whose lock outlived the stored data (e.g., after a reset)
+ *
+ * @returns State and schedules with every locked schedule present and active
+ */
+function restoreStrictLocks(
+  state: BlockerState,
+  schedules: BlockerSchedule[],
+  locks: StrictLock[]
+): { state: BlockerState; schedules: BlockerSchedule[] } {
+  const activeIds = state.activeScheduleIds || [];
+  const missingSchedules = locks
+    .filter((lock) => !schedules.some((s) => s.id === lock.scheduleId))
+    .map((lock) => lock.schedule);
+  const missingActiveIds = locks
+    .map((lock) => lock.scheduleId)
+    .filter((id) => !activeIds.includes(id));
+
+  if (missingSchedules.length === 0 && missingActiveIds.length === 0) {
+    return { state, schedules };
+  }
+
+  console.log('[BlockerContext] Restoring strict schedules:', missingActiveIds);
+
+  const newActiveIds = [...activeIds, ...missingActiveIds];
+
+  return {
+    state: {
+      ...state,
+      isBlocking: true,
+      isPaused: false,
+      activeScheduleIds: newActiveIds,
+      waitingScheduleIds: (state.waitingScheduleIds || []).filter((id) => !missingActiveIds.includes(id)),
+      currentScheduleId: newActiveIds[0],
+      startedAt: state.isBlocking ? state.startedAt : Date.now(),
+      accumulatedTime: state.isBlocking ? state.accumulatedTime : state.savedTime,
+      isAutomatic: state.isBlocking ? state.isAutomatic : true,
+    },
+    schedules: [...schedules, ...missingSchedules],
+  };
 }
 
 /**
- * Check if current time falls within schedule's time range
+ * Apply interval callbacks the ActivityMonitor extension recorded while the app was closed
+ *
+ * Waiting schedules whose window started are promoted to active, and schedules
+ * whose window ended are dropped unless another window starts later today.
+ * Saved time is credited up to the recorded end.
+ *
+ * @returns Reconciled state and when blocking ended, if it did
  */
-function isTimeInRange(startTime: string, endTime: string): boolean {
-  const now = new Date();
-  const currentMinutes = now.getHours() * 60 + now.getMinutes();
-  const startMinutes = timeToMinutes(startTime);
-  const endMinutes = timeToMinutes(endTime);
-
-  if (startMinutes > endMinutes) {
-    return currentMinutes >= startMinutes || currentMinutes < endMinutes;
+function reconcileWithMonitor(
+  saved: BlockerState,
+  schedules: BlockerSchedule[]
+): { state: BlockerState; endedAt?: number } {
+  if (Platform.OS !== 'ios') return { state: saved };
+
+  const activeIds: string[] = [];
+  const waitingIds: string[] = [];
+  const endedIds: string[] = [];
+  let sessionStart = saved.startedAt;
+  let sessionEnd: number | undefined;
+
+  for (const id of saved.activeScheduleIds || []) {
+    const monitor = deviceActivityService.getScheduleMonitorState(id);
+    const lastStart = Math.max(saved.startedAt ?? 0, monitor.startedAt ?? 0);
+    if (monitor.endedAt && monitor.endedAt >= lastStart) {
+      endedIds.push(id);
+      sessionEnd = Math.max(sessionEnd ?? 0, monitor.endedAt);
+    } else {
+      activeIds.push(id);
+    }
   }
 
-  return currentMinutes >= startMinutes && currentMinutes < endMinutes;
+  for (const id of saved.waitingScheduleIds || []) {
+    const monitor = deviceActivityService.getScheduleMonitorState(id);
+    if (!monitor.startedAt) {
+      waitingIds.push(id);
+      continue;
+    }
+
+    sessionStart = Math.min(sessionStart ?? monitor.startedAt, monitor.startedAt);
+    if (monitor.endedAt && monitor.endedAt >= monitor.startedAt) {
+      endedIds.push(id);
+      sessionEnd = Math.max(sessionEnd ?? 0, monitor.endedAt);
+    } else {
+      activeIds.push(id);
+    }
+  }
+
+  const promoted = activeIds.some((id) => !(saved.activeScheduleIds || []).includes(id));
+  if (endedIds.length === 0 && !promoted) return { state: saved };
+
+  console.log('[BlockerContext] Reconciled from monitor events:', { endedIds, activeIds });
+  endedIds.forEach((id) => {
+    strictModeService.release(id);
+
+    // Re-registering drops the ended window's events
+    const schedule = schedules.find((s) => s.id === id);
+    if (schedule && scheduleEngine.getScheduleTimeStatus(schedule) === 'waiting') {
+      waitingIds.push(id);
+      monitorSchedule(schedule);
+    } else {
+      deviceActivityService.stopMonitoringSchedule(id);
+    }
+  });
+
+  const isBlocking = activeIds.length > 0 || Boolean(saved.quickSession);
+  const accumulatedTime = saved.accumulatedTime ?? saved.savedTime;
+
+  if (isBlocking) {
+    return {
+      state: {
+        ...saved,
+        isBlocking,
+        activeScheduleIds: activeIds,
+        waitingScheduleIds: waitingIds,
+        currentScheduleId: activeIds[0],
+        startedAt: sessionStart,
+        accumulatedTime,
+        isAutomatic: saved.isBlocking ? saved.isAutomatic : true,
+      },
+    };
+  }
+
+  // Every window ended in the background - credit time up to the recorded end
+  const finalSavedTime = sessionStart && sessionEnd && sessionEnd > sessionStart
+    ? accumulatedTime + Math.floor((sessionEnd - sessionStart) / 1000)
+    : saved.savedTime;
+
+  return {
+    state: {
+      ...saved,
+      isBlocking,
+      activeScheduleIds: [],
+      waitingScheduleIds: waitingIds,
+      currentScheduleId: undefined,
+      startedAt: undefined,
+      accumulatedTime: finalSavedTime,
+      savedTime: finalSavedTime,
+    },
+    endedAt: sessionEnd,
+  };
 }
 
 /**
- * Check if a schedule should be active right now (legacy)
+ * Fix saved state that contradicts itself or the saved schedules
+ * A crash between saving state and saving schedules (or mid-transition) can
+ * leave IDs of deleted schedules behind, or a blocking flag that disagrees with
+ * what is running.
+ *
+ * @returns Repaired state and a description of each fix
  */
-function isScheduleActiveNow(schedule: BlockerSchedule): boolean {
-  return getScheduleTimeStatus(schedule) === 'active';
+function repairState(
+  saved: BlockerState,
+  schedules: BlockerSchedule[]
+): { state: BlockerState; fixes: string[] } {
+  const fixes: string[] = [];
+  const isKnown = (id: string) => schedules.some((s) => s.id === id && s.familyActivitySelectionId);
+
+  const savedActiveIds = saved.activeScheduleIds || [];
+  const activeIds = savedActiveIds.filter(isKnown);
+  const waitingIds = (saved.waitingScheduleIds || []).filter((id) => isKnown(id) && !activeIds.includes(id));
+  const droppedIds = [...savedActiveIds, ...(saved.waitingScheduleIds || [])].filter(
+    (id) => !activeIds.includes(id) && !waitingIds.includes(id)
+  );
+  if (droppedIds.length > 0) {
+    fixes.push(`dropped stale schedule IDs: ${droppedIds.join(', ')}`);
+  }
+
+  const isBlocking = activeIds.length > 0 || Boolean(saved.quickSession);
+  if (isBlocking !== saved.isBlocking) {
+    fixes.push(isBlocking ? 'blocking flag was off while schedules are active' : 'blocking flag was on with nothing active');
+  }
+
+  if (fixes.length === 0) return { state: saved, fixes };
+
+  if (isBlocking) {
+    return {
+      state: {
+        ...saved,
+        isBlocking,
+        activeScheduleIds: activeIds,
+        waitingScheduleIds: waitingIds,
+        currentScheduleId: activeIds[0],
+        startedAt: saved.isBlocking ? saved.startedAt : Date.now(),
+        accumulatedTime: saved.isBlocking ? saved.accumulatedTime : saved.savedTime,
+        isAutomatic: saved.isBlocking ? saved.isAutomatic : true,
+      },
+      fixes,
+    };
+  }
+
+  const finalSavedTime = calculateElapsedTime(saved.startedAt, saved.accumulatedTime ?? saved.savedTime);
+
+  return {
+    state: {
+      ...saved,
+      isBlocking,
+      activeScheduleIds: [],
+      waitingScheduleIds: waitingIds,
+      currentScheduleId: undefined,
+      startedAt: undefined,
+      accumulatedTime: finalSavedTime,
+      savedTime: finalSavedTime,
+    },
+    fixes,
+  };
 }
 
 // ============================================================================
@@ -154,6 +547,11 @@ const BlockerContext = createContext<BlockerContextType | null>(null);
 export function BlockerProvider({ children }: { children: ReactNode }) {
   const [state, setState] = useState<BlockerState>(createDefaultState());
   const [schedules, setSchedules] = useState<BlockerSchedule[]>([]);
+  const [sessions, setSessions] = useState<BlockingSession[]>([]);
+  const [blocklists, setBlocklists] = useState<Blocklist[]>([]);
+  const [usageLimits, setUsageLimits] = useState<UsageLimit[]>([]);
+  const [openLimits, setOpenLimits] = useState<OpenLimit[]>([]);
+  const [limitEvents, setLimitEvents] = useState<LimitEvent[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [authorizationStatus, setAuthorizationStatus] = useState<AuthorizationStatusType>(
     AuthorizationStatus.notDetermined
@@ -163,32 +561,51 @@ export function BlockerProvider({ children }: { children: ReactNode }) {
   const appStateRef = useRef(AppState.currentState);
   const schedulesRef = useRef(schedules);
   
+  const sessionsRef = useRef(sessions);
+  const usageLimitsRef = useRef(usageLimits);
+  const openLimitsRef = useRef(openLimits);
+  const blocklistsRef = useRef(blocklists);
+  const limitEventsRef = useRef(limitEvents);
+  
   // Keep schedulesRef in sync
   useEffect(() => {
     schedulesRef.current = schedules;
   }, [schedules]);
 
   // --------------------------------------------------------------------------
-  // Initialization
+  // State Persistence
   // --------------------------------------------------------------------------
 
-  useEffect(() => {
-    loadData();
-
-    if (Platform.OS === 'ios') {
-      setAuthorizationStatus(deviceActivityService.getAuthorizationStatus());
-    }
-  }, []);
+  /**
+   * Apply and persist a state transition, recording it in session history
+   */
+  const commitState = useCallback(
+    async (
+      prev: BlockerState,
+      next: BlockerState,
+      options: { endReason?: SessionEndReason; at?: number } = {}
+    ): Promise<BlockerState> => {
+      // A pause cannot outlive blocking
+      const settled = !next.isBlocking && next.isPaused ? endPause(next, options.at ?? Date.now()) : next;
+      const result = applySessionTransition(sessionsRef.current, prev, settled, options);
+
+      if (prev.isPaused && !result.state.isPaused) {
+        deviceActivityService.stopMonitoringPause();
+      }
 
-  useEffect(() => {
-    if (Platform.OS !== 'ios') return;
+      setState(result.state);
+      await storageService.saveBlockerState(result.state);
 
-    const subscription = deviceActivityService.onAuthorizationStatusChange((status) => {
-      setAuthorizationStatus(status);
-    });
+      if (result.changed) {
+        sessionsRef.current = result.sessions;
+        setSessions(result.sessions);
+        await storageService.saveSessions(result.sessions);
+      }
 
-    return () => subscription.remove();
-  }, []);
+      return result.state;
+    },
+    []
+  );
 
   // --------------------------------------------------------------------------
   // App State Handling
@@ -233,95 +650,187 @@ export function BlockerProvider({ children }: { children: ReactNode }) {
     return () => clearInterval(interval);
   }, [state.isBlocking, state.isPaused]);
 
+  // --------------------------------------------------------------------------
+  // Pauses
+  // --------------------------------------------------------------------------
+
+  /**
+   * Replace the shields with the rules of everything that is blocking
+   * Allow-mode schedules change what other selections leave open, so blocks
+   * are always applied together rather than one selection at a time.
+   */
+  const reapplyActiveBlocks = useCallback((blockerState: BlockerState) => {
+    if (Platform.OS !== 'ios') return;
+
+    deviceActivityService.applyBlocks(getBlockRules(blockerState, schedulesRef.current));
+  }, []);
+
+  /**
+   * Re-apply shields after limits changed, keeping a pause lifted
+   * Limits turned off lift their shields; limits still enforced keep theirs.
+   */
+  const refreshLimitBlocks = useCallback((blockerState: BlockerState) => {
+    if (Platform.OS !== 'ios') return;
+
+    deviceActivityService.applyBlocks(
+      blockerState.isPaused ? [] : getBlockRules(blockerState, schedulesRef.current)
+    );
+  }, []);
+
+  /**
+   * Have the monitor extension re-apply blocks when the pause ends
+   */
+  const monitorPause = useCallback((blockerState: BlockerState, pauseEndsAt: number) => {
+    const rules = getBlockRules(blockerState, schedulesRef.current);
+
+    deviceActivityService.monitorPauseEnd(rules, new Date(pauseEndsAt)).catch((error) => {
+      // The foreground timer still resumes blocking while the app is open
+      console.error('[BlockerContext] Error monitoring pause end:', error);
+    });
+  }, []);
+
+  const pauseBlocking = useCallback(
+    async (minutes: number): Promise<boolean> => {
+      if (!state.isBlocking || state.isPaused) return false;
+
+      strictModeService.assertAllowed('pause');
+
+      const now = Date.now();
+      const { dailyPauseBudgetMinutes } = await getSettings();
+      const remainingMs = dailyPauseBudgetMinutes * 60 * 1000 - getPauseUsedSeconds(state, now) * 1000;
+      const durationMs = Math.min(minutes * 60 * 1000, remainingMs);
+
+      if (durationMs < 60 * 1000) {
+        console.log('[BlockerContext] Pause budget used up for today');
+        return false;
+      }
+
+      const pauseEndsAt = now + durationMs;
+      const newState = startPause(state, pauseEndsAt, now);
+      await commitState(state, newState);
+
+      if (Platform.OS === 'ios') {
+        // Reached usage limits stay shielded
+        deviceActivityService.applyBlocks([]);
+      }
+      monitorPause(newState, pauseEndsAt);
+
+      console.log('[BlockerContext] Paused until', new Date(pauseEndsAt).toISOString());
+      return true;
+    },
+    [state, commitState, monitorPause]
+  );
+
+  const resumeBlocking = useCallback(async () => {
+    if (!state.isPaused) return;
+
+    // A pause noticed late still ends at its scheduled time
+    const at = Math.min(Date.now(), state.pauseEndsAt ?? Date.now());
+    const newState = endPause(state, at);
+
+    await commitState(state, newState);
+    reapplyActiveBlocks(newState);
+
+    console.log('[BlockerContext] Resumed blocking');
+  }, [state, commitState, reapplyActiveBlocks]);
+
   // --------------------------------------------------------------------------
   // Schedule Time Checking (Foreground mode)
   // --------------------------------------------------------------------------
 
-  const checkSchedulesRef = useRef<() => void>();
+  const checkSchedulesRef = useRef<() => void>(undefined);
 
   useEffect(() => {
     checkSchedulesRef.current = async () => {
       if (isLoading) return;
 
+      if (state.isPaused && state.pauseEndsAt && state.pauseEndsAt <= Date.now()) {
+        await resumeBlocking();
+        return;
+      }
+
       const activeIds = state.activeScheduleIds || [];
-      const waitingIds = state.waitingScheduleIds || [];
-      
-      let newActiveIds = [...activeIds];
-      let newWaitingIds = [...waitingIds];
-      let hasChanges = false;
-
-      // Check each active schedule - stop if time ended
-      for (const scheduleId of activeIds) {
-        const schedule = schedulesRef.current.find(s => s.id === scheduleId);
-        if (!schedule) {
-          newActiveIds = newActiveIds.filter(id => id !== scheduleId);
-          hasChanges = true;
-          continue;
-        }
+      const evaluation = scheduleEngine.evaluate(schedulesRef.current, {
+        activeScheduleIds: activeIds,
+        waitingScheduleIds: state.waitingScheduleIds || [],
+      });
 
-        const timeStatus = getScheduleTimeStatus(schedule);
-        if (timeStatus === 'ended' || timeStatus === 'wrong_day') {
-          console.log('[BlockerContext] Schedule ended:', scheduleId);
-          newActiveIds = newActiveIds.filter(id => id !== scheduleId);
-          hasChanges = true;
-        }
-      }
+      const quickSession = state.quickSession;
+      const quickSessionEnded = Boolean(quickSession && quickSession.endsAt <= Date.now());
 
-      // Check each waiting schedule - start if time came
-      for (const scheduleId of waitingIds) {
-        const schedule = schedulesRef.current.find(s => s.id === scheduleId);
-        if (!schedule) {
-          newWaitingIds = newWaitingIds.filter(id => id !== scheduleId);
-          hasChanges = true;
-          continue;
-        }
+      if (!evaluation.hasChanges && !quickSessionEnded) return;
 
-        const timeStatus = getScheduleTimeStatus(schedule);
-        if (timeStatus === 'active') {
-          console.log('[BlockerContext] Schedule starting (was waiting):', scheduleId);
-          newWaitingIds = newWaitingIds.filter(id => id !== scheduleId);
-          newActiveIds.push(scheduleId);
-          hasChanges = true;
-          
-          // Block apps for this schedule
-          if (Platform.OS === 'ios' && schedule.familyActivitySelectionId) {
-            deviceActivityService.blockApps(schedule.familyActivitySelectionId);
+      if (quickSession && quickSessionEnded) {
+        console.log('[BlockerContext] Quick session ended:', quickSession.id);
+        deviceActivityService.stopMonitoringSchedule(quickSession.id);
+      }
+
+      for (const transition of evaluation.transitions) {
+        if (transition.type === 'end') {
+          console.log('[BlockerContext] Schedule ended:', transition.scheduleId);
+          deviceActivityService.stopMonitoringSchedule(transition.scheduleId);
+          strictModeService.release(transition.scheduleId);
+        } else if (transition.type === 'suspend') {
+          console.log('[BlockerContext] Schedule between windows:', transition.scheduleId);
+          strictModeService.release(transition.scheduleId);
+
+          // Re-register so the ended window's events do not count on the next launch
+          const schedule = schedulesRef.current.find(s => s.id === transition.scheduleId);
+          if (schedule) {
+            monitorSchedule(schedule);
           }
-        } else if (timeStatus === 'ended' || timeStatus === 'wrong_day') {
+        } else if (transition.type === 'expire') {
           // Time passed while app was in background
-          console.log('[BlockerContext] Schedule time passed while waiting:', scheduleId);
-          newWaitingIds = newWaitingIds.filter(id => id !== scheduleId);
-          hasChanges = true;
+          console.log('[BlockerContext] Schedule time passed while waiting:', transition.scheduleId);
+          deviceActivityService.stopMonitoringSchedule(transition.scheduleId);
+        } else {
+          console.log('[BlockerContext] Schedule starting (was waiting):', transition.scheduleId);
+
+          // Blocks are applied below together with the other schedules
+          lockIfStrict(schedulesRef.current.find(s => s.id === transition.scheduleId));
         }
       }
 
-      if (hasChanges) {
-        const isBlocking = newActiveIds.length > 0;
-        const finalSavedTime = !isBlocking && state.startedAt
-          ? calculateElapsedTime(state.startedAt, state.accumulatedTime)
-          : state.savedTime;
+      const newActiveIds = evaluation.activeScheduleIds;
+      const newQuickSession = quickSessionEnded ? undefined : quickSession;
+      const isBlocking = newActiveIds.length > 0 || Boolean(newQuickSession);
 
-        // If no more active schedules, reset blocks
-        if (!isBlocking && activeIds.length > 0 && Platform.OS === 'ios') {
-          deviceActivityService.unblockAllApps();
-        }
+      // A quick session that ended on its own is credited up to its end time
+      const endedAt = !isBlocking && quickSession && quickSessionEnded ? quickSession.endsAt : Date.now();
+      const finalSavedTime = !isBlocking && state.startedAt
+        ? calculateElapsedTime(state.startedAt, state.accumulatedTime, endedAt)
+        : state.savedTime;
 
-        const newState: BlockerState = {
-          ...state,
-          isBlocking,
-          activeScheduleIds: newActiveIds,
-          waitingScheduleIds: newWaitingIds,
-          currentScheduleId: newActiveIds[0], // Legacy compatibility
-          startedAt: isBlocking && !state.startedAt ? Date.now() : (isBlocking ? state.startedAt : undefined),
-          accumulatedTime: !isBlocking ? finalSavedTime : state.accumulatedTime,
-          savedTime: !isBlocking ? finalSavedTime : state.savedTime,
-        };
+      // If nothing is blocking anymore, reset blocks
+      if (!isBlocking && state.isBlocking && Platform.OS === 'ios') {
+        deviceActivityService.applyBlocks([]);
+      }
 
-        setState(newState);
-        await storageService.saveBlockerState(newState);
+      const newState: BlockerState = {
+        ...state,
+        isBlocking,
+        quickSession: newQuickSession,
+        activeScheduleIds: newActiveIds,
+        waitingScheduleIds: evaluation.waitingScheduleIds,
+        currentScheduleId: newActiveIds[0], // Legacy compatibility
+        startedAt: isBlocking && !state.startedAt && !state.isPaused
+          ? Date.now()
+          : (isBlocking ? state.startedAt : undefined),
+        accumulatedTime: !isBlocking ? finalSavedTime : state.accumulatedTime,
+        savedTime: !isBlocking ? finalSavedTime : state.savedTime,
+        isAutomatic: state.isBlocking ? state.isAutomatic : true,
+      };
+
+      // Re-apply all rules when something started or stopped (a pause re-applies blocks when it ends);
+      // stopped selections may share apps with others, and allow mode depends on every rule
+      const hasChanged = quickSessionEnded || evaluation.transitions.some((t) => t.type !== 'expire');
+      if (isBlocking && hasChanged && !state.isPaused) {
+        reapplyActiveBlocks(newState);
       }
+
+      await commitState(state, newState, { endReason: 'schedule_ended', at: endedAt });
     };
-  }, [state, isLoading]);
+  }, [state, isLoading, commitState, resumeBlocking, reapplyActiveBlocks]);
 
   // Check schedules every 10 seconds while app is active
   useEffect(() => {
@@ -337,6 +846,17 @@ export function BlockerProvider({ children }: { children: ReactNode }) {
     return () => clearInterval(interval);
   }, [isLoading]);
 
+  // Resume on time while the app is open
+  useEffect(() => {
+    if (!state.isPaused || !state.pauseEndsAt) return;
+
+    const timeout = setTimeout(() => {
+      checkSchedulesRef.current?.();
+    }, Math.max(0, state.pauseEndsAt - Date.now()) + 500);
+
+    return () => clearTimeout(timeout);
+  }, [state.isPaused, state.pauseEndsAt]);
+
   // Also check when app becomes active
   useEffect(() => {
     const handleAppStateChange = (nextAppState: AppStateStatus) => {
@@ -356,27 +876,133 @@ export function BlockerProvider({ children }: { children: ReactNode }) {
   // Data Loading
   // --------------------------------------------------------------------------
 
-  const loadData = async () => {
+  /**
+   * Load saved data and catch up with the monitor extension
+   * State or shields left inconsistent by a crash are repaired, and shield
+   * looks are handed to the shield extension.
+   */
+  const loadData = useCallback(async () => {
     try {
-      const { state: savedState, schedules: savedSchedules } = await storageService.loadAll();
-
-      if (savedState) {
-        if (savedState.isBlocking && !savedState.isPaused && savedState.startedAt) {
-          savedState.savedTime = calculateElapsedTime(
-            savedState.startedAt,
-            savedState.accumulatedTime
-          );
+      const [
+        { state: loadedState, schedules: loadedSchedules },
+        savedSessions,
+        savedBlocklists,
+        savedShieldAppearance,
+        savedUsageLimits,
+        savedOpenLimits,
+        savedLimitEvents,
+      ] = await Promise.all([
+        storageService.loadAll(),
+        storageService.getSessions(),
+        storageService.getBlocklists(),
+        storageService.getShieldAppearance(),
+        storageService.getUsageLimits(),
+        storageService.getOpenLimits(),
+        storageService.getLimitEvents(),
+      ]);
+
+      sessionsRef.current = savedSessions;
+      setSessions(savedSessions);
+      blocklistsRef.current = savedBlocklists;
+      setBlocklists(savedBlocklists);
+      usageLimitsRef.current = savedUsageLimits;
+      setUsageLimits(savedUsageLimits);
+      limitEventsRef.current = savedLimitEvents;
+      setLimitEvents(savedLimitEvents);
+      await deviceActivityService.setUsageLimits(savedUsageLimits);
+      openLimitsRef.current = savedOpenLimits;
+      setOpenLimits(savedOpenLimits);
+      await deviceActivityService.setOpenLimits(getOpenLimitRules(savedOpenLimits, savedBlocklists));
+
+      let savedSchedules = loadedSchedules;
+      const baseState = loadedState ?? createDefaultState();
+      const reconciled = reconcileWithMonitor(baseState, savedSchedules);
+      let savedState = reconciled.state;
+      if (savedState !== baseState) {
+        savedState = await commitState(baseState, savedState, {
+          endReason: 'background_ended',
+          at: reconciled.endedAt,
+        });
+      }
+
+      // Strict locks survive data resets - restore their schedules
+      const strictLocks = strictModeService.getActiveLocks();
+      const restored = restoreStrictLocks(savedState, savedSchedules, strictLocks);
+      if (restored.schedules !== savedSchedules) {
+        savedSchedules = restored.schedules;
+        await storageService.saveSchedules(savedSchedules);
+      }
+
+      deviceActivityService.setShieldAppearances(
+        getShieldAppearances(savedShieldAppearance ?? DEFAULT_SHIELD_APPEARANCE, savedSchedules)
+      );
+      if (restored.state !== savedState) {
+        savedState = await commitState(savedState, restored.state);
+        if (Platform.OS === 'ios' && !savedState.isPaused) {
+          deviceActivityService.applyBlocks(getBlockRules(savedState, savedSchedules));
         }
-        setState(savedState);
       }
 
+      // The app may have been killed between saving state and updating the shields
+      const repaired = repairState(savedState, savedSchedules);
+      if (repaired.state !== savedState) {
+        savedState = await commitState(savedState, repaired.state, { endReason: 'background_ended' });
+      }
+      if (Platform.OS === 'ios') {
+        const rules = savedState.isPaused ? [] : getBlockRules(savedState, savedSchedules);
+        const drift = deviceActivityService.getBlockDrift(rules);
+        if (drift.length > 0) {
+          deviceActivityService.applyBlocks(rules);
+        }
+        if (repaired.fixes.length > 0 || drift.length > 0) {
+          console.log('[BlockerContext] Repaired drift on launch:', [...repaired.fixes, ...drift]);
+        }
+      }
+
+      // Promoted in the background - lock strict schedules for the rest of the window
+      (savedState.activeScheduleIds || []).forEach((id) => {
+        if (!strictLocks.some((lock) => lock.scheduleId === id)) {
+          lockIfStrict(savedSchedules.find((s) => s.id === id));
+        }
+      });
+
+      if (savedState.isBlocking && !savedState.isPaused && savedState.startedAt) {
+        savedState.savedTime = calculateElapsedTime(
+          savedState.startedAt,
+          savedState.accumulatedTime
+        );
+      }
+      setState(savedState);
+
       setSchedules(savedSchedules);
     } catch (error) {
       console.error('[BlockerContext] Error loading data:', error);
     } finally {
       setIsLoading(false);
     }
-  };
+  }, [commitState]);
+
+  // --------------------------------------------------------------------------
+  // Initialization
+  // --------------------------------------------------------------------------
+
+  useEffect(() => {
+    loadData();
+
+    if (Platform.OS === 'ios') {
+      setAuthorizationStatus(deviceActivityService.getAuthorizationStatus());
+    }
+  }, [loadData]);
+
+  useEffect(() => {
+    if (Platform.OS !== 'ios') return;
+
+    const subscription = deviceActivityService.onAuthorizationStatusChange((status) => {
+      setAuthorizationStatus(status);
+    });
+
+    return () => subscription.remove();
+  }, []);
 
   // --------------------------------------------------------------------------
   // Authorization
@@ -406,19 +1032,22 @@ export function BlockerProvider({ children }: { children: ReactNode }) {
   // --------------------------------------------------------------------------
 
   const startSchedule = useCallback(
-    async (scheduleId: string) => {
+    async (scheduleId: string): Promise<StartScheduleResult | null> => {
       const schedule = schedules.find((s) => s.id === scheduleId);
-      if (!schedule || !schedule.familyActivitySelectionId) return;
+      if (!schedule || !schedule.familyActivitySelectionId) return null;
 
       const activeIds = state.activeScheduleIds || [];
       const waitingIds = state.waitingScheduleIds || [];
 
       // Already active or waiting
-      if (activeIds.includes(scheduleId) || waitingIds.includes(scheduleId)) {
-        return;
+      if (activeIds.includes(scheduleId)) {
+        return { status: 'active', nextOccurrence: scheduleEngine.getUpcomingOccurrence(schedule) };
+      }
+      if (waitingIds.includes(scheduleId)) {
+        return { status: 'waiting', nextOccurrence: scheduleEngine.getUpcomingOccurrence(schedule) };
       }
 
-      const timeStatus = getScheduleTimeStatus(schedule);
+      const timeStatus = scheduleEngine.getScheduleTimeStatus(schedule);
       const now = Date.now();
 
       if (timeStatus === 'active') {
@@ -428,24 +1057,27 @@ export function BlockerProvider({ children }: { children: ReactNode }) {
         const newActiveIds = [...activeIds, scheduleId];
         const wasBlocking = state.isBlocking;
 
+        // Starting a schedule ends a running pause
+        const base = endPause(state, now);
+
         const newState: BlockerState = {
-          ...state,
+          ...base,
           isBlocking: true,
-          isPaused: false,
-          startedAt: wasBlocking ? state.startedAt : now,
+          startedAt: wasBlocking ? base.startedAt : now,
           currentScheduleId: newActiveIds[0],
           activeScheduleIds: newActiveIds,
-          accumulatedTime: wasBlocking ? state.accumulatedTime : state.savedTime,
+          accumulatedTime: wasBlocking ? base.accumulatedTime : base.savedTime,
           isAutomatic: false,
         };
 
-        setState(newState);
-        await storageService.saveBlockerState(newState);
+        await commitState(state, newState);
 
-        // Block apps
-        if (Platform.OS === 'ios') {
-          deviceActivityService.blockApps(schedule.familyActivitySelectionId);
-        }
+        // Block apps together with the running schedules
+        reapplyActiveBlocks(newState);
+
+        // Let the monitor extension end the window if the app is closed
+        monitorSchedule(schedule);
+        lockIfStrict(schedule);
       } else if (timeStatus === 'waiting') {
         // Add to waiting list
         console.log('[BlockerContext] Schedule waiting for start time:', scheduleId);
@@ -457,25 +1089,38 @@ export function BlockerProvider({ children }: { children: ReactNode }) {
           waitingScheduleIds: newWaitingIds,
         };
 
-        setState(newState);
-        await storageService.saveBlockerState(newState);
+        await commitState(state, newState);
+
+        // Let the monitor extension start the window if the app is closed
+        monitorSchedule(schedule);
       } else {
         // Time already passed or wrong day
-        console.log('[BlockerContext] Schedule time not applicable:', scheduleId, timeStatus);
+        const nextOccurrence = scheduleEngine.getNextStart(schedule);
+        console.log(
+          '[BlockerContext] Schedule not running now, next start:',
+          scheduleId,
+          timeStatus,
+          nextOccurrence?.start.toISOString() ?? 'never'
+        );
+        return { status: timeStatus, nextOccurrence };
       }
+
+      return { status: timeStatus, nextOccurrence: scheduleEngine.getUpcomingOccurrence(schedule) };
     },
-    [state, schedules]
+    [state, schedules, commitState, reapplyActiveBlocks]
   );
 
   const stopSchedule = useCallback(
     async (scheduleId: string) => {
+      strictModeService.assertAllowed('stop', [scheduleId]);
+
       const activeIds = state.activeScheduleIds || [];
       const waitingIds = state.waitingScheduleIds || [];
 
       const newActiveIds = activeIds.filter(id => id !== scheduleId);
       const newWaitingIds = waitingIds.filter(id => id !== scheduleId);
 
-      const isBlocking = newActiveIds.length > 0;
+      const isBlocking = newActiveIds.length > 0 || Boolean(state.quickSession);
       const wasBlocking = activeIds.includes(scheduleId);
 
       const finalSavedTime = !isBlocking && state.startedAt
@@ -493,26 +1138,26 @@ export function BlockerProvider({ children }: { children: ReactNode }) {
         savedTime: !isBlocking ? finalSavedTime : state.savedTime,
       };
 
-      setState(newState);
-      await storageService.saveBlockerState(newState);
+      await commitState(state, newState, { endReason: 'stopped' });
+
+      deviceActivityService.stopMonitoringSchedule(scheduleId);
+
+      // Keep the pause going for the remaining schedules
+      if (state.isPaused && isBlocking && state.pauseEndsAt) {
+        monitorPause(newState, state.pauseEndsAt);
+      }
 
       // Reset all blocks and re-apply remaining active schedules
-      if (Platform.OS === 'ios' && wasBlocking) {
-        deviceActivityService.unblockAllApps();
-        
-        // Re-block remaining active schedules
-        for (const id of newActiveIds) {
-          const schedule = schedules.find(s => s.id === id);
-          if (schedule?.familyActivitySelectionId) {
-            deviceActivityService.blockApps(schedule.familyActivitySelectionId);
-          }
-        }
+      if (Platform.OS === 'ios' && wasBlocking && !state.isPaused) {
+        reapplyActiveBlocks(newState);
       }
     },
-    [state, schedules]
+    [state, commitState, monitorPause, reapplyActiveBlocks]
   );
 
   const stopAllSchedules = useCallback(async () => {
+    strictModeService.assertAllowed('stop_all');
+
     const finalSavedTime = state.startedAt
       ? calculateElapsedTime(state.startedAt, state.accumulatedTime)
       : state.savedTime;
@@ -520,32 +1165,151 @@ export function BlockerProvider({ children }: { children: ReactNode }) {
     const newState: BlockerState = {
       ...state,
       isBlocking: false,
-      isPaused: false,
       startedAt: undefined,
       currentScheduleId: undefined,
       activeScheduleIds: [],
       waitingScheduleIds: [],
+      quickSession: undefined,
       accumulatedTime: finalSavedTime,
       savedTime: finalSavedTime,
       isAutomatic: false,
     };
 
-    setState(newState);
-    await storageService.saveBlockerState(newState);
+    await commitState(state, newState, { endReason: 'stopped_all' });
+
+    [
+      ...(state.activeScheduleIds || []),
+      ...(state.waitingScheduleIds || []),
+      ...(state.quickSession ? [state.quickSession.id] : []),
+    ].forEach((id) => {
+      deviceActivityService.stopMonitoringSchedule(id);
+    });
 
     if (Platform.OS === 'ios') {
-      deviceActivityService.unblockAllApps();
+      deviceActivityService.applyBlocks([]);
     }
-  }, [state]);
+  }, [state, commitState]);
+
+  // --------------------------------------------------------------------------
+  // Quick Sessions
+  // --------------------------------------------------------------------------
+
+  /**
+   * Block the quick session selection for a set number of minutes, without a schedule
+   */
+  const startQuickSession = useCallback(
+    async (minutes: number): Promise<boolean> => {
+      if (state.quickSession || minutes <= 0) return false;
+
+      const now = Date.now();
+      const quickSession: QuickSession = {
+        id: `quick_${now}`,
+        familyActivitySelectionId: QUICK_SESSION_SELECTION_ID,
+        startedAt: now,
+        endsAt: now + minutes * 60 * 1000,
+      };
+
+      console.log('[BlockerContext] Starting quick session for', minutes, 'minutes');
+
+      const wasBlocking = state.isBlocking;
+
+      // Starting a quick session ends a running pause
+      const base = endPause(state, now);
+
+      const newState: BlockerState = {
+        ...base,
+        isBlocking: true,
+        quickSession,
+        startedAt: wasBlocking ? base.startedAt : now,
+        accumulatedTime: wasBlocking ? base.accumulatedTime : base.savedTime,
+        isAutomatic: wasBlocking ? base.isAutomatic : false,
+      };
+
+      await commitState(state, newState);
+
+      reapplyActiveBlocks(newState);
+
+      // Let the monitor extension end the session if the app is closed
+      deviceActivityService
+        .monitorQuickSession(quickSession.id, quickSession.familyActivitySelectionId, new Date(quickSession.endsAt))
+        .catch((error) => {
+          // The foreground check still ends the session while the app is open
+          console.error('[BlockerContext] Error monitoring quick session:', error);
+        });
+
+      return true;
+    },
+    [state, commitState, reapplyActiveBlocks]
+  );
+
+  const stopQuickSession = useCallback(async () => {
+    const quickSession = state.quickSession;
+    if (!quickSession) return;
+
+    const activeIds = state.activeScheduleIds || [];
+    const isBlocking = activeIds.length > 0;
+
+    const finalSavedTime = !isBlocking && state.startedAt
+      ? calculateElapsedTime(state.startedAt, state.accumulatedTime)
+      : state.savedTime;
+
+    const newState: BlockerState = {
+      ...state,
+      isBlocking,
+      quickSession: undefined,
+      startedAt: isBlocking ? state.startedAt : undefined,
+      accumulatedTime: !isBlocking ? finalSavedTime : state.accumulatedTime,
+      savedTime: !isBlocking ? finalSavedTime : state.savedTime,
+    };
+
+    await commitState(state, newState, { endReason: 'stopped' });
+
+    deviceActivityService.stopMonitoringSchedule(quickSession.id);
+
+    // Keep the pause going for the remaining schedules
+    if (state.isPaused && isBlocking && state.pauseEndsAt) {
+      monitorPause(newState, state.pauseEndsAt);
+    }
+
+    // Reset all blocks and re-apply remaining active schedules
+    if (Platform.OS === 'ios' && !state.isPaused) {
+      reapplyActiveBlocks(newState);
+    }
+  }, [state, commitState, monitorPause, reapplyActiveBlocks]);
+
+  /**
+   * Record the outcome of an unlock challenge on the running session
+   * Call before `stopSchedule` so a completed attempt lands on the session it ends.
+   */
+  const recordUnlockAttempt = useCallback(
+    async (scheduleId: string, challenge: UnlockChallengeType, outcome: UnlockOutcome) => {
+      const sessionId = state.currentSessionId;
+      if (!sessionId) return;
+
+      const newSessions = addUnlockAttempt(sessionsRef.current, sessionId, {
+        at: Date.now(),
+        scheduleId,
+        challenge,
+        outcome,
+      });
+
+      sessionsRef.current = newSessions;
+      setSessions(newSessions);
+      await storageService.saveSessions(newSessions);
+    },
+    [state.currentSessionId]
+  );
 
   // Legacy compatibility
   const startBlocking = useCallback(
     async (scheduleId?: string) => {
       if (scheduleId) {
         await startSchedule(scheduleId);
+      } else {
+        await startQuickSession(DEFAULT_QUICK_SESSION_MINUTES);
       }
     },
-    [startSchedule]
+    [startSchedule, startQuickSession]
   );
 
   const stopBlocking = useCallback(async () => {
@@ -558,10 +1322,14 @@ export function BlockerProvider({ children }: { children: ReactNode }) {
 
   const addSchedule = useCallback(
     async (schedule: BlockerSchedule) => {
+      assertValidSchedule(schedule);
+
       const newSchedules = [...schedules, schedule];
       await storageService.saveSchedules(newSchedules);
       setSchedules(newSchedules);
       setScheduleUpdatedAt(Date.now());
+
+      deviceActivityService.setShieldAppearance(getScheduleShieldId(schedule.id), schedule.shieldAppearance ?? null);
     },
     [schedules]
   );
@@ -571,34 +1339,39 @@ export function BlockerProvider({ children }: { children: ReactNode }) {
       const existingSchedule = schedules.find((s) => s.id === id);
       if (!existingSchedule) return;
 
+      strictModeService.assertAllowed('edit', [id]);
+
       const updatedSchedule = { ...existingSchedule, ...updates };
+      if (isValidationNeeded(existingSchedule, updatedSchedule)) {
+        assertValidSchedule(updatedSchedule);
+      }
       const newSchedules = schedules.map((s) => (s.id === id ? updatedSchedule : s));
 
       await storageService.saveSchedules(newSchedules);
       setSchedules(newSchedules);
       setScheduleUpdatedAt(Date.now());
 
-      // If this schedule is currently active, refresh blocking
+      deviceActivityService.setShieldAppearance(getScheduleShieldId(id), updatedSchedule.shieldAppearance ?? null);
+
+      // Re-register the monitored window with the new times or selection
       const activeIds = state.activeScheduleIds || [];
-      if (activeIds.includes(id) && Platform.OS === 'ios') {
+      if (activeIds.includes(id) || (state.waitingScheduleIds || []).includes(id)) {
+        monitorSchedule(updatedSchedule);
+      }
+
+      // If this schedule is currently active, refresh blocking (a pause re-applies blocks when it ends)
+      if (activeIds.includes(id) && Platform.OS === 'ios' && !state.isPaused) {
         console.log('[BlockerContext] Refreshing blocks for active schedule:', id);
-        
-        // Reset and re-apply all blocks
-        deviceActivityService.unblockAllApps();
-        
-        for (const activeId of activeIds) {
-          const schedule = activeId === id ? updatedSchedule : schedules.find(s => s.id === activeId);
-          if (schedule?.familyActivitySelectionId) {
-            deviceActivityService.blockApps(schedule.familyActivitySelectionId);
-          }
-        }
+        deviceActivityService.applyBlocks(getBlockRules(state, newSchedules));
       }
     },
-    [schedules, state.activeScheduleIds]
+    [schedules, state]
   );
 
   const deleteSchedule = useCallback(
     async (id: string) => {
+      strictModeService.assertAllowed('delete', [id]);
+
       const activeIds = state.activeScheduleIds || [];
       const waitingIds = state.waitingScheduleIds || [];
 
@@ -611,10 +1384,299 @@ export function BlockerProvider({ children }: { children: ReactNode }) {
       await storageService.saveSchedules(newSchedules);
       setSchedules(newSchedules);
       setScheduleUpdatedAt(Date.now());
+
+      deviceActivityService.setShieldAppearance(getScheduleShieldId(id), null);
     },
     [schedules, state.activeScheduleIds, state.waitingScheduleIds, stopSchedule]
   );
 
+  // --------------------------------------------------------------------------
+  // Blocklists
+  // --------------------------------------------------------------------------
+
+  const addBlocklist = useCallback(
+    async (blocklist: Blocklist) => {
+      const newBlocklists = [...blocklists, blocklist];
+      await storageService.saveBlocklists(newBlocklists);
+      blocklistsRef.current = newBlocklists;
+      setBlocklists(newBlocklists);
+    },
+    [blocklists]
+  );
+
+  const updateBlocklist = useCallback(
+    async (id: string, updates: Partial<Pick<Blocklist, 'name'>> = {}) => {
+      const newBlocklists = blocklists.map((b) => (b.id === id ? { ...b, ...updates } : b));
+      await storageService.saveBlocklists(newBlocklists);
+      blocklistsRef.current = newBlocklists;
+      setBlocklists(newBlocklists);
+      setScheduleUpdatedAt(Date.now());
+
+      // Shields hold the apps picked when they were applied - re-apply them with the new apps
+      const activeIds = state.activeScheduleIds || [];
+      const isInUse = schedules.some((s) => s.blocklistId === id && activeIds.includes(s.id));
+      const isLimited = openLimits.some((l) => l.blocklistId === id && l.isActive);
+      if ((isInUse && !state.isPaused) || isLimited) {
+        console.log('[BlockerContext] Refreshing blocks for blocklist:', id);
+        refreshLimitBlocks(state);
+      }
+    },
+    [blocklists, schedules, openLimits, state, refreshLimitBlocks]
+  );
+
+  const deleteBlocklist = useCallback(
+    async (id: string): Promise<boolean> => {
+      if (schedules.some((s) => s.blocklistId === id) || openLimits.some((l) => l.blocklistId === id)) {
+        return false;
+      }
+
+      const newBlocklists = blocklists.filter((b) => b.id !== id);
+      await storageService.saveBlocklists(newBlocklists);
+      blocklistsRef.current = newBlocklists;
+      setBlocklists(newBlocklists);
+      return true;
+    },
+    [blocklists, schedules, openLimits]
+  );
+
+  // --------------------------------------------------------------------------
+  // Usage Limits
+  // --------------------------------------------------------------------------
+
+  /**
+   * Persist limits and hand them to the monitor extension
+   */
+  const commitUsageLimits = useCallback(async (newLimits: UsageLimit[]) => {
+    await storageService.saveUsageLimits(newLimits);
+    usageLimitsRef.current = newLimits;
+    setUsageLimits(newLimits);
+    await deviceActivityService.setUsageLimits(newLimits);
+  }, []);
+
+  /**
+   * Add reached limits to history, once per limit and day
+   */
+  const recordLimitEvents = useCallback(
+    async (reached: { limitId: string; type: LimitEventType; at: number }[]) => {
+      const events = limitEventsRef.current;
+      const newEvents: LimitEvent[] = [];
+
+      for (const { limitId, type, at } of reached) {
+        const day = getDayKey(new Date(at));
+        if (events.some((e) => e.limitId === limitId && e.day === day)) continue;
+
+        newEvents.push({ id: `limit_event_${limitId}_${at}`, limitId, type, day, at });
+      }
+
+      if (newEvents.length === 0) return;
+
+      console.log('[BlockerContext] Limits reached:', newEvents.map((e) => e.limitId));
+      const newLimitEvents = [...events, ...newEvents].sort((a, b) => a.at - b.at);
+      limitEventsRef.current = newLimitEvents;
+      setLimitEvents(newLimitEvents);
+      await storageService.saveLimitEvents(newLimitEvents);
+      // Windows ending later today must keep the reached limits' apps shielded
+      deviceActivityService.refreshReleaseActions();
+    },
+    []
+  );
+
+  /**
+   * Record usage limits whose minutes ran out since the last check
+   */
+  const recordReachedLimits = useCallback(async () => {
+    if (Platform.OS !== 'ios') return;
+
+    const reached = usageLimitsRef.current.flatMap((limit) => {
+      const at = deviceActivityService.getUsageLimitExceededAt(limit);
+      return at && at >= limit.createdAt ? [{ limitId: limit.id, type: 'budget_exceeded' as const, at }] : [];
+    });
+
+    await recordLimitEvents(reached);
+  }, [recordLimitEvents]);
+
+  // Check for reached limits every minute while app is active
+  useEffect(() => {
+    if (isLoading) return;
+
+    recordReachedLimits();
+    const interval = setInterval(recordReachedLimits, 60000);
+
+    return () => clearInterval(interval);
+  }, [isLoading, recordReachedLimits]);
+
+  const addUsageLimit = useCallback(
+    async (limit: UsageLimit) => {
+      await commitUsageLimits([...usageLimits, limit]);
+    },
+    [usageLimits, commitUsageLimits]
+  );
+
+  const updateUsageLimit = useCallback(
+    async (id: string, updates: Partial<Pick<UsageLimit, 'name' | 'dailyMinutes' | 'isActive'>> = {}) => {
+      const newLimits = usageLimits.map((l) => (l.id === id ? { ...l, ...updates } : l));
+      await commitUsageLimits(newLimits);
+      setScheduleUpdatedAt(Date.now());
+
+      // A rename changes nothing the extension tracks
+      if (Object.keys(updates).every((key) => key === 'name') && updates.name !== undefined) return;
+
+      const limit = newLimits.find((l) => l.id === id);
+      if (limit?.isActive) {
+        try {
+          await deviceActivityService.monitorUsageLimit(limit);
+        } catch (error) {
+          console.error('[BlockerContext] Error monitoring usage limit:', id, error);
+        }
+      }
+      refreshLimitBlocks(state);
+    },
+    [usageLimits, state, commitUsageLimits, refreshLimitBlocks]
+  );
+
+  const deleteUsageLimit = useCallback(
+    async (id: string) => {
+      await commitUsageLimits(usageLimits.filter((l) => l.id !== id));
+      refreshLimitBlocks(state);
+    },
+    [usageLimits, state, commitUsageLimits, refreshLimitBlocks]
+  );
+
+  // --------------------------------------------------------------------------
+  // Open Limits
+  // --------------------------------------------------------------------------
+
+  /**
+   * Persist open limits and hand their rules to the device activity service
+   */
+  const commitOpenLimits = useCallback(async (newLimits: OpenLimit[]) => {
+    await storageService.saveOpenLimits(newLimits);
+    openLimitsRef.current = newLimits;
+    setOpenLimits(newLimits);
+    await deviceActivityService.setOpenLimits(getOpenLimitRules(newLimits, blocklistsRef.current));
+  }, []);
+
+  /**
+   * Take over opens the shield counted since the last check
+   */
+  const recordCountedOpens = useCallback(async () => {
+    if (Platform.OS !== 'ios') return;
+
+    const now = Date.now();
+    const limits = openLimitsRef.current;
+    const countedLimits = limits.map((limit) =>
+      withCountedOpens(limit, deviceActivityService.getCountedOpens(limit.id, limit.maxOpens), now)
+    );
+    const newlyReached = countedLimits.filter(
+      (limit, index) => limit !== limits[index] && limit.isActive && getOpensLeft(limit, now) === 0
+    );
+    if (countedLimits.every((limit, index) => limit === limits[index])) return;
+
+    console.log('[BlockerContext] Took over opens counted by the shield');
+    await commitOpenLimits(countedLimits);
+    await recordLimitEvents(
+      newlyReached.map((limit) => ({ limitId: limit.id, type: 'open_limit_reached' as const, at: now }))
+    );
+  }, [commitOpenLimits, recordLimitEvents]);
+
+  // Check for opens counted by the shield every minute while app is active
+  useEffect(() => {
+    if (isLoading) return;
+
+    recordCountedOpens();
+    const interval = setInterval(recordCountedOpens, 60000);
+
+    return () => clearInterval(interval);
+  }, [isLoading, recordCountedOpens]);
+
+  // Shield again when an open ends and start counting again at midnight, while app is active
+  useEffect(() => {
+    if (isLoading) return;
+
+    const now = new Date();
+    const nextMidnight = new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1).getTime();
+    const openEnds = openLimits
+      .map((l) => l.usage?.openUntil ?? 0)
+      .filter((openUntil) => openUntil > now.getTime());
+    const wakeAt = Math.min(nextMidnight, ...openEnds);
+
+    const timeout = setTimeout(async () => {
+      const resetLimits = openLimitsRef.current.map((l) => resetOpenUsage(l));
+      if (resetLimits.some((l, index) => l !== openLimitsRef.current[index])) {
+        console.log('[BlockerContext] Reset open counts for the new day');
+        await commitOpenLimits(resetLimits);
+      }
+
+      refreshLimitBlocks(state);
+      setScheduleUpdatedAt(Date.now());
+    }, wakeAt - now.getTime() + 500);
+
+    return () => clearTimeout(timeout);
+  }, [isLoading, openLimits, state, commitOpenLimits, refreshLimitBlocks]);
+
+  const addOpenLimit = useCallback(
+    async (limit: OpenLimit) => {
+      await commitOpenLimits([...openLimits, limit]);
+      refreshLimitBlocks(state);
+    },
+    [openLimits, state, commitOpenLimits, refreshLimitBlocks]
+  );
+
+  const updateOpenLimit = useCallback(
+    async (id: string, updates: Partial<Pick<OpenLimit, 'maxOpens' | 'isActive'>>) => {
+      await commitOpenLimits(openLimits.map((l) => (l.id === id ? { ...l, ...updates } : l)));
+      refreshLimitBlocks(state);
+    },
+    [openLimits, state, commitOpenLimits, refreshLimitBlocks]
+  );
+
+  const deleteOpenLimit = useCallback(
+    async (id: string) => {
+      await commitOpenLimits(openLimits.filter((l) => l.id !== id));
+      refreshLimitBlocks(state);
+    },
+    [openLimits, state, commitOpenLimits, refreshLimitBlocks]
+  );
+
+  const openLimitedApps = useCallback(
+    async (id: string): Promise<OpenLimitResult> => {
+      const saved = openLimits.find((l) => l.id === id);
+      if (!saved?.isActive) return 'inactive';
+
+      // Opens from the shield count as well
+      const now = Date.now();
+      const limit = withCountedOpens(saved, deviceActivityService.getCountedOpens(id, saved.maxOpens), now);
+      if (isOpenNow(limit, now)) return 'already_open';
+      if (getOpensLeft(limit, now) === 0) return 'no_opens_left';
+
+      // An open cannot lift a running schedule's shield over the same apps
+      const activeIds = state.activeScheduleIds || [];
+      const isBlockedBySchedule = schedules.some(
+        (s) => s.blocklistId === limit.blocklistId && activeIds.includes(s.id) && !state.isPaused
+      );
+      if (isBlockedBySchedule) return 'blocked_by_schedule';
+
+      const openedLimit = addOpen(limit, now);
+      await commitOpenLimits(openLimits.map((l) => (l.id === id ? openedLimit : l)));
+      refreshLimitBlocks(state);
+
+      const [rule] = getOpenLimitRules([openedLimit], blocklistsRef.current);
+      if (rule) {
+        deviceActivityService.monitorOpen(rule).catch((error) => {
+          // The foreground timer still shields the apps again while the app is open
+          console.error('[BlockerContext] Error monitoring open end:', id, error);
+        });
+      }
+
+      console.log('[BlockerContext] Opened limited apps:', id, openedLimit.usage);
+      if (getOpensLeft(openedLimit, now) === 0) {
+        await recordLimitEvents([{ limitId: id, type: 'open_limit_reached', at: now }]);
+      }
+      return 'opened';
+    },
+    [openLimits, schedules, state, commitOpenLimits, refreshLimitBlocks, recordLimitEvents]
+  );
+
   // --------------------------------------------------------------------------
   // Render
   // --------------------------------------------------------------------------
@@ -624,6 +1686,11 @@ export function BlockerProvider({ children }: { children: ReactNode }) {
       value={{
         state,
         schedules,
+        sessions,
+        blocklists,
+        usageLimits,
+        openLimits,
+        limitEvents,
         isLoading,
         authorizationStatus,
         scheduleUpdatedAt,
@@ -636,6 +1703,21 @@ export function BlockerProvider({ children }: { children: ReactNode }) {
         deleteSchedule,
         isScheduleActive,
         isScheduleWaiting,
+        pauseBlocking,
+        resumeBlocking,
+        recordUnlockAttempt,
+        startQuickSession,
+        stopQuickSession,
+        addBlocklist,
+        updateBlocklist,
+        deleteBlocklist,
+        addUsageLimit,
+        updateUsageLimit,
+        deleteUsageLimit,
+        addOpenLimit,
+        updateOpenLimit,
+        deleteOpenLimit,
+        openLimitedApps,
         // Legacy compatibility
         startBlocking,
         stopBlocking,
@@ -0,0 +1,76 @@
+import { act, renderHook } from '@testing-library/react-native';
+
+import { usePremium } from '@/hooks/use-premium';
+import { simulator } from '@/modules/simulator';
+import adaptyService from '@/services/adapty-service';
+
+/** Run the hook's delayed status checks to the end */
+async function settle() {
+  await act(() => jest.runAllTimersAsync());
+}
+
+describe('usePremium', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('reports no premium for a free profile', async () => {
+    const { result } = renderHook(() => usePremium());
+    expect(result.current.isLoading).toBe(true);
+
+    await settle();
+
+    expect(result.current.isLoading).toBe(false);
+    expect(result.current.hasPremium).toBe(false);
+  });
+
+  it('reports premium that was granted before the check', async () => {
+    simulator.adapty.setPremium(true);
+    const { result } = renderHook(() => usePremium());
+
+    await settle();
+
+    expect(result.current.hasPremium).toBe(true);
+  });
+
+  it('follows premium granted and taken away by the SDK', async () => {
+    const { result } = renderHook(() => usePremium());
+    await settle();
+
+    act(() => simulator.adapty.setPremium(true));
+    await settle();
+    expect(result.current.hasPremium).toBe(true);
+
+    act(() => simulator.adapty.setPremium(false));
+    await settle();
+    expect(result.current.hasPremium).toBe(false);
+  });
+
+  it('turns premium on after a purchase and logs it', async () => {
+    const { result } = renderHook(() => usePremium());
+    await settle();
+
+    await act(() => adaptyService.makePurchase({ vendorProductId: 'premium.monthly' }));
+    await settle();
+
+    expect(result.current.hasPremium).toBe(true);
+    expect(simulator.getCalls('Firebase', 'logEvent').map((call) => call.args[0])).toEqual(['purchase_completed']);
+    expect(simulator.getCalls('AppsFlyer', 'logEvent').map((call) => call.args[0])).toEqual(['af_purchase']);
+  });
+
+  it('stays free when the purchase is cancelled', async () => {
+    simulator.adapty.setPurchaseOutcome('user_cancelled');
+    const { result } = renderHook(() => usePremium());
+    await settle();
+
+    await act(() => adaptyService.makePurchase({ vendorProductId: 'premium.monthly' }));
+    await settle();
+
+    expect(result.current.hasPremium).toBe(false);
+    expect(simulator.getCalls('Firebase', 'logEvent')).toHaveLength(0);
+  });
+});
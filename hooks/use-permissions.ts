@@ -11,6 +11,8 @@ import { useState, useEffect } from 'react';
 import { Platform, Alert } from 'react-native';
 import * as DeviceActivity from 'react-native-device-activity';
 
+import DeviceActivityModule from '@/modules/device-activity/DeviceActivityModule';
+
 /** Possible states for a permission */
 type PermissionState = 'granted' | 'denied' | 'not-determined' | 'checking';
 
@@ -57,8 +59,8 @@ export function usePermissions() {
     try {
       setPermissions((prev) => ({ ...prev, screenTime: 'checking' }));
       
-      if (Platform.OS === 'ios' && DeviceActivity.isAvailable()) {
-        const status = DeviceActivity.getAuthorizationStatus();
+      if (Platform.OS === 'ios' && DeviceActivityModule.isAvailable()) {
+        const status = DeviceActivityModule.getAuthorizationStatus();
         
         let screenTimeStatus: 'granted' | 'denied' | 'not-determined';
         if (status === DeviceActivity.AuthorizationStatus.approved) {
@@ -120,11 +122,11 @@ export function usePermissions() {
     try {
       setPermissions((prev) => ({ ...prev, screenTime: 'checking' }));
       
-      if (Platform.OS === 'ios' && DeviceActivity.isAvailable()) {
-        await DeviceActivity.requestAuthorization('individual');
+      if (Platform.OS === 'ios' && DeviceActivityModule.isAvailable()) {
+        await DeviceActivityModule.requestAuthorization('individual');
         
         // Poll for status since it might not update immediately
-        const status = await DeviceActivity.pollAuthorizationStatus({
+        const status = await DeviceActivityModule.pollAuthorizationStatus({
           pollIntervalMs: 500,
           maxAttempts: 10,
         });
@@ -0,0 +1,65 @@
+/**
+ * Schedule Templates Hook
+ *
+ * Built-in presets plus the user's own templates saved in StorageService.
+ *
+ * @module hooks/use-schedule-templates
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+
+import { SCHEDULE_PRESETS } from '@/constants/schedule-presets';
+import { storageService } from '@/services/storage.service';
+import { BlockerSchedule, ScheduleTemplate } from '@/types/blocker';
+import { getScheduleWindows } from '@/utils/scheduleWindows';
+
+/**
+ * Hook to list, save and delete schedule templates
+ *
+ * @returns Presets, personal templates and update functions
+ */
+export function useScheduleTemplates() {
+  const [templates, setTemplates] = useState<ScheduleTemplate[]>([]);
+
+  useEffect(() => {
+    storageService.getTemplates().then(setTemplates);
+  }, []);
+
+  /**
+   * Save a schedule's times, days and settings as a personal template
+   */
+  const saveAsTemplate = useCallback(
+    async (schedule: BlockerSchedule, name: string) => {
+      const template: ScheduleTemplate = {
+        id: `template_${Date.now()}`,
+        name,
+        windows: getScheduleWindows(schedule),
+        strict: schedule.strict,
+        unlockChallenge: schedule.unlockChallenge,
+      };
+      const newTemplates = [...templates, template];
+
+      await storageService.saveTemplates(newTemplates);
+      setTemplates(newTemplates);
+      return template;
+    },
+    [templates]
+  );
+
+  const deleteTemplate = useCallback(
+    async (templateId: string) => {
+      const newTemplates = templates.filter((t) => t.id !== templateId);
+
+      await storageService.saveTemplates(newTemplates);
+      setTemplates(newTemplates);
+    },
+    [templates]
+  );
+
+  return {
+    presets: SCHEDULE_PRESETS,
+    templates,
+    saveAsTemplate,
+    deleteTemplate,
+  };
+}
@@ -19,13 +19,35 @@ export interface AppSettings {
   notificationsEnabled: boolean;
   /** Whether to auto-start blocking on schedule */
   autoStartEnabled: boolean;
+  /** Daily focus goal in minutes of blocking */
+  dailyGoalMinutes: number;
+  /** Minutes of pauses allowed per day while blocking */
+  dailyPauseBudgetMinutes: number;
 }
 
+/** Daily goal choices offered in Settings (minutes) */
+export const DAILY_GOAL_OPTIONS = [15, 30, 60, 90, 120, 180] as const;
+
+/** Daily pause budget choices offered in Settings (minutes) */
+export const PAUSE_BUDGET_OPTIONS = [0, 5, 10, 15, 30, 60] as const;
+
 const defaultSettings: AppSettings = {
   notificationsEnabled: false,
   autoStartEnabled: false,
+  dailyGoalMinutes: 60,
+  dailyPauseBudgetMinutes: 15,
 };
 
+/**
+ * Read persisted settings outside of React components
+ *
+ * @returns Saved settings merged over defaults
+ */
+export async function getSettings(): Promise<AppSettings> {
+  const saved = await AsyncStorage.getItem(SETTINGS_KEY);
+  return saved ? { ...defaultSettings, ...JSON.parse(saved) } : defaultSettings;
+}
+
 /**
  * Hook to manage and persist app settings
  *
@@ -35,23 +57,19 @@ export function useSettings() {
   const [settings, setSettings] = useState<AppSettings>(defaultSettings);
   const [isLoading, setIsLoading] = useState(true);
 
-  useEffect(() => {
-    loadSettings();
-  }, []);
-
-  const loadSettings = async () => {
+  const loadSettings = useCallback(async () => {
     try {
-      const saved = await AsyncStorage.getItem(SETTINGS_KEY);
-      if (saved) {
-        const parsed = JSON.parse(saved);
-        setSettings({ ...defaultSettings, ...parsed });
-      }
+      setSettings(await getSettings());
     } catch (error) {
       console.error('Error loading settings:', error);
     } finally {
       setIsLoading(false);
     }
-  };
+  }, []);
+
+  useEffect(() => {
+    loadSettings();
+  }, [loadSettings]);
 
   const saveSettings = async (newSettings: AppSettings) => {
     try {
@@ -75,6 +93,7 @@ export function useSettings() {
     isLoading,
     updateSetting,
     saveSettings,
+    reload: loadSettings,
   };
 }
 
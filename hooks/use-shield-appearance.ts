@@ -0,0 +1,44 @@
+/**
+ * Shield Appearance Hook
+ *
+ * Global look of the screen shown over blocked apps,
+ * saved in StorageService and written for the shield extension.
+ *
+ * @module hooks/use-shield-appearance
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+
+import { DEFAULT_SHIELD_APPEARANCE } from '@/constants/shield-appearance';
+import { DEFAULT_SHIELD_ID, deviceActivityService } from '@/services/device-activity.service';
+import { storageService } from '@/services/storage.service';
+import { ShieldAppearance } from '@/types/blocker';
+
+/**
+ * Hook to read and save the global shield look
+ *
+ * @returns Current look and a save function
+ */
+export function useShieldAppearance() {
+  const [appearance, setAppearance] = useState<ShieldAppearance>(DEFAULT_SHIELD_APPEARANCE);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    storageService
+      .getShieldAppearance()
+      .then((saved) => setAppearance(saved ?? DEFAULT_SHIELD_APPEARANCE))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const saveAppearance = useCallback(async (newAppearance: ShieldAppearance) => {
+    await storageService.saveShieldAppearance(newAppearance);
+    deviceActivityService.setShieldAppearance(DEFAULT_SHIELD_ID, newAppearance);
+    setAppearance(newAppearance);
+  }, []);
+
+  return {
+    appearance,
+    isLoading,
+    saveAppearance,
+  };
+}
@@ -0,0 +1,8 @@
+// Schedules use local wall-clock time; pin the zone so DST tests are deterministic.
+// Set before Jest starts its workers so they inherit it.
+process.env.TZ = 'America/New_York';
+
+module.exports = {
+  preset: 'jest-expo',
+  setupFilesAfterEnv: ['<rootDir>/jest.setup.ts'],
+};
@@ -0,0 +1,57 @@
+/**
+ * Jest Setup
+ *
+ * Swaps every native module for its in-memory fake from
+ * `@/modules/simulator`, so providers, hooks and services run on Linux CI
+ * without a device. Fakes and storage start over before each test.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { simulator } from '@/modules/simulator';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  jest.requireActual('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+// The library itself is faked, so code calling it directly is covered too.
+// The fake imports the library's constants, so it is looked up on each access:
+// while the simulator is still loading, the real constants are returned.
+jest.mock('react-native-device-activity', () => {
+  const actual = jest.requireActual('react-native-device-activity');
+
+  return new Proxy(actual, {
+    get(target, name) {
+      const fake = jest.requireActual('@/modules/simulator/src/FakeDeviceActivity').FakeDeviceActivityModule;
+      return fake && name in fake ? fake[name] : target[name];
+    },
+  });
+});
+jest.mock('@/modules/web-domains', () => ({
+  __esModule: true,
+  default: jest.requireActual('@/modules/simulator').FakeWebDomainsModule,
+}));
+jest.mock('@/modules/adapty/AdaptyModule', () => ({
+  __esModule: true,
+  default: jest.requireActual('@/modules/simulator').FakeAdaptyModule,
+}));
+jest.mock('@/modules/firebase/FirebaseModule', () => ({
+  __esModule: true,
+  default: jest.requireActual('@/modules/simulator').FakeFirebaseModule,
+}));
+jest.mock('@/modules/appsflyer/AppsFlyerModule', () => ({
+  __esModule: true,
+  default: jest.requireActual('@/modules/simulator').FakeAppsFlyerModule,
+}));
+jest.mock('grayscale-module', () => ({
+  __esModule: true,
+  default: jest.requireActual('@/modules/simulator').FakeGrayscaleModule,
+}));
+
+// Services log every native call; keep test output readable
+jest.spyOn(console, 'log').mockImplementation(() => {});
+
+beforeEach(async () => {
+  simulator.reset();
+  await AsyncStorage.clear();
+});
@@ -2,14 +2,16 @@
  * AppsFlyer Native Module
  *
  * Wrapper for native AppsFlyer SDK.
- * Provides silent fallback for development.
+ * Provides silent fallback for development and an in-memory fake in simulator mode.
  *
  * @module modules/appsflyer
  */
 
 import { NativeModules, Platform } from 'react-native';
 
-interface AppsFlyerModuleInterface {
+import { FakeAppsFlyerModule, isSimulatorMode } from '@/modules/simulator';
+
+export interface AppsFlyerModuleInterface {
   initSdk(devKey: string, appId: string, options?: any): Promise<void>;
   logEvent(eventName: string, eventValues?: Record<string, any>): Promise<void>;
   setUserId(userId: string): Promise<void>;
@@ -175,9 +177,11 @@ const fallbackAppsFlyerModule: AppsFlyerModuleInterface = {
   },
 };
 
-const AppsFlyerModule = (Platform.OS === 'ios' && NativeAppsFlyerModule)
-  ? (NativeAppsFlyerModule as AppsFlyerModuleInterface)
-  : fallbackAppsFlyerModule;
+const AppsFlyerModule = isSimulatorMode
+  ? FakeAppsFlyerModule
+  : (Platform.OS === 'ios' && NativeAppsFlyerModule)
+    ? (NativeAppsFlyerModule as AppsFlyerModuleInterface)
+    : fallbackAppsFlyerModule;
 
 export default AppsFlyerModule;
 
@@ -0,0 +1,51 @@
+/**
+ * Device Activity Module
+ *
+ * The functions of react-native-device-activity the app calls.
+ * Uses the in-memory fake in simulator mode.
+ * Types and constants are imported from the library directly.
+ *
+ * @module modules/device-activity
+ */
+
+import * as DeviceActivity from 'react-native-device-activity';
+
+import { FakeDeviceActivityModule, isSimulatorMode } from '@/modules/simulator';
+
+export type DeviceActivityModuleInterface = Pick<
+  typeof DeviceActivity,
+  | 'isAvailable'
+  | 'getAuthorizationStatus'
+  | 'requestAuthorization'
+  | 'pollAuthorizationStatus'
+  | 'onAuthorizationStatusChange'
+  | 'blockSelection'
+  | 'unblockSelection'
+  | 'resetBlocks'
+  | 'enableBlockAllMode'
+  | 'disableBlockAllMode'
+  | 'clearWhitelist'
+  | 'addSelectionToWhitelistAndUpdateBlock'
+  | 'isShieldActive'
+  | 'activitySelectionMetadata'
+  | 'intersection'
+  | 'difference'
+  | 'isSubsetOf'
+  | 'getFamilyActivitySelectionId'
+  | 'startMonitoring'
+  | 'stopMonitoring'
+  | 'getActivities'
+  | 'configureActions'
+  | 'cleanUpAfterActivity'
+  | 'updateShield'
+  | 'updateShieldWithId'
+  | 'userDefaultsGet'
+  | 'userDefaultsSet'
+  | 'userDefaultsAll'
+>;
+
+const DeviceActivityModule: DeviceActivityModuleInterface = isSimulatorMode
+  ? FakeDeviceActivityModule
+  : DeviceActivity;
+
+export default DeviceActivityModule;
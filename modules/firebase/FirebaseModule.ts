@@ -3,6 +3,7 @@
  *
  * Wrapper for Firebase Analytics SDK.
  * Checks initialization before calling methods.
+ * Uses an in-memory fake in simulator mode.
  *
  * @module modules/firebase
  */
@@ -10,7 +11,9 @@
 import analytics from '@react-native-firebase/analytics';
 import app from '@react-native-firebase/app';
 
-interface FirebaseModuleInterface {
+import { FakeFirebaseModule, isSimulatorMode } from '@/modules/simulator';
+
+export interface FirebaseModuleInterface {
   logEvent(name: string, params?: Record<string, any>): Promise<void>;
   setUserId(userId: string): Promise<void>;
   setUserProperty(name: string, value: string): Promise<void>;
@@ -114,5 +117,7 @@ class FirebaseModule implements FirebaseModuleInterface {
   }
 }
 
-export default new FirebaseModule();
+const firebaseModule: FirebaseModuleInterface = isSimulatorMode ? FakeFirebaseModule : new FirebaseModule();
+
+export default firebaseModule;
 
@@ -1 +1,2 @@
 export { default } from './src/GrayscaleModule';
+export type { GrayscaleModuleInterface } from './src/GrayscaleModule';
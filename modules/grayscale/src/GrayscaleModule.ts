@@ -1,6 +1,6 @@
 import { NativeModules, Platform } from 'react-native';
 
-interface GrayscaleModuleInterface {
+export interface GrayscaleModuleInterface {
   enableGrayscale(): Promise<boolean>;
   disableGrayscale(): Promise<boolean>;
   isGrayscaleEnabled(): Promise<boolean>;
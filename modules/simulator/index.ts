@@ -0,0 +1,62 @@
+/**
+ * Simulator
+ *
+ * In-memory fakes of the native modules (DeviceActivity, WebDomains, Adapty,
+ * Firebase, AppsFlyer, Grayscale) so the app runs and can be tested without
+ * a device. In development builds with `EXPO_PUBLIC_SIMULATOR_MODE=true`,
+ * each app module wrapper picks its fake.
+ *
+ * In Jest, jest.setup.ts mocks every wrapper with its fake and resets the
+ * fakes before each test. Use `simulator` to change what the fakes report
+ * and to read the calls they recorded.
+ *
+ * @module modules/simulator
+ */
+
+import { clearCalls, getCalls } from './src/CallLog';
+import { fakeAdapty } from './src/FakeAdapty';
+import { fakeDeviceActivity } from './src/FakeDeviceActivity';
+import { fakeFirebase } from './src/FakeFirebase';
+import { fakeGrayscale } from './src/FakeGrayscale';
+import { fakeWebDomains } from './src/FakeWebDomains';
+
+export { isSimulatorMode } from './src/SimulatorMode';
+export type { SimulatorCall, SimulatorModuleName } from './src/CallLog';
+export type { FakePurchaseOutcome } from './src/FakeAdapty';
+export { FakeAdaptyModule } from './src/FakeAdapty';
+export { FakeAppsFlyerModule } from './src/FakeAppsFlyer';
+export { FakeDeviceActivityModule } from './src/FakeDeviceActivity';
+export { FakeFirebaseModule } from './src/FakeFirebase';
+export { FakeGrayscaleModule } from './src/FakeGrayscale';
+export { FakeWebDomainsModule } from './src/FakeWebDomains';
+
+/**
+ * Controls of the fake native modules
+ *
+ * @example
+ * ```ts
+ * simulator.deviceActivity.setAuthorizationStatus(AuthorizationStatus.approved);
+ * simulator.deviceActivity.setSelection('work-apps', ['mail', 'slack']);
+ * simulator.adapty.setPremium(true);
+ * expect(simulator.getCalls('Firebase', 'logEvent')).toHaveLength(1);
+ * ```
+ */
+export const simulator = {
+  deviceActivity: fakeDeviceActivity,
+  adapty: fakeAdapty,
+  firebase: fakeFirebase,
+  getCalls,
+  clearCalls,
+
+  /**
+   * Put every fake back in its initial state and forget recorded calls
+   */
+  reset(): void {
+    fakeDeviceActivity.reset();
+    fakeWebDomains.reset();
+    fakeAdapty.reset();
+    fakeFirebase.reset();
+    fakeGrayscale.reset();
+    clearCalls();
+  },
+};
@@ -0,0 +1,52 @@
+/**
+ * Simulator Call Log
+ *
+ * Record of the calls made to fake native modules, in call order, so tests
+ * and the simulator can check what the app asked the SDKs to do. Reads that
+ * change nothing (status, metadata, defaults) are not recorded.
+ *
+ * @module modules/simulator/call-log
+ */
+
+/** Fake native modules that record their calls */
+export type SimulatorModuleName =
+  | 'DeviceActivity'
+  | 'WebDomains'
+  | 'Adapty'
+  | 'Firebase'
+  | 'AppsFlyer'
+  | 'Grayscale';
+
+/**
+ * One call made to a fake native module
+ */
+export interface SimulatorCall {
+  module: SimulatorModuleName;
+  method: string;
+  args: unknown[];
+  /** Timestamp of the call */
+  at: number;
+}
+
+const calls: SimulatorCall[] = [];
+
+/**
+ * Record a call to a fake native module
+ */
+export function recordCall(module: SimulatorModuleName, method: string, args: unknown[]): void {
+  calls.push({ module, method, args, at: Date.now() });
+}
+
+/**
+ * Calls recorded so far, optionally only those of one module or method
+ */
+export function getCalls(module?: SimulatorModuleName, method?: string): SimulatorCall[] {
+  return calls.filter((call) => (!module || call.module === module) && (!method || call.method === method));
+}
+
+/**
+ * Forget every recorded call
+ */
+export function clearCalls(): void {
+  calls.length = 0;
+}
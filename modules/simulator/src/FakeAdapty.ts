@@ -0,0 +1,163 @@
+/**
+ * Fake Adapty Module
+ *
+ * In-memory stand-in for the Adapty SDK. The profile starts without premium;
+ * purchases grant it unless another outcome is set, and profile changes are
+ * sent to `onLatestProfileLoad` listeners like the SDK does.
+ * Paywalls and onboardings have no products or view configuration.
+ *
+ * @module modules/simulator/fake-adapty
+ */
+
+import type {
+  AdaptyOnboarding,
+  AdaptyPaywall,
+  AdaptyPaywallProduct,
+  AdaptyPlacement,
+  AdaptyProfile,
+} from 'react-native-adapty';
+
+import type { AdaptyModuleInterface } from '@/modules/adapty/AdaptyModule';
+import { recordCall } from './CallLog';
+
+/** Access level the app checks for premium */
+const PREMIUM_ACCESS_LEVEL_ID = 'premium';
+
+/** Product granted when premium is set without a purchase */
+const SIMULATOR_PRODUCT_ID = 'simulator.premium';
+
+/** How a simulated purchase ends */
+export type FakePurchaseOutcome = 'success' | 'user_cancelled' | 'pending';
+
+type ProfileListener = (profile: AdaptyProfile) => void | Promise<void>;
+
+const profileListeners = new Set<ProfileListener>();
+
+let isActivated = false;
+let profile = createProfile(null);
+let purchaseOutcome: FakePurchaseOutcome = 'success';
+
+function createProfile(premiumProductId: string | null): AdaptyProfile {
+  if (!premiumProductId) {
+    return { profileId: 'simulator-profile', accessLevels: {} };
+  }
+
+  return {
+    profileId: 'simulator-profile',
+    accessLevels: {
+      [PREMIUM_ACCESS_LEVEL_ID]: {
+        id: PREMIUM_ACCESS_LEVEL_ID,
+        isActive: true,
+        vendorProductId: premiumProductId,
+        store: 'app_store',
+        activatedAt: new Date(),
+        isLifetime: false,
+        isRefund: false,
+        isInGracePeriod: false,
+        willRenew: true,
+      },
+    },
+  };
+}
+
+function createPlacement(placementId: string): AdaptyPlacement {
+  return {
+    id: placementId,
+    abTestName: 'simulator',
+    audienceName: 'All Users',
+    audienceVersionId: 'simulator',
+    revision: 0,
+  };
+}
+
+function setProfile(next: AdaptyProfile): void {
+  profile = next;
+  profileListeners.forEach((listener) => listener(next));
+}
+
+export const FakeAdaptyModule: AdaptyModuleInterface = {
+  async isActivated() {
+    return isActivated;
+  },
+
+  async activate(apiKey: string) {
+    recordCall('Adapty', 'activate', [apiKey]);
+    isActivated = true;
+  },
+
+  async getPaywall(placementId: string): Promise<AdaptyPaywall> {
+    recordCall('Adapty', 'getPaywall', [placementId]);
+    return {
+      id: placementId,
+      name: placementId,
+      placement: createPlacement(placementId),
+      hasViewConfiguration: false,
+      variationId: 'simulator',
+      products: [],
+      productIdentifiers: [],
+      requestLocale: 'en',
+    };
+  },
+
+  async getOnboarding(placementId: string): Promise<AdaptyOnboarding> {
+    recordCall('Adapty', 'getOnboarding', [placementId]);
+    return {
+      id: placementId,
+      name: placementId,
+      placement: createPlacement(placementId),
+      hasViewConfiguration: false,
+      variationId: 'simulator',
+      requestLocale: 'en',
+    };
+  },
+
+  async getProfile() {
+    return profile;
+  },
+
+  async makePurchase(product: AdaptyPaywallProduct) {
+    recordCall('Adapty', 'makePurchase', [product.vendorProductId]);
+    if (purchaseOutcome !== 'success') {
+      return { type: purchaseOutcome };
+    }
+
+    setProfile(createProfile(product.vendorProductId));
+    return { type: 'success', profile };
+  },
+
+  async restorePurchases() {
+    recordCall('Adapty', 'restorePurchases', []);
+    return profile;
+  },
+
+  addEventListener(_event, callback) {
+    profileListeners.add(callback);
+    return { remove: () => profileListeners.delete(callback) };
+  },
+};
+
+export const fakeAdapty = {
+  /**
+   * Grant or take away premium as a server-side profile update would
+   */
+  setPremium(isActive: boolean): void {
+    setProfile(createProfile(isActive ? SIMULATOR_PRODUCT_ID : null));
+  },
+
+  /**
+   * How the next purchases end (default: success)
+   */
+  setPurchaseOutcome(outcome: FakePurchaseOutcome): void {
+    purchaseOutcome = outcome;
+  },
+
+  /**
+   * Start over: not activated, no premium, purchases succeed
+   * Profile listeners stay, as the app's services subscribe only once.
+   */
+  reset(): void {
+    isActivated = false;
+    profile = createProfile(null);
+    purchaseOutcome = 'success';
+  },
+};
@@ -0,0 +1,62 @@
+/**
+ * Fake AppsFlyer Module
+ *
+ * In-memory stand-in for the AppsFlyer SDK. Every call is recorded and
+ * resolves at once; invite links are empty.
+ *
+ * @module modules/simulator/fake-appsflyer
+ */
+
+import type { AppsFlyerModuleInterface } from '@/modules/appsflyer/AppsFlyerModule';
+import { recordCall } from './CallLog';
+
+function record(method: keyof AppsFlyerModuleInterface) {
+  return async (...args: unknown[]): Promise<void> => {
+    recordCall('AppsFlyer', method, args);
+  };
+}
+
+export const FakeAppsFlyerModule: AppsFlyerModuleInterface = {
+  initSdk: record('initSdk'),
+  logEvent: record('logEvent'),
+  setUserId: record('setUserId'),
+  setUserEmails: record('setUserEmails'),
+  setAdditionalData: record('setAdditionalData'),
+  setAppsFlyerDevKey: record('setAppsFlyerDevKey'),
+  setAppleAppID: record('setAppleAppID'),
+  setCustomerUserId: record('setCustomerUserId'),
+  setCurrencyCode: record('setCurrencyCode'),
+  setOneLinkCustomDomain: record('setOneLinkCustomDomain'),
+  setResolveDeepLinkURLs: record('setResolveDeepLinkURLs'),
+  setDisableCollectAppleAdSupport: record('setDisableCollectAppleAdSupport'),
+  setDisableCollectIAd: record('setDisableCollectIAd'),
+  setDisableCollectASA: record('setDisableCollectASA'),
+  setUseReceiptValidationSandbox: record('setUseReceiptValidationSandbox'),
+  setUseUninstallSandbox: record('setUseUninstallSandbox'),
+  setAnonymizeUser: record('setAnonymizeUser'),
+  setCollectIMEI: record('setCollectIMEI'),
+  setCollectAndroidID: record('setCollectAndroidID'),
+  setCollectOaid: record('setCollectOaid'),
+  waitForATTUserAuthorization: record('waitForATTUserAuthorization'),
+  stop: record('stop'),
+  start: record('start'),
+  setSharingFilter: record('setSharingFilter'),
+  setSharingFilterForAllPartners: record('setSharingFilterForAllPartners'),
+  setPartnerData: record('setPartnerData'),
+  async generateInviteLink(inviteLinkParams: any) {
+    recordCall('AppsFlyer', 'generateInviteLink', [inviteLinkParams]);
+    return '';
+  },
+  validateAndLogInAppPurchase: record('validateAndLogInAppPurchase'),
+  logCrossPromotionImpression: record('logCrossPromotionImpression'),
+  logCrossPromotionAndOpenStore: record('logCrossPromotionAndOpenStore'),
+  setHost: record('setHost'),
+  setMinTimeBetweenSessions: record('setMinTimeBetweenSessions'),
+  setPhoneNumber: record('setPhoneNumber'),
+  setConsentData: record('setConsentData'),
+  setConsent: record('setConsent'),
+  anonymizeUser: record('anonymizeUser'),
+  setDisableNetworkData: record('setDisableNetworkData'),
+  setOnDeepLinking: record('setOnDeepLinking'),
+  setOnConversionData: record('setOnConversionData'),
+};
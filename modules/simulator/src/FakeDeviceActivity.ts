@@ -0,0 +1,360 @@
+/**
+ * Fake Device Activity Module
+ *
+ * In-memory stand-in for react-native-device-activity. Selections are sets of
+ * made-up app tokens; the blocklist, allow-list, block-all mode, monitored
+ * activities and app group defaults behave like the native module's.
+ * Monitor extension callbacks never fire on their own - trigger them with
+ * `triggerMonitorEvent`, which records the event and runs the configured actions.
+ *
+ * @module modules/simulator/fake-device-activity
+ */
+
+import {
+  Action,
+  ActivitySelectionInput,
+  ActivitySelectionInputWithBlocks,
+  ActivitySelectionMetadata,
+  ActivitySelectionWithMetadata,
+  AuthorizationStatus,
+  AuthorizationStatusType,
+  CallbackName,
+  DeviceActivityEvent,
+  DeviceActivitySchedule,
+  OnAuthorizationStatusChange,
+  SetOperationOptions,
+  ShieldActions,
+  ShieldConfiguration,
+} from 'react-native-device-activity';
+
+import type { DeviceActivityModuleInterface } from '@/modules/device-activity/DeviceActivityModule';
+import { recordCall } from './CallLog';
+import { fakeWebDomains } from './FakeWebDomains';
+
+/** App group key the native module sets while every app is shielded */
+const IS_BLOCKING_ALL_KEY = 'isBlockingAll';
+
+/**
+ * Monitored activity as registered with `startMonitoring`
+ */
+export interface FakeMonitoredActivity {
+  schedule: DeviceActivitySchedule;
+  events: DeviceActivityEvent[];
+}
+
+const selections = new Map<string, Set<string>>();
+const activities = new Map<string, FakeMonitoredActivity>();
+const userDefaults = new Map<string, unknown>();
+const authorizationListeners = new Set<OnAuthorizationStatusChange>();
+
+let blocklist = new Set<string>();
+let whitelist = new Set<string>();
+let authorizationStatus: AuthorizationStatusType = AuthorizationStatus.notDetermined;
+let authorizationResult: AuthorizationStatusType = AuthorizationStatus.approved;
+
+// ============================================================================
+// Selections
+// ============================================================================
+
+function serialize(tokens: Set<string>): string {
+  return JSON.stringify([...tokens].sort());
+}
+
+function parseToken(token: string): Set<string> {
+  try {
+    const parsed: unknown = JSON.parse(token);
+    return new Set(Array.isArray(parsed) ? parsed.map(String) : []);
+  } catch {
+    return new Set();
+  }
+}
+
+function resolve(input: ActivitySelectionInputWithBlocks): Set<string> {
+  if (input.currentBlocklist) return new Set(blocklist);
+  if (input.currentWhitelist) return new Set(whitelist);
+  if (input.activitySelectionToken) return parseToken(input.activitySelectionToken);
+  return new Set(selections.get(input.activitySelectionId ?? '') ?? []);
+}
+
+function getMetadata(tokens: Set<string>): ActivitySelectionMetadata {
+  return { applicationCount: tokens.size, categoryCount: 0, webDomainCount: 0, includeEntireCategory: false };
+}
+
+function withMetadata(tokens: Set<string>, options: SetOperationOptions = {}): ActivitySelectionWithMetadata {
+  if (options.persistAsActivitySelectionId) {
+    selections.set(options.persistAsActivitySelectionId, tokens);
+  }
+  return { ...getMetadata(tokens), familyActivitySelection: options.stripToken ? null : serialize(tokens) };
+}
+
+function isBlockingAll(): boolean {
+  return userDefaults.get(IS_BLOCKING_ALL_KEY) === true;
+}
+
+function setBlockingAll(enabled: boolean): void {
+  if (enabled) {
+    userDefaults.set(IS_BLOCKING_ALL_KEY, true);
+  } else {
+    userDefaults.delete(IS_BLOCKING_ALL_KEY);
+  }
+}
+
+/**
+ * Run a monitor action the way the extension would
+ * Actions without an effect on shields (notifications, requests) are only recorded.
+ */
+function runAction(action: Action): void {
+  switch (action.type) {
+    case 'blockSelection':
+      resolve({ activitySelectionId: action.familyActivitySelectionId }).forEach((t) => blocklist.add(t));
+      break;
+    case 'unblockSelection':
+      resolve({ activitySelectionId: action.familyActivitySelectionId }).forEach((t) => blocklist.delete(t));
+      break;
+    case 'resetBlocks':
+      blocklist = new Set();
+      break;
+    case 'enableBlockAllMode':
+      setBlockingAll(true);
+      break;
+    case 'disableBlockAllMode':
+      setBlockingAll(false);
+      break;
+    case 'addSelectionToWhitelist':
+      resolve(action.familyActivitySelection).forEach((t) => whitelist.add(t));
+      break;
+    case 'removeSelectionFromWhitelist':
+      resolve(action.familyActivitySelection).forEach((t) => whitelist.delete(t));
+      break;
+    case 'clearWhitelist':
+    case 'clearWhitelistAndUpdateBlock':
+      whitelist = new Set();
+      break;
+    case 'setBlockedWebDomains':
+      fakeWebDomains.setBlockedDomains(action.domains);
+      break;
+    case 'clearBlockedWebDomains':
+      fakeWebDomains.setBlockedDomains([]);
+      break;
+    default:
+      break;
+  }
+}
+
+// ============================================================================
+// Module
+// ============================================================================
+
+export const FakeDeviceActivityModule: DeviceActivityModuleInterface = {
+  isAvailable() {
+    return true;
+  },
+
+  getAuthorizationStatus() {
+    return authorizationStatus;
+  },
+
+  async requestAuthorization(forIndividualOrChild = 'individual') {
+    recordCall('DeviceActivity', 'requestAuthorization', [forIndividualOrChild]);
+    fakeDeviceActivity.setAuthorizationStatus(authorizationResult);
+  },
+
+  async pollAuthorizationStatus() {
+    return authorizationStatus;
+  },
+
+  onAuthorizationStatusChange(listener) {
+    authorizationListeners.add(listener);
+    return { remove: () => authorizationListeners.delete(listener) };
+  },
+
+  blockSelection(activitySelection: ActivitySelectionInput, triggeredBy?: string) {
+    recordCall('DeviceActivity', 'blockSelection', [activitySelection, triggeredBy]);
+    resolve(activitySelection).forEach((t) => blocklist.add(t));
+  },
+
+  unblockSelection(activitySelection: ActivitySelectionInput, triggeredBy?: string) {
+    recordCall('DeviceActivity', 'unblockSelection', [activitySelection, triggeredBy]);
+    resolve(activitySelection).forEach((t) => blocklist.delete(t));
+  },
+
+  resetBlocks(triggeredBy?: string) {
+    recordCall('DeviceActivity', 'resetBlocks', [triggeredBy]);
+    blocklist = new Set();
+  },
+
+  enableBlockAllMode(triggeredBy?: string) {
+    recordCall('DeviceActivity', 'enableBlockAllMode', [triggeredBy]);
+    setBlockingAll(true);
+  },
+
+  disableBlockAllMode(triggeredBy?: string) {
+    recordCall('DeviceActivity', 'disableBlockAllMode', [triggeredBy]);
+    setBlockingAll(false);
+  },
+
+  clearWhitelist() {
+    recordCall('DeviceActivity', 'clearWhitelist', []);
+    whitelist = new Set();
+  },
+
+  addSelectionToWhitelistAndUpdateBlock(activitySelection: ActivitySelectionInput, triggeredBy?: string) {
+    recordCall('DeviceActivity', 'addSelectionToWhitelistAndUpdateBlock', [activitySelection, triggeredBy]);
+    resolve(activitySelection).forEach((t) => whitelist.add(t));
+  },
+
+  isShieldActive() {
+    return isBlockingAll() || [...blocklist].some((t) => !whitelist.has(t));
+  },
+
+  activitySelectionMetadata(activitySelection) {
+    return getMetadata(resolve(activitySelection));
+  },
+
+  intersection(a, b, options) {
+    const other = resolve(b);
+    return withMetadata(new Set([...resolve(a)].filter((t) => other.has(t))), options);
+  },
+
+  difference(a, b, options) {
+    const other = resolve(b);
+    return withMetadata(new Set([...resolve(a)].filter((t) => !other.has(t))), options);
+  },
+
+  isSubsetOf(subset, superset) {
+    const other = resolve(superset);
+    return [...resolve(subset)].every((t) => other.has(t));
+  },
+
+  getFamilyActivitySelectionId(id: string) {
+    const tokens = selections.get(id);
+    return tokens ? serialize(tokens) : '';
+  },
+
+  async startMonitoring(activityName, schedule, events) {
+    recordCall('DeviceActivity', 'startMonitoring', [activityName, schedule, events]);
+    activities.set(activityName, { schedule, events });
+  },
+
+  stopMonitoring(activityNames?: string[]) {
+    recordCall('DeviceActivity', 'stopMonitoring', [activityNames]);
+    if (!activityNames) {
+      activities.clear();
+      return;
+    }
+    activityNames.forEach((name) => activities.delete(name));
+  },
+
+  getActivities() {
+    return [...activities.keys()];
+  },
+
+  configureActions({ activityName, callbackName, actions, eventName }) {
+    recordCall('DeviceActivity', 'configureActions', [{ activityName, callbackName, actions, eventName }]);
+    const key = eventName
+      ? `actions_for_${activityName}_${callbackName}_${eventName}`
+      : `actions_for_${activityName}_${callbackName}`;
+    userDefaults.set(key, actions);
+  },
+
+  cleanUpAfterActivity(activityName: string) {
+    recordCall('DeviceActivity', 'cleanUpAfterActivity', [activityName]);
+    for (const key of [...userDefaults.keys()]) {
+      if (key.startsWith(`actions_for_${activityName}`) || key.startsWith(`events_${activityName}`)) {
+        userDefaults.delete(key);
+      }
+    }
+  },
+
+  updateShield(shieldConfiguration: ShieldConfiguration, shieldActions: ShieldActions) {
+    userDefaults.set('shieldConfiguration', shieldConfiguration);
+    userDefaults.set('shieldActions', shieldActions);
+  },
+
+  updateShieldWithId(shieldConfiguration: ShieldConfiguration, shieldActions: ShieldActions, shieldId = 'default') {
+    userDefaults.set(`shieldConfiguration_${shieldId}`, shieldConfiguration);
+    userDefaults.set(`shieldActions_${shieldId}`, shieldActions);
+  },
+
+  userDefaultsGet<T>(key: string) {
+    return userDefaults.get(key) as T | undefined;
+  },
+
+  userDefaultsSet(key: string, value: unknown) {
+    userDefaults.set(key, value);
+  },
+
+  userDefaultsAll() {
+    return Object.fromEntries(userDefaults);
+  },
+};
+
+// ============================================================================
+// Simulator Controls
+// ============================================================================
+
+export const fakeDeviceActivity = {
+  /**
+   * Change the Screen Time authorization and notify listeners
+   */
+  setAuthorizationStatus(status: AuthorizationStatusType): void {
+    authorizationStatus = status;
+    authorizationListeners.forEach((listener) => listener({ authorizationStatus: status }));
+  },
+
+  /**
+   * Status the next `requestAuthorization` call ends with (default: approved)
+   */
+  setAuthorizationResult(status: AuthorizationStatusType): void {
+    authorizationResult = status;
+  },
+
+  /**
+   * Save a selection as the picker would
+   *
+   * @param id - Selection ID the picker persists to
+   * @param apps - Made-up tokens of the selected apps
+   */
+  setSelection(id: string, apps: string[]): void {
+    selections.set(id, new Set(apps));
+  },
+
+  /**
+   * Record a monitor extension callback and run its configured actions
+   */
+  triggerMonitorEvent(activityName: string, callbackName: CallbackName, eventName?: string): void {
+    const suffix = eventName ? `${callbackName}_${eventName}` : callbackName;
+    userDefaults.set(`events_${activityName}_${suffix}`, Date.now());
+
+    const actions = userDefaults.get(`actions_for_${activityName}_${suffix}`) as Action[] | undefined;
+    actions?.forEach(runAction);
+  },
+
+  /**
+   * Apps shielded right now, or every app when all are shielded except an allow-list
+   */
+  getShieldState(): { isBlockingAll: boolean; blockedApps: string[]; allowedApps: string[] } {
+    return { isBlockingAll: isBlockingAll(), blockedApps: [...blocklist].sort(), allowedApps: [...whitelist].sort() };
+  },
+
+  /**
+   * Activities being monitored by name
+   */
+  getActivities(): Map<string, FakeMonitoredActivity> {
+    return new Map(activities);
+  },
+
+  /**
+   * Forget all selections, shields, activities and defaults
+   */
+  reset(): void {
+    selections.clear();
+    activities.clear();
+    userDefaults.clear();
+    authorizationListeners.clear();
+    blocklist = new Set();
+    whitelist = new Set();
+    authorizationStatus = AuthorizationStatus.notDetermined;
+    authorizationResult = AuthorizationStatus.approved;
+  },
+};
@@ -0,0 +1,56 @@
+/**
+ * Fake Firebase Module
+ *
+ * In-memory stand-in for Firebase Analytics. Logged events and user
+ * properties are kept so tests can check what was sent.
+ *
+ * @module modules/simulator/fake-firebase
+ */
+
+import type { FirebaseModuleInterface } from '@/modules/firebase/FirebaseModule';
+import { recordCall } from './CallLog';
+
+let userId: string | null = null;
+let userProperties: Record<string, string> = {};
+let isCollectionEnabled = true;
+
+export const FakeFirebaseModule: FirebaseModuleInterface = {
+  async logEvent(name: string, params?: Record<string, any>) {
+    recordCall('Firebase', 'logEvent', [name, params]);
+  },
+  async setUserId(id: string) {
+    recordCall('Firebase', 'setUserId', [id]);
+    userId = id;
+  },
+  async setUserProperty(name: string, value: string) {
+    recordCall('Firebase', 'setUserProperty', [name, value]);
+    userProperties = { ...userProperties, [name]: value };
+  },
+  async resetAnalyticsData() {
+    recordCall('Firebase', 'resetAnalyticsData', []);
+    userId = null;
+    userProperties = {};
+  },
+  async setAnalyticsCollectionEnabled(enabled: boolean) {
+    recordCall('Firebase', 'setAnalyticsCollectionEnabled', [enabled]);
+    isCollectionEnabled = enabled;
+  },
+};
+
+export const fakeFirebase = {
+  /**
+   * User ID, user properties and collection setting as last set
+   */
+  getUser(): { userId: string | null; userProperties: Record<string, string>; isCollectionEnabled: boolean } {
+    return { userId, userProperties: { ...userProperties }, isCollectionEnabled };
+  },
+
+  /**
+   * Forget the user and properties
+   */
+  reset(): void {
+    userId = null;
+    userProperties = {};
+    isCollectionEnabled = true;
+  },
+};
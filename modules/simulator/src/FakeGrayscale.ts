@@ -0,0 +1,39 @@
+/**
+ * Fake Grayscale Module
+ *
+ * In-memory stand-in for the Grayscale native module.
+ * `grayscale-module` is its own package, so the fake is injected from the app
+ * side (see jest.setup.ts) instead of being picked inside the package.
+ *
+ * @module modules/simulator/fake-grayscale
+ */
+
+import type { GrayscaleModuleInterface } from 'grayscale-module';
+import { recordCall } from './CallLog';
+
+let isEnabled = false;
+
+export const FakeGrayscaleModule: GrayscaleModuleInterface = {
+  async enableGrayscale() {
+    recordCall('Grayscale', 'enableGrayscale', []);
+    isEnabled = true;
+    return true;
+  },
+  async disableGrayscale() {
+    recordCall('Grayscale', 'disableGrayscale', []);
+    isEnabled = false;
+    return true;
+  },
+  async isGrayscaleEnabled() {
+    return isEnabled;
+  },
+};
+
+export const fakeGrayscale = {
+  /**
+   * Turn grayscale off
+   */
+  reset(): void {
+    isEnabled = false;
+  },
+};
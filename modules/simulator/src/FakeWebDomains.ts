@@ -0,0 +1,42 @@
+/**
+ * Fake Web Domains Module
+ *
+ * In-memory stand-in for the WebDomains native module.
+ *
+ * @module modules/simulator/fake-web-domains
+ */
+
+import type { WebDomainsModuleInterface } from '@/modules/web-domains';
+import { recordCall } from './CallLog';
+
+let blockedDomains: string[] = [];
+
+export const FakeWebDomainsModule: WebDomainsModuleInterface = {
+  setBlockedDomains(domains: string[]) {
+    recordCall('WebDomains', 'setBlockedDomains', [domains]);
+    blockedDomains = [...domains];
+  },
+  clearBlockedDomains() {
+    recordCall('WebDomains', 'clearBlockedDomains', []);
+    blockedDomains = [];
+  },
+  getBlockedDomains() {
+    return [...blockedDomains];
+  },
+};
+
+export const fakeWebDomains = {
+  /**
+   * Replace the shielded domains as the monitor extension does, without recording a call
+   */
+  setBlockedDomains(domains: string[]): void {
+    blockedDomains = [...domains];
+  },
+
+  /**
+   * Forget the shielded domains
+   */
+  reset(): void {
+    blockedDomains = [];
+  },
+};
@@ -0,0 +1,11 @@
+/**
+ * Simulator Mode
+ *
+ * Whether native modules are swapped for in-memory fakes. Set
+ * `EXPO_PUBLIC_SIMULATOR_MODE=true` in development builds or in Jest;
+ * release builds always use the real SDKs.
+ *
+ * @module modules/simulator/simulator-mode
+ */
+
+export const isSimulatorMode = __DEV__ && process.env.EXPO_PUBLIC_SIMULATOR_MODE === 'true';
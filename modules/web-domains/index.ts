@@ -0,0 +1,41 @@
+import { requireOptionalNativeModule } from 'expo-modules-core';
+
+import { FakeWebDomainsModule, isSimulatorMode } from '@/modules/simulator';
+
+export interface WebDomainsModuleInterface {
+  /**
+   * Shield exactly these domains, replacing the previous list
+   */
+  setBlockedDomains(domains: string[]): void;
+
+  /**
+   * Stop shielding all domains
+   */
+  clearBlockedDomains(): void;
+
+  /**
+   * Domains currently shielded
+   */
+  getBlockedDomains(): string[];
+}
+
+const NativeWebDomainsModule = requireOptionalNativeModule<WebDomainsModuleInterface>('WebDomains');
+
+// Fallback implementation for development
+const fallbackWebDomainsModule: WebDomainsModuleInterface = {
+  setBlockedDomains() {
+    if (__DEV__) {
+      console.warn('WebDomainsModule not available - using fallback');
+    }
+  },
+  clearBlockedDomains() {},
+  getBlockedDomains() {
+    return [];
+  },
+};
+
+const WebDomainsModule = isSimulatorMode
+  ? FakeWebDomainsModule
+  : (NativeWebDomainsModule ?? fallbackWebDomainsModule);
+
+export default WebDomainsModule;
@@ -0,0 +1,39 @@
+import ExpoModulesCore
+import ManagedSettings
+
+@available(iOS 16.0, *)
+extension ManagedSettingsStore.Name {
+  // Separate from the app shields store, so resetting app blocks keeps domains.
+  // The monitor extension writes the same store when schedule windows start and end.
+  static let webDomains = Self("webDomains")
+}
+
+@available(iOS 16.0, *)
+public class WebDomainsModule: Module {
+  private let store = ManagedSettingsStore(named: .webDomains)
+
+  public func definition() -> ModuleDefinition {
+    Name("WebDomains")
+
+    Function("setBlockedDomains") { (domains: [String]) in
+      if domains.isEmpty {
+        self.store.webContent.blockedByFilter = nil
+        return
+      }
+
+      let webDomains = Set(domains.map { WebDomain(domain: $0) })
+      self.store.webContent.blockedByFilter = .specific(webDomains)
+    }
+
+    Function("clearBlockedDomains") {
+      self.store.webContent.blockedByFilter = nil
+    }
+
+    Function("getBlockedDomains") { () -> [String] in
+      guard case .specific(let webDomains) = self.store.webContent.blockedByFilter else {
+        return []
+      }
+      return webDomains.compactMap { $0.domain }.sorted()
+    }
+  }
+}
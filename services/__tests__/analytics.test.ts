@@ -0,0 +1,42 @@
+import FirebaseModule from '@/modules/firebase/FirebaseModule';
+import { simulator } from '@/modules/simulator';
+import analytics, { APPSFLYER_EVENTS, FIREBASE_EVENTS } from '@/services/analytics';
+
+describe('AnalyticsService', () => {
+  it('logs onboarding screen views to Firebase', async () => {
+    await analytics.logOnboardingScreenView('screen_2', 'allowScreenTime');
+    await analytics.logOnboardingScreenView('screen_3');
+
+    expect(simulator.getCalls('Firebase', 'logEvent').map((call) => call.args)).toEqual([
+      [FIREBASE_EVENTS.ONBOARDING_SCREEN_VIEW, { screen_id: 'screen_2', action_id: 'allowScreenTime' }],
+      [FIREBASE_EVENTS.ONBOARDING_SCREEN_VIEW, { screen_id: 'screen_3', action_id: null }],
+    ]);
+  });
+
+  it('sends AppsFlyer events to AppsFlyer only', async () => {
+    await analytics.logAppsFlyerEvent(APPSFLYER_EVENTS.PAYWALL_SHOWN, { placement: 'onboarding' });
+
+    expect(simulator.getCalls('AppsFlyer', 'logEvent').map((call) => call.args)).toEqual([
+      [APPSFLYER_EVENTS.PAYWALL_SHOWN, { placement: 'onboarding' }],
+    ]);
+    expect(simulator.getCalls('Firebase')).toEqual([]);
+  });
+
+  it('sets the user ID on both SDKs', async () => {
+    await analytics.setUserId('user-1');
+
+    expect(simulator.getCalls('AppsFlyer', 'setUserId').map((call) => call.args)).toEqual([['user-1']]);
+    expect(simulator.firebase.getUser().userId).toBe('user-1');
+  });
+
+  it('does not throw when an SDK call fails', async () => {
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const logEvent = jest.spyOn(FirebaseModule, 'logEvent').mockRejectedValueOnce(new Error('offline'));
+
+    await expect(analytics.logFirebaseEvent('custom_event')).resolves.toBeUndefined();
+
+    expect(error).toHaveBeenCalledWith('Error logging Firebase event:', expect.any(Error));
+    logEvent.mockRestore();
+    error.mockRestore();
+  });
+});
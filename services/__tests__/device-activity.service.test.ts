@@ -0,0 +1,751 @@
+import type { ShieldActions } from 'react-native-device-activity';
+
+import DeviceActivityModule from '@/modules/device-activity/DeviceActivityModule';
+import { simulator } from '@/modules/simulator';
+import WebDomainsModule from '@/modules/web-domains';
+import {
+  BlockRule,
+  deviceActivityService,
+  getScheduleActivityPrefix,
+  getUsageLimitActivityName,
+  OpenLimitRule,
+} from '@/services/device-activity.service';
+import type { UsageLimit } from '@/types/blocker';
+
+const SHIELD_CALLS = [
+  'blockSelection',
+  'unblockSelection',
+  'resetBlocks',
+  'enableBlockAllMode',
+  'disableBlockAllMode',
+  'clearWhitelist',
+  'addSelectionToWhitelistAndUpdateBlock',
+];
+
+function block(familyActivitySelectionId: string): BlockRule {
+  return { familyActivitySelectionId, mode: 'block' };
+}
+
+function allow(familyActivitySelectionId: string): BlockRule {
+  return { familyActivitySelectionId, mode: 'allow' };
+}
+
+/** Native shield calls since the last `clearCalls`, as [method, selection ID] */
+function shieldCalls(): [string, string | undefined][] {
+  return simulator
+    .getCalls('DeviceActivity')
+    .filter((call) => SHIELD_CALLS.includes(call.method))
+    .map((call) => [call.method, (call.args[0] as { activitySelectionId?: string } | undefined)?.activitySelectionId]);
+}
+
+function blockedApps(): string[] {
+  return simulator.deviceActivity.getShieldState().blockedApps;
+}
+
+describe('deviceActivityService.applyBlocks', () => {
+  beforeEach(() => {
+    simulator.deviceActivity.setSelection('work', ['mail', 'slack']);
+    simulator.deviceActivity.setSelection('social', ['instagram', 'slack']);
+    simulator.deviceActivity.setSelection('games', ['chess']);
+  });
+
+  it('blocks only the selection that starts', () => {
+    deviceActivityService.applyBlocks([block('work')]);
+
+    expect(shieldCalls()).toEqual([['blockSelection', 'work']]);
+    expect(blockedApps()).toEqual(['mail', 'slack']);
+  });
+
+  it('blocks only the added selection when another one starts', () => {
+    deviceActivityService.applyBlocks([block('work')]);
+    simulator.clearCalls();
+
+    deviceActivityService.applyBlocks([block('work'), block('social')]);
+
+    expect(shieldCalls()).toEqual([['blockSelection', 'social']]);
+    expect(blockedApps()).toEqual(['instagram', 'mail', 'slack']);
+  });
+
+  it('releases only the stopped selection and keeps shared apps', () => {
+    deviceActivityService.applyBlocks([block('work'), block('social')]);
+    simulator.clearCalls();
+
+    deviceActivityService.applyBlocks([block('social')]);
+
+    expect(shieldCalls()).toEqual([['unblockSelection', 'shield_drift_check']]);
+    expect(blockedApps()).toEqual(['instagram', 'slack']);
+  });
+
+  it('lifts everything once the last selection stops', () => {
+    deviceActivityService.applyBlocks([block('work')]);
+    simulator.clearCalls();
+
+    deviceActivityService.applyBlocks([]);
+
+    expect(shieldCalls()).toEqual([['resetBlocks', undefined]]);
+    expect(blockedApps()).toEqual([]);
+  });
+
+  it('blocks added apps and lifts removed ones when a selection is edited under the same ID', () => {
+    deviceActivityService.applyBlocks([block('work')]);
+    simulator.deviceActivity.setSelection('work', ['mail', 'tiktok']);
+    simulator.clearCalls();
+
+    deviceActivityService.applyBlocks([block('work')]);
+
+    expect(shieldCalls()).toEqual([
+      ['blockSelection', 'work'],
+      ['unblockSelection', 'shield_drift_check'],
+    ]);
+    expect(blockedApps()).toEqual(['mail', 'tiktok']);
+  });
+
+  it('only lifts apps removed from a selection under the same ID', () => {
+    deviceActivityService.applyBlocks([block('work'), block('social')]);
+    simulator.deviceActivity.setSelection('work', ['slack']);
+    simulator.clearCalls();
+
+    deviceActivityService.applyBlocks([block('social'), block('work')]);
+
+    expect(shieldCalls()).toEqual([['unblockSelection', 'shield_drift_check']]);
+    expect(blockedApps()).toEqual(['instagram', 'slack']);
+  });
+
+  it('lifts a window the monitor extension started once its schedule stops', async () => {
+    jest.useFakeTimers({ now: new Date(2026, 9, 19, 10, 0) });
+    const [activityName] = await deviceActivityService.monitorScheduleWindows('work', block('work'), [
+      { start: new Date(2026, 9, 19, 10, 0), end: new Date(2026, 9, 19, 12, 0) },
+    ]);
+    simulator.deviceActivity.triggerMonitorEvent(activityName, 'intervalDidStart');
+    jest.useRealTimers();
+
+    deviceActivityService.applyBlocks([]);
+
+    expect(blockedApps()).toEqual([]);
+  });
+
+  it('blocks a selection again after the monitor extension lifted it', async () => {
+    jest.useFakeTimers({ now: new Date(2026, 9, 19, 10, 0) });
+    const [activityName] = await deviceActivityService.monitorScheduleWindows('work', block('work'), [
+      { start: new Date(2026, 9, 19, 10, 0), end: new Date(2026, 9, 19, 12, 0) },
+    ]);
+    simulator.deviceActivity.triggerMonitorEvent(activityName, 'intervalDidStart');
+    deviceActivityService.applyBlocks([block('work')]);
+    jest.setSystemTime(new Date(2026, 9, 19, 12, 0));
+    simulator.deviceActivity.triggerMonitorEvent(activityName, 'intervalDidEnd');
+    jest.useRealTimers();
+
+    deviceActivityService.applyBlocks([block('work')]);
+
+    expect(blockedApps()).toEqual(['mail', 'slack']);
+  });
+
+  describe('allow mode', () => {
+    it('shields everything before the allow-list is set', () => {
+      deviceActivityService.applyBlocks([block('work')]);
+      simulator.clearCalls();
+
+      deviceActivityService.applyBlocks([allow('games')]);
+
+      expect(shieldCalls()[0]).toEqual(['enableBlockAllMode', undefined]);
+      expect(simulator.deviceActivity.getShieldState()).toEqual({
+        isBlockingAll: true,
+        blockedApps: [],
+        allowedApps: ['chess'],
+      });
+    });
+
+    it('changes nothing while the allow-list stays the same', () => {
+      deviceActivityService.applyBlocks([allow('games')]);
+      simulator.clearCalls();
+
+      deviceActivityService.applyBlocks([allow('games')]);
+
+      expect(shieldCalls()).toEqual([]);
+    });
+
+    it('replaces only the allow-list when it changes', () => {
+      deviceActivityService.applyBlocks([allow('games')]);
+      simulator.clearCalls();
+
+      deviceActivityService.applyBlocks([allow('work')]);
+
+      expect(shieldCalls()).toEqual([
+        ['clearWhitelist', undefined],
+        ['addSelectionToWhitelistAndUpdateBlock', 'work'],
+      ]);
+      expect(simulator.deviceActivity.getShieldState().allowedApps).toEqual(['mail', 'slack']);
+    });
+
+    it('opens only the apps every allow rule allows', () => {
+      deviceActivityService.applyBlocks([allow('work'), allow('social')]);
+
+      expect(simulator.deviceActivity.getShieldState()).toEqual({
+        isBlockingAll: true,
+        blockedApps: [],
+        allowedApps: ['slack'],
+      });
+    });
+
+    it('keeps apps a block rule shields closed', () => {
+      deviceActivityService.applyBlocks([allow('work'), block('social')]);
+
+      expect(simulator.deviceActivity.getShieldState()).toEqual({
+        isBlockingAll: true,
+        blockedApps: [],
+        allowedApps: ['mail'],
+      });
+    });
+
+    it('blocks the remaining selections before leaving allow mode', () => {
+      deviceActivityService.applyBlocks([allow('games')]);
+      simulator.clearCalls();
+
+      deviceActivityService.applyBlocks([block('work')]);
+
+      expect(shieldCalls()).toEqual([
+        ['blockSelection', 'work'],
+        ['clearWhitelist', undefined],
+        ['disableBlockAllMode', undefined],
+      ]);
+      expect(simulator.deviceActivity.getShieldState()).toEqual({
+        isBlockingAll: false,
+        blockedApps: ['mail', 'slack'],
+        allowedApps: [],
+      });
+    });
+  });
+});
+
+describe('deviceActivityService.getBlockDrift', () => {
+  beforeEach(() => {
+    simulator.deviceActivity.setSelection('work', ['mail', 'slack']);
+    simulator.deviceActivity.setSelection('stale', ['mail', 'tiktok']);
+  });
+
+  it('is repaired by applying the rules again, lifting only apps no rule accounts for', () => {
+    // Left behind by a crash: a stale selection shielded and the tracking lost
+    DeviceActivityModule.blockSelection({ activitySelectionId: 'stale' });
+    expect(deviceActivityService.getBlockDrift([block('work')])).toEqual([
+      'selection not shielded: work',
+      'apps shielded by no rule: 1',
+    ]);
+    simulator.clearCalls();
+
+    deviceActivityService.applyBlocks([block('work')]);
+
+    expect(shieldCalls()).toEqual([
+      ['blockSelection', 'work'],
+      ['unblockSelection', 'shield_drift_check'],
+    ]);
+    expect(blockedApps()).toEqual(['mail', 'slack']);
+    expect(deviceActivityService.getBlockDrift([block('work')])).toEqual([]);
+  });
+
+  it('is repaired by resetting blocks when nothing should be shielded', () => {
+    DeviceActivityModule.blockSelection({ activitySelectionId: 'stale' });
+    expect(deviceActivityService.getBlockDrift([])).toEqual([
+      'shields active with nothing blocking',
+      'apps shielded by no rule: 2',
+    ]);
+
+    deviceActivityService.applyBlocks([]);
+
+    expect(blockedApps()).toEqual([]);
+    expect(deviceActivityService.getBlockDrift([])).toEqual([]);
+  });
+});
+
+describe('schedule window monitoring', () => {
+  const at = (hours: number) => new Date(2026, 9, 19, hours, 0);
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: at(9) });
+    simulator.deviceActivity.setSelection('work', ['mail', 'slack']);
+    simulator.deviceActivity.setSelection('social', ['instagram', 'slack']);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('registers each window as a one-off interval', async () => {
+    const activityNames = await deviceActivityService.monitorScheduleWindows('work', block('work'), [
+      { start: at(10), end: at(12) },
+      { start: at(14), end: at(16) },
+    ]);
+
+    expect(activityNames).toEqual([`blocker_work_${at(10).getTime()}`, `blocker_work_${at(14).getTime()}`]);
+    expect(simulator.deviceActivity.getActivities().get(activityNames[1])?.schedule).toMatchObject({
+      intervalStart: { year: 2026, month: 10, day: 19, hour: 14, minute: 0 },
+      intervalEnd: { year: 2026, month: 10, day: 19, hour: 16, minute: 0 },
+      repeats: false,
+    });
+  });
+
+  it('replaces the windows registered before for the same schedule', async () => {
+    await deviceActivityService.monitorScheduleWindows('work', block('work'), [{ start: at(10), end: at(12) }]);
+
+    const activityNames = await deviceActivityService.monitorScheduleWindows('work', block('work'), [
+      { start: at(14), end: at(16) },
+    ]);
+
+    expect([...simulator.deviceActivity.getActivities().keys()]).toEqual(activityNames);
+  });
+
+  it('blocks the selection when a window starts and lifts it when it ends', async () => {
+    const [activityName] = await deviceActivityService.monitorScheduleWindows('work', block('work'), [
+      { start: at(10), end: at(12) },
+    ]);
+
+    jest.setSystemTime(at(10));
+    simulator.deviceActivity.triggerMonitorEvent(activityName, 'intervalDidStart');
+    expect(blockedApps()).toEqual(['mail', 'slack']);
+
+    jest.setSystemTime(at(12));
+    simulator.deviceActivity.triggerMonitorEvent(activityName, 'intervalDidEnd');
+    expect(blockedApps()).toEqual([]);
+  });
+
+  it('keeps apps of a window still running when an overlapping one ends', async () => {
+    const [workActivity] = await deviceActivityService.monitorScheduleWindows('work', block('work'), [
+      { start: at(10), end: at(14) },
+    ]);
+    const [socialActivity] = await deviceActivityService.monitorScheduleWindows('social', block('social'), [
+      { start: at(11), end: at(12) },
+    ]);
+    simulator.deviceActivity.triggerMonitorEvent(workActivity, 'intervalDidStart');
+    simulator.deviceActivity.triggerMonitorEvent(socialActivity, 'intervalDidStart');
+
+    jest.setSystemTime(at(12));
+    simulator.deviceActivity.triggerMonitorEvent(socialActivity, 'intervalDidEnd');
+
+    expect(blockedApps()).toEqual(['mail', 'slack']);
+  });
+
+  it('stops every window of a schedule and removes their actions', async () => {
+    const activityNames = await deviceActivityService.monitorScheduleWindows('work', block('work'), [
+      { start: at(10), end: at(12) },
+      { start: at(14), end: at(16) },
+    ]);
+
+    deviceActivityService.stopMonitoringSchedule('work');
+
+    expect(simulator.deviceActivity.getActivities().size).toBe(0);
+    activityNames.forEach((name) => {
+      expect(deviceActivityService.getSharedValue(`actions_for_${name}_intervalDidStart`)).toBeUndefined();
+    });
+  });
+
+  it('reports when the extension started and ended a window', async () => {
+    const [activityName] = await deviceActivityService.monitorScheduleWindows('work', block('work'), [
+      { start: at(10), end: at(12) },
+    ]);
+
+    jest.setSystemTime(at(10));
+    simulator.deviceActivity.triggerMonitorEvent(activityName, 'intervalDidStart');
+    expect(deviceActivityService.getScheduleMonitorState('work')).toEqual({ startedAt: at(10).getTime() });
+
+    jest.setSystemTime(at(12));
+    simulator.deviceActivity.triggerMonitorEvent(activityName, 'intervalDidEnd');
+    expect(deviceActivityService.getScheduleMonitorState('work')).toEqual({
+      startedAt: at(10).getTime(),
+      endedAt: at(12).getTime(),
+    });
+  });
+});
+
+describe('usage limits', () => {
+  const NOW = new Date(2026, 9, 19, 10, 0);
+  const limit: UsageLimit = {
+    id: 'social',
+    name: 'Social',
+    familyActivitySelectionId: 'social',
+    dailyMinutes: 12,
+    isActive: true,
+    createdAt: 0,
+  };
+  const activityName = getUsageLimitActivityName(limit.id);
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: NOW });
+    simulator.deviceActivity.setSelection('social', ['instagram', 'youtube']);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  function reachMinutes(minutes: number): void {
+    simulator.deviceActivity.triggerMonitorEvent(activityName, 'eventDidReachThreshold', String(minutes));
+  }
+
+  it('counts the day with a threshold every 5 minutes and one at the budget', async () => {
+    await deviceActivityService.setUsageLimits([limit]);
+
+    const activity = simulator.deviceActivity.getActivities().get(activityName);
+    expect(activity?.schedule).toEqual({
+      intervalStart: { hour: 0, minute: 0, second: 0 },
+      intervalEnd: { hour: 23, minute: 59, second: 59 },
+      repeats: true,
+    });
+    expect(activity?.events.map((event) => event.threshold)).toEqual([{ minute: 5 }, { minute: 10 }, { minute: 12 }]);
+  });
+
+  it('reports the minutes used today without shielding before the budget runs out', async () => {
+    await deviceActivityService.setUsageLimits([limit]);
+
+    reachMinutes(5);
+    reachMinutes(10);
+    deviceActivityService.applyBlocks([]);
+
+    expect(deviceActivityService.getUsageLimitProgress(limit)).toEqual({ usedMinutes: 10 });
+    expect(blockedApps()).toEqual([]);
+  });
+
+  it('shields the apps for the rest of the day once the budget is used up', async () => {
+    await deviceActivityService.setUsageLimits([limit]);
+
+    reachMinutes(12);
+    expect(blockedApps()).toEqual(['instagram', 'youtube']);
+
+    // The app lifting everything else keeps the reached limit shielded
+    deviceActivityService.applyBlocks([]);
+    expect(deviceActivityService.getUsageLimitProgress(limit)).toEqual({
+      usedMinutes: 12,
+      exceededAt: NOW.getTime(),
+    });
+    expect(blockedApps()).toEqual(['instagram', 'youtube']);
+  });
+
+  it('lifts the shield and starts counting again at midnight', async () => {
+    await deviceActivityService.setUsageLimits([limit]);
+    reachMinutes(12);
+
+    jest.setSystemTime(new Date(2026, 9, 20, 0, 0));
+    simulator.deviceActivity.triggerMonitorEvent(activityName, 'intervalDidStart');
+
+    expect(blockedApps()).toEqual([]);
+    expect(deviceActivityService.getUsageLimitProgress(limit)).toEqual({ usedMinutes: 0 });
+    expect(deviceActivityService.getUsageLimitExceededAt(limit)).toBe(NOW.getTime());
+
+    deviceActivityService.applyBlocks([]);
+    expect(blockedApps()).toEqual([]);
+  });
+
+  it('stops tracking a limit that is turned off', async () => {
+    await deviceActivityService.setUsageLimits([limit]);
+    reachMinutes(12);
+
+    await deviceActivityService.setUsageLimits([{ ...limit, isActive: false }]);
+    deviceActivityService.applyBlocks([]);
+
+    expect(simulator.deviceActivity.getActivities().has(activityName)).toBe(false);
+    expect(blockedApps()).toEqual([]);
+  });
+
+  it('does not track a limit without apps', async () => {
+    await deviceActivityService.setUsageLimits([{ ...limit, familyActivitySelectionId: 'empty' }]);
+
+    expect(simulator.deviceActivity.getActivities().size).toBe(0);
+  });
+});
+
+describe('shields shared by schedule windows and usage limits', () => {
+  const limit: UsageLimit = {
+    id: 'social',
+    name: 'Social',
+    familyActivitySelectionId: 'social',
+    dailyMinutes: 30,
+    isActive: true,
+    createdAt: 0,
+  };
+  const limitActivity = getUsageLimitActivityName(limit.id);
+
+  beforeEach(() => {
+    simulator.deviceActivity.setSelection('bedtime', ['instagram', 'tiktok']);
+    simulator.deviceActivity.setSelection('work', ['mail', 'instagram']);
+    simulator.deviceActivity.setSelection('social', ['instagram', 'youtube']);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  /** Register one window and let the extension start it */
+  async function startWindow(scheduleId: string, rule: BlockRule, start: Date, end: Date): Promise<string> {
+    await deviceActivityService.monitorScheduleWindows(scheduleId, rule, [{ start, end }]);
+    const activityName = `${getScheduleActivityPrefix(scheduleId)}${start.getTime()}`;
+    simulator.deviceActivity.triggerMonitorEvent(activityName, 'intervalDidStart');
+    return activityName;
+  }
+
+  /** Let the extension record the limit running out and shield its apps */
+  function reachLimit(): void {
+    simulator.deviceActivity.triggerMonitorEvent(limitActivity, 'eventDidReachThreshold', String(limit.dailyMinutes));
+  }
+
+  it('keeps apps of an overnight window shielded when the limit resets at midnight', async () => {
+    jest.useFakeTimers({ now: new Date(2026, 9, 19, 21, 0) });
+    await deviceActivityService.setUsageLimits([limit]);
+    reachLimit();
+    await startWindow('bedtime', block('bedtime'), new Date(2026, 9, 19, 22, 0), new Date(2026, 9, 20, 6, 0));
+    expect(blockedApps()).toEqual(['instagram', 'tiktok', 'youtube']);
+
+    jest.setSystemTime(new Date(2026, 9, 20, 0, 0));
+    simulator.deviceActivity.triggerMonitorEvent(limitActivity, 'intervalDidStart');
+
+    expect(blockedApps()).toEqual(['instagram', 'tiktok']);
+  });
+
+  it('lifts the whole limit at midnight once shared windows have ended', async () => {
+    jest.useFakeTimers({ now: new Date(2026, 9, 19, 10, 0) });
+    await deviceActivityService.setUsageLimits([limit]);
+    const activityName = await startWindow(
+      'work',
+      block('work'),
+      new Date(2026, 9, 19, 10, 0),
+      new Date(2026, 9, 19, 12, 0)
+    );
+    reachLimit();
+    deviceActivityService.refreshReleaseActions();
+    jest.setSystemTime(new Date(2026, 9, 19, 12, 0));
+    simulator.deviceActivity.triggerMonitorEvent(activityName, 'intervalDidEnd');
+
+    jest.setSystemTime(new Date(2026, 9, 20, 0, 0));
+    simulator.deviceActivity.triggerMonitorEvent(limitActivity, 'intervalDidStart');
+
+    expect(blockedApps()).toEqual([]);
+  });
+
+  it('keeps apps of a reached limit shielded when a window ends', async () => {
+    jest.useFakeTimers({ now: new Date(2026, 9, 19, 10, 0) });
+    await deviceActivityService.setUsageLimits([limit]);
+    const activityName = await startWindow(
+      'work',
+      block('work'),
+      new Date(2026, 9, 19, 10, 0),
+      new Date(2026, 9, 19, 12, 0)
+    );
+    reachLimit();
+    // The app records the reached limit when it next runs
+    deviceActivityService.refreshReleaseActions();
+
+    jest.setSystemTime(new Date(2026, 9, 19, 12, 0));
+    simulator.deviceActivity.triggerMonitorEvent(activityName, 'intervalDidEnd');
+
+    expect(blockedApps()).toEqual(['instagram', 'youtube']);
+  });
+
+  it('lifts the whole window when no limit is reached', async () => {
+    jest.useFakeTimers({ now: new Date(2026, 9, 19, 10, 0) });
+    await deviceActivityService.setUsageLimits([limit]);
+    const activityName = await startWindow(
+      'work',
+      block('work'),
+      new Date(2026, 9, 19, 10, 0),
+      new Date(2026, 9, 19, 12, 0)
+    );
+
+    jest.setSystemTime(new Date(2026, 9, 19, 12, 0));
+    simulator.deviceActivity.triggerMonitorEvent(activityName, 'intervalDidEnd');
+
+    expect(blockedApps()).toEqual([]);
+  });
+
+  it('shields a reached limit again when an allow window ends', async () => {
+    jest.useFakeTimers({ now: new Date(2026, 9, 19, 10, 0) });
+    await deviceActivityService.setUsageLimits([limit]);
+    reachLimit();
+    // Entering allow mode empties the blocklist
+    deviceActivityService.applyBlocks([allow('work')]);
+    const activityName = await startWindow(
+      'work',
+      allow('work'),
+      new Date(2026, 9, 19, 10, 0),
+      new Date(2026, 9, 19, 12, 0)
+    );
+
+    jest.setSystemTime(new Date(2026, 9, 19, 12, 0));
+    simulator.deviceActivity.triggerMonitorEvent(activityName, 'intervalDidEnd');
+
+    expect(simulator.deviceActivity.getShieldState()).toEqual({
+      isBlockingAll: false,
+      blockedApps: ['instagram', 'youtube'],
+      allowedApps: [],
+    });
+  });
+});
+
+describe('web domains of schedule windows', () => {
+  const work: BlockRule = { ...block('work'), webDomains: ['reddit.com'] };
+  const focus: BlockRule = { ...block('focus'), webDomains: ['news.com', 'reddit.com'] };
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date(2026, 9, 19, 10, 0) });
+    simulator.deviceActivity.setSelection('work', ['mail']);
+    simulator.deviceActivity.setSelection('focus', ['slack']);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  async function monitorWindow(scheduleId: string, rule: BlockRule, start: Date, end: Date): Promise<string> {
+    const [activityName] = await deviceActivityService.monitorScheduleWindows(scheduleId, rule, [{ start, end }]);
+    return activityName;
+  }
+
+  it('shields the domains when a window starts and lifts them when it ends', async () => {
+    const activityName = await monitorWindow('work', work, new Date(2026, 9, 19, 10, 0), new Date(2026, 9, 19, 12, 0));
+
+    simulator.deviceActivity.triggerMonitorEvent(activityName, 'intervalDidStart');
+    expect(WebDomainsModule.getBlockedDomains()).toEqual(['reddit.com']);
+
+    jest.setSystemTime(new Date(2026, 9, 19, 12, 0));
+    simulator.deviceActivity.triggerMonitorEvent(activityName, 'intervalDidEnd');
+    expect(WebDomainsModule.getBlockedDomains()).toEqual([]);
+  });
+
+  it('keeps the domains of a window still running when another one ends', async () => {
+    const workActivity = await monitorWindow('work', work, new Date(2026, 9, 19, 10, 0), new Date(2026, 9, 19, 14, 0));
+    const focusActivity = await monitorWindow(
+      'focus',
+      focus,
+      new Date(2026, 9, 19, 11, 0),
+      new Date(2026, 9, 19, 12, 0)
+    );
+    simulator.deviceActivity.triggerMonitorEvent(workActivity, 'intervalDidStart');
+
+    jest.setSystemTime(new Date(2026, 9, 19, 11, 0));
+    simulator.deviceActivity.triggerMonitorEvent(focusActivity, 'intervalDidStart');
+    expect(WebDomainsModule.getBlockedDomains()).toEqual(['reddit.com', 'news.com']);
+
+    jest.setSystemTime(new Date(2026, 9, 19, 12, 0));
+    simulator.deviceActivity.triggerMonitorEvent(focusActivity, 'intervalDidEnd');
+    expect(WebDomainsModule.getBlockedDomains()).toEqual(['reddit.com']);
+  });
+
+  it('leaves the domains alone when a window without domains ends', async () => {
+    const activityName = await monitorWindow(
+      'games',
+      block('games'),
+      new Date(2026, 9, 19, 10, 0),
+      new Date(2026, 9, 19, 11, 0)
+    );
+    deviceActivityService.applyBlocks([work]);
+
+    jest.setSystemTime(new Date(2026, 9, 19, 11, 0));
+    simulator.deviceActivity.triggerMonitorEvent(activityName, 'intervalDidEnd');
+
+    expect(WebDomainsModule.getBlockedDomains()).toEqual(['reddit.com']);
+  });
+
+  it('shields the domains again when a pause ends', async () => {
+    deviceActivityService.applyBlocks([]);
+    await deviceActivityService.monitorPauseEnd([work, focus], new Date(2026, 9, 19, 10, 15));
+    const [pauseActivity] = simulator.deviceActivity.getActivities().keys();
+
+    jest.setSystemTime(new Date(2026, 9, 19, 10, 15));
+    simulator.deviceActivity.triggerMonitorEvent(pauseActivity, 'intervalDidStart');
+
+    expect(WebDomainsModule.getBlockedDomains()).toEqual(['reddit.com', 'news.com']);
+    expect(blockedApps()).toEqual(['mail', 'slack']);
+  });
+});
+
+describe('open limits', () => {
+  const NOW = new Date(2026, 9, 19, 10, 0);
+  const rule: OpenLimitRule = { limitId: 'feeds', familyActivitySelectionId: 'social', maxOpens: 2, opensUsed: 0 };
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: NOW });
+    simulator.deviceActivity.setSelection('social', ['instagram', 'youtube']);
+    simulator.deviceActivity.setSelection('video', ['youtube']);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  /** What the shield's open button does: lift the apps and start the open's activity */
+  function openFromShield(open: number): void {
+    DeviceActivityModule.unblockSelection({ activitySelectionId: 'opens_feeds_release' });
+    simulator.deviceActivity.triggerMonitorEvent(`opens_feeds_open_${open}`, 'intervalDidStart');
+  }
+
+  it('offers an open on the shield until the last one is used', async () => {
+    await deviceActivityService.setOpenLimits([rule]);
+
+    expect(deviceActivityService.getSharedValue<ShieldActions>('shieldActions_opens_feeds_1')?.secondary).toEqual({
+      behavior: 'defer',
+      actions: [
+        { type: 'unblockSelection', familyActivitySelectionId: 'opens_feeds_release' },
+        {
+          type: 'startMonitoring',
+          activityName: 'opens_feeds_open_2',
+          deviceActivityEvents: [],
+          intervalStartDelayMs: 0,
+          intervalEndDelayMs: 15 * 60 * 1000,
+        },
+      ],
+    });
+    expect(deviceActivityService.getSharedValue<ShieldActions>('shieldActions_opens_feeds_2')).toEqual({
+      primary: { behavior: 'close' },
+    });
+  });
+
+  it('counts opens started from the shield and shields the apps again when they end', async () => {
+    await deviceActivityService.setOpenLimits([rule]);
+    deviceActivityService.applyBlocks([]);
+    expect(blockedApps()).toEqual(['instagram', 'youtube']);
+
+    openFromShield(1);
+    deviceActivityService.applyBlocks([]);
+
+    expect(deviceActivityService.getCountedOpens('feeds', 2)).toEqual({
+      opens: 1,
+      openUntil: NOW.getTime() + 15 * 60 * 1000,
+    });
+    expect(blockedApps()).toEqual([]);
+
+    jest.setSystemTime(new Date(2026, 9, 19, 10, 15));
+    simulator.deviceActivity.triggerMonitorEvent('opens_feeds_open_1', 'intervalDidEnd');
+    deviceActivityService.applyBlocks([]);
+
+    expect(blockedApps()).toEqual(['instagram', 'youtube']);
+    expect(deviceActivityService.getSharedValue('shieldActionsForSelection_social')).toEqual(
+      deviceActivityService.getSharedValue('shieldActions_opens_feeds_1')
+    );
+  });
+
+  it('starts counting again the next day', async () => {
+    await deviceActivityService.setOpenLimits([rule]);
+    openFromShield(1);
+
+    jest.setSystemTime(new Date(2026, 9, 20, 0, 0));
+    simulator.deviceActivity.triggerMonitorEvent('opens_feeds_day_social', 'intervalDidStart');
+
+    expect(deviceActivityService.getCountedOpens('feeds', 2)).toEqual({ opens: 0 });
+    expect(blockedApps()).toEqual(['instagram', 'youtube']);
+  });
+
+  it('keeps apps of a reached usage limit shielded during an open', async () => {
+    const limit: UsageLimit = {
+      id: 'video',
+      name: 'Video',
+      familyActivitySelectionId: 'video',
+      dailyMinutes: 30,
+      isActive: true,
+      createdAt: 0,
+    };
+    await deviceActivityService.setUsageLimits([limit]);
+    simulator.deviceActivity.triggerMonitorEvent(getUsageLimitActivityName(limit.id), 'eventDidReachThreshold', '30');
+    await deviceActivityService.setOpenLimits([rule]);
+    deviceActivityService.applyBlocks([]);
+
+    openFromShield(1);
+
+    expect(blockedApps()).toEqual(['youtube']);
+  });
+});
@@ -0,0 +1,266 @@
+/**
+ * Schedule Engine Tests
+ *
+ * Runs in America/New_York (see jest.config.js), where DST starts on
+ * 2026-03-08 and ends on 2026-11-01. 2026-10-16 is a Friday.
+ */
+
+import {
+  getNextOccurrence,
+  isMinuteInRange,
+  ScheduleEngine,
+  timeToMinutes,
+} from '@/services/schedule-engine';
+import { makeSchedule } from '@/test-utils/fixtures';
+import type { BlockerSchedule } from '@/types/blocker';
+
+const HOUR = 60 * 60 * 1000;
+
+/** Local time; month is 1-based */
+function at(year: number, month: number, day: number, hours = 0, minutes = 0): Date {
+  return new Date(year, month - 1, day, hours, minutes);
+}
+
+function statusAt(schedule: BlockerSchedule, date: Date) {
+  return new ScheduleEngine(() => date).getScheduleTimeStatus(schedule);
+}
+
+describe('isMinuteInRange', () => {
+  it('includes the start and excludes the end', () => {
+    expect(isMinuteInRange(timeToMinutes('09:00'), '09:00', '17:00')).toBe(true);
+    expect(isMinuteInRange(timeToMinutes('16:59'), '09:00', '17:00')).toBe(true);
+    expect(isMinuteInRange(timeToMinutes('17:00'), '09:00', '17:00')).toBe(false);
+  });
+
+  it('wraps ranges that cross midnight', () => {
+    expect(isMinuteInRange(timeToMinutes('23:30'), '22:00', '06:00')).toBe(true);
+    expect(isMinuteInRange(timeToMinutes('00:00'), '22:00', '06:00')).toBe(true);
+    expect(isMinuteInRange(timeToMinutes('05:59'), '22:00', '06:00')).toBe(true);
+    expect(isMinuteInRange(timeToMinutes('06:00'), '22:00', '06:00')).toBe(false);
+    expect(isMinuteInRange(timeToMinutes('21:59'), '22:00', '06:00')).toBe(false);
+  });
+});
+
+describe('getScheduleTimeStatus', () => {
+  describe('same-day window', () => {
+    const schedule = makeSchedule();
+
+    it.each([
+      ['before the start', 'waiting', at(2026, 10, 19, 8, 59)],
+      ['at the start', 'active', at(2026, 10, 19, 9, 0)],
+      ['just before the end', 'active', at(2026, 10, 19, 16, 59)],
+      ['at the end', 'ended', at(2026, 10, 19, 17, 0)],
+      ['on a day it does not run', 'wrong_day', at(2026, 10, 17, 10, 0)],
+    ])('%s → %s', (_label, expected, date) => {
+      expect(statusAt(schedule, date)).toBe(expected);
+    });
+  });
+
+  describe('overnight window', () => {
+    const schedule = makeSchedule({ startTime: '22:00', endTime: '06:00', daysOfWeek: [5] });
+
+    it.each([
+      ['Fri 21:59', 'waiting', at(2026, 10, 16, 21, 59)],
+      ['Fri 22:00', 'active', at(2026, 10, 16, 22, 0)],
+      ['Fri 23:59', 'active', at(2026, 10, 16, 23, 59)],
+      ['Sat 00:00', 'active', at(2026, 10, 17, 0, 0)],
+      ['Sat 01:00', 'active', at(2026, 10, 17, 1, 0)],
+      ['Sat 05:59', 'active', at(2026, 10, 17, 5, 59)],
+      ['Sat 06:00', 'wrong_day', at(2026, 10, 17, 6, 0)],
+      ['Thu 23:00', 'wrong_day', at(2026, 10, 15, 23, 0)],
+    ])('at %s is %s', (_label, expected, date) => {
+      expect(statusAt(schedule, date)).toBe(expected);
+    });
+
+    it('keeps the tail of the previous night when the next day also runs', () => {
+      const nightly = makeSchedule({ startTime: '22:00', endTime: '06:00', daysOfWeek: [5, 6] });
+
+      expect(statusAt(nightly, at(2026, 10, 17, 5, 0))).toBe('active');
+      expect(statusAt(nightly, at(2026, 10, 17, 6, 0))).toBe('waiting');
+      expect(statusAt(nightly, at(2026, 10, 17, 22, 0))).toBe('active');
+    });
+
+    it('does not cut the tail short when the next day is an exception', () => {
+      const withException = makeSchedule({
+        startTime: '22:00',
+        endTime: '06:00',
+        daysOfWeek: [5, 6],
+        exceptionDates: ['2026-10-17'],
+      });
+
+      expect(statusAt(withException, at(2026, 10, 17, 1, 0))).toBe('active');
+      expect(statusAt(withException, at(2026, 10, 17, 22, 0))).toBe('wrong_day');
+    });
+  });
+
+  describe('midnight boundary', () => {
+    const schedule = makeSchedule({ startTime: '22:00', endTime: '00:00', daysOfWeek: [5] });
+
+    it('ends exactly at midnight', () => {
+      expect(statusAt(schedule, at(2026, 10, 16, 23, 59))).toBe('active');
+      expect(statusAt(schedule, at(2026, 10, 17, 0, 0))).toBe('wrong_day');
+    });
+
+    it('starts exactly at midnight', () => {
+      const early = makeSchedule({ startTime: '00:00', endTime: '02:00', daysOfWeek: [6] });
+
+      expect(statusAt(early, at(2026, 10, 16, 23, 59))).toBe('wrong_day');
+      expect(statusAt(early, at(2026, 10, 17, 0, 0))).toBe('active');
+      expect(statusAt(early, at(2026, 10, 17, 2, 0))).toBe('ended');
+    });
+  });
+
+  describe('week boundary', () => {
+    const schedule = makeSchedule({ startTime: '23:00', endTime: '02:00', daysOfWeek: [6] });
+
+    it('carries a Saturday night window into Sunday', () => {
+      expect(statusAt(schedule, at(2026, 10, 17, 23, 0))).toBe('active');
+      expect(statusAt(schedule, at(2026, 10, 18, 0, 30))).toBe('active');
+      expect(statusAt(schedule, at(2026, 10, 18, 2, 0))).toBe('wrong_day');
+    });
+
+    it('finds next week\'s window from Sunday', () => {
+      const occurrence = new ScheduleEngine(() => at(2026, 10, 18, 12, 0)).getUpcomingOccurrence(schedule);
+
+      expect(occurrence?.start).toEqual(at(2026, 10, 24, 23, 0));
+      expect(occurrence?.end).toEqual(at(2026, 10, 25, 2, 0));
+    });
+  });
+
+  describe('DST transitions', () => {
+    it('keeps wall-clock times over the spring-forward night', () => {
+      const schedule = makeSchedule({ startTime: '22:00', endTime: '06:00', daysOfWeek: [6] });
+      const occurrence = getNextOccurrence(schedule, at(2026, 3, 7, 12, 0));
+
+      expect(occurrence?.start).toEqual(at(2026, 3, 7, 22, 0));
+      expect(occurrence?.end.getHours()).toBe(6);
+      // 02:00 - 03:00 does not exist that night
+      expect(occurrence!.end.getTime() - occurrence!.start.getTime()).toBe(7 * HOUR);
+
+      expect(statusAt(schedule, at(2026, 3, 8, 3, 30))).toBe('active');
+      expect(statusAt(schedule, at(2026, 3, 8, 5, 59))).toBe('active');
+      expect(statusAt(schedule, at(2026, 3, 8, 6, 0))).toBe('wrong_day');
+    });
+
+    it('keeps wall-clock times over the fall-back night', () => {
+      const schedule = makeSchedule({ startTime: '22:00', endTime: '06:00', daysOfWeek: [6] });
+      const occurrence = getNextOccurrence(schedule, at(2026, 10, 31, 12, 0));
+
+      expect(occurrence?.start).toEqual(at(2026, 10, 31, 22, 0));
+      expect(occurrence?.end.getHours()).toBe(6);
+      // 01:00 - 02:00 happens twice that night
+      expect(occurrence!.end.getTime() - occurrence!.start.getTime()).toBe(9 * HOUR);
+
+      const repeatedHour = new Date(at(2026, 11, 1, 1, 30).getTime() + HOUR);
+      expect(repeatedHour.getHours()).toBe(1);
+      expect(statusAt(schedule, repeatedHour)).toBe('active');
+      expect(statusAt(schedule, at(2026, 11, 1, 6, 0))).toBe('wrong_day');
+    });
+
+    it('runs a same-day window at its wall-clock time on the DST day', () => {
+      const schedule = makeSchedule({ startTime: '09:00', endTime: '17:00', daysOfWeek: [0] });
+
+      expect(statusAt(schedule, at(2026, 3, 8, 8, 59))).toBe('waiting');
+      expect(statusAt(schedule, at(2026, 3, 8, 9, 0))).toBe('active');
+      expect(statusAt(schedule, at(2026, 11, 1, 17, 0))).toBe('ended');
+    });
+  });
+
+  it('treats disabled schedules and schedules without apps as ended', () => {
+    const now = at(2026, 10, 19, 10, 0);
+
+    expect(statusAt(makeSchedule({ isActive: false }), now)).toBe('ended');
+    expect(statusAt(makeSchedule({ familyActivitySelectionId: undefined }), now)).toBe('ended');
+  });
+});
+
+describe('weekday boundaries', () => {
+  const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+  // 2026-10-18 is a Sunday, so day N of that week is the 18th + N
+  const startDays = DAY_NAMES.map((name, day) => ({ name, day, date: 18 + day }));
+
+  function evaluateAt(schedule: BlockerSchedule, date: Date, active: string[], waiting: string[]) {
+    return new ScheduleEngine(() => date).evaluate([schedule], {
+      activeScheduleIds: active,
+      waitingScheduleIds: waiting,
+    });
+  }
+
+  describe.each(startDays)('overnight window starting on $name', ({ day, date }) => {
+    const schedule = makeSchedule({ startTime: '22:00', endTime: '06:00', daysOfWeek: [day] });
+    const start = at(2026, 10, date, 22, 0);
+    const afterMidnight = at(2026, 10, date + 1, 0, 1);
+    const end = at(2026, 10, date + 1, 6, 0);
+
+    it('starts on its own day', () => {
+      expect(start.getDay()).toBe(day);
+      expect(statusAt(schedule, at(2026, 10, date, 21, 59))).toBe('waiting');
+      expect(statusAt(schedule, start)).toBe('active');
+    });
+
+    it('is active just after midnight on the next day, which is not listed', () => {
+      expect(afterMidnight.getDay()).toBe((day + 1) % 7);
+      expect(statusAt(schedule, afterMidnight)).toBe('active');
+      expect(statusAt(schedule, at(2026, 10, date + 1, 5, 59))).toBe('active');
+    });
+
+    it('promotes a waiting schedule at its start', () => {
+      const before = evaluateAt(schedule, at(2026, 10, date, 21, 59), [], [schedule.id]);
+      expect(before.hasChanges).toBe(false);
+      expect(before.waitingScheduleIds).toEqual([schedule.id]);
+
+      const evaluation = evaluateAt(schedule, start, [], [schedule.id]);
+      expect(evaluation.transitions).toEqual([{ type: 'activate', scheduleId: schedule.id, status: 'active' }]);
+      expect(evaluation.activeScheduleIds).toEqual([schedule.id]);
+      expect(evaluation.waitingScheduleIds).toEqual([]);
+    });
+
+    it('keeps an active schedule running past midnight', () => {
+      const evaluation = evaluateAt(schedule, afterMidnight, [schedule.id], []);
+
+      expect(evaluation.hasChanges).toBe(false);
+      expect(evaluation.activeScheduleIds).toEqual([schedule.id]);
+    });
+
+    it('ends an active schedule at the end of the window', () => {
+      const evaluation = evaluateAt(schedule, end, [schedule.id], []);
+
+      expect(evaluation.transitions).toEqual([{ type: 'end', scheduleId: schedule.id, status: 'wrong_day' }]);
+      expect(evaluation.activeScheduleIds).toEqual([]);
+      expect(evaluation.waitingScheduleIds).toEqual([]);
+    });
+
+    it('expires a waiting schedule that missed the window', () => {
+      const evaluation = evaluateAt(schedule, end, [], [schedule.id]);
+
+      expect(evaluation.transitions).toEqual([{ type: 'expire', scheduleId: schedule.id, status: 'wrong_day' }]);
+      expect(evaluation.waitingScheduleIds).toEqual([]);
+    });
+  });
+
+  it('suspends an active schedule until a later window the same day', () => {
+    const schedule = makeSchedule({
+      daysOfWeek: [6],
+      windows: [
+        { startTime: '22:00', endTime: '06:00', daysOfWeek: [5] },
+        { startTime: '20:00', endTime: '23:00', daysOfWeek: [6] },
+      ],
+    });
+    const evaluation = new ScheduleEngine(() => at(2026, 10, 24, 6, 0)).evaluate([schedule], {
+      activeScheduleIds: [schedule.id],
+      waitingScheduleIds: [],
+    });
+
+    expect(evaluation.transitions).toEqual([{ type: 'suspend', scheduleId: schedule.id, status: 'waiting' }]);
+    expect(evaluation.waitingScheduleIds).toEqual([schedule.id]);
+  });
+
+  it('ends schedules that were deleted', () => {
+    const evaluation = new ScheduleEngine(() => at(2026, 10, 19, 10, 0)).evaluate([], {
+      activeScheduleIds: ['gone'],
+      waitingScheduleIds: [],
+    });
+
+    expect(evaluation.transitions).toEqual([{ type: 'end', scheduleId: 'gone', status: 'missing' }]);
+  });
+});
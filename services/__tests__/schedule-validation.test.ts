@@ -0,0 +1,186 @@
+import {
+  buildWeekTimeline,
+  findScheduleOverlaps,
+  getScheduleProblems,
+  isValidationNeeded,
+} from '@/services/schedule-validation';
+import { makeSchedule } from '@/test-utils/fixtures';
+import type { BlockerSchedule } from '@/types/blocker';
+
+const NOW = new Date(2026, 9, 19, 12, 0);
+
+describe('isValidationNeeded', () => {
+  const pastOneOff = makeSchedule({ date: '2026-10-01', daysOfWeek: [] });
+  const endedRange = makeSchedule({ dateRange: { start: '2026-09-01', end: '2026-09-30' } });
+
+  it.each([
+    ['renaming', { name: 'Renamed' }],
+    ['disabling', { isActive: false }],
+    ['changing the shield look', { shieldAppearance: undefined }],
+    ['saving the same dates again', { date: '2026-10-01', daysOfWeek: [] }],
+  ])('skips a past one-off when %s', (_label, updates: Partial<BlockerSchedule>) => {
+    const updated = { ...pastOneOff, ...updates };
+
+    expect(getScheduleProblems(updated, NOW)).toContain('The date has already passed.');
+    expect(isValidationNeeded(pastOneOff, updated)).toBe(false);
+  });
+
+  it('skips an ended date range when renamed', () => {
+    expect(isValidationNeeded(endedRange, { ...endedRange, name: 'Renamed' })).toBe(false);
+  });
+
+  it.each([
+    ['the date', { date: '2026-10-02' }],
+    ['the date range', { dateRange: { start: '2026-09-01', end: '2026-10-31' } }],
+    ['the times', { startTime: '10:00' }],
+    ['the days', { daysOfWeek: [1] }],
+    ['the windows', { windows: [{ startTime: '10:00', endTime: '11:00', daysOfWeek: [1] }] }],
+    ['the exception dates', { exceptionDates: ['2026-10-20'] }],
+  ])('validates a change of %s', (_label, updates: Partial<BlockerSchedule>) => {
+    expect(isValidationNeeded(pastOneOff, { ...pastOneOff, ...updates })).toBe(true);
+  });
+
+  it('validates turning a schedule back on', () => {
+    const disabled = { ...pastOneOff, isActive: false };
+
+    expect(isValidationNeeded(disabled, { ...disabled, isActive: true })).toBe(true);
+  });
+});
+
+describe('getScheduleProblems', () => {
+  it('accepts a weekly schedule', () => {
+    expect(getScheduleProblems(makeSchedule(), NOW)).toEqual([]);
+  });
+
+  it('rejects a window that starts and ends at the same time', () => {
+    expect(getScheduleProblems(makeSchedule({ endTime: '09:00' }), NOW)).toEqual([
+      'The 09:00 window starts and ends at the same time.',
+    ]);
+  });
+
+  it('rejects a weekly schedule without days', () => {
+    expect(getScheduleProblems(makeSchedule({ daysOfWeek: [] }), NOW)).toEqual(['Pick at least one day.']);
+  });
+
+  it('asks for days on every window', () => {
+    const windows = [
+      { startTime: '09:00', endTime: '12:00', daysOfWeek: [1] },
+      { startTime: '13:00', endTime: '17:00', daysOfWeek: [] },
+    ];
+
+    expect(getScheduleProblems(makeSchedule({ windows }), NOW)).toEqual(['Pick at least one day for every window.']);
+  });
+
+  it('rejects a one-off date that has passed', () => {
+    expect(getScheduleProblems(makeSchedule({ date: '2026-10-18', daysOfWeek: [] }), NOW)).toEqual([
+      'The date has already passed.',
+    ]);
+  });
+
+  it('rejects a one-off today whose window is over', () => {
+    expect(
+      getScheduleProblems(makeSchedule({ date: '2026-10-19', daysOfWeek: [], endTime: '10:00' }), NOW)
+    ).toEqual(['This schedule has no upcoming window with these dates and times.']);
+  });
+
+  it('rejects an inverted date range', () => {
+    expect(getScheduleProblems(makeSchedule({ dateRange: { start: '2026-10-30', end: '2026-10-20' } }), NOW)).toEqual([
+      'The first date must not be after the last date.',
+    ]);
+  });
+
+  it('rejects a date range that has ended', () => {
+    expect(getScheduleProblems(makeSchedule({ dateRange: { start: '2026-10-01', end: '2026-10-18' } }), NOW)).toEqual([
+      'The date range has already ended.',
+    ]);
+  });
+
+  it('rejects a date range whose every date is skipped', () => {
+    const schedule = makeSchedule({
+      dateRange: { start: '2026-10-20', end: '2026-10-21' },
+      exceptionDates: ['2026-10-20', '2026-10-21'],
+    });
+
+    expect(getScheduleProblems(schedule, NOW)).toEqual([
+      'This schedule has no upcoming window with these dates and times.',
+    ]);
+  });
+
+  it('lets a disabled schedule without upcoming windows be saved', () => {
+    const schedule = makeSchedule({ isActive: false, date: '2026-10-19', daysOfWeek: [], endTime: '10:00' });
+
+    expect(getScheduleProblems(schedule, NOW)).toEqual([]);
+  });
+});
+
+describe('findScheduleOverlaps', () => {
+  const schedule = makeSchedule();
+
+  it('reports the first shared stretch with another schedule', () => {
+    const evening = makeSchedule({ id: 'evening', startTime: '16:00', endTime: '18:00' });
+
+    expect(findScheduleOverlaps(schedule, [evening], NOW)).toEqual([
+      { schedule: evening, start: new Date(2026, 9, 19, 16, 0), end: new Date(2026, 9, 19, 17, 0) },
+    ]);
+  });
+
+  it('finds an overlap inside an overnight window', () => {
+    const fridayNight = makeSchedule({ startTime: '22:00', endTime: '02:00', daysOfWeek: [5] });
+    const saturdayEarly = makeSchedule({ id: 'early', startTime: '01:00', endTime: '03:00', daysOfWeek: [6] });
+
+    expect(findScheduleOverlaps(fridayNight, [saturdayEarly], NOW)).toEqual([
+      { schedule: saturdayEarly, start: new Date(2026, 9, 24, 1, 0), end: new Date(2026, 9, 24, 2, 0) },
+    ]);
+  });
+
+  it('ignores back-to-back windows, disabled schedules and the schedule itself', () => {
+    const others = [
+      makeSchedule({ id: 'after', startTime: '17:00', endTime: '19:00' }),
+      makeSchedule({ id: 'disabled', isActive: false }),
+      makeSchedule({ startTime: '10:00' }),
+    ];
+
+    expect(findScheduleOverlaps(schedule, others, NOW)).toEqual([]);
+  });
+});
+
+describe('buildWeekTimeline', () => {
+  it('lays out a week starting today', () => {
+    const days = buildWeekTimeline(makeSchedule(), [], NOW);
+
+    expect(days).toHaveLength(7);
+    expect(days[0].date).toEqual(new Date(2026, 9, 19));
+    expect(days.map((day) => day.segments.length)).toEqual([1, 1, 1, 1, 1, 0, 0]);
+  });
+
+  it('splits a day into new, overlapping and existing stretches', () => {
+    const morning = makeSchedule({ startTime: '09:00', endTime: '12:00', daysOfWeek: [1] });
+    const midday = makeSchedule({ id: 'midday', startTime: '11:00', endTime: '14:00', daysOfWeek: [1] });
+
+    expect(buildWeekTimeline(morning, [midday], NOW)[0].segments).toEqual([
+      { kind: 'new', startMinutes: 540, endMinutes: 660 },
+      { kind: 'overlap', startMinutes: 660, endMinutes: 720 },
+      { kind: 'existing', startMinutes: 720, endMinutes: 840 },
+    ]);
+  });
+
+  it('merges back-to-back stretches of the same kind', () => {
+    const others = [
+      makeSchedule({ id: 'first', startTime: '13:00', endTime: '14:00', daysOfWeek: [1] }),
+      makeSchedule({ id: 'second', startTime: '14:00', endTime: '15:00', daysOfWeek: [1] }),
+    ];
+
+    expect(buildWeekTimeline(makeSchedule({ daysOfWeek: [2] }), others, NOW)[0].segments).toEqual([
+      { kind: 'existing', startMinutes: 780, endMinutes: 900 },
+    ]);
+  });
+
+  it('splits an overnight window at midnight', () => {
+    const lateNight = makeSchedule({ startTime: '22:00', endTime: '02:00', daysOfWeek: [1] });
+
+    const days = buildWeekTimeline(lateNight, [], NOW);
+
+    expect(days[0].segments).toEqual([{ kind: 'new', startMinutes: 1320, endMinutes: 1440 }]);
+    expect(days[1].segments).toEqual([{ kind: 'new', startMinutes: 0, endMinutes: 120 }]);
+  });
+});
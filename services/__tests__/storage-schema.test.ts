@@ -0,0 +1,163 @@
+import {
+  CURRENT_SCHEMA_VERSION,
+  runMigrations,
+  validateBlockerState,
+  validateSchedule,
+  validateSession,
+} from '@/services/storage-schema';
+import { makeSchedule } from '@/test-utils/fixtures';
+import type { BlockingSession } from '@/types/blocker';
+
+describe('runMigrations', () => {
+  it('moves a legacy currentScheduleId into activeScheduleIds', () => {
+    const { state } = runMigrations(
+      { state: { isBlocking: true, currentScheduleId: 'work', savedTime: 12 }, schedules: [] },
+      0
+    );
+
+    expect(state).toMatchObject({
+      isBlocking: true,
+      isPaused: false,
+      savedTime: 12,
+      activeScheduleIds: ['work'],
+      waitingScheduleIds: [],
+    });
+    expect(validateBlockerState(state)).toEqual([]);
+  });
+
+  it('leaves activeScheduleIds empty for a legacy state that was not blocking', () => {
+    const { state } = runMigrations({ state: { isBlocking: false, currentScheduleId: 'work' }, schedules: [] }, 0);
+
+    expect(state).toMatchObject({ activeScheduleIds: [], savedTime: 0 });
+  });
+
+  it('fills a missing name and isActive on legacy schedules', () => {
+    const { id, startTime, endTime, daysOfWeek } = makeSchedule();
+
+    const { schedules } = runMigrations({ state: null, schedules: [{ id, startTime, endTime, daysOfWeek }] }, 0);
+
+    expect(schedules).toEqual([{ id, startTime, endTime, daysOfWeek, name: '', isActive: true }]);
+  });
+
+  it('turns a string pausedAt into a timestamp', () => {
+    const pausedAt = new Date(2026, 9, 19, 10, 0);
+
+    const { state } = runMigrations(
+      {
+        state: {
+          isBlocking: true,
+          isPaused: true,
+          savedTime: 0,
+          activeScheduleIds: ['work'],
+          waitingScheduleIds: [],
+          pausedAt: pausedAt.toISOString(),
+          pauseEndsAt: pausedAt.getTime() + 5 * 60 * 1000,
+        },
+        schedules: [],
+      },
+      1
+    );
+
+    expect(state).toMatchObject({ isPaused: true, pausedAt: pausedAt.getTime() });
+    expect(validateBlockerState(state)).toEqual([]);
+  });
+
+  it('drops a pause without an end time', () => {
+    const { state } = runMigrations(
+      {
+        state: {
+          isBlocking: true,
+          isPaused: true,
+          savedTime: 0,
+          activeScheduleIds: [],
+          waitingScheduleIds: [],
+          pausedAt: '2026-10-19T14:00:00.000Z',
+        },
+        schedules: [],
+      },
+      1
+    );
+
+    expect(state).toMatchObject({ isPaused: false, pausedAt: undefined, pauseEndsAt: undefined });
+    expect(validateBlockerState(state)).toEqual([]);
+  });
+
+  it('skips steps the data already went through', () => {
+    const payload = { state: { isBlocking: false }, schedules: [] };
+
+    expect(runMigrations(payload, CURRENT_SCHEMA_VERSION)).toBe(payload);
+  });
+});
+
+describe('validateSchedule', () => {
+  it('accepts a valid schedule', () => {
+    expect(validateSchedule(makeSchedule())).toEqual([]);
+  });
+
+  it.each(['9:00', '24:00', '09:60', '0900', ''])('rejects the start time %p', (startTime) => {
+    expect(validateSchedule(makeSchedule({ startTime }))).toEqual([
+      `startTime must be HH:mm, got ${JSON.stringify(startTime)}`,
+    ]);
+  });
+
+  it('rejects a missing end time', () => {
+    expect(validateSchedule({ ...makeSchedule(), endTime: undefined })).toEqual([
+      'endTime must be HH:mm, got undefined',
+    ]);
+  });
+
+  it.each([[[7]], [[-1]], [[1.5]], [['1']]])('rejects the days %p', (daysOfWeek) => {
+    expect(validateSchedule({ ...makeSchedule(), daysOfWeek })).toEqual([
+      `daysOfWeek must hold values 0-6, got ${JSON.stringify(daysOfWeek)}`,
+    ]);
+  });
+
+  it('rejects a window with days outside 0-6', () => {
+    const windows = [{ startTime: '09:00', endTime: '12:00', daysOfWeek: [1, 8] }];
+
+    expect(validateSchedule(makeSchedule({ windows }))).toHaveLength(1);
+  });
+
+  it('rejects a date range that ends before it starts', () => {
+    expect(validateSchedule(makeSchedule({ dateRange: { start: '2026-10-20', end: '2026-10-19' } }))).toHaveLength(1);
+  });
+
+  it('rejects a value that is not an object', () => {
+    expect(validateSchedule('work')).toEqual(['schedule is not an object']);
+  });
+});
+
+describe('validateSession', () => {
+  const session: BlockingSession = {
+    id: 'session-1',
+    startedAt: 1000,
+    endedAt: 2000,
+    scheduleIds: ['work'],
+    trigger: 'automatic',
+    endReason: 'schedule_ended',
+    unlockAttempts: [{ at: 1500, scheduleId: 'work', challenge: 'typing', outcome: 'gave_up' }],
+    pauses: [{ startedAt: 1200, endedAt: 1300 }],
+  };
+
+  it('accepts a valid session', () => {
+    expect(validateSession(session)).toEqual([]);
+  });
+
+  it('accepts a running session', () => {
+    const { endedAt, endReason, ...running } = session;
+
+    expect(validateSession(running)).toEqual([]);
+  });
+
+  it.each([
+    ['a missing start time', { startedAt: undefined }],
+    ['an end before the start', { endedAt: 500 }],
+    ['an unknown trigger', { trigger: 'timer' }],
+    ['an unknown end reason', { endReason: 'crashed' }],
+    ['schedule ids that are not strings', { scheduleIds: [1] }],
+    ['an unlock attempt without an outcome', { unlockAttempts: [{ at: 1500, scheduleId: 'work', challenge: 'none' }] }],
+    ['a pause without a start time', { pauses: [{ endedAt: 1300 }] }],
+  ])('rejects %s', (_label, overrides) => {
+    expect(validateSession({ ...session, ...overrides })).toHaveLength(1);
+  });
+});
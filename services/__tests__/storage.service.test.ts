@@ -0,0 +1,101 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { STORAGE_KEYS, storageService } from '@/services/storage.service';
+import { CURRENT_SCHEMA_VERSION } from '@/services/storage-schema';
+import type { BlockerSchedule, BlockingSession } from '@/types/blocker';
+
+const workHours: BlockerSchedule = {
+  id: 'work',
+  name: 'Work',
+  startTime: '09:00',
+  endTime: '17:00',
+  daysOfWeek: [1, 2, 3, 4, 5],
+  isActive: true,
+  familyActivitySelectionId: 'work-apps',
+};
+
+async function readJson(key: string): Promise<unknown> {
+  const raw = await AsyncStorage.getItem(key);
+  return raw === null ? null : JSON.parse(raw);
+}
+
+beforeEach(() => {
+  // Quarantine warnings are expected here
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+describe('StorageService.loadAll', () => {
+  it('upgrades unversioned data once and stores the schema version', async () => {
+    await AsyncStorage.setItem(
+      STORAGE_KEYS.BLOCKER_STATE,
+      JSON.stringify({ isBlocking: true, currentScheduleId: 'work', savedTime: 0 })
+    );
+    await AsyncStorage.setItem(STORAGE_KEYS.BLOCKER_SCHEDULES, JSON.stringify([workHours]));
+
+    const { state, schedules } = await storageService.loadAll();
+
+    expect(state?.activeScheduleIds).toEqual(['work']);
+    expect(schedules).toEqual([workHours]);
+    expect(await AsyncStorage.getItem(STORAGE_KEYS.SCHEMA_VERSION)).toBe(String(CURRENT_SCHEMA_VERSION));
+    expect(await readJson(STORAGE_KEYS.BLOCKER_STATE)).toMatchObject({ activeScheduleIds: ['work'] });
+  });
+
+  it('quarantines a bad schedule and keeps the rest', async () => {
+    const broken = { ...workHours, id: 'broken', startTime: '25:00', daysOfWeek: [1, 9] };
+    await AsyncStorage.setItem(STORAGE_KEYS.SCHEMA_VERSION, String(CURRENT_SCHEMA_VERSION));
+    await AsyncStorage.setItem(STORAGE_KEYS.BLOCKER_SCHEDULES, JSON.stringify([workHours, broken]));
+
+    const { schedules } = await storageService.loadAll();
+
+    expect(schedules).toEqual([workHours]);
+    expect(await readJson(STORAGE_KEYS.BLOCKER_SCHEDULES)).toEqual([workHours]);
+    const quarantine = await storageService.getQuarantine();
+    expect(quarantine).toHaveLength(1);
+    expect(quarantine[0]).toMatchObject({ key: STORAGE_KEYS.BLOCKER_SCHEDULES, data: broken });
+    expect(quarantine[0].reason).toContain('startTime must be HH:mm');
+    expect(quarantine[0].reason).toContain('daysOfWeek must hold values 0-6');
+  });
+
+  it('quarantines state that is not valid JSON', async () => {
+    await AsyncStorage.setItem(STORAGE_KEYS.BLOCKER_STATE, '{not json');
+
+    const { state } = await storageService.loadAll();
+
+    expect(state).toBeNull();
+    expect(await storageService.getQuarantine()).toEqual([
+      expect.objectContaining({ key: STORAGE_KEYS.BLOCKER_STATE, data: '{not json', schemaVersion: 0 }),
+    ]);
+  });
+});
+
+describe('StorageService.getSessions', () => {
+  const session: BlockingSession = {
+    id: 'session-1',
+    startedAt: 1000,
+    endedAt: 2000,
+    scheduleIds: ['work'],
+    trigger: 'manual',
+    endReason: 'stopped',
+  };
+
+  it('quarantines a corrupt session and writes back the rest', async () => {
+    const corrupt = { id: 'session-2', startedAt: 'yesterday', scheduleIds: [], trigger: 'manual' };
+    await AsyncStorage.setItem(STORAGE_KEYS.BLOCKING_SESSIONS, JSON.stringify([session, corrupt]));
+
+    expect(await storageService.getSessions()).toEqual([session]);
+    expect(await readJson(STORAGE_KEYS.BLOCKING_SESSIONS)).toEqual([session]);
+    expect(await storageService.getQuarantine()).toEqual([
+      expect.objectContaining({
+        key: STORAGE_KEYS.BLOCKING_SESSIONS,
+        reason: 'startedAt must be a timestamp',
+        data: corrupt,
+      }),
+    ]);
+  });
+
+  it('returns no sessions when the log is not a list', async () => {
+    await AsyncStorage.setItem(STORAGE_KEYS.BLOCKING_SESSIONS, JSON.stringify({ id: 'session-1' }));
+
+    expect(await storageService.getSessions()).toEqual([]);
+  });
+});
@@ -0,0 +1,97 @@
+import { deviceActivityService } from '@/services/device-activity.service';
+import { StrictModeError, strictModeService } from '@/services/strict-mode.service';
+import { makeSchedule } from '@/test-utils/fixtures';
+
+// Monday 2026-10-19, 10:00
+const NOW = new Date(2026, 9, 19, 10, 0).getTime();
+const HOUR = 60 * 60 * 1000;
+
+const workHours = makeSchedule({
+  id: 'work',
+  name: 'Work',
+  strict: true,
+  familyActivitySelectionId: 'work-apps',
+});
+
+function getError(action: () => void): unknown {
+  try {
+    action();
+  } catch (error) {
+    return error;
+  }
+  return undefined;
+}
+
+describe('StrictModeService', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: NOW });
+  });
+
+  afterEach(() => {
+    strictModeService.getActiveLocks().forEach((lock) => strictModeService.release(lock.scheduleId));
+    jest.useRealTimers();
+  });
+
+  it('refuses actions on a locked schedule until its window ends', () => {
+    strictModeService.lock(workHours, NOW + HOUR);
+
+    const error = getError(() => strictModeService.assertAllowed('stop', ['work']));
+
+    expect(error).toBeInstanceOf(StrictModeError);
+    expect(error).toMatchObject({ action: 'stop', endsAt: NOW + HOUR });
+
+    jest.setSystemTime(NOW + HOUR);
+    expect(() => strictModeService.assertAllowed('stop', ['work'])).not.toThrow();
+    expect(strictModeService.getActiveLocks()).toEqual([]);
+  });
+
+  it('only refuses actions touching a locked schedule', () => {
+    strictModeService.lock(workHours, NOW + HOUR);
+
+    expect(() => strictModeService.assertAllowed('delete', ['evening'])).not.toThrow();
+    expect(() => strictModeService.assertAllowed('reset')).toThrow(StrictModeError);
+  });
+
+  it('reports the latest end of all refusing locks', () => {
+    strictModeService.lock(workHours, NOW + HOUR);
+    strictModeService.lock({ ...workHours, id: 'evening' }, NOW + 3 * HOUR);
+
+    expect(getError(() => strictModeService.assertAllowed('stop_all'))).toMatchObject({ endsAt: NOW + 3 * HOUR });
+  });
+
+  it('replaces the lock when a schedule is locked again', () => {
+    strictModeService.lock(workHours, NOW + HOUR);
+    strictModeService.lock(workHours, NOW + 2 * HOUR);
+
+    expect(strictModeService.getActiveLocks()).toEqual([
+      { scheduleId: 'work', schedule: workHours, endsAt: NOW + 2 * HOUR },
+    ]);
+  });
+
+  it('lifts the lock on release', () => {
+    strictModeService.lock(workHours, NOW + HOUR);
+
+    strictModeService.release('work');
+
+    expect(() => strictModeService.assertAllowed('edit', ['work'])).not.toThrow();
+  });
+
+  it('keeps locks in app group storage so clearing app data does not lift them', () => {
+    strictModeService.lock(workHours, NOW + HOUR);
+
+    expect(deviceActivityService.getSharedValue('strict_mode_locks')).toEqual([
+      { scheduleId: 'work', schedule: workHours, endsAt: NOW + HOUR },
+    ]);
+  });
+
+  it('keeps locks in memory without app group storage', () => {
+    const isAvailable = jest.spyOn(deviceActivityService, 'isAvailable').mockReturnValue(false);
+
+    strictModeService.lock(workHours, NOW + HOUR);
+
+    expect(() => strictModeService.assertAllowed('pause')).toThrow(StrictModeError);
+    jest.setSystemTime(NOW + HOUR);
+    expect(strictModeService.getActiveLocks()).toEqual([]);
+    isAvailable.mockRestore();
+  });
+});
@@ -1,10 +1,11 @@
-import { adapty } from 'react-native-adapty';
+import adapty from '@/modules/adapty/AdaptyModule';
 import { ADAPTY_CONFIG } from '@/config/adapty';
 import analytics from './analytics';
 
 class AdaptyService {
   private isInitialized = false;
   private profileUpdateListeners: Set<() => void> = new Set();
+  private lastPremiumStatus: boolean | null = null;
   
   /**
    * Subscribe to profile updates
@@ -48,6 +49,7 @@ class AdaptyService {
 
       await adapty.activate(ADAPTY_CONFIG.publicKey);
       this.isInitialized = true;
+      this.listenForProfileChanges();
       console.log('Adapty initialized successfully');
     } catch (error: any) {
       // Ignore activation error if already activated
@@ -60,6 +62,20 @@ class AdaptyService {
     }
   }
 
+  /**
+   * Notify listeners when the SDK loads a profile whose premium status changed
+   * (e.g., a renewal or expiry noticed in the background)
+   */
+  private listenForProfileChanges() {
+    adapty.addEventListener('onLatestProfileLoad', (profile) => {
+      const isPremium = profile?.accessLevels?.premium?.isActive === true;
+      if (this.lastPremiumStatus !== null && isPremium !== this.lastPremiumStatus) {
+        this.notifyProfileUpdate();
+      }
+      this.lastPremiumStatus = isPremium;
+    });
+  }
+
   /**
    * Get paywall by placement ID
    */
@@ -94,16 +110,9 @@ class AdaptyService {
         await this.initialize();
       }
       
-      // Check if profile API is available
-      if (!adapty || !adapty.profile || typeof adapty.profile.getProfile !== 'function') {
-        return null;
-      }
-      
-      const profile = await adapty.profile.getProfile();
-      
-      // Notify listeners about profile update
-      this.notifyProfileUpdate();
-      
+      const profile = await adapty.getProfile();
+      this.lastPremiumStatus = profile?.accessLevels?.premium?.isActive === true;
+
       return profile;
     } catch (error) {
       // Don't log errors if Adapty is not initialized yet
@@ -132,7 +141,12 @@ class AdaptyService {
   async refreshProfile(): Promise<any> {
     try {
       // Force re-fetch profile from Adapty
-      return await this.getProfile(0);
+      const profile = await this.getProfile(0);
+
+      // Notify listeners about profile update
+      this.notifyProfileUpdate();
+
+      return profile;
     } catch (error) {
       console.error('Error refreshing profile:', error);
       return null;
@@ -183,10 +197,10 @@ class AdaptyService {
    */
   async makePurchase(product: any) {
     try {
-      const result = await adapty.purchases.makePurchase(product);
+      const result = await adapty.makePurchase(product);
       
       // Log purchase event
-      if (result) {
+      if (result.type === 'success') {
         await analytics.logFirebaseEvent('purchase_completed', {
           product_id: product.vendorProductId,
         });
@@ -207,7 +221,7 @@ class AdaptyService {
    */
   async restorePurchases() {
     try {
-      return await adapty.purchases.restorePurchases();
+      return await adapty.restorePurchases();
     } catch (error) {
       console.error('Error restoring purchases:', error);
       throw error;
@@ -2,7 +2,9 @@
  * Device Activity Service
  *
  * Centralized service for managing iOS Screen Time / Family Controls API.
- * Handles app blocking and authorization.
+ * Handles app blocking, authorization and DeviceActivity monitoring.
+ * Monitored intervals are enforced by the ActivityMonitor extension,
+ * so blocking starts and ends even when the app is closed.
  *
  * @module services/device-activity
  */
@@ -10,12 +12,670 @@
 import { Platform } from 'react-native';
 import * as DeviceActivity from 'react-native-device-activity';
 
+import DeviceActivityModule from '@/modules/device-activity/DeviceActivityModule';
+import WebDomainsModule from '@/modules/web-domains';
+import { OPEN_LIMIT_WINDOW_MINUTES } from '@/types/blocker';
+import type { BlockMode, ShieldAppearance, UsageLimit } from '@/types/blocker';
+import { fillShieldAppName, getShieldSubtitle, hexToRgb } from '@/utils/shieldAppearance';
+
+/** Prefix for activity names registered for blocking schedules */
+const SCHEDULE_ACTIVITY_PREFIX = 'blocker_';
+
+/** Prefix for activity names that end a pause */
+const PAUSE_ACTIVITY_PREFIX = 'pause_';
+
+/** Prefix for activity names that track usage limits */
+const USAGE_LIMIT_ACTIVITY_PREFIX = 'usage_';
+
+/** Minutes between the threshold events that track a usage limit's progress */
+const USAGE_PROGRESS_STEP_MINUTES = 5;
+
+/** App group key holding the usage limits that are enforced */
+const USAGE_LIMITS_KEY = 'usageLimits';
+
+/** Prefix for activity names that count and reset an open limit's opens */
+const OPEN_LIMIT_ACTIVITY_PREFIX = 'opens_';
+
+/** Length of one open of an open limit */
+const OPEN_LIMIT_WINDOW_MS = OPEN_LIMIT_WINDOW_MINUTES * 60 * 1000;
+
+/** App group key holding the open limits that are enforced */
+const OPEN_LIMITS_KEY = 'openLimits';
+
+/** Shortest interval DeviceActivity accepts */
+const MIN_MONITOR_INTERVAL_MS = 15 * 60 * 1000;
+
+/** Selection holding the combined allow-list when several rules apply at once */
+const COMBINED_ALLOW_LIST_ID = 'combined_allow_list';
+
+/** App group key of the selections the app added to the native blocklist */
+const SHIELDED_SELECTIONS_KEY = 'shieldedSelectionIds';
+
+/** App group key the native module sets while every app is shielded */
+const BLOCKING_ALL_KEY = 'isBlockingAll';
+
+/** Selection holding blocked apps no rule accounts for */
+const SHIELD_DRIFT_SELECTION_ID = 'shield_drift_check';
+
+/** App group key of the schedule windows registered with the monitor extension */
+const MONITORED_WINDOWS_KEY = 'monitoredWindows';
+
+/** Suffix of the selection an activity lifts when it ends or resets */
+const RELEASE_SELECTION_SUFFIX = '_release';
+
+/** Callbacks the ActivityMonitor extension records events for */
+const MONITOR_CALLBACK_NAMES: DeviceActivity.CallbackEventName[] = [
+  'intervalDidStart',
+  'intervalDidEnd',
+  'eventDidReachThreshold',
+  'intervalWillStartWarning',
+  'intervalWillEndWarning',
+  'eventWillReachThresholdWarning',
+];
+
+/** Shield used by rules without a look of their own */
+export const DEFAULT_SHIELD_ID = 'default';
+
+/** App group key holding every saved shield look by shield ID */
+const SHIELD_APPEARANCES_KEY = 'shieldAppearances';
+
+/** App group key counting how often new shields went up, to rotate quotes */
+const SHIELD_ROTATION_KEY = 'shieldQuoteRotation';
+
+/** Key prefixes the shield extensions read for a blocked selection */
+const SHIELD_CONFIGURATION_FOR_SELECTION_PREFIX = 'shieldConfigurationForSelection';
+const SHIELD_ACTIONS_FOR_SELECTION_PREFIX = 'shieldActionsForSelection';
+
+/** Placeholder the shield extension replaces with the blocked app's name */
+const EXTENSION_APP_NAME_PLACEHOLDER = '{applicationOrDomainDisplayName}';
+
+/**
+ * How one selection is enforced
+ * - `block` - shield the selected apps
+ * - `allow` - shield everything except the selected apps
+ * Web domains are shielded in either mode.
+ */
+export interface BlockRule {
+  familyActivitySelectionId: string;
+  mode: BlockMode;
+  webDomains?: string[];
+  /** Shield whose look covers the rule's apps (default: the global look) */
+  shieldId?: string;
+}
+
+/**
+ * Minutes of use a usage limit has recorded today
+ */
+export interface UsageLimitProgress {
+  /** Minutes used, rounded down to the last recorded step */
+  usedMinutes: number;
+  /** Timestamp when today's minutes ran out */
+  exceededAt?: number;
+}
+
+/**
+ * Open limit as enforced on its selection
+ */
+export interface OpenLimitRule {
+  limitId: string;
+  familyActivitySelectionId: string;
+  /** Opens allowed per day */
+  maxOpens: number;
+  /** Opens the app knows of today */
+  opensUsed: number;
+  /** Timestamp when the current open ends; the apps are shielded outside opens */
+  openUntil?: number;
+}
+
+/**
+ * Opens of an open limit the monitor extension counted today
+ */
+export interface CountedOpens {
+  opens: number;
+  /** Timestamp when the latest open ends */
+  openUntil?: number;
+}
+
+/**
+ * Schedule window as registered with the monitor extension
+ */
+interface MonitoredWindow {
+  activityName: string;
+  rule: BlockRule;
+  start: number;
+  end: number;
+}
+
+/**
+ * Activity name prefix for a schedule
+ * Each monitored occurrence gets its own name: `<prefix><startTimestamp>`.
+ */
+export function getScheduleActivityPrefix(scheduleId: string): string {
+  return `${SCHEDULE_ACTIVITY_PREFIX}${scheduleId}_`;
+}
+
+/**
+ * Shield ID for a schedule with its own look
+ */
+export function getScheduleShieldId(scheduleId: string): string {
+  return `schedule_${scheduleId}`;
+}
+
+/**
+ * Activity name tracking a usage limit
+ */
+export function getUsageLimitActivityName(limitId: string): string {
+  return `${USAGE_LIMIT_ACTIVITY_PREFIX}${limitId}`;
+}
+
+/**
+ * Activity name prefix of an open limit
+ */
+export function getOpenLimitActivityName(limitId: string): string {
+  return `${OPEN_LIMIT_ACTIVITY_PREFIX}${limitId}`;
+}
+
+/**
+ * Activity that shields an open limit's apps again at midnight
+ * Its name contains the selection ID: the shield extension only uses a
+ * selection's own shield while an activity named after it is monitored.
+ */
+function getOpenLimitDayActivityName(limitId: string, familyActivitySelectionId: string): string {
+  return `${getOpenLimitActivityName(limitId)}_day_${familyActivitySelectionId}`;
+}
+
+/**
+ * Activity that runs for one open of an open limit, numbered from 1 each day
+ */
+function getOpenActivityName(limitId: string, open: number): string {
+  return `${getOpenLimitActivityName(limitId)}_open_${open}`;
+}
+
+/**
+ * Shield of an open limit's apps once a number of today's opens are used
+ */
+function getOpenLimitShieldId(limitId: string, opensUsed: number): string {
+  return `${getOpenLimitActivityName(limitId)}_${opensUsed}`;
+}
+
+/**
+ * Selection an open of an open limit lifts: its apps no reached usage limit shares
+ */
+function getOpenReleaseSelectionId(limitId: string): string {
+  return `${getOpenLimitActivityName(limitId)}${RELEASE_SELECTION_SUFFIX}`;
+}
+
+/**
+ * Minutes at which a usage limit's threshold events fire, ending with its budget
+ */
+function getUsageThresholds(dailyMinutes: number): number[] {
+  const thresholds: number[] = [];
+  for (let minutes = USAGE_PROGRESS_STEP_MINUTES; minutes < dailyMinutes; minutes += USAGE_PROGRESS_STEP_MINUTES) {
+    thresholds.push(minutes);
+  }
+  thresholds.push(dailyMinutes);
+  return thresholds;
+}
+
+/**
+ * App group key where the monitor extension records a threshold event
+ * Read directly: activity names with underscores do not survive `getEvents` parsing.
+ */
+function getThresholdEventKey(limitId: string, minutes: number): string {
+  return `events_${getUsageLimitActivityName(limitId)}_eventDidReachThreshold_${minutes}`;
+}
+
+/**
+ * Whether an interval contains a midnight, its end excluded
+ */
+function spansMidnight(start: number, end: number): boolean {
+  const startDate = new Date(start);
+  const startOfDay = new Date(startDate.getFullYear(), startDate.getMonth(), startDate.getDate()).getTime();
+  if (startOfDay === start) return true;
+
+  const nextMidnight = new Date(startDate.getFullYear(), startDate.getMonth(), startDate.getDate() + 1);
+  return nextMidnight.getTime() < end;
+}
+
+/**
+ * Convert a #RRGGBB color to a shield color
+ */
+function toShieldColor(hex: string) {
+  return { ...hexToRgb(hex), alpha: 1 };
+}
+
+/**
+ * Shield configuration for a look, showing the quote of a rotation step
+ */
+function toShieldConfiguration(appearance: ShieldAppearance, rotation: number): DeviceActivity.ShieldConfiguration {
+  return {
+    backgroundColor: toShieldColor(appearance.backgroundColor),
+    title: fillShieldAppName(appearance.title, EXTENSION_APP_NAME_PLACEHOLDER),
+    titleColor: toShieldColor(appearance.textColor),
+    subtitle: getShieldSubtitle(appearance, rotation, EXTENSION_APP_NAME_PLACEHOLDER),
+    subtitleColor: toShieldColor(appearance.textColor),
+    primaryButtonLabel: appearance.primaryButtonLabel,
+    primaryButtonLabelColor: toShieldColor(appearance.buttonTextColor),
+    primaryButtonBackgroundColor: toShieldColor(appearance.buttonColor),
+    secondaryButtonLabel: appearance.secondaryButtonLabel || undefined,
+    secondaryButtonLabelColor: toShieldColor(appearance.buttonColor),
+  };
+}
+
+/** Primary button closes the blocked app, secondary opens this one */
+const SHIELD_ACTIONS: DeviceActivity.ShieldActions = {
+  primary: { behavior: 'close' },
+  secondary: { behavior: 'defer', actions: [{ type: 'openApp' }] },
+};
+
+/**
+ * Convert a date to DeviceActivity date components (local calendar)
+ */
+function toDateComponents(date: Date): DeviceActivity.DateComponents {
+  return {
+    year: date.getFullYear(),
+    month: date.getMonth() + 1,
+    day: date.getDate(),
+    hour: date.getHours(),
+    minute: date.getMinutes(),
+  };
+}
+
+/**
+ * Web domains of a set of rules, without duplicates
+ */
+function getWebDomains(rules: BlockRule[]): string[] {
+  return [...new Set(rules.flatMap((rule) => rule.webDomains ?? []))];
+}
+
 class DeviceActivityService {
+  /**
+   * Selection of the apps that stay open under a set of rules
+   * Only apps allowed by every allow rule and blocked by no block rule stay open,
+   * so combining rules never opens an app that one of them shields.
+   *
+   * @returns Selection ID, or null when no rule is in allow mode
+   */
+  private getAllowListId(rules: BlockRule[]): string | null {
+    const allowIds = rules.filter((r) => r.mode === 'allow').map((r) => r.familyActivitySelectionId);
+    const blockIds = rules.filter((r) => r.mode === 'block').map((r) => r.familyActivitySelectionId);
+
+    if (allowIds.length === 0) return null;
+    if (allowIds.length === 1 && blockIds.length === 0) return allowIds[0];
+
+    const options = { stripToken: true, persistAsActivitySelectionId: COMBINED_ALLOW_LIST_ID };
+    let allowListId = allowIds[0];
+
+    for (const otherId of allowIds.slice(1)) {
+      DeviceActivityModule.intersection(
+        { activitySelectionId: allowListId },
+        { activitySelectionId: otherId },
+        options
+      );
+      allowListId = COMBINED_ALLOW_LIST_ID;
+    }
+    for (const blockId of blockIds) {
+      DeviceActivityModule.difference({ activitySelectionId: allowListId }, { activitySelectionId: blockId }, options);
+      allowListId = COMBINED_ALLOW_LIST_ID;
+    }
+
+    return allowListId;
+  }
+
+  /**
+   * Monitor actions that apply a set of rules when an interval starts
+   * Web domains are replaced with those of `domainRules` when any of them has domains.
+   *
+   * @param domainRules - Rules whose domains are shielded together (default: `rules`)
+   */
+  private getStartActions(rules: BlockRule[], domainRules: BlockRule[] = rules): DeviceActivity.Action[] {
+    const allowListId = this.getAllowListId(rules);
+    const domainActions = this.getWebDomainActions(domainRules, false);
+
+    if (!allowListId) {
+      return [
+        ...rules.map((rule) => ({
+          type: 'blockSelection' as const,
+          familyActivitySelectionId: rule.familyActivitySelectionId,
+          shieldId: rule.shieldId ?? DEFAULT_SHIELD_ID,
+        })),
+        ...domainActions,
+      ];
+    }
+
+    return [
+      { type: 'clearWhitelist' },
+      { type: 'addSelectionToWhitelist', familyActivitySelection: { activitySelectionId: allowListId } },
+      { type: 'enableBlockAllMode', shieldId: this.getAllowShieldId(rules) },
+      ...domainActions,
+    ];
+  }
+
+  /**
+   * Monitor actions that shield the web domains of a set of rules
+   * The extension replaces the whole domain store, as `applyBlocks` does.
+   *
+   * @param clearIfNone - Lift every domain when no rule has any, instead of leaving them
+   */
+  private getWebDomainActions(rules: BlockRule[], clearIfNone: boolean): DeviceActivity.Action[] {
+    const domains = getWebDomains(rules);
+
+    if (domains.length > 0) {
+      return [{ type: 'setBlockedWebDomains', domains }];
+    }
+    return clearIfNone ? [{ type: 'clearBlockedWebDomains' }] : [];
+  }
+
+  /**
+   * Shield covering every app in allow mode: the look of the first allow rule
+   */
+  private getAllowShieldId(rules: BlockRule[]): string {
+    return rules.find((r) => r.mode === 'allow')?.shieldId ?? DEFAULT_SHIELD_ID;
+  }
+
+  /**
+   * Write a look for the shield extension under its shield ID
+   * The global look is also written as the fallback for any shielded app.
+   */
+  private writeShield(shieldId: string, appearance: ShieldAppearance, rotation: number): void {
+    const configuration = toShieldConfiguration(appearance, rotation);
+
+    DeviceActivityModule.updateShieldWithId(configuration, SHIELD_ACTIONS, shieldId);
+    if (shieldId === DEFAULT_SHIELD_ID) {
+      DeviceActivityModule.updateShield(configuration, SHIELD_ACTIONS);
+    }
+  }
+
+  /**
+   * Move every shield on to its next quote
+   */
+  private rotateShieldQuotes(): void {
+    const rotation = (this.getSharedValue<number>(SHIELD_ROTATION_KEY) ?? 0) + 1;
+    const appearances = this.getSharedValue<Record<string, ShieldAppearance>>(SHIELD_APPEARANCES_KEY) ?? {};
+
+    this.setSharedValue(SHIELD_ROTATION_KEY, rotation);
+    Object.entries(appearances).forEach(([shieldId, appearance]) => this.writeShield(shieldId, appearance, rotation));
+  }
+
+  /**
+   * Show a shield's look on apps no selection look covers
+   */
+  private applyFallbackShield(shieldId: string): void {
+    const configuration = this.getSharedValue<DeviceActivity.ShieldConfiguration>(`shieldConfiguration_${shieldId}`);
+    const actions = this.getSharedValue<DeviceActivity.ShieldActions>(`shieldActions_${shieldId}`);
+
+    if (configuration && actions) {
+      DeviceActivityModule.updateShield(configuration, actions);
+    }
+  }
+
+  /**
+   * Show a rule's look on the apps of its selection
+   */
+  private applyRuleShield(rule: BlockRule): void {
+    const shieldId = rule.shieldId ?? DEFAULT_SHIELD_ID;
+    const configuration = this.getSharedValue(`shieldConfiguration_${shieldId}`);
+    const actions = this.getSharedValue(`shieldActions_${shieldId}`);
+
+    if (configuration && actions) {
+      this.setSharedValue(`${SHIELD_CONFIGURATION_FOR_SELECTION_PREFIX}_${rule.familyActivitySelectionId}`, configuration);
+      this.setSharedValue(`${SHIELD_ACTIONS_FOR_SELECTION_PREFIX}_${rule.familyActivitySelectionId}`, actions);
+    }
+  }
+
+  /**
+   * Selections the app added to the native blocklist, kept in app group
+   * storage so the next change after a restart still only touches what differs
+   * A selection only counts while all of its apps are still blocked: apps added
+   * to it since, or lifted by a window the monitor extension ended, are blocked again.
+   */
+  private getShieldedSelectionIds(): string[] {
+    const trackedIds = this.getSharedValue<string[]>(SHIELDED_SELECTIONS_KEY) ?? [];
+
+    return trackedIds.filter((id) =>
+      DeviceActivityModule.isSubsetOf({ activitySelectionId: id }, { currentBlocklist: true })
+    );
+  }
+
+  /**
+   * Selection of a selection's apps that none of the kept selections shares
+   *
+   * @param releaseId - Selection the remaining apps are saved as
+   * @returns Selection ID to unblock
+   */
+  private getReleaseSelectionId(selectionId: string, keptIds: string[], releaseId: string): string {
+    const options = { stripToken: true, persistAsActivitySelectionId: releaseId };
+    let remainingId = selectionId;
+
+    for (const keptId of keptIds) {
+      DeviceActivityModule.difference({ activitySelectionId: remainingId }, { activitySelectionId: keptId }, options);
+      remainingId = releaseId;
+    }
+
+    return remainingId;
+  }
+
+  /**
+   * Whatever is left of the blocklist after removing every block rule's apps
+   * With any rules, the leftover apps are saved as the drift check selection.
+   */
+  private getStaleBlocklist(blockRules: BlockRule[]): DeviceActivity.ActivitySelectionMetadata | undefined {
+    const options = { stripToken: true, persistAsActivitySelectionId: SHIELD_DRIFT_SELECTION_ID };
+    let leftover = DeviceActivityModule.activitySelectionMetadata({ currentBlocklist: true });
+
+    blockRules.forEach((rule, index) => {
+      leftover = DeviceActivityModule.difference(
+        index === 0 ? { currentBlocklist: true } : { activitySelectionId: SHIELD_DRIFT_SELECTION_ID },
+        { activitySelectionId: rule.familyActivitySelectionId },
+        options
+      );
+    });
+
+    return leftover;
+  }
+
+  /**
+   * Lift blocked apps no block rule accounts for: selections that stopped, apps
+   * removed from a selection that stays, and windows the monitor extension
+   * started for schedules stopped since
+   *
+   * @returns Whether any app was lifted
+   */
+  private liftStaleShields(blockRules: BlockRule[]): boolean {
+    const stale = this.getStaleBlocklist(blockRules);
+    if (!stale || stale.applicationCount + stale.categoryCount === 0) return false;
+
+    if (blockRules.length === 0) {
+      // Nothing should be shielded, so there is nothing to keep
+      DeviceActivityModule.resetBlocks();
+    } else {
+      DeviceActivityModule.unblockSelection({ activitySelectionId: SHIELD_DRIFT_SELECTION_ID });
+    }
+    return true;
+  }
+
+  /**
+   * Selections of usage limits whose minutes ran out on the day of `now`
+   */
+  private getReachedUsageLimitIds(now: number): string[] {
+    const usageLimits = this.getSharedValue<UsageLimit[]>(USAGE_LIMITS_KEY) ?? [];
+
+    return usageLimits
+      .filter((limit) => this.getUsageLimitProgress(limit, new Date(now)).exceededAt !== undefined)
+      .map((limit) => limit.familyActivitySelectionId);
+  }
+
+  /**
+   * Block rules for usage limits whose minutes ran out today
+   * and for open limits that are not open right now
+   * Open limits show the shield for the opens used so far.
+   */
+  private getLimitRules(now: number = Date.now()): BlockRule[] {
+    const openLimits = this.getSharedValue<OpenLimitRule[]>(OPEN_LIMITS_KEY) ?? [];
+    const rules: BlockRule[] = this.getReachedUsageLimitIds(now).map((id) => ({
+      familyActivitySelectionId: id,
+      mode: 'block',
+    }));
+
+    for (const rule of openLimits) {
+      const counted = this.getCountedOpens(rule.limitId, rule.maxOpens, new Date(now));
+      const openUntil = Math.max(rule.openUntil ?? 0, counted.openUntil ?? 0);
+      if (openUntil > now) continue;
+
+      rules.push({
+        familyActivitySelectionId: rule.familyActivitySelectionId,
+        mode: 'block',
+        shieldId: getOpenLimitShieldId(rule.limitId, Math.max(rule.opensUsed, counted.opens)),
+      });
+    }
+
+    return rules.filter(
+      (rule, index) => rules.findIndex((r) => r.familyActivitySelectionId === rule.familyActivitySelectionId) === index
+    );
+  }
+
+  /**
+   * Write the shields an open limit's apps show after each number of opens
+   * Until the last open, the secondary button lifts the shield for one open and
+   * starts that open's activity, which the monitor extension counts. The shield
+   * after the last open only closes the app.
+   */
+  private writeOpenLimitShields(rule: OpenLimitRule): void {
+    const base =
+      this.getSharedValue<DeviceActivity.ShieldConfiguration>(`shieldConfiguration_${DEFAULT_SHIELD_ID}`) ?? {};
+
+    for (let opensUsed = 0; opensUsed <= rule.maxOpens; opensUsed++) {
+      const opensLeft = rule.maxOpens - opensUsed;
+      const shieldId = getOpenLimitShieldId(rule.limitId, opensUsed);
+
+      if (opensLeft === 0) {
+        DeviceActivityModule.updateShieldWithId(
+          { ...base, subtitle: 'No opens left today. Blocked until midnight.', secondaryButtonLabel: undefined },
+          { primary: { behavior: 'close' } },
+          shieldId
+        );
+        continue;
+      }
+
+      DeviceActivityModule.updateShieldWithId(
+        {
+          ...base,
+          subtitle: `${opensLeft} of ${rule.maxOpens} opens left today.`,
+          secondaryButtonLabel: `Open for ${OPEN_LIMIT_WINDOW_MINUTES} min`,
+        },
+        {
+          primary: { behavior: 'close' },
+          secondary: {
+            behavior: 'defer',
+            actions: [
+              { type: 'unblockSelection', familyActivitySelectionId: getOpenReleaseSelectionId(rule.limitId) },
+              {
+                type: 'startMonitoring',
+                activityName: getOpenActivityName(rule.limitId, opensUsed + 1),
+                deviceActivityEvents: [],
+                intervalStartDelayMs: 0,
+                intervalEndDelayMs: OPEN_LIMIT_WINDOW_MS,
+              },
+            ],
+          },
+        },
+        shieldId
+      );
+    }
+  }
+
+  /**
+   * Schedule windows the monitor extension still runs
+   */
+  private getMonitoredWindows(): MonitoredWindow[] {
+    const monitored = this.getMonitoredActivities();
+    const windows = this.getSharedValue<MonitoredWindow[]>(MONITORED_WINDOWS_KEY) ?? [];
+    return windows.filter((window) => monitored.includes(window.activityName));
+  }
+
+  /**
+   * Monitor actions that start a schedule window
+   * A window with web domains shields them together with the domains of
+   * every other window running at its start.
+   */
+  private getWindowStartActions(window: MonitoredWindow, windows: MonitoredWindow[]): DeviceActivity.Action[] {
+    const runningRules = windows
+      .filter((other) => other.start <= window.start && window.start < other.end)
+      .map((other) => other.rule);
+
+    return this.getStartActions([window.rule], runningRules);
+  }
+
+  /**
+   * Monitor actions that end a schedule window
+   * Apps of block windows still running and of limits reached or closed at
+   * the window end stay shielded; an allow window shields them again when
+   * leaving allow mode. A window with web domains leaves only the domains of
+   * windows still running.
+   */
+  private getWindowEndActions(window: MonitoredWindow, windows: MonitoredWindow[]): DeviceActivity.Action[] {
+    const runningRules = windows
+      .filter((other) => other.start <= window.end && window.end < other.end)
+      .map((other) => other.rule);
+    const domainActions =
+      getWebDomains([window.rule]).length > 0 ? this.getWebDomainActions(runningRules, true) : [];
+    const keptRules = [
+      ...windows
+        .filter((other) => other.rule.mode === 'block' && other.start <= window.end && window.end < other.end)
+        .map((other) => other.rule),
+      ...this.getLimitRules(window.end),
+    ];
+    const keptIds = [...new Set(keptRules.map((rule) => rule.familyActivitySelectionId))];
+
+    if (window.rule.mode === 'allow') {
+      // Clear first, so leaving block-all mode shields the kept apps at once
+      return [
+        { type: 'clearWhitelist' },
+        ...this.getStartActions(keptRules, []),
+        { type: 'disableBlockAllMode' },
+        ...domainActions,
+      ];
+    }
+
+    const releaseId = `${window.activityName}${RELEASE_SELECTION_SUFFIX}`;
+    return [
+      {
+        type: 'unblockSelection',
+        familyActivitySelectionId: this.getReleaseSelectionId(window.rule.familyActivitySelectionId, keptIds, releaseId),
+      },
+      ...domainActions,
+    ];
+  }
+
+  /**
+   * Monitor actions that lift a usage limit's shield at midnight
+   * Apps of block windows running over a midnight and of open limits closed
+   * at the next midnight stay shielded.
+   */
+  private getLimitResetActions(limit: UsageLimit, windows: MonitoredWindow[]): DeviceActivity.Action[] {
+    const now = new Date();
+    const nextMidnight = new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1).getTime();
+    const keptIds = [
+      ...windows
+        .filter((window) => window.rule.mode === 'block' && spansMidnight(window.start, window.end))
+        .map((window) => window.rule.familyActivitySelectionId),
+      ...this.getLimitRules(nextMidnight).map((rule) => rule.familyActivitySelectionId),
+    ];
+    const releaseId = `${getUsageLimitActivityName(limit.id)}${RELEASE_SELECTION_SUFFIX}`;
+
+    return [
+      {
+        type: 'unblockSelection',
+        familyActivitySelectionId: this.getReleaseSelectionId(limit.familyActivitySelectionId, [...new Set(keptIds)], releaseId),
+      },
+    ];
+  }
+
   /**
    * Check if DeviceActivity API is available on this device
    */
   isAvailable(): boolean {
-    return Platform.OS === 'ios' && DeviceActivity.isAvailable();
+    return Platform.OS === 'ios' && DeviceActivityModule.isAvailable();
   }
 
   /**
@@ -25,7 +685,7 @@ class DeviceActivityService {
     if (!this.isAvailable()) {
       return DeviceActivity.AuthorizationStatus.notDetermined;
     }
-    return DeviceActivity.getAuthorizationStatus();
+    return DeviceActivityModule.getAuthorizationStatus();
   }
 
   /**
@@ -37,7 +697,7 @@ class DeviceActivityService {
     }
 
     try {
-      await DeviceActivity.requestAuthorization('individual');
+      await DeviceActivityModule.requestAuthorization('individual');
       return this.getAuthorizationStatus();
     } catch (error) {
       console.error('[DeviceActivityService] Error requesting authorization:', error);
@@ -54,7 +714,7 @@ class DeviceActivityService {
     if (!this.isAvailable()) return;
 
     try {
-      DeviceActivity.blockSelection({ activitySelectionId: familyActivitySelectionId });
+      DeviceActivityModule.blockSelection({ activitySelectionId: familyActivitySelectionId });
       console.log('[DeviceActivityService] Blocked selection:', familyActivitySelectionId);
     } catch (error) {
       console.error('[DeviceActivityService] Error blocking apps:', error);
@@ -63,13 +723,117 @@ class DeviceActivityService {
   }
 
   /**
-   * Remove all app blocks
+   * Replace every shield with the given rules
+   * Block rules shield their apps. With any allow rule, everything is shielded
+   * except the apps all allow rules share, minus the apps block rules shield.
+   * Web domains of all rules are shielded together. Usage limits reached today
+   * and open limits between opens stay shielded, so pass no rules to lift everything else.
+   * Only the difference to the shields in place is changed: selections that stay
+   * are never lifted, selections not fully blocked are blocked, and then apps no
+   * rule accounts for are lifted. Newly shielded selections move the shields on
+   * to their next quote.
+   *
+   * @param scheduleRules - Rules of everything that is blocking now
+   */
+  applyBlocks(scheduleRules: BlockRule[]): void {
+    if (!this.isAvailable()) return;
+
+    const limitRules = this.getLimitRules();
+    const rules = [...scheduleRules, ...limitRules];
+    const shieldedIds = this.getShieldedSelectionIds();
+    const wasAllowMode = this.getSharedValue<boolean>(BLOCKING_ALL_KEY) === true;
+    const allowListId = this.getAllowListId(rules);
+    const selectionIds = allowListId
+      ? []
+      : [...new Set(rules.map((rule) => rule.familyActivitySelectionId))];
+    const addedIds = selectionIds.filter((id) => !shieldedIds.includes(id));
+
+    try {
+      if (addedIds.length > 0 || (allowListId && !wasAllowMode)) {
+        this.rotateShieldQuotes();
+      }
+      // Schedule looks go last: a running schedule's shield never offers an open
+      [...limitRules, ...scheduleRules].forEach((rule) => this.applyRuleShield(rule));
+
+      if (allowListId) {
+        const allowList = { activitySelectionId: allowListId };
+        this.applyFallbackShield(this.getAllowShieldId(rules));
+
+        if (!wasAllowMode) {
+          // Shield everything first, so entering allow mode never opens an app early;
+          // the blocklist does not count in allow mode and starts empty when leaving it
+          DeviceActivityModule.enableBlockAllMode();
+          DeviceActivityModule.resetBlocks();
+          DeviceActivityModule.clearWhitelist();
+          DeviceActivityModule.addSelectionToWhitelistAndUpdateBlock(allowList);
+        } else if (
+          !DeviceActivityModule.isSubsetOf(allowList, { currentWhitelist: true }) ||
+          !DeviceActivityModule.isSubsetOf({ currentWhitelist: true }, allowList)
+        ) {
+          // Clearing does not update the shield, so the new allow-list replaces the old one at once
+          DeviceActivityModule.clearWhitelist();
+          DeviceActivityModule.addSelectionToWhitelistAndUpdateBlock(allowList);
+        }
+        console.log('[DeviceActivityService] Blocking all apps except:', allowListId);
+      } else {
+        addedIds.forEach((id) => DeviceActivityModule.blockSelection({ activitySelectionId: id }));
+        if (wasAllowMode) {
+          DeviceActivityModule.clearWhitelist();
+          DeviceActivityModule.disableBlockAllMode();
+        }
+        const liftedStale = this.liftStaleShields(rules.filter((rule) => rule.mode === 'block'));
+        console.log('[DeviceActivityService] Blocked selections:', {
+          added: addedIds.length,
+          liftedStale,
+          total: selectionIds.length,
+        });
+      }
+
+      const webDomains = getWebDomains(rules);
+      if (webDomains.length > 0) {
+        WebDomainsModule.setBlockedDomains(webDomains);
+        console.log('[DeviceActivityService] Blocked web domains:', webDomains.length);
+      } else {
+        WebDomainsModule.clearBlockedDomains();
+      }
+
+      this.setSharedValue(SHIELDED_SELECTIONS_KEY, selectionIds);
+    } catch (error) {
+      console.error('[DeviceActivityService] Error applying blocks:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * App and category counts of a saved selection
+   *
+   * @returns Metadata, or null if the selection does not exist
+   */
+  getSelectionMetadata(familyActivitySelectionId: string): DeviceActivity.ActivitySelectionMetadata | null {
+    if (!this.isAvailable()) return null;
+
+    try {
+      return (
+        DeviceActivityModule.activitySelectionMetadata({ activitySelectionId: familyActivitySelectionId }) ?? null
+      );
+    } catch (error) {
+      console.error('[DeviceActivityService] Error reading selection metadata:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Remove all app and web domain blocks, including allow mode
    */
   unblockAllApps(): void {
     if (!this.isAvailable()) return;
 
     try {
-      DeviceActivity.resetBlocks();
+      DeviceActivityModule.resetBlocks();
+      DeviceActivityModule.disableBlockAllMode();
+      DeviceActivityModule.clearWhitelist();
+      WebDomainsModule.clearBlockedDomains();
+      this.setSharedValue(SHIELDED_SELECTIONS_KEY, []);
       console.log('[DeviceActivityService] Reset all blocks');
     } catch (error) {
       console.error('[DeviceActivityService] Error resetting blocks:', error);
@@ -77,6 +841,677 @@ class DeviceActivityService {
     }
   }
 
+  /**
+   * Differences between the shields in place and the ones `applyBlocks` would apply
+   * Limit rules are added as in `applyBlocks`, so a non-empty result means the
+   * same rules should be applied again.
+   *
+   * @param scheduleRules - Rules of everything that should be blocking now
+   * @returns One description per difference, empty when the shields match
+   */
+  getBlockDrift(scheduleRules: BlockRule[]): string[] {
+    if (!this.isAvailable()) return [];
+
+    const rules = [...scheduleRules, ...this.getLimitRules()];
+    const blockRules = rules.filter((r) => r.mode === 'block');
+    const expectsBlockingAll = rules.some((r) => r.mode === 'allow');
+    const drift: string[] = [];
+
+    try {
+      if (rules.length === 0 && DeviceActivityModule.isShieldActive()) {
+        drift.push('shields active with nothing blocking');
+      }
+
+      const isBlockingAll = this.getSharedValue<boolean>(BLOCKING_ALL_KEY) === true;
+      if (isBlockingAll !== expectsBlockingAll) {
+        drift.push(expectsBlockingAll ? 'allow mode not enabled' : 'allow mode left enabled');
+      }
+
+      // In allow mode the whitelist decides what is open, not the blocklist
+      if (!expectsBlockingAll) {
+        for (const rule of blockRules) {
+          const selection = { activitySelectionId: rule.familyActivitySelectionId };
+          if (!DeviceActivityModule.isSubsetOf(selection, { currentBlocklist: true })) {
+            drift.push(`selection not shielded: ${rule.familyActivitySelectionId}`);
+          }
+        }
+      }
+
+      const leftover = this.getStaleBlocklist(blockRules);
+      if (leftover && leftover.applicationCount + leftover.categoryCount > 0) {
+        drift.push(`apps shielded by no rule: ${leftover.applicationCount + leftover.categoryCount}`);
+      }
+
+      const expectedDomains = getWebDomains(rules).sort();
+      const blockedDomains = [...WebDomainsModule.getBlockedDomains()].sort();
+      if (expectedDomains.join(',') !== blockedDomains.join(',')) {
+        drift.push(`web domains differ: ${blockedDomains.length} shielded, ${expectedDomains.length} expected`);
+      }
+    } catch (error) {
+      console.error('[DeviceActivityService] Error reading block state:', error);
+    }
+
+    return drift;
+  }
+
+  /**
+   * Start monitoring a DeviceActivity interval
+   *
+   * @param activityName - Unique activity name
+   * @param schedule - Interval to monitor
+   * @param events - Optional threshold events
+   */
+  async startMonitoring(
+    activityName: string,
+    schedule: DeviceActivity.DeviceActivitySchedule,
+    events: DeviceActivity.DeviceActivityEvent[] = []
+  ): Promise<void> {
+    if (!this.isAvailable()) return;
+
+    try {
+      await DeviceActivityModule.startMonitoring(activityName, schedule, events);
+      console.log('[DeviceActivityService] Started monitoring:', activityName);
+    } catch (error) {
+      console.error('[DeviceActivityService] Error starting monitoring:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Stop monitoring activities and remove their configured actions
+   *
+   * @param activityNames - Activities to stop
+   */
+  stopMonitoring(activityNames: string[]): void {
+    if (!this.isAvailable() || activityNames.length === 0) return;
+
+    try {
+      DeviceActivityModule.stopMonitoring(activityNames);
+      activityNames.forEach((name) => DeviceActivityModule.cleanUpAfterActivity(name));
+      console.log('[DeviceActivityService] Stopped monitoring:', activityNames);
+    } catch (error) {
+      console.error('[DeviceActivityService] Error stopping monitoring:', error);
+    }
+  }
+
+  /**
+   * Names of all currently monitored activities
+   */
+  getMonitoredActivities(): string[] {
+    if (!this.isAvailable()) return [];
+
+    try {
+      return DeviceActivityModule.getActivities();
+    } catch (error) {
+      console.error('[DeviceActivityService] Error reading activities:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Monitor events recorded by the ActivityMonitor extension in app-group storage
+   * Keys are parsed here: `getEvents` splits them on underscores, which
+   * activity names like `blocker_<id>_<time>` contain.
+   *
+   * @param activityName - Activity to read events for
+   */
+  getMonitorEvents(activityName: string): DeviceActivity.EventParsed[] {
+    if (!this.isAvailable()) return [];
+
+    try {
+      const prefix = `events_${activityName}_`;
+      const events: DeviceActivity.EventParsed[] = [];
+
+      for (const [key, value] of Object.entries(DeviceActivityModule.userDefaultsAll())) {
+        if (!key.startsWith(prefix) || typeof value !== 'number') continue;
+
+        const [callbackName, ...eventName] = key.slice(prefix.length).split('_');
+        if (!MONITOR_CALLBACK_NAMES.includes(callbackName as DeviceActivity.CallbackEventName)) continue;
+
+        events.push({
+          activityName,
+          callbackName: callbackName as DeviceActivity.CallbackEventName,
+          eventName: eventName.length > 0 ? eventName.join('_') : undefined,
+          lastCalledAt: new Date(value),
+        });
+      }
+
+      return events.sort((a, b) => a.lastCalledAt.getTime() - b.lastCalledAt.getTime());
+    } catch (error) {
+      console.error('[DeviceActivityService] Error reading monitor events:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Register a one-off schedule window with the ActivityMonitor extension
+   * The extension blocks the selection at interval start and unblocks it at
+   * the end, except for apps other windows or limits still shield.
+   *
+   * @param scheduleId - Schedule the window belongs to
+   * @param rule - Selection to enforce and how
+   * @param start - Window start
+   * @param end - Window end
+   * @returns Registered activity name
+   */
+  async monitorScheduleWindow(
+    scheduleId: string,
+    rule: BlockRule,
+    start: Date,
+    end: Date
+  ): Promise<string | null> {
+    const [activityName] = await this.monitorScheduleWindows(scheduleId, rule, [{ start, end }]);
+    return activityName ?? null;
+  }
+
+  /**
+   * Register several upcoming windows of a schedule at once
+   * Lets a schedule with more than one window a day keep blocking on time
+   * while the app is closed. Windows the system refuses are skipped.
+   * The extension applies each schedule on its own; the app re-applies the
+   * combined rules of all running schedules when it is opened.
+   *
+   * @param scheduleId - Schedule the windows belong to
+   * @param rule - Selection to enforce and how
+   * @param windows - Window instants, in order
+   * @returns Registered activity names
+   */
+  async monitorScheduleWindows(
+    scheduleId: string,
+    rule: BlockRule,
+    windows: { start: Date; end: Date }[]
+  ): Promise<string[]> {
+    if (!this.isAvailable()) return [];
+
+    // Replace any previous windows of this schedule
+    this.stopMonitoringSchedule(scheduleId);
+
+    const registered: MonitoredWindow[] = [];
+
+    try {
+      for (const { start, end } of windows) {
+        const activityName = `${getScheduleActivityPrefix(scheduleId)}${start.getTime()}`;
+
+        DeviceActivityModule.configureActions({
+          activityName,
+          callbackName: 'intervalDidStart',
+          actions: this.getStartActions([rule]),
+        });
+
+        try {
+          await this.startMonitoring(activityName, {
+            intervalStart: toDateComponents(start),
+            intervalEnd: toDateComponents(end),
+            repeats: false,
+          });
+          registered.push({ activityName, rule, start: start.getTime(), end: end.getTime() });
+        } catch (error) {
+          // Already logged; keep registering the remaining windows
+          if (windows.length === 1) throw error;
+        }
+      }
+    } finally {
+      // End actions depend on every window, so they are written once all are known
+      this.setSharedValue(MONITORED_WINDOWS_KEY, [...this.getMonitoredWindows(), ...registered]);
+      this.refreshReleaseActions();
+    }
+
+    return registered.map((window) => window.activityName);
+  }
+
+  /**
+   * Unblock a quick session's selection when it ends, even if the app is closed
+   * Sessions shorter than the monitoring minimum start their interval early.
+   *
+   * @param sessionId - Quick session ID, stopped with `stopMonitoringSchedule`
+   * @param familyActivitySelectionId - Selection blocked during the session
+   * @param endsAt - When the session ends
+   */
+  async monitorQuickSession(
+    sessionId: string,
+    familyActivitySelectionId: string,
+    endsAt: Date
+  ): Promise<string | null> {
+    const start = new Date(Math.min(Date.now(), endsAt.getTime() - MIN_MONITOR_INTERVAL_MS));
+    return this.monitorScheduleWindow(sessionId, { familyActivitySelectionId, mode: 'block' }, start, endsAt);
+  }
+
+  /**
+   * Stop monitoring every window registered for a schedule
+   */
+  stopMonitoringSchedule(scheduleId: string): void {
+    const prefix = getScheduleActivityPrefix(scheduleId);
+    const activityNames = this.getMonitoredActivities().filter((name) => name.startsWith(prefix));
+    if (activityNames.length === 0) return;
+
+    this.stopMonitoring(activityNames);
+    this.setSharedValue(MONITORED_WINDOWS_KEY, this.getMonitoredWindows());
+    this.refreshReleaseActions();
+  }
+
+  /**
+   * Rewrite what window ends, usage limit resets and opens lift
+   * Called whenever windows or limits change; call it as well when a limit is
+   * reached, so windows ending later that day and opens keep its apps shielded.
+   * Starts of windows with web domains are rewritten too, so overlapping
+   * windows shield their domains together.
+   * Opens started from the shield cannot tell which windows run at that time;
+   * a running schedule's own shield offers no open instead.
+   */
+  refreshReleaseActions(): void {
+    if (!this.isAvailable()) return;
+
+    const windows = this.getMonitoredWindows();
+    const usageLimits = this.getSharedValue<UsageLimit[]>(USAGE_LIMITS_KEY) ?? [];
+    const openLimits = this.getSharedValue<OpenLimitRule[]>(OPEN_LIMITS_KEY) ?? [];
+    const reachedIds = this.getReachedUsageLimitIds(Date.now());
+
+    try {
+      for (const window of windows) {
+        if (getWebDomains([window.rule]).length > 0) {
+          DeviceActivityModule.configureActions({
+            activityName: window.activityName,
+            callbackName: 'intervalDidStart',
+            actions: this.getWindowStartActions(window, windows),
+          });
+        }
+        DeviceActivityModule.configureActions({
+          activityName: window.activityName,
+          callbackName: 'intervalDidEnd',
+          actions: this.getWindowEndActions(window, windows),
+        });
+      }
+      for (const limit of usageLimits) {
+        DeviceActivityModule.configureActions({
+          activityName: getUsageLimitActivityName(limit.id),
+          callbackName: 'intervalDidStart',
+          actions: this.getLimitResetActions(limit, windows),
+        });
+      }
+      for (const rule of openLimits) {
+        // Shield buttons lift this selection, so it is saved even when nothing is kept
+        const releaseId = getOpenReleaseSelectionId(rule.limitId);
+        DeviceActivityModule.intersection(
+          { activitySelectionId: rule.familyActivitySelectionId },
+          { activitySelectionId: rule.familyActivitySelectionId },
+          { stripToken: true, persistAsActivitySelectionId: releaseId }
+        );
+        this.getReleaseSelectionId(releaseId, reachedIds, releaseId);
+      }
+    } catch (error) {
+      console.error('[DeviceActivityService] Error configuring release actions:', error);
+    }
+  }
+
+  /**
+   * Re-apply blocks when a pause ends, even if the app is closed
+   * The extension applies the rules when the interval starts.
+   *
+   * @param rules - Rules to apply again
+   * @param resumeAt - When the pause ends
+   */
+  async monitorPauseEnd(rules: BlockRule[], resumeAt: Date): Promise<void> {
+    if (!this.isAvailable() || rules.length === 0) return;
+
+    const activityName = `${PAUSE_ACTIVITY_PREFIX}${resumeAt.getTime()}`;
+
+    this.stopMonitoringPause();
+
+    DeviceActivityModule.configureActions({
+      activityName,
+      callbackName: 'intervalDidStart',
+      actions: this.getStartActions(rules),
+    });
+
+    await this.startMonitoring(activityName, {
+      intervalStart: toDateComponents(resumeAt),
+      intervalEnd: toDateComponents(new Date(resumeAt.getTime() + MIN_MONITOR_INTERVAL_MS)),
+      repeats: false,
+    });
+  }
+
+  /**
+   * Stop the pending pause-end activity, if any
+   */
+  stopMonitoringPause(): void {
+    this.stopMonitoring(
+      this.getMonitoredActivities().filter((name) => name.startsWith(PAUSE_ACTIVITY_PREFIX))
+    );
+  }
+
+  /**
+   * Latest interval callbacks recorded for a schedule's monitored windows
+   *
+   * @returns When the extension last started and ended the schedule's window
+   */
+  getScheduleMonitorState(scheduleId: string): { startedAt?: number; endedAt?: number } {
+    const prefix = getScheduleActivityPrefix(scheduleId);
+    const result: { startedAt?: number; endedAt?: number } = {};
+
+    for (const activityName of this.getMonitoredActivities()) {
+      if (!activityName.startsWith(prefix)) continue;
+
+      for (const event of this.getMonitorEvents(activityName)) {
+        const calledAt = new Date(event.lastCalledAt).getTime();
+        if (event.callbackName === 'intervalDidStart') {
+          result.startedAt = Math.max(result.startedAt ?? 0, calledAt);
+        } else if (event.callbackName === 'intervalDidEnd') {
+          result.endedAt = Math.max(result.endedAt ?? 0, calledAt);
+        }
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Track a usage limit with the ActivityMonitor extension
+   * A daily repeating interval counts use of the limit's apps; threshold events
+   * record progress every few minutes and shield the apps when the budget runs
+   * out. The shield is lifted when the next day's interval starts, except for
+   * apps a window running over midnight or a closed open limit shares.
+   * Limits without apps are not tracked.
+   *
+   * @param limit - Limit to track, replacing its previous registration
+   */
+  async monitorUsageLimit(limit: UsageLimit): Promise<void> {
+    if (!this.isAvailable()) return;
+
+    const activityName = getUsageLimitActivityName(limit.id);
+    const familyActivitySelection = DeviceActivityModule.getFamilyActivitySelectionId(limit.familyActivitySelectionId);
+
+    this.stopMonitoring(this.getMonitoredActivities().filter((name) => name === activityName));
+    if (!familyActivitySelection) {
+      console.log('[DeviceActivityService] Usage limit has no apps:', limit.id);
+      return;
+    }
+
+    const rule: BlockRule = { familyActivitySelectionId: limit.familyActivitySelectionId, mode: 'block' };
+
+    DeviceActivityModule.configureActions({
+      activityName,
+      callbackName: 'intervalDidStart',
+      actions: this.getLimitResetActions(limit, this.getMonitoredWindows()),
+    });
+    DeviceActivityModule.configureActions({
+      activityName,
+      callbackName: 'eventDidReachThreshold',
+      eventName: String(limit.dailyMinutes),
+      actions: this.getStartActions([rule]),
+    });
+
+    await this.startMonitoring(
+      activityName,
+      {
+        intervalStart: { hour: 0, minute: 0, second: 0 },
+        intervalEnd: { hour: 23, minute: 59, second: 59 },
+        repeats: true,
+      },
+      getUsageThresholds(limit.dailyMinutes).map((minutes) => ({
+        familyActivitySelection,
+        threshold: { minute: minutes },
+        eventName: String(minutes),
+        includesPastActivity: true,
+      }))
+    );
+  }
+
+  /**
+   * Replace the enforced usage limits
+   * Inactive and removed limits stop being tracked; active limits not tracked
+   * yet are registered. Call `applyBlocks` afterwards to lift shields of
+   * limits that were turned off.
+   *
+   * @param limits - All saved limits
+   */
+  async setUsageLimits(limits: UsageLimit[]): Promise<void> {
+    if (!this.isAvailable()) return;
+
+    const activeLimits = limits.filter((limit) => limit.isActive);
+    const activeNames = activeLimits.map((limit) => getUsageLimitActivityName(limit.id));
+    const monitored = this.getMonitoredActivities().filter((name) => name.startsWith(USAGE_LIMIT_ACTIVITY_PREFIX));
+
+    this.setSharedValue(USAGE_LIMITS_KEY, activeLimits);
+    this.stopMonitoring(monitored.filter((name) => !activeNames.includes(name)));
+
+    for (const limit of activeLimits) {
+      if (monitored.includes(getUsageLimitActivityName(limit.id))) continue;
+
+      try {
+        await this.monitorUsageLimit(limit);
+      } catch {
+        // Already logged; keep registering the remaining limits
+      }
+    }
+
+    this.refreshReleaseActions();
+  }
+
+  /**
+   * Usage of a limit's apps today, as recorded by the monitor extension
+   *
+   * @param limit - Limit to read
+   * @param now - Day to read (default: today)
+   */
+  getUsageLimitProgress(limit: UsageLimit, now: Date = new Date()): UsageLimitProgress {
+    const startOfDay = new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime();
+    const progress: UsageLimitProgress = { usedMinutes: 0 };
+
+    for (const minutes of getUsageThresholds(limit.dailyMinutes)) {
+      const calledAt = this.getSharedValue<number>(getThresholdEventKey(limit.id, minutes));
+      if (!calledAt || calledAt < startOfDay) continue;
+
+      progress.usedMinutes = Math.max(progress.usedMinutes, minutes);
+      if (minutes === limit.dailyMinutes) {
+        progress.exceededAt = calledAt;
+      }
+    }
+
+    return progress;
+  }
+
+  /**
+   * When a limit's minutes last ran out, on any day
+   */
+  getUsageLimitExceededAt(limit: UsageLimit): number | undefined {
+    return this.getSharedValue<number>(getThresholdEventKey(limit.id, limit.dailyMinutes));
+  }
+
+  /**
+   * Replace the enforced open limits
+   * Each limit gets its shields, the actions that shield its apps again after
+   * each open and a daily activity that shields them at midnight. Removed limits
+   * stop being tracked; call `applyBlocks` afterwards to lift their shields.
+   *
+   * @param rules - Rules of all active open limits
+   */
+  async setOpenLimits(rules: OpenLimitRule[]): Promise<void> {
+    if (!this.isAvailable()) return;
+
+    const dayNames = rules.map((rule) => getOpenLimitDayActivityName(rule.limitId, rule.familyActivitySelectionId));
+    const monitored = this.getMonitoredActivities();
+
+    this.setSharedValue(OPEN_LIMITS_KEY, rules);
+    this.stopMonitoring(
+      monitored.filter(
+        (name) =>
+          name.startsWith(OPEN_LIMIT_ACTIVITY_PREFIX) &&
+          !rules.some((rule) => name.startsWith(`${getOpenLimitActivityName(rule.limitId)}_open_`)) &&
+          !dayNames.includes(name)
+      )
+    );
+
+    for (const rule of rules) {
+      this.writeOpenLimitShields(rule);
+
+      for (let open = 1; open <= rule.maxOpens; open++) {
+        DeviceActivityModule.configureActions({
+          activityName: getOpenActivityName(rule.limitId, open),
+          callbackName: 'intervalDidEnd',
+          actions: this.getStartActions([
+            {
+              familyActivitySelectionId: rule.familyActivitySelectionId,
+              mode: 'block',
+              shieldId: getOpenLimitShieldId(rule.limitId, open),
+            },
+          ]),
+        });
+      }
+
+      const dayName = getOpenLimitDayActivityName(rule.limitId, rule.familyActivitySelectionId);
+      DeviceActivityModule.configureActions({
+        activityName: dayName,
+        callbackName: 'intervalDidStart',
+        actions: this.getStartActions([
+          {
+            familyActivitySelectionId: rule.familyActivitySelectionId,
+            mode: 'block',
+            shieldId: getOpenLimitShieldId(rule.limitId, 0),
+          },
+        ]),
+      });
+      if (monitored.includes(dayName)) continue;
+
+      try {
+        await this.startMonitoring(dayName, {
+          intervalStart: { hour: 0, minute: 0, second: 0 },
+          intervalEnd: { hour: 23, minute: 59, second: 59 },
+          repeats: true,
+        });
+      } catch {
+        // Already logged; the app still shields the apps while it runs
+      }
+    }
+
+    this.refreshReleaseActions();
+  }
+
+  /**
+   * Opens of an open limit counted today by the monitor extension
+   * Every open's activity records when it started, whether the shield or the app started it.
+   *
+   * @param limitId - Limit to read
+   * @param maxOpens - Opens allowed per day
+   * @param now - Day to read (default: today)
+   */
+  getCountedOpens(limitId: string, maxOpens: number, now: Date = new Date()): CountedOpens {
+    const startOfDay = new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime();
+    const counted: CountedOpens = { opens: 0 };
+
+    for (let open = 1; open <= maxOpens; open++) {
+      const startedAt = this.getSharedValue<number>(`events_${getOpenActivityName(limitId, open)}_intervalDidStart`);
+      if (!startedAt || startedAt < startOfDay) continue;
+
+      counted.opens = open;
+      counted.openUntil = Math.max(counted.openUntil ?? 0, startedAt + OPEN_LIMIT_WINDOW_MS);
+    }
+
+    return counted;
+  }
+
+  /**
+   * Count an open started in the app the way the shield counts one
+   * The open's activity runs until the open ends and shields the apps again
+   * then, even if the app is closed. Opens last the monitoring minimum.
+   *
+   * @param rule - Limit with the open that just started counted and its `openUntil`
+   */
+  async monitorOpen(rule: OpenLimitRule): Promise<void> {
+    if (!this.isAvailable() || !rule.openUntil) return;
+
+    const activityName = getOpenActivityName(rule.limitId, rule.opensUsed);
+    const end = new Date(rule.openUntil);
+
+    this.stopMonitoring(this.getMonitoredActivities().filter((name) => name === activityName));
+
+    DeviceActivityModule.configureActions({
+      activityName,
+      callbackName: 'intervalDidEnd',
+      actions: this.getStartActions([
+        {
+          familyActivitySelectionId: rule.familyActivitySelectionId,
+          mode: 'block',
+          shieldId: getOpenLimitShieldId(rule.limitId, rule.opensUsed),
+        },
+      ]),
+    });
+
+    await this.startMonitoring(activityName, {
+      intervalStart: toDateComponents(new Date(end.getTime() - MIN_MONITOR_INTERVAL_MS)),
+      intervalEnd: toDateComponents(end),
+      repeats: false,
+    });
+  }
+
+  /**
+   * Read a value from the app group user defaults
+   * Shared with the extensions and kept when AsyncStorage is cleared.
+   */
+  getSharedValue<T>(key: string): T | undefined {
+    if (!this.isAvailable()) return undefined;
+
+    try {
+      return DeviceActivityModule.userDefaultsGet<T>(key);
+    } catch (error) {
+      console.error('[DeviceActivityService] Error reading shared value:', key, error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Write a value to the app group user defaults
+   */
+  setSharedValue(key: string, value: unknown): void {
+    if (!this.isAvailable()) return;
+
+    try {
+      DeviceActivityModule.userDefaultsSet(key, value);
+    } catch (error) {
+      console.error('[DeviceActivityService] Error writing shared value:', key, error);
+    }
+  }
+
+  /**
+   * Save a shield look and write it for the shield extension
+   * Apps already shielded keep their look until blocks are applied again.
+   *
+   * @param shieldId - `DEFAULT_SHIELD_ID` or a schedule's shield ID
+   * @param appearance - Look to show, or null to drop a schedule's own look
+   */
+  setShieldAppearance(shieldId: string, appearance: ShieldAppearance | null): void {
+    if (!this.isAvailable()) return;
+
+    const appearances = this.getSharedValue<Record<string, ShieldAppearance>>(SHIELD_APPEARANCES_KEY) ?? {};
+    this.setShieldAppearances({ ...appearances, [shieldId]: appearance });
+  }
+
+  /**
+   * Replace all saved shield looks
+   *
+   * @param appearances - Looks by shield ID; null entries are removed
+   */
+  setShieldAppearances(appearances: Record<string, ShieldAppearance | null>): void {
+    if (!this.isAvailable()) return;
+
+    const saved: Record<string, ShieldAppearance> = {};
+    const rotation = this.getSharedValue<number>(SHIELD_ROTATION_KEY) ?? 0;
+
+    try {
+      for (const [shieldId, appearance] of Object.entries(appearances)) {
+        if (appearance) {
+          saved[shieldId] = appearance;
+          this.writeShield(shieldId, appearance, rotation);
+        }
+      }
+      this.setSharedValue(SHIELD_APPEARANCES_KEY, saved);
+      // Open limit shields take the global look
+      (this.getSharedValue<OpenLimitRule[]>(OPEN_LIMITS_KEY) ?? []).forEach((rule) => this.writeOpenLimitShields(rule));
+      console.log('[DeviceActivityService] Saved shield looks:', Object.keys(saved));
+    } catch (error) {
+      console.error('[DeviceActivityService] Error saving shield looks:', error);
+    }
+  }
+
   /**
    * Subscribe to authorization status changes
    */
@@ -87,7 +1522,7 @@ class DeviceActivityService {
       return { remove: () => {} };
     }
 
-    return DeviceActivity.onAuthorizationStatusChange(({ authorizationStatus }) => {
+    return DeviceActivityModule.onAuthorizationStatusChange(({ authorizationStatus }) => {
       callback(authorizationStatus);
     });
   }
@@ -0,0 +1,374 @@
+/**
+ * Schedule Engine
+ *
+ * Pure schedule math for blocking schedules.
+ * Computes the time status of every schedule and the transitions
+ * (waiting → active, active → ended) the blocker should apply.
+ * The clock is injectable so the engine can be driven outside of React.
+ *
+ * @module services/schedule-engine
+ */
+
+import type { BlockerSchedule } from '@/types/blocker';
+import { getScheduleWindows } from '@/utils/scheduleWindows';
+import { getDayKey, parseDayKey } from '@/utils/sessionHistory';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Returns the current time. Replace in tests or previews to freeze time. */
+export type Clock = () => Date;
+
+/**
+ * Time status of a schedule at a given moment
+ * - `active` - inside the time window
+ * - `waiting` - window starts later today
+ * - `ended` - window already passed today
+ * - `wrong_day` - schedule does not run today
+ */
+export type ScheduleTimeStatus = 'active' | 'waiting' | 'ended' | 'wrong_day';
+
+/**
+ * Single state change produced by the engine
+ * - `activate` - waiting schedule reached its start time
+ * - `suspend` - active schedule left a window and waits for a later one today
+ * - `end` - active schedule reached its end time or was deleted
+ * - `expire` - waiting schedule missed its window or was deleted
+ */
+export interface ScheduleTransition {
+  type: 'activate' | 'suspend' | 'end' | 'expire';
+  scheduleId: string;
+  /** Status that caused the transition (`missing` if the schedule no longer exists) */
+  status: ScheduleTimeStatus | 'missing';
+}
+
+/** Concrete start and end instants of one schedule window */
+export interface ScheduleOccurrence {
+  start: Date;
+  end: Date;
+}
+
+/** Running schedule IDs as tracked in BlockerState */
+export interface RunningSchedules {
+  activeScheduleIds: string[];
+  waitingScheduleIds: string[];
+}
+
+/** Result of evaluating running schedules */
+export interface ScheduleEvaluation extends RunningSchedules {
+  /** Transitions to apply, in evaluation order */
+  transitions: ScheduleTransition[];
+  /** Whether any transition was produced */
+  hasChanges: boolean;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/** Default clock backed by the device time */
+export const systemClock: Clock = () => new Date();
+
+/**
+ * Parse time string "HH:mm" to minutes since midnight
+ */
+export function timeToMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Minutes since local midnight for a date
+ * Uses wall-clock time, so DST shifts do not move schedule windows.
+ */
+export function minutesSinceMidnight(date: Date): number {
+  return date.getHours() * 60 + date.getMinutes();
+}
+
+/**
+ * Check if a minute of the day falls within a time range
+ * Ranges where start > end wrap past midnight (e.g., 22:00 - 06:00).
+ */
+export function isMinuteInRange(currentMinutes: number, startTime: string, endTime: string): boolean {
+  const startMinutes = timeToMinutes(startTime);
+  const endMinutes = timeToMinutes(endTime);
+
+  if (startMinutes > endMinutes) {
+    return currentMinutes >= startMinutes || currentMinutes < endMinutes;
+  }
+
+  return currentMinutes >= startMinutes && currentMinutes < endMinutes;
+}
+
+/**
+ * Check if a schedule window starts on a given local date
+ * One-off schedules run only on their date; repeating schedules run on the
+ * window's days of week within the optional date range. Exception dates never run.
+ *
+ * @param schedule - Schedule to inspect
+ * @param date - Local date
+ * @param daysOfWeek - Days of the window (default: the schedule's days)
+ */
+export function runsOnDate(
+  schedule: BlockerSchedule,
+  date: Date,
+  daysOfWeek: number[] = schedule.daysOfWeek
+): boolean {
+  const key = getDayKey(date);
+
+  if (schedule.exceptionDates?.includes(key)) return false;
+  if (schedule.date) return schedule.date === key;
+  if (schedule.dateRange && (key < schedule.dateRange.start || key > schedule.dateRange.end)) {
+    return false;
+  }
+
+  return daysOfWeek.includes(date.getDay());
+}
+
+/**
+ * Occurrences of every window in the search range, sorted and merged
+ *
+ * Searches from the windows that started yesterday (overnight tails) up to
+ * one week ahead, starting at the first date of dated schedules and looking
+ * a week further for every exception date. Windows that touch or overlap
+ * (9-12 and 12-14) merge into one occurrence. Instants are built from local
+ * calendar dates, so windows keep their wall-clock times across DST changes.
+ */
+function collectOccurrences(schedule: BlockerSchedule, from: Date): ScheduleOccurrence[] {
+  if (!schedule.isActive) return [];
+
+  const yesterday = new Date(from.getFullYear(), from.getMonth(), from.getDate() - 1);
+  const firstDate = schedule.date ?? schedule.dateRange?.start;
+  const searchStart = firstDate && parseDayKey(firstDate) > yesterday ? parseDayKey(firstDate) : yesterday;
+  const searchDays = 8 + 7 * (schedule.exceptionDates?.length ?? 0);
+  const occurrences: ScheduleOccurrence[] = [];
+
+  for (const window of getScheduleWindows(schedule)) {
+    const startMinutes = timeToMinutes(window.startTime);
+    const endMinutes = timeToMinutes(window.endTime);
+    if (startMinutes === endMinutes) continue;
+
+    const isOvernight = startMinutes > endMinutes;
+
+    for (let offset = 0; offset <= searchDays; offset++) {
+      const day = new Date(searchStart.getFullYear(), searchStart.getMonth(), searchStart.getDate() + offset);
+      if (!runsOnDate(schedule, day, window.daysOfWeek)) continue;
+
+      occurrences.push({
+        start: new Date(
+          day.getFullYear(),
+          day.getMonth(),
+          day.getDate(),
+          Math.floor(startMinutes / 60),
+          startMinutes % 60
+        ),
+        end: new Date(
+          day.getFullYear(),
+          day.getMonth(),
+          day.getDate() + (isOvernight ? 1 : 0),
+          Math.floor(endMinutes / 60),
+          endMinutes % 60
+        ),
+      });
+    }
+  }
+
+  occurrences.sort((a, b) => a.start.getTime() - b.start.getTime());
+
+  const merged: ScheduleOccurrence[] = [];
+  for (const occurrence of occurrences) {
+    const last = merged[merged.length - 1];
+    if (last && occurrence.start.getTime() <= last.end.getTime()) {
+      if (occurrence.end.getTime() > last.end.getTime()) {
+        last.end = occurrence.end;
+      }
+    } else {
+      merged.push({ ...occurrence });
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Find the window that is in progress at `from` or starts next
+ *
+ * @param schedule - Schedule to inspect
+ * @param from - Reference time
+ * @returns Current or next occurrence, or null if the schedule never runs
+ */
+export function getNextOccurrence(schedule: BlockerSchedule, from: Date): ScheduleOccurrence | null {
+  return collectOccurrences(schedule, from).find((o) => o.end.getTime() > from.getTime()) ?? null;
+}
+
+/**
+ * Occurrences in progress at `from` or starting before `to`
+ *
+ * @param schedule - Schedule to inspect
+ * @param from - Start of the range
+ * @param to - End of the range (at most one week after `from`)
+ */
+export function getOccurrencesBetween(schedule: BlockerSchedule, from: Date, to: Date): ScheduleOccurrence[] {
+  return collectOccurrences(schedule, from).filter(
+    (o) => o.end.getTime() > from.getTime() && o.start.getTime() < to.getTime()
+  );
+}
+
+/**
+ * Clip occurrences to one local day, as minutes since midnight
+ * Overnight occurrences are cut at midnight, so each of the two days
+ * they cover gets its own part.
+ *
+ * @param occurrences - Occurrences to clip
+ * @param dayStart - Local midnight of the day
+ * @param dayEnd - Local midnight of the next day
+ * @returns [start, end] minute pairs, end is 1440 when running past midnight
+ */
+export function clipOccurrencesToDay(
+  occurrences: ScheduleOccurrence[],
+  dayStart: Date,
+  dayEnd: Date
+): [number, number][] {
+  return occurrences
+    .filter((o) => o.start.getTime() < dayEnd.getTime() && o.end.getTime() > dayStart.getTime())
+    .map((o) => [
+      o.start.getTime() <= dayStart.getTime() ? 0 : minutesSinceMidnight(o.start),
+      o.end.getTime() >= dayEnd.getTime() ? 24 * 60 : minutesSinceMidnight(o.end),
+    ]);
+}
+
+// ============================================================================
+// Engine
+// ============================================================================
+
+export class ScheduleEngine {
+  constructor(private readonly clock: Clock = systemClock) {}
+
+  /**
+   * Current time according to the engine clock
+   */
+  now(): Date {
+    return this.clock();
+  }
+
+  /**
+   * Check if the current time falls within a time range
+   */
+  isTimeInRange(startTime: string, endTime: string): boolean {
+    return isMinuteInRange(minutesSinceMidnight(this.clock()), startTime, endTime);
+  }
+
+  /**
+   * Current or next occurrence of a schedule relative to the engine clock
+   */
+  getUpcomingOccurrence(schedule: BlockerSchedule): ScheduleOccurrence | null {
+    return getNextOccurrence(schedule, this.clock());
+  }
+
+  /**
+   * Next occurrence that has not started yet
+   * Used to tell when a schedule whose window already passed will run again.
+   */
+  getNextStart(schedule: BlockerSchedule): ScheduleOccurrence | null {
+    const now = this.clock();
+    const occurrence = getNextOccurrence(schedule, now);
+
+    if (occurrence && occurrence.start.getTime() <= now.getTime()) {
+      // Currently inside a window - look past its end
+      return getNextOccurrence(schedule, occurrence.end);
+    }
+
+    return occurrence;
+  }
+
+  /**
+   * Check schedule time status
+   * Returns: 'active' if within a window, 'waiting' if the next window starts later today,
+   * 'ended' if today's windows have passed
+   *
+   * Overnight windows belong to the day they started on: a "Fri 22:00 - 06:00"
+   * schedule is active at 01:00 on Saturday even if Saturday is not listed,
+   * and an exception on Saturday does not cut that tail short.
+   */
+  getScheduleTimeStatus(schedule: BlockerSchedule): ScheduleTimeStatus {
+    if (!schedule.isActive || !schedule.familyActivitySelectionId) {
+      return 'ended';
+    }
+
+    const now = this.clock();
+    const occurrence = getNextOccurrence(schedule, now);
+
+    if (occurrence && occurrence.start.getTime() <= now.getTime()) {
+      return 'active';
+    }
+    if (occurrence && getDayKey(occurrence.start) === getDayKey(now)) {
+      return 'waiting';
+    }
+
+    const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+    const runsToday = getScheduleWindows(schedule).some(
+      (window) => window.startTime !== window.endTime && runsOnDate(schedule, today, window.daysOfWeek)
+    );
+
+    return runsToday ? 'ended' : 'wrong_day';
+  }
+
+  /**
+   * Evaluate running schedules and compute transitions
+   *
+   * Active schedules whose window is over are ended (or suspended until a later
+   * window today), waiting schedules whose window started are activated, and
+   * waiting schedules whose window passed are expired. Schedules missing from
+   * `schedules` are dropped.
+   *
+   * @param schedules - All known schedules
+   * @param running - Currently active and waiting schedule IDs
+   */
+  evaluate(schedules: BlockerSchedule[], running: RunningSchedules): ScheduleEvaluation {
+    const transitions: ScheduleTransition[] = [];
+    const activeScheduleIds = [...running.activeScheduleIds];
+    const waitingScheduleIds: string[] = [];
+
+    // Check each active schedule - stop if time ended
+    for (const scheduleId of running.activeScheduleIds) {
+      const schedule = schedules.find((s) => s.id === scheduleId);
+      const status = schedule ? this.getScheduleTimeStatus(schedule) : 'missing';
+
+      if (status === 'waiting') {
+        transitions.push({ type: 'suspend', scheduleId, status });
+        activeScheduleIds.splice(activeScheduleIds.indexOf(scheduleId), 1);
+        waitingScheduleIds.push(scheduleId);
+      } else if (status !== 'active') {
+        transitions.push({ type: 'end', scheduleId, status });
+        activeScheduleIds.splice(activeScheduleIds.indexOf(scheduleId), 1);
+      }
+    }
+
+    // Check each waiting schedule - start if time came
+    for (const scheduleId of running.waitingScheduleIds) {
+      const schedule = schedules.find((s) => s.id === scheduleId);
+      const status = schedule ? this.getScheduleTimeStatus(schedule) : 'missing';
+
+      if (status === 'active') {
+        transitions.push({ type: 'activate', scheduleId, status });
+        activeScheduleIds.push(scheduleId);
+      } else if (status === 'waiting') {
+        waitingScheduleIds.push(scheduleId);
+      } else {
+        transitions.push({ type: 'expire', scheduleId, status });
+      }
+    }
+
+    return {
+      activeScheduleIds,
+      waitingScheduleIds,
+      transitions,
+      hasChanges: transitions.length > 0,
+    };
+  }
+}
+
+/** Singleton engine driven by the device clock */
+export const scheduleEngine = new ScheduleEngine();
+export default scheduleEngine;
@@ -0,0 +1,270 @@
+/**
+ * Schedule Validation
+ *
+ * Checks a schedule before it is saved: windows must have a length,
+ * weekly windows need days, and the schedule has to run at least once more.
+ * Also finds overlaps with other schedules and lays the coming week out
+ * as a merged blocking timeline for previews.
+ *
+ * @module services/schedule-validation
+ */
+
+import { BlockerSchedule } from '@/types/blocker';
+import { getScheduleWindows } from '@/utils/scheduleWindows';
+import { getDayKey } from '@/utils/sessionHistory';
+import {
+  clipOccurrencesToDay,
+  getNextOccurrence,
+  getOccurrencesBetween,
+  ScheduleOccurrence,
+} from './schedule-engine';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Days covered by overlap checks and the timeline preview */
+const PREVIEW_DAYS = 7;
+
+/** Fields that decide when a schedule runs */
+const TIMING_FIELDS: (keyof BlockerSchedule)[] = [
+  'startTime',
+  'endTime',
+  'daysOfWeek',
+  'windows',
+  'date',
+  'dateRange',
+  'exceptionDates',
+];
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * First time a schedule blocks at the same moment as another one
+ */
+export interface ScheduleOverlap {
+  /** Schedule that overlaps */
+  schedule: BlockerSchedule;
+  /** Start of the first shared stretch */
+  start: Date;
+  /** End of the first shared stretch */
+  end: Date;
+}
+
+/**
+ * Stretch of one timeline day
+ * - `existing` - only other schedules block
+ * - `new` - only the schedule being edited blocks
+ * - `overlap` - both block
+ */
+export interface TimelineSegment {
+  kind: 'existing' | 'new' | 'overlap';
+  /** Minutes since local midnight */
+  startMinutes: number;
+  /** Minutes since local midnight (1440 at the end of the day) */
+  endMinutes: number;
+}
+
+/** One day of the merged blocking timeline */
+export interface TimelineDay {
+  /** Local midnight of the day */
+  date: Date;
+  segments: TimelineSegment[];
+}
+
+/**
+ * Thrown when a schedule that cannot run correctly is saved
+ */
+export class ScheduleValidationError extends Error {
+  readonly problems: string[];
+
+  constructor(problems: string[]) {
+    super(problems.join('\n'));
+    this.name = 'ScheduleValidationError';
+    this.problems = problems;
+  }
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+/**
+ * Problems that keep a schedule from running as the user expects
+ *
+ * @param schedule - Schedule about to be saved
+ * @param now - Reference time (default: current time)
+ * @returns User-facing messages, empty if the schedule is valid
+ */
+export function getScheduleProblems(schedule: BlockerSchedule, now: Date = new Date()): string[] {
+  const problems: string[] = [];
+  const windows = getScheduleWindows(schedule);
+  const today = getDayKey(now);
+
+  for (const window of windows) {
+    if (window.startTime === window.endTime) {
+      problems.push(`The ${window.startTime} window starts and ends at the same time.`);
+    }
+  }
+
+  if (!schedule.date && windows.some((window) => window.daysOfWeek.length === 0)) {
+    problems.push(
+      windows.length > 1 ? 'Pick at least one day for every window.' : 'Pick at least one day.'
+    );
+  }
+
+  if (schedule.date && schedule.date < today) {
+    problems.push('The date has already passed.');
+  }
+
+  if (schedule.dateRange) {
+    if (schedule.dateRange.start > schedule.dateRange.end) {
+      problems.push('The first date must not be after the last date.');
+    } else if (schedule.dateRange.end < today) {
+      problems.push('The date range has already ended.');
+    }
+  }
+
+  // Anything else that leaves no upcoming window, e.g. every date skipped
+  if (problems.length === 0 && schedule.isActive && !getNextOccurrence(schedule, now)) {
+    problems.push('This schedule has no upcoming window with these dates and times.');
+  }
+
+  return problems;
+}
+
+/**
+ * Refuse a schedule that cannot run correctly
+ *
+ * @throws ScheduleValidationError listing every problem
+ */
+export function assertValidSchedule(schedule: BlockerSchedule, now: Date = new Date()): void {
+  const problems = getScheduleProblems(schedule, now);
+  if (problems.length > 0) {
+    throw new ScheduleValidationError(problems);
+  }
+}
+
+/**
+ * Check if an edit can leave a schedule unable to run
+ * Only new dates or windows, or turning the schedule back on, need validating;
+ * a one-off whose date has passed can still be renamed, disabled or restyled.
+ *
+ * @param before - Saved schedule
+ * @param after - Schedule with the edit applied
+ */
+export function isValidationNeeded(before: BlockerSchedule, after: BlockerSchedule): boolean {
+  if (after.isActive && !before.isActive) return true;
+
+  return TIMING_FIELDS.some((field) => JSON.stringify(before[field]) !== JSON.stringify(after[field]));
+}
+
+// ============================================================================
+// Overlaps
+// ============================================================================
+
+function getPreviewRange(from: Date): { start: Date; end: Date } {
+  const start = new Date(from.getFullYear(), from.getMonth(), from.getDate());
+  const end = new Date(from.getFullYear(), from.getMonth(), from.getDate() + PREVIEW_DAYS);
+  return { start, end };
+}
+
+function getPreviewOccurrences(schedule: BlockerSchedule, from: Date): ScheduleOccurrence[] {
+  const { start, end } = getPreviewRange(from);
+  return getOccurrencesBetween({ ...schedule, isActive: true }, start, end);
+}
+
+/**
+ * Other enabled schedules that block at the same time during the coming week
+ *
+ * @param schedule - Schedule being saved
+ * @param others - Other saved schedules
+ * @param from - Start of the week (default: today)
+ */
+export function findScheduleOverlaps(
+  schedule: BlockerSchedule,
+  others: BlockerSchedule[],
+  from: Date = new Date()
+): ScheduleOverlap[] {
+  const occurrences = getPreviewOccurrences(schedule, from);
+  const overlaps: ScheduleOverlap[] = [];
+
+  for (const other of others) {
+    if (other.id === schedule.id || !other.isActive) continue;
+
+    const shared = getPreviewOccurrences(other, from)
+      .flatMap((theirs) =>
+        occurrences.map((ours) => ({
+          start: new Date(Math.max(ours.start.getTime(), theirs.start.getTime())),
+          end: new Date(Math.min(ours.end.getTime(), theirs.end.getTime())),
+        }))
+      )
+      .filter((stretch) => stretch.start.getTime() < stretch.end.getTime())
+      .sort((a, b) => a.start.getTime() - b.start.getTime());
+
+    if (shared.length > 0) {
+      overlaps.push({ schedule: other, ...shared[0] });
+    }
+  }
+
+  return overlaps;
+}
+
+// ============================================================================
+// Timeline
+// ============================================================================
+
+/**
+ * Merged blocking timeline of the coming week
+ * Overnight windows are split at midnight across the two days they cover.
+ *
+ * @param schedule - Schedule being edited
+ * @param others - Other saved schedules
+ * @param from - Start of the week (default: today)
+ */
+export function buildWeekTimeline(
+  schedule: BlockerSchedule,
+  others: BlockerSchedule[],
+  from: Date = new Date()
+): TimelineDay[] {
+  const ours = getPreviewOccurrences(schedule, from);
+  const theirs = others
+    .filter((other) => other.id !== schedule.id && other.isActive)
+    .flatMap((other) => getPreviewOccurrences(other, from));
+  const { start } = getPreviewRange(from);
+  const days: TimelineDay[] = [];
+
+  for (let offset = 0; offset < PREVIEW_DAYS; offset++) {
+    const dayStart = new Date(start.getFullYear(), start.getMonth(), start.getDate() + offset);
+    const dayEnd = new Date(start.getFullYear(), start.getMonth(), start.getDate() + offset + 1);
+    const ourRanges = clipOccurrencesToDay(ours, dayStart, dayEnd);
+    const theirRanges = clipOccurrencesToDay(theirs, dayStart, dayEnd);
+
+    const boundaries = [...new Set([...ourRanges, ...theirRanges].flat())].sort((a, b) => a - b);
+    const segments: TimelineSegment[] = [];
+
+    for (let i = 0; i < boundaries.length - 1; i++) {
+      const [segmentStart, segmentEnd] = [boundaries[i], boundaries[i + 1]];
+      const covers = ([rangeStart, rangeEnd]: [number, number]) =>
+        rangeStart <= segmentStart && rangeEnd >= segmentEnd;
+      const isOurs = ourRanges.some(covers);
+      const isTheirs = theirRanges.some(covers);
+      if (!isOurs && !isTheirs) continue;
+
+      const kind = isOurs && isTheirs ? 'overlap' : isOurs ? 'new' : 'existing';
+      const last = segments[segments.length - 1];
+
+      if (last && last.kind === kind && last.endMinutes === segmentStart) {
+        last.endMinutes = segmentEnd;
+      } else {
+        segments.push({ kind, startMinutes: segmentStart, endMinutes: segmentEnd });
+      }
+    }
+
+    days.push({ date: dayStart, segments });
+  }
+
+  return days;
+}
@@ -0,0 +1,581 @@
+/**
+ * Storage Schema
+ *
+ * Schema version, ordered migrations and load-time validation
+ * for data persisted by the storage service.
+ *
+ * @module services/storage-schema
+ */
+
+import { isHexColor } from '@/utils/shieldAppearance';
+import { isWebDomain } from '@/utils/webDomains';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Raw persisted payload, before validation */
+export interface StoragePayload {
+  state: unknown;
+  schedules: unknown;
+}
+
+/**
+ * Single schema upgrade step
+ * `migrate` receives data written by `version - 1` and returns data for `version`.
+ */
+export interface StorageMigration {
+  version: number;
+  description: string;
+  migrate: (payload: StoragePayload) => StoragePayload;
+}
+
+/** Record that failed validation, kept instead of being dropped */
+export interface QuarantinedRecord {
+  /** Storage key the record was read from */
+  key: string;
+  /** Why the record was rejected */
+  reason: string;
+  /** Raw record as it was stored */
+  data: unknown;
+  /** Schema version the record was validated against */
+  schemaVersion: number;
+  /** Timestamp when the record was quarantined */
+  quarantinedAt: number;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const DATE_PATTERN = /^\d{4}-(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/;
+
+function isDayList(value: unknown): value is number[] {
+  return (
+    Array.isArray(value) &&
+    value.every((day: unknown) => Number.isInteger(day) && (day as number) >= 0 && (day as number) <= 6)
+  );
+}
+
+function isDateKey(value: unknown): value is string {
+  return typeof value === 'string' && DATE_PATTERN.test(value);
+}
+
+function isRecord(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isWindowList(value: unknown): boolean {
+  return (
+    Array.isArray(value) &&
+    value.every(
+      (window: unknown) =>
+        isRecord(window) &&
+        typeof window.startTime === 'string' &&
+        TIME_PATTERN.test(window.startTime) &&
+        typeof window.endTime === 'string' &&
+        TIME_PATTERN.test(window.endTime) &&
+        isDayList(window.daysOfWeek)
+    )
+  );
+}
+
+function isUnlockChallenge(value: unknown): boolean {
+  return (
+    isRecord(value) &&
+    ['none', 'cooldown', 'typing', 'confirmations'].includes(value.type) &&
+    typeof value.difficulty === 'number' &&
+    value.difficulty >= 1
+  );
+}
+
+function isUnlockAttempt(value: unknown): boolean {
+  return (
+    isRecord(value) &&
+    typeof value.at === 'number' &&
+    typeof value.scheduleId === 'string' &&
+    ['none', 'cooldown', 'typing', 'confirmations'].includes(value.challenge) &&
+    (value.outcome === 'completed' || value.outcome === 'gave_up')
+  );
+}
+
+function isSessionPause(value: unknown): boolean {
+  return (
+    isRecord(value) &&
+    typeof value.startedAt === 'number' &&
+    (value.endedAt === undefined || typeof value.endedAt === 'number')
+  );
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string');
+}
+
+function isShieldAppearance(value: unknown): boolean {
+  return validateShieldAppearance(value).length === 0;
+}
+
+// ============================================================================
+// Migrations
+// ============================================================================
+
+/**
+ * Ordered migrations. Unversioned data written before schema versioning is version 0.
+ * Append new steps at the end; never edit a released step.
+ */
+export const STORAGE_MIGRATIONS: StorageMigration[] = [
+  {
+    version: 1,
+    description: 'Move legacy currentScheduleId into activeScheduleIds, fill schedule defaults',
+    migrate: ({ state, schedules }) => {
+      let migratedState = state;
+      if (isRecord(state)) {
+        const activeScheduleIds = isStringArray(state.activeScheduleIds)
+          ? state.activeScheduleIds
+          : state.isBlocking && typeof state.currentScheduleId === 'string'
+            ? [state.currentScheduleId]
+            : [];
+
+        migratedState = {
+          ...state,
+          isPaused: state.isPaused ?? false,
+          savedTime: state.savedTime ?? 0,
+          activeScheduleIds,
+          waitingScheduleIds: isStringArray(state.waitingScheduleIds) ? state.waitingScheduleIds : [],
+        };
+      }
+
+      const migratedSchedules = Array.isArray(schedules)
+        ? schedules.map((schedule) =>
+            isRecord(schedule)
+              ? {
+                  ...schedule,
+                  name: schedule.name ?? '',
+                  isActive: schedule.isActive ?? true,
+                }
+              : schedule
+          )
+        : schedules;
+
+      return { state: migratedState, schedules: migratedSchedules };
+    },
+  },
+  {
+    version: 2,
+    description: 'Store pausedAt as a timestamp, drop pauses without an end time',
+    migrate: ({ state, schedules }) => {
+      if (!isRecord(state)) return { state, schedules };
+
+      const pausedAt = typeof state.pausedAt === 'string' ? Date.parse(state.pausedAt) : state.pausedAt;
+      const hasPause = state.isPaused === true && typeof state.pauseEndsAt === 'number';
+
+      return {
+        state: {
+          ...state,
+          isPaused: hasPause,
+          pausedAt: hasPause && Number.isFinite(pausedAt) ? pausedAt : undefined,
+          pauseEndsAt: hasPause ? state.pauseEndsAt : undefined,
+        },
+        schedules,
+      };
+    },
+  },
+];
+
+/** Version written alongside the data */
+export const CURRENT_SCHEMA_VERSION = STORAGE_MIGRATIONS[STORAGE_MIGRATIONS.length - 1].version;
+
+/**
+ * Upgrade a payload from `fromVersion` to the current schema version
+ *
+ * @param payload - Raw persisted data
+ * @param fromVersion - Version the data was written with
+ * @returns Upgraded payload
+ */
+export function runMigrations(payload: StoragePayload, fromVersion: number): StoragePayload {
+  return STORAGE_MIGRATIONS
+    .filter((migration) => migration.version > fromVersion)
+    .reduce((current, migration) => {
+      console.log(`[StorageSchema] Migrating to v${migration.version}: ${migration.description}`);
+      return migration.migrate(current);
+    }, payload);
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+/**
+ * Validate a persisted schedule
+ *
+ * @returns List of problems, empty if the schedule is valid
+ */
+export function validateSchedule(value: unknown): string[] {
+  if (!isRecord(value)) {
+    return ['schedule is not an object'];
+  }
+
+  const problems: string[] = [];
+
+  if (typeof value.id !== 'string' || value.id.length === 0) {
+    problems.push('id must be a non-empty string');
+  }
+  if (typeof value.name !== 'string') {
+    problems.push('name must be a string');
+  }
+  if (typeof value.startTime !== 'string' || !TIME_PATTERN.test(value.startTime)) {
+    problems.push(`startTime must be HH:mm, got ${JSON.stringify(value.startTime)}`);
+  }
+  if (typeof value.endTime !== 'string' || !TIME_PATTERN.test(value.endTime)) {
+    problems.push(`endTime must be HH:mm, got ${JSON.stringify(value.endTime)}`);
+  }
+  if (!isDayList(value.daysOfWeek)) {
+    problems.push(`daysOfWeek must hold values 0-6, got ${JSON.stringify(value.daysOfWeek)}`);
+  }
+  if (value.windows !== undefined && !isWindowList(value.windows)) {
+    problems.push(`windows must hold HH:mm times and days 0-6, got ${JSON.stringify(value.windows)}`);
+  }
+  if (value.date !== undefined && !isDateKey(value.date)) {
+    problems.push(`date must be YYYY-MM-DD, got ${JSON.stringify(value.date)}`);
+  }
+  if (
+    value.dateRange !== undefined &&
+    (!isRecord(value.dateRange) ||
+      !isDateKey(value.dateRange.start) ||
+      !isDateKey(value.dateRange.end) ||
+      value.dateRange.start > value.dateRange.end)
+  ) {
+    problems.push(`dateRange must be an ordered YYYY-MM-DD pair, got ${JSON.stringify(value.dateRange)}`);
+  }
+  if (
+    value.exceptionDates !== undefined &&
+    (!Array.isArray(value.exceptionDates) || !value.exceptionDates.every(isDateKey))
+  ) {
+    problems.push(`exceptionDates must hold YYYY-MM-DD dates, got ${JSON.stringify(value.exceptionDates)}`);
+  }
+  if (typeof value.isActive !== 'boolean') {
+    problems.push('isActive must be a boolean');
+  }
+  if (value.familyActivitySelectionId !== undefined && typeof value.familyActivitySelectionId !== 'string') {
+    problems.push('familyActivitySelectionId must be a string');
+  }
+  if (value.blocklistId !== undefined && typeof value.blocklistId !== 'string') {
+    problems.push('blocklistId must be a string');
+  }
+  if (value.blockMode !== undefined && !['block', 'allow'].includes(value.blockMode)) {
+    problems.push(`blockMode must be block or allow, got ${JSON.stringify(value.blockMode)}`);
+  }
+  if (
+    value.webDomains !== undefined &&
+    (!Array.isArray(value.webDomains) || !value.webDomains.every(isWebDomain))
+  ) {
+    problems.push(`webDomains must hold lowercase domains, got ${JSON.stringify(value.webDomains)}`);
+  }
+  if (value.strict !== undefined && typeof value.strict !== 'boolean') {
+    problems.push('strict must be a boolean');
+  }
+  if (value.unlockChallenge !== undefined && !isUnlockChallenge(value.unlockChallenge)) {
+    problems.push(`unlockChallenge is invalid, got ${JSON.stringify(value.unlockChallenge)}`);
+  }
+  if (value.shieldAppearance !== undefined && !isShieldAppearance(value.shieldAppearance)) {
+    problems.push(`shieldAppearance is invalid, got ${JSON.stringify(value.shieldAppearance)}`);
+  }
+
+  return problems;
+}
+
+/**
+ * Validate a persisted shield appearance
+ *
+ * @returns List of problems, empty if the appearance is valid
+ */
+export function validateShieldAppearance(value: unknown): string[] {
+  if (!isRecord(value)) {
+    return ['shield appearance is not an object'];
+  }
+
+  const problems: string[] = [];
+
+  for (const key of ['title', 'subtitle', 'primaryButtonLabel', 'secondaryButtonLabel']) {
+    if (typeof value[key] !== 'string') {
+      problems.push(`${key} must be a string`);
+    }
+  }
+  if (!isStringArray(value.quotes)) {
+    problems.push('quotes must be a list of strings');
+  }
+  for (const key of ['backgroundColor', 'textColor', 'buttonColor', 'buttonTextColor']) {
+    if (!isHexColor(value[key])) {
+      problems.push(`${key} must be #RRGGBB, got ${JSON.stringify(value[key])}`);
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Validate a persisted blocking session
+ *
+ * @returns List of problems, empty if the session is valid
+ */
+export function validateSession(value: unknown): string[] {
+  if (!isRecord(value)) {
+    return ['session is not an object'];
+  }
+
+  const problems: string[] = [];
+
+  if (typeof value.id !== 'string' || value.id.length === 0) {
+    problems.push('id must be a non-empty string');
+  }
+  if (typeof value.startedAt !== 'number' || !Number.isFinite(value.startedAt)) {
+    problems.push('startedAt must be a timestamp');
+  }
+  if (value.endedAt !== undefined && (typeof value.endedAt !== 'number' || value.endedAt < value.startedAt)) {
+    problems.push('endedAt must be a timestamp not before startedAt');
+  }
+  if (!isStringArray(value.scheduleIds)) {
+    problems.push('scheduleIds must be a string array');
+  }
+  if (!['manual', 'automatic', 'quick'].includes(value.trigger)) {
+    problems.push(`trigger must be manual, automatic or quick, got ${JSON.stringify(value.trigger)}`);
+  }
+  if (
+    value.endReason !== undefined &&
+    !['schedule_ended', 'stopped', 'stopped_all', 'background_ended'].includes(value.endReason)
+  ) {
+    problems.push(`endReason is invalid, got ${JSON.stringify(value.endReason)}`);
+  }
+  if (
+    value.unlockAttempts !== undefined &&
+    (!Array.isArray(value.unlockAttempts) || !value.unlockAttempts.every(isUnlockAttempt))
+  ) {
+    problems.push('unlockAttempts must hold a time, a schedule, a challenge and an outcome each');
+  }
+  if (value.pauses !== undefined && (!Array.isArray(value.pauses) || !value.pauses.every(isSessionPause))) {
+    problems.push('pauses must hold a start time and an optional end time each');
+  }
+
+  return problems;
+}
+
+/**
+ * Validate a persisted blocklist
+ *
+ * @returns List of problems, empty if the blocklist is valid
+ */
+export function validateBlocklist(value: unknown): string[] {
+  if (!isRecord(value)) {
+    return ['blocklist is not an object'];
+  }
+
+  const problems: string[] = [];
+
+  if (typeof value.id !== 'string' || value.id.length === 0) {
+    problems.push('id must be a non-empty string');
+  }
+  if (typeof value.name !== 'string') {
+    problems.push('name must be a string');
+  }
+  if (typeof value.familyActivitySelectionId !== 'string' || value.familyActivitySelectionId.length === 0) {
+    problems.push('familyActivitySelectionId must be a non-empty string');
+  }
+  if (typeof value.createdAt !== 'number') {
+    problems.push('createdAt must be a timestamp');
+  }
+
+  return problems;
+}
+
+/**
+ * Validate a persisted usage limit
+ *
+ * @returns List of problems, empty if the limit is valid
+ */
+export function validateUsageLimit(value: unknown): string[] {
+  if (!isRecord(value)) {
+    return ['usage limit is not an object'];
+  }
+
+  const problems: string[] = [];
+
+  if (typeof value.id !== 'string' || value.id.length === 0) {
+    problems.push('id must be a non-empty string');
+  }
+  if (typeof value.name !== 'string') {
+    problems.push('name must be a string');
+  }
+  if (typeof value.familyActivitySelectionId !== 'string' || value.familyActivitySelectionId.length === 0) {
+    problems.push('familyActivitySelectionId must be a non-empty string');
+  }
+  if (!Number.isInteger(value.dailyMinutes) || value.dailyMinutes < 1 || value.dailyMinutes >= 24 * 60) {
+    problems.push(`dailyMinutes must be 1-1439, got ${JSON.stringify(value.dailyMinutes)}`);
+  }
+  if (typeof value.isActive !== 'boolean') {
+    problems.push('isActive must be a boolean');
+  }
+  if (typeof value.createdAt !== 'number') {
+    problems.push('createdAt must be a timestamp');
+  }
+
+  return problems;
+}
+
+/**
+ * Validate a persisted open limit
+ *
+ * @returns List of problems, empty if the limit is valid
+ */
+export function validateOpenLimit(value: unknown): string[] {
+  if (!isRecord(value)) {
+    return ['open limit is not an object'];
+  }
+
+  const problems: string[] = [];
+
+  if (typeof value.id !== 'string' || value.id.length === 0) {
+    problems.push('id must be a non-empty string');
+  }
+  if (typeof value.blocklistId !== 'string' || value.blocklistId.length === 0) {
+    problems.push('blocklistId must be a non-empty string');
+  }
+  if (!Number.isInteger(value.maxOpens) || value.maxOpens < 1) {
+    problems.push(`maxOpens must be a positive integer, got ${JSON.stringify(value.maxOpens)}`);
+  }
+  if (typeof value.isActive !== 'boolean') {
+    problems.push('isActive must be a boolean');
+  }
+  if (typeof value.createdAt !== 'number') {
+    problems.push('createdAt must be a timestamp');
+  }
+  if (
+    value.usage !== undefined &&
+    (!isRecord(value.usage) ||
+      !isDateKey(value.usage.day) ||
+      !Number.isInteger(value.usage.opens) ||
+      value.usage.opens < 0 ||
+      (value.usage.openUntil !== undefined && typeof value.usage.openUntil !== 'number'))
+  ) {
+    problems.push('usage must have a YYYY-MM-DD day, a count of opens and an optional openUntil timestamp');
+  }
+
+  return problems;
+}
+
+/**
+ * Validate a persisted limit event
+ *
+ * @returns List of problems, empty if the event is valid
+ */
+export function validateLimitEvent(value: unknown): string[] {
+  if (!isRecord(value)) {
+    return ['limit event is not an object'];
+  }
+
+  const problems: string[] = [];
+
+  if (typeof value.id !== 'string' || value.id.length === 0) {
+    problems.push('id must be a non-empty string');
+  }
+  if (typeof value.limitId !== 'string') {
+    problems.push('limitId must be a string');
+  }
+  if (value.type !== 'budget_exceeded' && value.type !== 'open_limit_reached') {
+    problems.push(`type must be budget_exceeded or open_limit_reached, got ${JSON.stringify(value.type)}`);
+  }
+  if (!isDateKey(value.day)) {
+    problems.push(`day must be YYYY-MM-DD, got ${JSON.stringify(value.day)}`);
+  }
+  if (typeof value.at !== 'number') {
+    problems.push('at must be a timestamp');
+  }
+
+  return problems;
+}
+
+/**
+ * Validate a persisted personal schedule template
+ *
+ * @returns List of problems, empty if the template is valid
+ */
+export function validateScheduleTemplate(value: unknown): string[] {
+  if (!isRecord(value)) {
+    return ['template is not an object'];
+  }
+
+  const problems: string[] = [];
+
+  if (typeof value.id !== 'string' || value.id.length === 0) {
+    problems.push('id must be a non-empty string');
+  }
+  if (typeof value.name !== 'string') {
+    problems.push('name must be a string');
+  }
+  if (!isWindowList(value.windows) || value.windows.length === 0) {
+    problems.push(`windows must hold HH:mm times and days 0-6, got ${JSON.stringify(value.windows)}`);
+  }
+  if (value.strict !== undefined && typeof value.strict !== 'boolean') {
+    problems.push('strict must be a boolean');
+  }
+  if (value.unlockChallenge !== undefined && !isUnlockChallenge(value.unlockChallenge)) {
+    problems.push(`unlockChallenge is invalid, got ${JSON.stringify(value.unlockChallenge)}`);
+  }
+
+  return problems;
+}
+
+/**
+ * Validate persisted blocker state
+ *
+ * @returns List of problems, empty if the state is valid
+ */
+export function validateBlockerState(value: unknown): string[] {
+  if (!isRecord(value)) {
+    return ['state is not an object'];
+  }
+
+  const problems: string[] = [];
+
+  if (typeof value.isBlocking !== 'boolean') {
+    problems.push('isBlocking must be a boolean');
+  }
+  if (typeof value.isPaused !== 'boolean') {
+    problems.push('isPaused must be a boolean');
+  }
+  if (typeof value.savedTime !== 'number' || !Number.isFinite(value.savedTime) || value.savedTime < 0) {
+    problems.push('savedTime must be a non-negative number');
+  }
+  if (value.startedAt !== undefined && typeof value.startedAt !== 'number') {
+    problems.push('startedAt must be a timestamp');
+  }
+  if (value.accumulatedTime !== undefined && typeof value.accumulatedTime !== 'number') {
+    problems.push('accumulatedTime must be a number');
+  }
+  if (value.pausedAt !== undefined && typeof value.pausedAt !== 'number') {
+    problems.push('pausedAt must be a timestamp');
+  }
+  if (value.pauseEndsAt !== undefined && typeof value.pauseEndsAt !== 'number') {
+    problems.push('pauseEndsAt must be a timestamp');
+  }
+  if (value.isPaused === true && (typeof value.pausedAt !== 'number' || typeof value.pauseEndsAt !== 'number')) {
+    problems.push('a paused state needs pausedAt and pauseEndsAt');
+  }
+  if (
+    value.quickSession !== undefined &&
+    (!isRecord(value.quickSession) ||
+      typeof value.quickSession.id !== 'string' ||
+      typeof value.quickSession.familyActivitySelectionId !== 'string' ||
+      typeof value.quickSession.endsAt !== 'number')
+  ) {
+    problems.push('quickSession must have an id, a selection and an end time');
+  }
+  if (!isStringArray(value.activeScheduleIds)) {
+    problems.push('activeScheduleIds must be a string array');
+  }
+  if (!isStringArray(value.waitingScheduleIds)) {
+    problems.push('waitingScheduleIds must be a string array');
+  }
+
+  return problems;
+}
@@ -2,16 +2,52 @@
  * Storage Service
  *
  * Centralized service for persistent storage operations.
+ * Blocker data is versioned: `loadAll()` upgrades older payloads through
+ * the migration pipeline and quarantines records that fail validation.
  *
  * @module services/storage
  */
 
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import type { BlockerState, BlockerSchedule } from '@/types/blocker';
+import type {
+  Blocklist,
+  BlockerState,
+  BlockerSchedule,
+  BlockingSession,
+  LimitEvent,
+  OpenLimit,
+  ScheduleTemplate,
+  ShieldAppearance,
+  UsageLimit,
+} from '@/types/blocker';
+import {
+  CURRENT_SCHEMA_VERSION,
+  QuarantinedRecord,
+  runMigrations,
+  validateBlockerState,
+  validateBlocklist,
+  validateLimitEvent,
+  validateOpenLimit,
+  validateSchedule,
+  validateScheduleTemplate,
+  validateSession,
+  validateShieldAppearance,
+  validateUsageLimit,
+} from './storage-schema';
+import { strictModeService } from './strict-mode.service';
 
 export const STORAGE_KEYS = {
   BLOCKER_STATE: '@blocker_state',
   BLOCKER_SCHEDULES: '@blocker_schedules',
+  BLOCKING_SESSIONS: '@blocking_sessions',
+  SCHEDULE_TEMPLATES: '@schedule_templates',
+  BLOCKLISTS: '@blocklists',
+  SHIELD_APPEARANCE: '@shield_appearance',
+  USAGE_LIMITS: '@usage_limits',
+  OPEN_LIMITS: '@open_limits',
+  LIMIT_EVENTS: '@limit_events',
+  SCHEMA_VERSION: '@storage_schema_version',
+  QUARANTINE: '@storage_quarantine',
   ONBOARDING_COMPLETED: '@onboarding_completed',
   USER_SETTINGS: '@user_settings',
 } as const;
@@ -55,18 +91,317 @@ class StorageService {
     }
   }
 
+  /**
+   * Session log, oldest first
+   * Invalid sessions are quarantined and left out.
+   */
+  async getSessions(): Promise<BlockingSession[]> {
+    return this.getValidatedList<BlockingSession>(STORAGE_KEYS.BLOCKING_SESSIONS, validateSession, 'sessions');
+  }
+
+  async saveSessions(sessions: BlockingSession[]): Promise<void> {
+    try {
+      await AsyncStorage.setItem(STORAGE_KEYS.BLOCKING_SESSIONS, JSON.stringify(sessions));
+    } catch (error) {
+      console.error('[StorageService] Error saving sessions:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Blocklists, oldest first
+   * Invalid blocklists are quarantined and left out.
+   */
+  async getBlocklists(): Promise<Blocklist[]> {
+    return this.getValidatedList<Blocklist>(STORAGE_KEYS.BLOCKLISTS, validateBlocklist, 'blocklists');
+  }
+
+  async saveBlocklists(blocklists: Blocklist[]): Promise<void> {
+    try {
+      await AsyncStorage.setItem(STORAGE_KEYS.BLOCKLISTS, JSON.stringify(blocklists));
+    } catch (error) {
+      console.error('[StorageService] Error saving blocklists:', error);
+      throw error;
+    }
+  }
+
+  async getUsageLimits(): Promise<UsageLimit[]> {
+    return this.getValidatedList<UsageLimit>(STORAGE_KEYS.USAGE_LIMITS, validateUsageLimit, 'usage limits');
+  }
+
+  async saveUsageLimits(limits: UsageLimit[]): Promise<void> {
+    try {
+      await AsyncStorage.setItem(STORAGE_KEYS.USAGE_LIMITS, JSON.stringify(limits));
+    } catch (error) {
+      console.error('[StorageService] Error saving usage limits:', error);
+      throw error;
+    }
+  }
+
+  async getOpenLimits(): Promise<OpenLimit[]> {
+    return this.getValidatedList<OpenLimit>(STORAGE_KEYS.OPEN_LIMITS, validateOpenLimit, 'open limits');
+  }
+
+  async saveOpenLimits(limits: OpenLimit[]): Promise<void> {
+    try {
+      await AsyncStorage.setItem(STORAGE_KEYS.OPEN_LIMITS, JSON.stringify(limits));
+    } catch (error) {
+      console.error('[StorageService] Error saving open limits:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Limits reached in the past, oldest first
+   */
+  async getLimitEvents(): Promise<LimitEvent[]> {
+    return this.getValidatedList<LimitEvent>(STORAGE_KEYS.LIMIT_EVENTS, validateLimitEvent, 'limit events');
+  }
+
+  async saveLimitEvents(events: LimitEvent[]): Promise<void> {
+    try {
+      await AsyncStorage.setItem(STORAGE_KEYS.LIMIT_EVENTS, JSON.stringify(events));
+    } catch (error) {
+      console.error('[StorageService] Error saving limit events:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Personal schedule templates, oldest first
+   * Invalid templates are quarantined and left out.
+   */
+  async getTemplates(): Promise<ScheduleTemplate[]> {
+    return this.getValidatedList<ScheduleTemplate>(
+      STORAGE_KEYS.SCHEDULE_TEMPLATES,
+      validateScheduleTemplate,
+      'templates'
+    );
+  }
+
+  async saveTemplates(templates: ScheduleTemplate[]): Promise<void> {
+    try {
+      await AsyncStorage.setItem(STORAGE_KEYS.SCHEDULE_TEMPLATES, JSON.stringify(templates));
+    } catch (error) {
+      console.error('[StorageService] Error saving templates:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Global shield appearance
+   * An invalid record is quarantined.
+   *
+   * @returns Saved appearance, or null to use the default
+   */
+  async getShieldAppearance(): Promise<ShieldAppearance | null> {
+    let data: unknown;
+    try {
+      const raw = await AsyncStorage.getItem(STORAGE_KEYS.SHIELD_APPEARANCE);
+      data = raw ? JSON.parse(raw) : null;
+    } catch (error) {
+      console.error('[StorageService] Error reading shield appearance:', error);
+      return null;
+    }
+
+    if (data === null) return null;
+
+    const problems = validateShieldAppearance(data);
+    if (problems.length > 0) {
+      console.warn('[StorageService] Quarantined invalid shield appearance:', problems);
+      await this.addToQuarantine([
+        this.createQuarantineRecord(STORAGE_KEYS.SHIELD_APPEARANCE, problems.join('; '), data),
+      ]);
+      try {
+        await AsyncStorage.removeItem(STORAGE_KEYS.SHIELD_APPEARANCE);
+      } catch (error) {
+        console.error('[StorageService] Error removing shield appearance:', error);
+      }
+      return null;
+    }
+
+    return data as ShieldAppearance;
+  }
+
+  async saveShieldAppearance(appearance: ShieldAppearance): Promise<void> {
+    try {
+      await AsyncStorage.setItem(STORAGE_KEYS.SHIELD_APPEARANCE, JSON.stringify(appearance));
+    } catch (error) {
+      console.error('[StorageService] Error saving shield appearance:', error);
+      throw error;
+    }
+  }
+
   async loadAll(): Promise<{
     state: BlockerState | null;
     schedules: BlockerSchedule[];
   }> {
-    const [state, schedules] = await Promise.all([
-      this.getBlockerState(),
-      this.getSchedules(),
+    const [rawState, rawSchedules, rawVersion] = await Promise.all([
+      AsyncStorage.getItem(STORAGE_KEYS.BLOCKER_STATE),
+      AsyncStorage.getItem(STORAGE_KEYS.BLOCKER_SCHEDULES),
+      AsyncStorage.getItem(STORAGE_KEYS.SCHEMA_VERSION),
     ]);
 
+    const quarantine: QuarantinedRecord[] = [];
+    const storedVersion = Number(rawVersion) || 0;
+
+    const parse = (key: string, raw: string | null): unknown => {
+      if (raw === null) return null;
+      try {
+        return JSON.parse(raw);
+      } catch (error) {
+        quarantine.push(this.createQuarantineRecord(key, `invalid JSON: ${error}`, raw, storedVersion));
+        return null;
+      }
+    };
+
+    let payload = {
+      state: parse(STORAGE_KEYS.BLOCKER_STATE, rawState),
+      schedules: parse(STORAGE_KEYS.BLOCKER_SCHEDULES, rawSchedules),
+    };
+
+    const needsMigration = storedVersion < CURRENT_SCHEMA_VERSION;
+    if (needsMigration) {
+      payload = runMigrations(payload, storedVersion);
+    } else if (storedVersion > CURRENT_SCHEMA_VERSION) {
+      console.warn('[StorageService] Data written by newer schema version:', storedVersion);
+    }
+
+    // Validate state
+    let state: BlockerState | null = null;
+    if (payload.state !== null) {
+      const problems = validateBlockerState(payload.state);
+      if (problems.length > 0) {
+        quarantine.push(
+          this.createQuarantineRecord(STORAGE_KEYS.BLOCKER_STATE, problems.join('; '), payload.state)
+        );
+      } else {
+        state = payload.state as BlockerState;
+      }
+    }
+
+    // Validate schedules one by one so a single bad record does not drop the rest
+    const schedules: BlockerSchedule[] = [];
+    if (payload.schedules !== null) {
+      if (!Array.isArray(payload.schedules)) {
+        quarantine.push(
+          this.createQuarantineRecord(STORAGE_KEYS.BLOCKER_SCHEDULES, 'schedules is not an array', payload.schedules)
+        );
+      } else {
+        for (const schedule of payload.schedules) {
+          const problems = validateSchedule(schedule);
+          if (problems.length > 0) {
+            quarantine.push(
+              this.createQuarantineRecord(STORAGE_KEYS.BLOCKER_SCHEDULES, problems.join('; '), schedule)
+            );
+          } else {
+            schedules.push(schedule as BlockerSchedule);
+          }
+        }
+      }
+    }
+
+    if (quarantine.length > 0) {
+      console.warn('[StorageService] Quarantined invalid records:', quarantine.map((r) => r.reason));
+      await this.addToQuarantine(quarantine);
+    }
+
+    // Persist upgraded data so migrations run once
+    if (needsMigration || quarantine.length > 0) {
+      try {
+        if (state) {
+          await this.saveBlockerState(state);
+        } else if (payload.state !== null) {
+          await AsyncStorage.removeItem(STORAGE_KEYS.BLOCKER_STATE);
+        }
+        if (payload.schedules !== null) {
+          await this.saveSchedules(schedules);
+        }
+        await AsyncStorage.setItem(STORAGE_KEYS.SCHEMA_VERSION, String(CURRENT_SCHEMA_VERSION));
+      } catch (error) {
+        console.error('[StorageService] Error persisting migrated data:', error);
+      }
+    }
+
     return { state, schedules };
   }
 
+  /**
+   * Records rejected at load time, oldest first
+   */
+  async getQuarantine(): Promise<QuarantinedRecord[]> {
+    try {
+      const data = await AsyncStorage.getItem(STORAGE_KEYS.QUARANTINE);
+      return data ? JSON.parse(data) : [];
+    } catch (error) {
+      console.error('[StorageService] Error reading quarantine:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Read a stored list, quarantining the records that fail validation
+   * and writing back the valid rest.
+   */
+  private async getValidatedList<T>(
+    key: string,
+    validate: (value: unknown) => string[],
+    label: string
+  ): Promise<T[]> {
+    let data: unknown;
+    try {
+      const raw = await AsyncStorage.getItem(key);
+      data = raw ? JSON.parse(raw) : [];
+    } catch (error) {
+      console.error(`[StorageService] Error reading ${label}:`, error);
+      return [];
+    }
+
+    if (!Array.isArray(data)) return [];
+
+    const items: T[] = [];
+    const quarantine: QuarantinedRecord[] = [];
+
+    for (const item of data) {
+      const problems = validate(item);
+      if (problems.length > 0) {
+        quarantine.push(this.createQuarantineRecord(key, problems.join('; '), item));
+      } else {
+        items.push(item as T);
+      }
+    }
+
+    if (quarantine.length > 0) {
+      console.warn(`[StorageService] Quarantined invalid ${label}:`, quarantine.map((r) => r.reason));
+      await this.addToQuarantine(quarantine);
+      try {
+        await AsyncStorage.setItem(key, JSON.stringify(items));
+      } catch (error) {
+        console.error(`[StorageService] Error saving ${label}:`, error);
+      }
+    }
+
+    return items;
+  }
+
+  private async addToQuarantine(records: QuarantinedRecord[]): Promise<void> {
+    try {
+      const existing = await this.getQuarantine();
+      await AsyncStorage.setItem(STORAGE_KEYS.QUARANTINE, JSON.stringify([...existing, ...records]));
+    } catch (error) {
+      console.error('[StorageService] Error saving quarantine:', error);
+    }
+  }
+
+  private createQuarantineRecord(
+    key: string,
+    reason: string,
+    data: unknown,
+    schemaVersion: number = CURRENT_SCHEMA_VERSION
+  ): QuarantinedRecord {
+    return { key, reason, data, schemaVersion, quarantinedAt: Date.now() };
+  }
+
   async isOnboardingCompleted(): Promise<boolean> {
     try {
       const data = await AsyncStorage.getItem(STORAGE_KEYS.ONBOARDING_COMPLETED);
@@ -84,7 +419,14 @@ class StorageService {
     }
   }
 
+  /**
+   * Remove all blocker data
+   *
+   * @throws StrictModeError while a strict schedule is blocking
+   */
   async clearAll(): Promise<void> {
+    strictModeService.assertAllowed('reset');
+
     try {
       await AsyncStorage.multiRemove(Object.values(STORAGE_KEYS));
     } catch (error) {
@@ -0,0 +1,141 @@
+/**
+ * Strict Mode Service
+ *
+ * Tracks strict schedules that are currently blocking and refuses
+ * actions that would end them early. Locks are kept in the app group
+ * user defaults, so clearing app storage does not lift them.
+ *
+ * @module services/strict-mode
+ */
+
+import { BlockerSchedule } from '@/types/blocker';
+import { formatDayAndTime } from '@/utils/timeFormatter';
+import { deviceActivityService } from './device-activity.service';
+
+/** App group key holding the strict locks */
+const STRICT_LOCKS_KEY = 'strict_mode_locks';
+
+/** Action refused while a strict schedule is blocking */
+export type StrictAction = 'stop' | 'stop_all' | 'delete' | 'edit' | 'reset' | 'pause';
+
+/**
+ * Lock held by a strict schedule until its window ends
+ */
+export interface StrictLock {
+  /** Schedule that holds the lock */
+  scheduleId: string;
+  /** Schedule as it was when blocking started, restored after a data reset */
+  schedule: BlockerSchedule;
+  /** Timestamp when the window ends and the lock is released */
+  endsAt: number;
+}
+
+const ACTION_DESCRIPTIONS: Record<StrictAction, string> = {
+  stop: 'It cannot be stopped',
+  stop_all: 'Blocking cannot be stopped',
+  delete: 'It cannot be deleted',
+  edit: 'It cannot be edited',
+  reset: 'Data cannot be reset',
+  pause: 'Blocking cannot be paused',
+};
+
+function getLatestEnd(locks: StrictLock[]): number {
+  return Math.max(...locks.map((lock) => lock.endsAt));
+}
+
+/**
+ * Thrown when an action is refused because a strict schedule is blocking
+ */
+export class StrictModeError extends Error {
+  readonly action: StrictAction;
+  readonly locks: StrictLock[];
+
+  constructor(action: StrictAction, locks: StrictLock[]) {
+    super(
+      `Strict mode is on until ${formatDayAndTime(new Date(getLatestEnd(locks)))}. ` +
+        `${ACTION_DESCRIPTIONS[action]} until the schedule ends.`
+    );
+    this.name = 'StrictModeError';
+    this.action = action;
+    this.locks = locks;
+  }
+
+  /** When the last refusing lock is released */
+  get endsAt(): number {
+    return getLatestEnd(this.locks);
+  }
+}
+
+class StrictModeService {
+  /** Locks for platforms without app group storage */
+  private memoryLocks: StrictLock[] = [];
+
+  private readLocks(): StrictLock[] {
+    if (!deviceActivityService.isAvailable()) return this.memoryLocks;
+    return deviceActivityService.getSharedValue<StrictLock[]>(STRICT_LOCKS_KEY) ?? [];
+  }
+
+  private writeLocks(locks: StrictLock[]): void {
+    this.memoryLocks = locks;
+    deviceActivityService.setSharedValue(STRICT_LOCKS_KEY, locks);
+  }
+
+  /**
+   * Locks whose window has not ended yet
+   * Expired locks are dropped as a side effect.
+   */
+  getActiveLocks(now: number = Date.now()): StrictLock[] {
+    const locks = this.readLocks();
+    const active = locks.filter((lock) => lock.endsAt > now);
+
+    if (active.length !== locks.length) {
+      this.writeLocks(active);
+    }
+
+    return active;
+  }
+
+  /**
+   * Lock a strict schedule until its window ends
+   *
+   * @param schedule - Strict schedule that started blocking
+   * @param endsAt - Timestamp when the current window ends
+   */
+  lock(schedule: BlockerSchedule, endsAt: number): void {
+    const locks = this.getActiveLocks().filter((lock) => lock.scheduleId !== schedule.id);
+    this.writeLocks([...locks, { scheduleId: schedule.id, schedule, endsAt }]);
+    console.log('[StrictModeService] Locked schedule:', schedule.id, 'until', new Date(endsAt).toISOString());
+  }
+
+  /**
+   * Release a schedule's lock once its window has ended
+   */
+  release(scheduleId: string): void {
+    const locks = this.readLocks();
+    if (!locks.some((lock) => lock.scheduleId === scheduleId)) return;
+
+    this.writeLocks(locks.filter((lock) => lock.scheduleId !== scheduleId));
+    console.log('[StrictModeService] Released schedule:', scheduleId);
+  }
+
+  /**
+   * Refuse an action while strict schedules hold a lock
+   *
+   * @param action - Action being attempted
+   * @param scheduleIds - Schedules the action touches (all locks if omitted)
+   * @throws StrictModeError if any matching lock is active
+   */
+  assertAllowed(action: StrictAction, scheduleIds?: string[]): void {
+    const locks = this.getActiveLocks().filter(
+      (lock) => !scheduleIds || scheduleIds.includes(lock.scheduleId)
+    );
+
+    if (locks.length > 0) {
+      throw new StrictModeError(action, locks);
+    }
+  }
+}
+
+/** Singleton instance of StrictModeService */
+export const strictModeService = new StrictModeService();
+export default strictModeService;
@@ -0,0 +1,25 @@
+/**
+ * Test Fixtures
+ *
+ * Shared factories for the records tests build over and over.
+ */
+
+import type { BlockerSchedule } from '@/types/blocker';
+
+/**
+ * Weekday 09:00-17:00 schedule, enabled
+ *
+ * @param overrides - Fields to change
+ */
+export function makeSchedule(overrides: Partial<BlockerSchedule> = {}): BlockerSchedule {
+  return {
+    id: 'schedule-1',
+    name: 'Test',
+    startTime: '09:00',
+    endTime: '17:00',
+    daysOfWeek: [1, 2, 3, 4, 5],
+    isActive: true,
+    familyActivitySelectionId: 'selection-1',
+    ...overrides,
+  };
+}
@@ -17,23 +17,290 @@ export interface BlockerSchedule {
   /** User-friendly name for the schedule */
   name: string;
 
-  /** Start time in HH:mm format */
+  /** Start time in HH:mm format (mirrors the first window when `windows` is set) */
   startTime: string;
 
-  /** End time in HH:mm format */
+  /** End time in HH:mm format (mirrors the first window when `windows` is set) */
   endTime: string;
 
   /**
    * Days of week when schedule is active
    * 0 = Sunday, 1 = Monday, ..., 6 = Saturday
+   * Ignored when `date` is set.
    */
   daysOfWeek: number[];
 
+  /**
+   * Time windows, each with its own days
+   * Schedules without windows use the single window in the fields above.
+   */
+  windows?: ScheduleWindow[];
+
+  /** One-off schedule: the only local date (YYYY-MM-DD) its window starts on */
+  date?: string;
+
+  /** Repeat on `daysOfWeek` only between these dates */
+  dateRange?: ScheduleDateRange;
+
+  /**
+   * Local dates (YYYY-MM-DD) to skip
+   * An overnight window is skipped when the date it starts on is listed.
+   */
+  exceptionDates?: string[];
+
   /** Whether this schedule is currently enabled */
   isActive: boolean;
 
   /** ID for react-native-device-activity app selection */
   familyActivitySelectionId?: string;
+
+  /**
+   * Blocklist whose apps this schedule blocks
+   * `familyActivitySelectionId` then holds the blocklist's selection ID.
+   */
+  blocklistId?: string;
+
+  /** Whether the selection is blocked or the only apps left open (default: block) */
+  blockMode?: BlockMode;
+
+  /**
+   * Web domains shielded together with the apps (e.g., "youtube.com")
+   * Lowercase host names without `www.`; subdomains are covered too.
+   */
+  webDomains?: string[];
+
+  /**
+   * Strict mode: while blocking, the schedule cannot be stopped,
+   * edited or deleted, and app data cannot be reset
+   */
+  strict?: boolean;
+
+  /** Friction the user has to get through before stopping (default: none) */
+  unlockChallenge?: UnlockChallenge;
+
+  /** Look of the shield over this schedule's apps (default: the global look) */
+  shieldAppearance?: ShieldAppearance;
+}
+
+/**
+ * Daily time budget for a selection
+ * Once its apps have been used for `dailyMinutes` in a day, they stay blocked until midnight.
+ */
+export interface UsageLimit {
+  /** Unique identifier for the limit */
+  id: string;
+
+  /** User-friendly name (e.g., "Instagram + TikTok") */
+  name: string;
+
+  /** ID for react-native-device-activity app selection */
+  familyActivitySelectionId: string;
+
+  /** Minutes of use allowed per day */
+  dailyMinutes: number;
+
+  /** Whether the limit is enforced */
+  isActive: boolean;
+
+  /** Timestamp when the limit was created */
+  createdAt: number;
+}
+
+/**
+ * Daily number of opens for a blocklist's apps
+ * Launching one of the apps shows a shield that counts an open and lifts it for
+ * a few minutes. Once `maxOpens` are used, the shield offers no open until midnight.
+ */
+export interface OpenLimit {
+  /** Unique identifier for the limit */
+  id: string;
+
+  /** Blocklist whose apps are limited */
+  blocklistId: string;
+
+  /** Opens allowed per day */
+  maxOpens: number;
+
+  /** Whether the limit is enforced */
+  isActive: boolean;
+
+  /** Timestamp when the limit was created */
+  createdAt: number;
+
+  /** Opens used on the last day the limit was used */
+  usage?: OpenLimitUsage;
+}
+
+/**
+ * Opens used on one local calendar day
+ */
+export interface OpenLimitUsage {
+  /** Day key (YYYY-MM-DD) */
+  day: string;
+
+  /** Opens used that day */
+  opens: number;
+
+  /** Timestamp when the latest open ends and the shield returns */
+  openUntil?: number;
+}
+
+/**
+ * Outcome of opening an open limit's apps from the app
+ * - `opened` - the shield is lifted for one open
+ * - `already_open` - an open is running
+ * - `no_opens_left` - today's opens are used up
+ * - `blocked_by_schedule` - a running schedule shields the apps
+ * - `inactive` - the limit is off or was deleted
+ */
+export type OpenLimitResult = 'opened' | 'already_open' | 'no_opens_left' | 'blocked_by_schedule' | 'inactive';
+
+/**
+ * Kind of limit event
+ * - `budget_exceeded` - a usage limit's daily minutes ran out
+ * - `open_limit_reached` - an open limit's last open of the day was used
+ */
+export type LimitEventType = 'budget_exceeded' | 'open_limit_reached';
+
+/**
+ * A limit that was reached, kept in history
+ */
+export interface LimitEvent {
+  /** Unique identifier for the event */
+  id: string;
+
+  /** Limit that was reached */
+  limitId: string;
+
+  type: LimitEventType;
+
+  /** Local day (YYYY-MM-DD) the limit was reached on */
+  day: string;
+
+  /** Timestamp when the limit was reached */
+  at: number;
+}
+
+/**
+ * One daily time window of a schedule
+ * Windows that touch or overlap block as one continuous window.
+ */
+export interface ScheduleWindow {
+  /** Start time in HH:mm format */
+  startTime: string;
+
+  /** End time in HH:mm format (earlier than start for overnight windows) */
+  endTime: string;
+
+  /** Days of week the window starts on (ignored by one-off schedules) */
+  daysOfWeek: number[];
+}
+
+/**
+ * Inclusive range of local dates (YYYY-MM-DD)
+ */
+export interface ScheduleDateRange {
+  start: string;
+  end: string;
+}
+
+/**
+ * How a schedule uses its app selection
+ * - `block` - shield the selected apps
+ * - `allow` - shield every app except the selected ones
+ */
+export type BlockMode = 'block' | 'allow';
+
+/**
+ * Named app selection shared by several schedules
+ * Editing its apps changes what every schedule using it blocks.
+ */
+export interface Blocklist {
+  /** Unique identifier for the blocklist */
+  id: string;
+
+  /** User-friendly name (e.g., "Social media") */
+  name: string;
+
+  /** ID for react-native-device-activity app selection */
+  familyActivitySelectionId: string;
+
+  /** Timestamp when the blocklist was created */
+  createdAt: number;
+}
+
+/**
+ * Look of the screen shown over blocked apps
+ * Colors are hex strings (#RRGGBB).
+ */
+export interface ShieldAppearance {
+  title: string;
+
+  subtitle: string;
+
+  /** Motivational quotes shown under the subtitle, a different one each time blocking starts */
+  quotes: string[];
+
+  /** Label of the button that closes the blocked app */
+  primaryButtonLabel: string;
+
+  /** Label of the button that opens this app; hidden when empty */
+  secondaryButtonLabel: string;
+
+  backgroundColor: string;
+
+  textColor: string;
+
+  buttonColor: string;
+
+  buttonTextColor: string;
+}
+
+/**
+ * Reusable starting point for a new schedule
+ * Holds times, days and settings but no apps or dates.
+ */
+export interface ScheduleTemplate {
+  /** Unique identifier for the template */
+  id: string;
+
+  /** Suggested schedule name */
+  name: string;
+
+  /** Short explanation shown with built-in presets */
+  description?: string;
+
+  /** Time windows with their days */
+  windows: ScheduleWindow[];
+
+  strict?: boolean;
+
+  unlockChallenge?: UnlockChallenge;
+
+  /** Whether the template ships with the app and cannot be deleted */
+  isPreset?: boolean;
+}
+
+/**
+ * Kind of friction before an active schedule can be stopped
+ * - `none` - a single confirmation
+ * - `cooldown` - wait a number of seconds
+ * - `typing` - type a random passage exactly
+ * - `confirmations` - confirm several times in a row
+ */
+export type UnlockChallengeType = 'none' | 'cooldown' | 'typing' | 'confirmations';
+
+/**
+ * Per-schedule unlock challenge
+ */
+export interface UnlockChallenge {
+  type: UnlockChallengeType;
+
+  /**
+   * Challenge difficulty, by type:
+   * seconds to wait, words to type or number of confirmations
+   */
+  difficulty: number;
 }
 
 /**
@@ -46,8 +313,17 @@ export interface BlockerState {
   /** Whether blocking is temporarily paused */
   isPaused: boolean;
 
-  /** When blocking was paused */
-  pausedAt?: Date;
+  /** Timestamp when blocking was paused */
+  pausedAt?: number;
+
+  /** Timestamp when the current pause ends and blocks are re-applied */
+  pauseEndsAt?: number;
+
+  /** Pause time used against the daily budget */
+  pauseUsage?: PauseUsage;
+
+  /** One-off focus session running alongside (or instead of) schedules */
+  quickSession?: QuickSession;
 
   /** Total saved time in seconds */
   savedTime: number;
@@ -69,6 +345,118 @@ export interface BlockerState {
 
   /** Whether blocking was started automatically by schedule */
   isAutomatic?: boolean;
+
+  /** ID of the session in history that is currently recording */
+  currentSessionId?: string;
+}
+
+/**
+ * Ad-hoc focus session started without a schedule
+ */
+export interface QuickSession {
+  /** Unique identifier, also used for its monitored activity */
+  id: string;
+
+  /** Selection blocked during the session */
+  familyActivitySelectionId: string;
+
+  /** Timestamp when the session started */
+  startedAt: number;
+
+  /** Timestamp when the session ends */
+  endsAt: number;
+}
+
+/**
+ * Pause time used on one local calendar day
+ */
+export interface PauseUsage {
+  /** Day key (YYYY-MM-DD) */
+  day: string;
+
+  /** Seconds paused that day */
+  seconds: number;
+}
+
+/**
+ * Break taken during a session
+ */
+export interface SessionPause {
+  /** Timestamp when the pause started */
+  startedAt: number;
+
+  /** Timestamp when blocking resumed (undefined while paused) */
+  endedAt?: number;
+}
+
+/**
+ * How a blocking session was started
+ * - `manual` - user started a schedule inside its window
+ * - `automatic` - a waiting schedule reached its start time
+ * - `quick` - user started a one-off focus session
+ */
+export type SessionTrigger = 'manual' | 'automatic' | 'quick';
+
+/**
+ * How a blocking session ended
+ * - `schedule_ended` - the last active schedule or quick session reached its end time
+ * - `stopped` - user stopped or deleted the last active schedule
+ * - `stopped_all` - user stopped all schedules
+ * - `background_ended` - window ended while the app was closed
+ */
+export type SessionEndReason = 'schedule_ended' | 'stopped' | 'stopped_all' | 'background_ended';
+
+/**
+ * How an unlock challenge ended
+ * - `completed` - challenge finished and the schedule was stopped
+ * - `gave_up` - challenge abandoned, blocking continued (an urge resisted)
+ */
+export type UnlockOutcome = 'completed' | 'gave_up';
+
+/**
+ * Attempt to stop a schedule during a session
+ */
+export interface UnlockAttempt {
+  /** Timestamp when the attempt ended */
+  at: number;
+
+  /** Schedule the user tried to stop */
+  scheduleId: string;
+
+  /** Challenge that was presented */
+  challenge: UnlockChallengeType;
+
+  /** How the attempt ended */
+  outcome: UnlockOutcome;
+}
+
+/**
+ * Continuous period during which at least one schedule was blocking
+ */
+export interface BlockingSession {
+  /** Unique identifier for the session */
+  id: string;
+
+  /** Timestamp when blocking started */
+  startedAt: number;
+
+  /** Timestamp when blocking ended (undefined while in progress) */
+  endedAt?: number;
+
+  /** Schedules that were active during the session */
+  scheduleIds: string[];
+
+  /** How the session was started */
+  trigger: SessionTrigger;
+
+  /** How the session ended */
+  endReason?: SessionEndReason;
+
+  /** Attempts to stop a schedule while the session was running */
+  unlockAttempts?: UnlockAttempt[];
+
+  /** Breaks taken during the session, excluded from its blocked time */
+  pauses?: SessionPause[];
 }
 
 /** Day names for display */
@@ -84,3 +472,27 @@ export const DAY_NAMES_FULL = [
   'Friday',
   'Saturday',
 ] as const;
+
+/** Short month names for display */
+export const MONTH_NAMES = [
+  'Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun',
+  'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec',
+] as const;
+
+/** Selection reused by every quick session, so the last picked apps are remembered */
+export const QUICK_SESSION_SELECTION_ID = 'quick_session';
+
+/** Preset quick session lengths in minutes */
+export const QUICK_SESSION_DURATIONS = [15, 30, 60] as const;
+
+/** Quick session length used when none is given */
+export const DEFAULT_QUICK_SESSION_MINUTES = 30;
+
+/** Daily budget choices for usage limits in minutes */
+export const USAGE_LIMIT_MINUTES_OPTIONS = [15, 30, 45, 60, 90, 120] as const;
+
+/** Opens per day offered for open limits */
+export const OPEN_LIMIT_OPTIONS = [1, 3, 5, 10] as const;
+
+/** How long one open lifts the shield, in minutes (the DeviceActivity minimum interval) */
+export const OPEN_LIMIT_WINDOW_MINUTES = 15;
@@ -0,0 +1,146 @@
+import type { BlockerState, BlockingSession } from '@/types/blocker';
+import {
+  computeStreaks,
+  getDailyTotals,
+  getMonthlyTotals,
+  getPauseUsedSeconds,
+  getWeeklyTotals,
+} from '@/utils/sessionHistory';
+
+// Monday 2026-10-19, 12:00
+const NOW = new Date(2026, 9, 19, 12, 0).getTime();
+const HOUR = 60 * 60 * 1000;
+
+function at(day: number, hour: number, minute = 0, month = 9): number {
+  return new Date(2026, month, day, hour, minute).getTime();
+}
+
+function makeSession(startedAt: number, endedAt: number | undefined, overrides: Partial<BlockingSession> = {}) {
+  return {
+    id: `session-${startedAt}`,
+    startedAt,
+    endedAt,
+    scheduleIds: ['work'],
+    trigger: 'automatic',
+    ...overrides,
+  } satisfies BlockingSession;
+}
+
+describe('getDailyTotals', () => {
+  it('splits a session crossing midnight between both days', () => {
+    const overnight = makeSession(at(17, 22), at(18, 2));
+
+    const totals = getDailyTotals([overnight], 3, NOW);
+
+    expect(totals.map((total) => total.label)).toEqual(['Sat', 'Sun', 'Mon']);
+    expect(totals.map((total) => total.seconds)).toEqual([2 * 3600, 2 * 3600, 0]);
+  });
+
+  it('counts a running session up to now and leaves out pauses', () => {
+    const running = makeSession(at(19, 9), undefined, {
+      pauses: [{ startedAt: at(19, 10), endedAt: at(19, 10, 30) }],
+    });
+
+    expect(getDailyTotals([running], 1, NOW)[0].seconds).toBe(2.5 * 3600);
+  });
+});
+
+describe('getWeeklyTotals', () => {
+  it('starts weeks on Sunday', () => {
+    const saturday = makeSession(at(17, 9), at(17, 10));
+    const sunday = makeSession(at(18, 9), at(18, 11));
+
+    const totals = getWeeklyTotals([saturday, sunday], 2, NOW);
+
+    expect(totals.map((total) => total.label)).toEqual(['10/11', '10/18']);
+    expect(totals.map((total) => total.seconds)).toEqual([3600, 2 * 3600]);
+  });
+});
+
+describe('getMonthlyTotals', () => {
+  it('splits a session crossing the end of a month', () => {
+    const monthEnd = makeSession(at(30, 23, 0, 8), at(1, 1, 0, 9));
+
+    const totals = getMonthlyTotals([monthEnd], 2, NOW);
+
+    expect(totals.map((total) => total.label)).toEqual(['Sep', 'Oct']);
+    expect(totals.map((total) => total.seconds)).toEqual([3600, 3600]);
+  });
+});
+
+describe('computeStreaks', () => {
+  const focusDay = (day: number, hours = 1) => makeSession(at(day, 9), at(day, 9) + hours * HOUR);
+
+  it('does not break the current streak before today is over', () => {
+    const stats = computeStreaks([focusDay(16), focusDay(17), focusDay(18)], 60, NOW);
+
+    expect(stats).toMatchObject({ currentStreak: 3, isTodayGoalMet: false, todaySeconds: 0 });
+  });
+
+  it('counts today once its goal is met', () => {
+    const stats = computeStreaks([focusDay(18), focusDay(19)], 60, NOW);
+
+    expect(stats).toMatchObject({ currentStreak: 2, isTodayGoalMet: true, todaySeconds: 3600 });
+  });
+
+  it('breaks the streak on a gap day and keeps the longest run', () => {
+    const sessions = [focusDay(10), focusDay(11), focusDay(12), focusDay(13), focusDay(17), focusDay(18)];
+
+    const stats = computeStreaks(sessions, 60, NOW);
+
+    expect(stats).toMatchObject({ currentStreak: 2, longestStreak: 4, goalMetDays: 6 });
+  });
+
+  it('does not count days below the goal', () => {
+    const stats = computeStreaks([focusDay(17), focusDay(18, 0.5)], 60, NOW);
+
+    expect(stats).toMatchObject({ currentStreak: 0, longestStreak: 1, goalMetDays: 1, goalSeconds: 3600 });
+  });
+
+  it('counts a session crossing midnight toward both days', () => {
+    const overnight = makeSession(at(17, 23), at(18, 1));
+
+    expect(computeStreaks([overnight], 60, NOW)).toMatchObject({ currentStreak: 2, goalMetDays: 2 });
+  });
+});
+
+describe('getPauseUsedSeconds', () => {
+  const blocking: BlockerState = {
+    isBlocking: true,
+    isPaused: false,
+    savedTime: 0,
+    activeScheduleIds: ['work'],
+    waitingScheduleIds: [],
+  };
+
+  it('adds a running pause to the pauses ended today', () => {
+    const state = {
+      ...blocking,
+      isPaused: true,
+      pausedAt: NOW - 5 * 60 * 1000,
+      pauseEndsAt: NOW + 5 * 60 * 1000,
+      pauseUsage: { day: '2026-10-19', seconds: 120 },
+    };
+
+    expect(getPauseUsedSeconds(state, NOW)).toBe(120 + 300);
+  });
+
+  it('starts over after midnight', () => {
+    const state = { ...blocking, pauseUsage: { day: '2026-10-18', seconds: 600 } };
+
+    expect(getPauseUsedSeconds(state, NOW)).toBe(0);
+  });
+
+  it('charges a pause running across midnight to the day it started', () => {
+    const state = {
+      ...blocking,
+      isPaused: true,
+      pausedAt: at(18, 23, 55),
+      pauseEndsAt: at(19, 0, 5),
+      pauseUsage: { day: '2026-10-18', seconds: 60 },
+    };
+
+    expect(getPauseUsedSeconds(state, at(18, 23, 59))).toBe(60 + 240);
+    expect(getPauseUsedSeconds(state, at(19, 0, 1))).toBe(0);
+  });
+});
@@ -0,0 +1,38 @@
+import { describeChallenge, formatDifficulty, generatePassage, getUnlockChallenge } from '@/utils/unlockChallenge';
+
+describe('generatePassage', () => {
+  it('picks the requested number of words', () => {
+    const values = [0, 0.99, 0.5];
+    let call = 0;
+
+    expect(generatePassage(3, () => values[call++])).toBe('focus season present');
+  });
+
+  it('always has at least one word', () => {
+    expect(generatePassage(0, () => 0)).toBe('focus');
+  });
+});
+
+describe('describeChallenge', () => {
+  it.each([
+    [{ type: 'cooldown', difficulty: 30 }, 'Wait 30s'],
+    [{ type: 'cooldown', difficulty: 300 }, 'Wait 5m'],
+    [{ type: 'typing', difficulty: 15 }, 'Type a 15-word passage exactly'],
+    [{ type: 'confirmations', difficulty: 3 }, 'Confirm 3 times'],
+    [{ type: 'none', difficulty: 1 }, 'Confirm once'],
+  ] as const)('describes %p', (challenge, description) => {
+    expect(describeChallenge(challenge)).toBe(description);
+  });
+});
+
+describe('formatDifficulty', () => {
+  it('has no label without a challenge', () => {
+    expect(formatDifficulty('none', 1)).toBe('');
+  });
+});
+
+describe('getUnlockChallenge', () => {
+  it('falls back to no challenge', () => {
+    expect(getUnlockChallenge(undefined)).toEqual({ type: 'none', difficulty: 1 });
+  });
+});
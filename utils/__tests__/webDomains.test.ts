@@ -0,0 +1,62 @@
+import { addWebDomains, isWebDomain, MAX_WEB_DOMAINS, normalizeWebDomain } from '@/utils/webDomains';
+
+describe('normalizeWebDomain', () => {
+  it.each([
+    ['youtube.com', 'youtube.com'],
+    ['  YouTube.COM ', 'youtube.com'],
+    ['https://www.youtube.com/watch?v=1', 'youtube.com'],
+    ['http://news.example.co.uk:8080/today', 'news.example.co.uk'],
+    ['www.reddit.com/', 'reddit.com'],
+    ['reddit.com.', 'reddit.com'],
+    ['m.facebook.com#feed', 'm.facebook.com'],
+  ])('reduces %p to %p', (input, domain) => {
+    expect(normalizeWebDomain(input)).toBe(domain);
+  });
+
+  it.each(['', 'localhost', 'not a domain', 'youtube', '-bad.com', 'bad-.com', 'https://', '192.168.0.1'])(
+    'rejects %p',
+    (input) => {
+      expect(normalizeWebDomain(input)).toBeNull();
+    }
+  );
+});
+
+describe('addWebDomains', () => {
+  it('splits input on spaces, commas and new lines', () => {
+    expect(addWebDomains([], 'youtube.com, reddit.com\nx.com;tiktok.com')).toEqual({
+      domains: ['youtube.com', 'reddit.com', 'x.com', 'tiktok.com'],
+      invalid: [],
+    });
+  });
+
+  it('skips domains already in the list', () => {
+    expect(addWebDomains(['youtube.com'], 'https://www.youtube.com reddit.com reddit.com')).toEqual({
+      domains: ['youtube.com', 'reddit.com'],
+      invalid: [],
+    });
+  });
+
+  it('reports entries that are not domains', () => {
+    expect(addWebDomains([], 'reddit.com youtube nope')).toEqual({
+      domains: ['reddit.com'],
+      invalid: ['youtube', 'nope'],
+    });
+  });
+
+  it(`keeps at most ${MAX_WEB_DOMAINS} domains`, () => {
+    const full = Array.from({ length: MAX_WEB_DOMAINS - 1 }, (_, index) => `site${index}.com`);
+
+    const { domains } = addWebDomains(full, 'one.com two.com');
+
+    expect(domains).toHaveLength(MAX_WEB_DOMAINS);
+    expect(domains[MAX_WEB_DOMAINS - 1]).toBe('one.com');
+  });
+});
+
+describe('isWebDomain', () => {
+  it('accepts only normalized domains', () => {
+    expect(isWebDomain('reddit.com')).toBe(true);
+    expect(isWebDomain('www.reddit.com')).toBe(false);
+    expect(isWebDomain(42)).toBe(false);
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Open Limit Utilities
+ *
+ * Daily open counting for open limits. Counts belong to a local day and
+ * start again from zero at midnight.
+ *
+ * @module utils/openLimits
+ */
+
+import { OPEN_LIMIT_WINDOW_MINUTES, OpenLimit, OpenLimitResult } from '@/types/blocker';
+import { getDayKey } from './sessionHistory';
+
+/**
+ * Opens used today
+ */
+export function getOpensUsed(limit: OpenLimit, now: number = Date.now()): number {
+  return limit.usage?.day === getDayKey(new Date(now)) ? limit.usage.opens : 0;
+}
+
+/**
+ * Opens left today
+ */
+export function getOpensLeft(limit: OpenLimit, now: number = Date.now()): number {
+  return Math.max(0, limit.maxOpens - getOpensUsed(limit, now));
+}
+
+/**
+ * Whether an open is lifting the shield right now
+ */
+export function isOpenNow(limit: OpenLimit, now: number = Date.now()): boolean {
+  return Boolean(limit.usage?.openUntil && limit.usage.openUntil > now);
+}
+
+/**
+ * Limit after one more open starting at `now`
+ */
+export function addOpen(limit: OpenLimit, now: number = Date.now()): OpenLimit {
+  return {
+    ...limit,
+    usage: {
+      day: getDayKey(new Date(now)),
+      opens: getOpensUsed(limit, now) + 1,
+      openUntil: now + OPEN_LIMIT_WINDOW_MINUTES * 60 * 1000,
+    },
+  };
+}
+
+/**
+ * Limit with today's opens counted by the shield, or the same limit if none are new
+ *
+ * @param counted - Opens the monitor extension counted today
+ */
+export function withCountedOpens(
+  limit: OpenLimit,
+  counted: { opens: number; openUntil?: number },
+  now: number = Date.now()
+): OpenLimit {
+  if (counted.opens <= getOpensUsed(limit, now)) return limit;
+
+  return {
+    ...limit,
+    usage: {
+      day: getDayKey(new Date(now)),
+      opens: counted.opens,
+      openUntil: Math.max(counted.openUntil ?? 0, limit.usage?.openUntil ?? 0) || undefined,
+    },
+  };
+}
+
+/**
+ * Why an open from the app did not lift the shield
+ *
+ * @returns Message to show, or null when the apps were opened
+ */
+export function getOpenResultMessage(result: OpenLimitResult): string | null {
+  switch (result) {
+    case 'opened':
+      return null;
+    case 'already_open':
+      return 'These apps are already open.';
+    case 'no_opens_left':
+      return 'No opens left today. These apps stay blocked until midnight.';
+    case 'blocked_by_schedule':
+      return 'A running schedule blocks these apps right now.';
+    case 'inactive':
+      return 'This open limit is turned off.';
+  }
+}
+
+/**
+ * Limit with counts of past days dropped, or the same limit if nothing changed
+ * An open that runs past midnight is kept until it ends.
+ */
+export function resetOpenUsage(limit: OpenLimit, now: number = Date.now()): OpenLimit {
+  if (!limit.usage || limit.usage.day === getDayKey(new Date(now)) || isOpenNow(limit, now)) {
+    return limit;
+  }
+
+  return { ...limit, usage: undefined };
+}
@@ -0,0 +1,30 @@
+/**
+ * Schedule Window Utilities
+ *
+ * Access to the daily time windows of a schedule,
+ * including schedules saved before windows existed.
+ *
+ * @module utils/scheduleWindows
+ */
+
+import { BlockerSchedule, ScheduleWindow } from '@/types/blocker';
+
+/**
+ * Time windows of a schedule
+ * Schedules without `windows` have one window in their top-level fields.
+ */
+export function getScheduleWindows(schedule: BlockerSchedule): ScheduleWindow[] {
+  if (schedule.windows && schedule.windows.length > 0) {
+    return schedule.windows;
+  }
+
+  return [{ startTime: schedule.startTime, endTime: schedule.endTime, daysOfWeek: schedule.daysOfWeek }];
+}
+
+/**
+ * Check if every window starts on the same days of week
+ */
+export function haveSameDays(windows: ScheduleWindow[]): boolean {
+  const key = (window: ScheduleWindow) => [...window.daysOfWeek].sort().join(',');
+  return windows.every((window) => key(window) === key(windows[0]));
+}
@@ -0,0 +1,440 @@
+/**
+ * Session History Utilities
+ *
+ * Records blocking sessions from state transitions and
+ * aggregates them into per-day, per-week and per-month totals.
+ *
+ * @module utils/sessionHistory
+ */
+
+import {
+  BlockerState,
+  BlockingSession,
+  DAY_NAMES,
+  MONTH_NAMES,
+  SessionEndReason,
+  SessionPause,
+  UnlockAttempt,
+} from '@/types/blocker';
+
+/**
+ * Total for one calendar period
+ */
+export interface PeriodTotal {
+  /** Period start (local midnight) */
+  start: Date;
+  /** Period end, exclusive */
+  end: Date;
+  /** Short label for charts (e.g., "Mon", "12/3", "Jan") */
+  label: string;
+  /** Blocked seconds within the period */
+  seconds: number;
+}
+
+// ============================================================================
+// Recording
+// ============================================================================
+
+/**
+ * Update the session log for a blocker state transition
+ *
+ * Opens a session when blocking starts, adds newly active schedules to the
+ * running session, records pauses and closes it when blocking stops.
+ *
+ * @param sessions - Current session log
+ * @param prev - State before the transition
+ * @param next - State after the transition
+ * @param options - End reason and time of the transition
+ * @returns Updated log and next state with `currentSessionId` set
+ *
+ * @example
+ * ```ts
+ * const { sessions, state } = applySessionTransition(log, prevState, nextState, {
+ *   endReason: 'stopped',
+ * });
+ * ```
+ */
+export function applySessionTransition(
+  sessions: BlockingSession[],
+  prev: BlockerState,
+  next: BlockerState,
+  options: { endReason?: SessionEndReason; at?: number } = {}
+): { sessions: BlockingSession[]; state: BlockerState; changed: boolean } {
+  const at = options.at ?? Date.now();
+  const activeIds = next.activeScheduleIds || [];
+
+  // Blocking started
+  if (!prev.isBlocking && next.isBlocking) {
+    const session: BlockingSession = {
+      id: `session_${at}`,
+      startedAt: next.startedAt ?? at,
+      scheduleIds: [...activeIds],
+      trigger: activeIds.length === 0 && next.quickSession ? 'quick' : next.isAutomatic ? 'automatic' : 'manual',
+    };
+
+    return {
+      sessions: [...sessions, session],
+      state: { ...next, currentSessionId: session.id },
+      changed: true,
+    };
+  }
+
+  const currentId = prev.currentSessionId;
+  const current = currentId ? sessions.find((s) => s.id === currentId) : undefined;
+
+  // Blocking stopped
+  if (prev.isBlocking && !next.isBlocking) {
+    const state = { ...next, currentSessionId: undefined };
+    if (!current) {
+      return { sessions, state, changed: false };
+    }
+
+    const endedAt = Math.max(at, current.startedAt);
+
+    return {
+      sessions: sessions.map((s) =>
+        s.id === current.id
+          ? {
+              ...s,
+              endedAt,
+              endReason: options.endReason ?? 'stopped',
+              pauses: closePause(s.pauses, endedAt),
+            }
+          : s
+      ),
+      state,
+      changed: true,
+    };
+  }
+
+  // Still blocking - record schedules that joined the session and pause changes
+  if (next.isBlocking && current) {
+    const joined = activeIds.filter((id) => !current.scheduleIds.includes(id));
+    let pauses = current.pauses;
+
+    if (!prev.isPaused && next.isPaused) {
+      pauses = [...(pauses || []), { startedAt: next.pausedAt ?? at }];
+    } else if (prev.isPaused && !next.isPaused) {
+      pauses = closePause(pauses, next.startedAt ?? at);
+    }
+
+    if (joined.length > 0 || pauses !== current.pauses) {
+      return {
+        sessions: sessions.map((s) =>
+          s.id === current.id ? { ...s, scheduleIds: [...s.scheduleIds, ...joined], pauses } : s
+        ),
+        state: { ...next, currentSessionId: current.id },
+        changed: true,
+      };
+    }
+  }
+
+  return { sessions, state: { ...next, currentSessionId: next.isBlocking ? currentId : undefined }, changed: false };
+}
+
+/**
+ * End the open pause of a session, if any
+ */
+function closePause(pauses: SessionPause[] | undefined, at: number): SessionPause[] | undefined {
+  if (!pauses?.some((pause) => pause.endedAt === undefined)) return pauses;
+
+  return pauses.map((pause) =>
+    pause.endedAt === undefined ? { ...pause, endedAt: Math.max(at, pause.startedAt) } : pause
+  );
+}
+
+/**
+ * Append an unlock attempt to a session
+ *
+ * @returns Updated log, unchanged if the session does not exist
+ */
+export function addUnlockAttempt(
+  sessions: BlockingSession[],
+  sessionId: string,
+  attempt: UnlockAttempt
+): BlockingSession[] {
+  return sessions.map((s) =>
+    s.id === sessionId ? { ...s, unlockAttempts: [...(s.unlockAttempts || []), attempt] } : s
+  );
+}
+
+// ============================================================================
+// Aggregation
+// ============================================================================
+
+function getOverlapMs(start: number, end: number, from: number, to: number): number {
+  return Math.max(0, Math.min(end, to) - Math.max(start, from));
+}
+
+/**
+ * Blocked seconds of a session that fall within [from, to)
+ * Sessions still in progress are counted up to `now`; pauses are excluded.
+ */
+export function getSessionSecondsBetween(
+  session: BlockingSession,
+  from: Date,
+  to: Date,
+  now: number = Date.now()
+): number {
+  const sessionEnd = session.endedAt ?? now;
+  const start = Math.max(session.startedAt, from.getTime());
+  const end = Math.min(sessionEnd, to.getTime());
+  if (end <= start) return 0;
+
+  const pausedMs = (session.pauses || []).reduce(
+    (total, pause) => total + getOverlapMs(pause.startedAt, pause.endedAt ?? sessionEnd, start, end),
+    0
+  );
+
+  return Math.floor(Math.max(0, end - start - pausedMs) / 1000);
+}
+
+/**
+ * Total blocked seconds of all sessions within [from, to)
+ */
+export function getTotalSecondsBetween(
+  sessions: BlockingSession[],
+  from: Date,
+  to: Date,
+  now: number = Date.now()
+): number {
+  return sessions.reduce((total, session) => total + getSessionSecondsBetween(session, from, to, now), 0);
+}
+
+function buildTotals(
+  sessions: BlockingSession[],
+  periods: { start: Date; end: Date; label: string }[],
+  now: number
+): PeriodTotal[] {
+  return periods.map((period) => ({
+    ...period,
+    seconds: getTotalSecondsBetween(sessions, period.start, period.end, now),
+  }));
+}
+
+/**
+ * Per-day totals for the last `count` days, oldest first, ending today
+ * Days are local calendar days, so DST days are 23 or 25 hours long.
+ */
+export function getDailyTotals(sessions: BlockingSession[], count: number, now: number = Date.now()): PeriodTotal[] {
+  const today = new Date(now);
+  const periods = Array.from({ length: count }, (_, index) => {
+    const offset = index - count + 1;
+    const start = new Date(today.getFullYear(), today.getMonth(), today.getDate() + offset);
+    const end = new Date(today.getFullYear(), today.getMonth(), today.getDate() + offset + 1);
+    return { start, end, label: DAY_NAMES[start.getDay()] };
+  });
+
+  return buildTotals(sessions, periods, now);
+}
+
+/**
+ * Per-week totals for the last `count` weeks, oldest first, ending this week
+ * Weeks start on Sunday, matching `daysOfWeek` numbering.
+ */
+export function getWeeklyTotals(sessions: BlockingSession[], count: number, now: number = Date.now()): PeriodTotal[] {
+  const today = new Date(now);
+  const weekStartDate = today.getDate() - today.getDay();
+  const periods = Array.from({ length: count }, (_, index) => {
+    const offset = (index - count + 1) * 7;
+    const start = new Date(today.getFullYear(), today.getMonth(), weekStartDate + offset);
+    const end = new Date(today.getFullYear(), today.getMonth(), weekStartDate + offset + 7);
+    return { start, end, label: `${start.getMonth() + 1}/${start.getDate()}` };
+  });
+
+  return buildTotals(sessions, periods, now);
+}
+
+/**
+ * Per-month totals for the last `count` months, oldest first, ending this month
+ */
+export function getMonthlyTotals(sessions: BlockingSession[], count: number, now: number = Date.now()): PeriodTotal[] {
+  const today = new Date(now);
+  const periods = Array.from({ length: count }, (_, index) => {
+    const offset = index - count + 1;
+    const start = new Date(today.getFullYear(), today.getMonth() + offset, 1);
+    const end = new Date(today.getFullYear(), today.getMonth() + offset + 1, 1);
+    return { start, end, label: MONTH_NAMES[start.getMonth()] };
+  });
+
+  return buildTotals(sessions, periods, now);
+}
+
+/**
+ * Sessions that overlap [from, to)
+ */
+export function getSessionsBetween(
+  sessions: BlockingSession[],
+  from: Date,
+  to: Date,
+  now: number = Date.now()
+): BlockingSession[] {
+  return sessions.filter(
+    (session) => session.startedAt < to.getTime() && (session.endedAt ?? now) > from.getTime()
+  );
+}
+
+/**
+ * Unlock challenges abandoned within [from, to) - urges the user resisted
+ */
+export function countUrgesResisted(sessions: BlockingSession[], from: Date, to: Date): number {
+  return sessions.reduce(
+    (count, session) =>
+      count +
+      (session.unlockAttempts || []).filter(
+        (attempt) =>
+          attempt.outcome === 'gave_up' && attempt.at >= from.getTime() && attempt.at < to.getTime()
+      ).length,
+    0
+  );
+}
+
+// ============================================================================
+// Streaks
+// ============================================================================
+
+/**
+ * Streak and goal statistics
+ */
+export interface StreakStats {
+  /** Consecutive days meeting the goal, ending today (or yesterday if today is not met yet) */
+  currentStreak: number;
+  /** Longest run of consecutive days meeting the goal */
+  longestStreak: number;
+  /** Number of days the goal was met */
+  goalMetDays: number;
+  /** Seconds blocked today */
+  todaySeconds: number;
+  /** Daily goal in seconds */
+  goalSeconds: number;
+  /** Whether today's goal is already met */
+  isTodayGoalMet: boolean;
+}
+
+/**
+ * Local calendar day key (YYYY-MM-DD)
+ */
+export function getDayKey(date: Date): string {
+  const month = (date.getMonth() + 1).toString().padStart(2, '0');
+  const day = date.getDate().toString().padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Local midnight of a day key (YYYY-MM-DD)
+ */
+export function parseDayKey(key: string): Date {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+/**
+ * Blocked seconds per local calendar day
+ * Sessions crossing midnight are split at each local midnight.
+ */
+export function getSecondsByDay(sessions: BlockingSession[], now: number = Date.now()): Map<string, number> {
+  const totals = new Map<string, number>();
+
+  for (const session of sessions) {
+    const end = session.endedAt ?? now;
+    let cursor = session.startedAt;
+
+    while (cursor < end) {
+      const cursorDate = new Date(cursor);
+      const dayStart = new Date(cursorDate.getFullYear(), cursorDate.getMonth(), cursorDate.getDate());
+      const nextMidnight = new Date(
+        cursorDate.getFullYear(),
+        cursorDate.getMonth(),
+        cursorDate.getDate() + 1
+      );
+      const key = getDayKey(cursorDate);
+
+      totals.set(key, (totals.get(key) ?? 0) + getSessionSecondsBetween(session, dayStart, nextMidnight, now));
+      cursor = nextMidnight.getTime();
+    }
+  }
+
+  return totals;
+}
+
+/**
+ * Compute streaks over recorded blocking time
+ *
+ * A day counts toward a streak when its blocked time reaches the goal.
+ * Days without any blocking break the streak. Today does not break the
+ * current streak until it is over. Days are local calendar days, so
+ * results follow the device time zone.
+ *
+ * @param sessions - Session log
+ * @param goalMinutes - Daily focus goal in minutes
+ * @param now - Reference time
+ */
+export function computeStreaks(
+  sessions: BlockingSession[],
+  goalMinutes: number,
+  now: number = Date.now()
+): StreakStats {
+  const goalSeconds = Math.max(goalMinutes, 1) * 60;
+  const secondsByDay = getSecondsByDay(sessions, now);
+  const today = new Date(now);
+  const todaySeconds = secondsByDay.get(getDayKey(today)) ?? 0;
+  const isTodayGoalMet = todaySeconds >= goalSeconds;
+
+  const isMet = (offset: number) => {
+    const day = new Date(today.getFullYear(), today.getMonth(), today.getDate() + offset);
+    return (secondsByDay.get(getDayKey(day)) ?? 0) >= goalSeconds;
+  };
+
+  // Current streak: walk back from today (or yesterday if today is not met yet)
+  let currentStreak = 0;
+  for (let offset = isTodayGoalMet ? 0 : -1; isMet(offset); offset--) {
+    currentStreak++;
+  }
+
+  // Longest streak and goal days across the whole history
+  const metKeys = [...secondsByDay.entries()]
+    .filter(([, seconds]) => seconds >= goalSeconds)
+    .map(([key]) => key)
+    .sort();
+
+  let longestStreak = 0;
+  let run = 0;
+  let previousKey: string | undefined;
+
+  for (const key of metKeys) {
+    const date = parseDayKey(key);
+    const dayBeforeKey = getDayKey(new Date(date.getFullYear(), date.getMonth(), date.getDate() - 1));
+
+    run = dayBeforeKey === previousKey ? run + 1 : 1;
+    longestStreak = Math.max(longestStreak, run);
+    previousKey = key;
+  }
+
+  return {
+    currentStreak,
+    longestStreak: Math.max(longestStreak, currentStreak),
+    goalMetDays: metKeys.length,
+    todaySeconds,
+    goalSeconds,
+    isTodayGoalMet,
+  };
+}
+
+// ============================================================================
+// Pauses
+// ============================================================================
+
+/**
+ * Pause seconds used today, including a pause in progress
+ * Pauses count toward the day they started on.
+ */
+export function getPauseUsedSeconds(state: BlockerState, now: number = Date.now()): number {
+  const today = getDayKey(new Date(now));
+  const used = state.pauseUsage?.day === today ? state.pauseUsage.seconds : 0;
+  const running =
+    state.isPaused && state.pausedAt && getDayKey(new Date(state.pausedAt)) === today
+      ? Math.max(0, Math.floor((now - state.pausedAt) / 1000))
+      : 0;
+
+  return used + running;
+}
@@ -0,0 +1,64 @@
+/**
+ * Shield Appearance Utilities
+ *
+ * Text and color helpers shared by the shield preview
+ * and the configuration written for the shield extension.
+ *
+ * @module utils/shieldAppearance
+ */
+
+import { ShieldAppearance } from '@/types/blocker';
+
+/** Placeholder replaced with the blocked app's or website's name */
+export const SHIELD_APP_NAME_PLACEHOLDER = '{app}';
+
+const HEX_COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+
+/**
+ * Whether a value is a #RRGGBB color
+ */
+export function isHexColor(value: unknown): value is string {
+  return typeof value === 'string' && HEX_COLOR_PATTERN.test(value);
+}
+
+/**
+ * Split a #RRGGBB color into 0-255 channels
+ */
+export function hexToRgb(hex: string): { red: number; green: number; blue: number } {
+  return {
+    red: parseInt(hex.slice(1, 3), 16),
+    green: parseInt(hex.slice(3, 5), 16),
+    blue: parseInt(hex.slice(5, 7), 16),
+  };
+}
+
+/**
+ * Quote shown for a rotation step
+ *
+ * @param rotation - How many times blocking has started
+ * @returns Quote, or null if the appearance has none
+ */
+export function getShieldQuote(appearance: ShieldAppearance, rotation: number): string | null {
+  const quotes = appearance.quotes.filter((quote) => quote.trim().length > 0);
+  if (quotes.length === 0) return null;
+
+  return quotes[rotation % quotes.length];
+}
+
+/**
+ * Replace the app name placeholder in a shield text
+ */
+export function fillShieldAppName(text: string, appName: string): string {
+  return text.split(SHIELD_APP_NAME_PLACEHOLDER).join(appName);
+}
+
+/**
+ * Subtitle with the current quote appended
+ */
+export function getShieldSubtitle(appearance: ShieldAppearance, rotation: number, appName: string): string {
+  const quote = getShieldQuote(appearance, rotation);
+  const subtitle = fillShieldAppName(appearance.subtitle, appName);
+
+  if (!quote) return subtitle;
+  return subtitle ? `${subtitle}\n\n“${quote}”` : `“${quote}”`;
+}
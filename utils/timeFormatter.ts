@@ -6,6 +6,10 @@
  * @module utils/timeFormatter
  */
 
+import { BlockerSchedule, DAY_NAMES, MONTH_NAMES } from '@/types/blocker';
+import { getScheduleWindows, haveSameDays } from './scheduleWindows';
+import { parseDayKey } from './sessionHistory';
+
 /**
  * Format seconds into HH:MM:SS string
  *
@@ -104,3 +108,120 @@ export function parseTime(timeString: string): { hours: number; minutes: number
 export function formatTimeString(hours: number, minutes: number): string {
   return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}`;
 }
+
+/**
+ * Format a remaining duration for countdowns
+ *
+ * @param seconds - Seconds remaining
+ * @returns Countdown string (e.g., "2h 14m", "38m", "<1m" or "3d 4h")
+ *
+ * @example
+ * ```ts
+ * formatCountdown(8040);   // "2h 14m"
+ * formatCountdown(30);     // "<1m"
+ * formatCountdown(273600); // "3d 4h"
+ * ```
+ */
+export function formatCountdown(seconds: number): string {
+  if (seconds < 60) {
+    return '<1m';
+  }
+
+  const days = Math.floor(seconds / 86400);
+  if (days > 0) {
+    const hours = Math.floor((seconds % 86400) / 3600);
+    return `${days}d ${hours}h`;
+  }
+
+  return formatTimeShort(seconds);
+}
+
+/**
+ * Format a date as a day label and HH:MM time relative to now
+ *
+ * @param date - Date to format
+ * @param now - Reference time (default: current time)
+ * @returns Formatted string (e.g., "today at 09:00", "tomorrow at 22:00", "Mon at 09:00", "Dec 25 at 09:00")
+ */
+export function formatDayAndTime(date: Date, now: Date = new Date()): string {
+  const time = formatTimeString(date.getHours(), date.getMinutes());
+  const startOfToday = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const startOfDate = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  const dayDiff = Math.round((startOfDate.getTime() - startOfToday.getTime()) / 86400000);
+
+  if (dayDiff === 0) {
+    return `today at ${time}`;
+  }
+  if (dayDiff === 1) {
+    return `tomorrow at ${time}`;
+  }
+
+  if (dayDiff > 1 && dayDiff < 7) {
+    return `${DAY_NAMES[date.getDay()]} at ${time}`;
+  }
+
+  return `${formatShortDate(date, now)} at ${time}`;
+}
+
+/**
+ * Format a calendar date, adding the year when it is not the current one
+ *
+ * @param date - Date to format
+ * @param now - Reference time (default: current time)
+ * @returns Formatted string (e.g., "Dec 25", "Jan 3, 2027")
+ */
+export function formatShortDate(date: Date, now: Date = new Date()): string {
+  const label = `${MONTH_NAMES[date.getMonth()]} ${date.getDate()}`;
+  return date.getFullYear() === now.getFullYear() ? label : `${label}, ${date.getFullYear()}`;
+}
+
+/**
+ * Describe the time windows of a schedule
+ *
+ * @param schedule - Schedule to describe
+ * @returns Formatted string (e.g., "09:00 - 17:00", "09:00 - 12:00, 14:00 - 18:00")
+ */
+export function formatScheduleTimes(schedule: BlockerSchedule): string {
+  return getScheduleWindows(schedule)
+    .map((window) => `${window.startTime} - ${window.endTime}`)
+    .join(', ');
+}
+
+/**
+ * Describe the days a schedule runs on
+ * Windows on different days are listed by start time.
+ *
+ * @param schedule - Schedule to describe
+ * @returns Formatted string (e.g., "Mon, Wed", "Dec 25", "Mon at 09:00 · Sat at 10:00",
+ *   "Mon, Wed · Dec 1 - Dec 20 · skips 1 date")
+ */
+export function formatScheduleDays(schedule: BlockerSchedule): string {
+  const parts: string[] = [];
+  const formatDays = (days: number[]) => [...days].sort().map((d) => DAY_NAMES[d]).join(', ');
+
+  if (schedule.date) {
+    parts.push(formatShortDate(parseDayKey(schedule.date)));
+  } else {
+    const windows = getScheduleWindows(schedule);
+
+    if (haveSameDays(windows)) {
+      if (windows[0].daysOfWeek.length > 0) {
+        parts.push(formatDays(windows[0].daysOfWeek));
+      }
+    } else {
+      parts.push(...windows.map((window) => `${formatDays(window.daysOfWeek)} at ${window.startTime}`));
+    }
+    if (schedule.dateRange) {
+      parts.push(
+        `${formatShortDate(parseDayKey(schedule.dateRange.start))} - ${formatShortDate(parseDayKey(schedule.dateRange.end))}`
+      );
+    }
+  }
+
+  const skipped = schedule.exceptionDates?.length ?? 0;
+  if (skipped > 0) {
+    parts.push(`skips ${skipped} ${skipped === 1 ? 'date' : 'dates'}`);
+  }
+
+  return parts.join(' · ');
+}
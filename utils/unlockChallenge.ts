@@ -0,0 +1,97 @@
+/**
+ * Unlock Challenge Utilities
+ *
+ * Difficulty presets, labels and passage generation
+ * for the friction shown before stopping a schedule.
+ *
+ * @module utils/unlockChallenge
+ */
+
+import { UnlockChallenge, UnlockChallengeType } from '@/types/blocker';
+import { formatCountdown } from './timeFormatter';
+
+/** Challenge used when a schedule has none configured */
+export const DEFAULT_UNLOCK_CHALLENGE: UnlockChallenge = { type: 'none', difficulty: 1 };
+
+/** Challenge types in display order */
+export const UNLOCK_CHALLENGE_TYPES: UnlockChallengeType[] = ['none', 'cooldown', 'typing', 'confirmations'];
+
+/** Display names for challenge types */
+export const UNLOCK_CHALLENGE_LABELS: Record<UnlockChallengeType, string> = {
+  none: 'None',
+  cooldown: 'Cooldown',
+  typing: 'Typing',
+  confirmations: 'Confirm',
+};
+
+/** Difficulty choices per challenge type, easiest first */
+export const UNLOCK_DIFFICULTY_OPTIONS: Record<UnlockChallengeType, number[]> = {
+  none: [1],
+  cooldown: [30, 60, 300],
+  typing: [15, 30, 60],
+  confirmations: [2, 3, 5],
+};
+
+const PASSAGE_WORDS = [
+  'focus', 'quiet', 'morning', 'river', 'patience', 'window', 'steady', 'garden',
+  'breath', 'paper', 'mountain', 'slowly', 'attention', 'evening', 'simple', 'journey',
+  'present', 'stone', 'careful', 'light', 'balance', 'notebook', 'walking', 'silence',
+  'honest', 'craft', 'ocean', 'moment', 'gentle', 'practice', 'harbor', 'season',
+];
+
+/**
+ * Challenge for a schedule, falling back to the default
+ */
+export function getUnlockChallenge(challenge: UnlockChallenge | undefined): UnlockChallenge {
+  return challenge ?? DEFAULT_UNLOCK_CHALLENGE;
+}
+
+/**
+ * Short label for a difficulty value (e.g., "1m", "30 words", "3x")
+ */
+export function formatDifficulty(type: UnlockChallengeType, difficulty: number): string {
+  switch (type) {
+    case 'cooldown':
+      return difficulty < 60 ? `${difficulty}s` : formatCountdown(difficulty);
+    case 'typing':
+      return `${difficulty} words`;
+    case 'confirmations':
+      return `${difficulty}x`;
+    default:
+      return '';
+  }
+}
+
+/**
+ * Human-readable description of a challenge
+ *
+ * @example
+ * ```ts
+ * describeChallenge({ type: 'cooldown', difficulty: 60 }); // "Wait 1m"
+ * ```
+ */
+export function describeChallenge(challenge: UnlockChallenge): string {
+  switch (challenge.type) {
+    case 'cooldown':
+      return `Wait ${formatDifficulty('cooldown', challenge.difficulty)}`;
+    case 'typing':
+      return `Type a ${challenge.difficulty}-word passage exactly`;
+    case 'confirmations':
+      return `Confirm ${challenge.difficulty} times`;
+    default:
+      return 'Confirm once';
+  }
+}
+
+/**
+ * Generate a random passage to type
+ *
+ * @param wordCount - Number of words
+ * @param random - Random source in [0, 1)
+ */
+export function generatePassage(wordCount: number, random: () => number = Math.random): string {
+  return Array.from(
+    { length: Math.max(wordCount, 1) },
+    () => PASSAGE_WORDS[Math.floor(random() * PASSAGE_WORDS.length)]
+  ).join(' ');
+}
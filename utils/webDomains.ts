@@ -0,0 +1,63 @@
+/**
+ * Web Domain Utilities
+ *
+ * Normalization and validation for web domains typed by the user.
+ *
+ * @module utils/webDomains
+ */
+
+/** Most domains one schedule can hold */
+export const MAX_WEB_DOMAINS = 50;
+
+const DOMAIN_PATTERN = /^(?=.{1,253}$)([a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z][a-z0-9-]{0,61}[a-z0-9]$/;
+
+/**
+ * Reduce a typed address to its host name
+ * Accepts full URLs ("https://www.youtube.com/watch") as well as bare domains.
+ *
+ * @returns Lowercase domain without `www.`, or null if it is not a valid domain
+ */
+export function normalizeWebDomain(input: string): string | null {
+  const domain = input
+    .trim()
+    .toLowerCase()
+    .replace(/^[a-z][a-z0-9+.-]*:\/\//, '')
+    .replace(/[/?#].*$/, '')
+    .replace(/:\d+$/, '')
+    .replace(/\.$/, '')
+    .replace(/^www\./, '');
+
+  return DOMAIN_PATTERN.test(domain) ? domain : null;
+}
+
+/**
+ * Add typed domains to a list
+ * Input may hold several domains separated by spaces, commas or new lines.
+ *
+ * @returns Updated list without duplicates, and entries that are not domains
+ */
+export function addWebDomains(
+  domains: string[],
+  input: string
+): { domains: string[]; invalid: string[] } {
+  const result = [...domains];
+  const invalid: string[] = [];
+
+  for (const entry of input.split(/[\s,;]+/).filter(Boolean)) {
+    const domain = normalizeWebDomain(entry);
+    if (!domain) {
+      invalid.push(entry);
+    } else if (!result.includes(domain) && result.length < MAX_WEB_DOMAINS) {
+      result.push(domain);
+    }
+  }
+
+  return { domains: result, invalid };
+}
+
+/**
+ * Whether a stored domain is already in normalized form
+ */
+export function isWebDomain(value: unknown): value is string {
+  return typeof value === 'string' && normalizeWebDomain(value) === value;
+}